@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Platform,
   SafeAreaView,
@@ -17,18 +17,32 @@ import ErrorBoundary from './src/ErrorBoundary';
 import EventSheet from './src/EventSheet';
 import LiveTile from './src/LiveTile';
 import NotificationLine from './src/NotificationLine';
+import QuietModeBanner from './src/QuietModeBanner';
 import SettingsBlock from './src/SettingsBlock';
+import TickerNotificationControls from './src/TickerNotificationControls';
 import { useAppInit } from './src/hooks/useAppInit';
 import { useAppDispatch, useAppSelector } from './src/hooks/useRedux';
-import store from './src/store';
+import {
+  getQuietUntil,
+  QuietDuration,
+} from './src/services/deliveryPolicyService';
+import { EVENT_TYPES } from './src/services/eventClassifierService';
+import {
+  getCompanyName,
+  resolveSecurity,
+} from './src/services/securitiesMasterService';
+import { TICKER_MODE_LABELS } from './src/services/subscriptionService';
+import store, { storeHydrated } from './src/store';
 import { markEventRead } from './src/store/eventsSlice';
 import { Notification } from './src/store/notificationsSlice';
 import {
   selectAllEvents,
+  selectDeferredNotifications,
   selectEventsError,
   selectIsInitialLoading,
   selectNotifications,
   selectSettings,
+  selectTickerOverrides,
   selectTickerStatusMap,
   selectWatchlistTickers,
 } from './src/store/selectors';
@@ -36,9 +50,28 @@ import {
   setFollowUpsOnly,
   setHighImmediate,
   setQuietMode,
+  setTickerEventTypes,
+  setTickerNotificationMode,
+  startQuietPeriod,
+  subscribeThread,
+  unsubscribeThread,
 } from './src/store/settingsSlice';
 import { addTicker, removeTicker } from './src/store/watchlistSlice';
-import { PersonalizedEvent } from './src/types/events';
+import {
+  PersonalizedEvent,
+  TickerNotificationOverride,
+} from './src/types/events';
+import { normalizeTickerCode } from './src/utils/tickerCode';
+
+/**
+ * Convert member event IDs to 1-based positions in the EventSheet
+ * source list (IDs no longer in the cluster are skipped)
+ */
+function toSourceNumbers(event: PersonalizedEvent, eventIds: string[]) {
+  return eventIds
+    .map((id) => event.events.findIndex((e) => e.id === id) + 1)
+    .filter((n) => n > 0);
+}
 
 /**
  * Screen component that allows the user to manage their watchlist of ticker
@@ -61,9 +94,12 @@ function HomeScreen() {
   const loading = useAppSelector(selectIsInitialLoading);
   const error = useAppSelector(selectEventsError);
   const settings = useAppSelector(selectSettings);
+  const tickerOverrides = useAppSelector(selectTickerOverrides);
+  const deferred = useAppSelector(selectDeferredNotifications);
 
   const dispatch = useAppDispatch();
   const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
 
   // Currently selected event for displaying an EventSheet overlay
   const [selectedEvent, setSelectedEvent] = useState<PersonalizedEvent | null>(
@@ -72,17 +108,34 @@ function HomeScreen() {
   const [selectedNotification, setSelectedNotification] =
     useState<Notification | null>(null);
 
+  // Watchlist row whose notification settings are expanded
+  const [expandedTicker, setExpandedTicker] = useState<string | null>(null);
+
   // Debug screen visibility (long-press on title to open)
   const [debugVisible, setDebugVisible] = useState(false);
 
   const handleAdd = () => {
     const trimmed = input.trim();
     if (trimmed) {
-      dispatch(addTicker(trimmed.toUpperCase()));
+      // Accept company names/aliases as well as codes (7203, 130A)
+      const security = resolveSecurity(trimmed);
+      const code = security ? security.code : normalizeTickerCode(trimmed);
+      if (!code) {
+        setInputError(
+          '証券コード（例: 7203, 130A）または会社名を入力してください',
+        );
+        return;
+      }
+      dispatch(addTicker(code));
       setInput('');
+      setInputError(null);
     }
   };
 
+  const handleQuiet = (duration: QuietDuration) => {
+    dispatch(startQuietPeriod(getQuietUntil(duration).toISOString()));
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor={COLORS.background} />
@@ -90,6 +143,14 @@ function HomeScreen() {
         contentContainerStyle={{ paddingBottom: 32 }}
         keyboardShouldPersistTaps="handled"
       >
+        {settings.quietMode && (
+          <QuietModeBanner
+            quietUntil={settings.quietUntil}
+            deferredCount={deferred.length}
+            onResume={() => dispatch(setQuietMode(false))}
+          />
+        )}
+
         {/* Watchlist Section */}
         <TouchableOpacity
           onLongPress={() => setDebugVisible(true)}
@@ -102,7 +163,7 @@ function HomeScreen() {
             style={styles.input}
             value={input}
             onChangeText={setInput}
-            placeholder="ティッカーを入力"
+            placeholder="コードまたは会社名を入力"
             placeholderTextColor={COLORS.secondary}
             autoCapitalize="characters"
             returnKeyType="done"
@@ -116,17 +177,63 @@ function HomeScreen() {
             <Text style={styles.addButtonText}>追加</Text>
           </TouchableOpacity>
         </View>
-        {tickers.map((t) => (
-          <View key={t} style={styles.tickerItem}>
-            <Text style={styles.tickerText}>{t}</Text>
-            <TouchableOpacity
-              accessibilityLabel={`Remove ${t}`}
-              onPress={() => dispatch(removeTicker(t))}
-            >
-              <Text style={styles.removeButton}>×</Text>
-            </TouchableOpacity>
-          </View>
-        ))}
+        {inputError && <Text style={styles.inputErrorText}>{inputError}</Text>}
+        {tickers.map((t) => {
+          const override: TickerNotificationOverride = tickerOverrides[t] || {
+            mode: 'default',
+          };
+          const filtered = (override.eventTypes || []).length > 0;
+          return (
+            <View key={t} style={styles.tickerCard}>
+              <View style={styles.tickerItem}>
+                <Text style={styles.tickerText}>
+                  {t}
+                  {getCompanyName(t) && (
+                    <Text style={styles.companyText}> {getCompanyName(t)}</Text>
+                  )}
+                </Text>
+                <View style={styles.tickerActions}>
+                  <TouchableOpacity
+                    accessibilityLabel={`Notification settings for ${t}`}
+                    onPress={() =>
+                      setExpandedTicker(expandedTicker === t ? null : t)
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.modeText,
+                        (override.mode !== 'default' || filtered) &&
+                          styles.modeTextActive,
+                      ]}
+                    >
+                      {TICKER_MODE_LABELS[override.mode]}
+                      {filtered ? '・種別' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    accessibilityLabel={`Remove ${t}`}
+                    onPress={() => dispatch(removeTicker(t))}
+                  >
+                    <Text style={styles.removeButton}>×</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+              {expandedTicker === t && (
+                <TickerNotificationControls
+                  ticker={t}
+                  override={override}
+                  eventTypes={EVENT_TYPES}
+                  onModeChange={(mode) =>
+                    dispatch(setTickerNotificationMode({ ticker: t, mode }))
+                  }
+                  onEventTypesChange={(eventTypes) =>
+                    dispatch(setTickerEventTypes({ ticker: t, eventTypes }))
+                  }
+                />
+              )}
+            </View>
+          );
+        })}
 
         {/* Live Tiles Section */}
         {tickers.length > 0 && (
@@ -179,7 +286,9 @@ function HomeScreen() {
               >
                 <NotificationLine
                   ticker={event.primaryTicker}
-                  company={event.primaryTicker}
+                  company={
+                    getCompanyName(event.primaryTicker) || event.primaryTicker
+                  }
                   headline={event.title}
                   importance={event.personalImpact}
                   source={event.sources[0]}
@@ -201,7 +310,7 @@ function HomeScreen() {
             >
               <NotificationLine
                 ticker={n.ticker}
-                company={n.ticker}
+                company={getCompanyName(n.ticker) || n.ticker}
                 headline={n.message}
                 importance={n.importance}
                 source="通知"
@@ -246,13 +355,48 @@ function HomeScreen() {
               }))
             : []
         }
+        figures={
+          selectedEvent?.events.find((e) => e.figureChanges)?.figureChanges
+        }
+        facts={selectedEvent?.facts?.map((fact) => ({
+          text: fact.text,
+          sourceNumbers: toSourceNumbers(selectedEvent, fact.eventIds),
+        }))}
+        contradictions={selectedEvent?.contradictions?.map((item) => ({
+          topic: item.topic,
+          description: item.description,
+          sourceNumbers: toSourceNumbers(selectedEvent, item.eventIds),
+        }))}
+        reasoning={selectedEvent?.reasoning}
+        counterReasoning={selectedEvent?.counterReasoning}
         onClose={() => setSelectedEvent(null)}
         onFollowUpsOnly={() => {
-          dispatch(setFollowUpsOnly(true));
+          if (selectedEvent) {
+            dispatch(
+              subscribeThread(
+                selectedEvent.threadId || selectedEvent.clusterId,
+              ),
+            );
+          }
           setSelectedEvent(null);
         }}
-        onQuiet={() => {
-          dispatch(setQuietMode(true));
+        onStopFollowUps={
+          selectedEvent &&
+          settings.subscribedThreadIds.includes(
+            selectedEvent.threadId || selectedEvent.clusterId,
+          )
+            ? () => {
+                dispatch(
+                  unsubscribeThread(
+                    selectedEvent.threadId || selectedEvent.clusterId,
+                  ),
+                );
+                setSelectedEvent(null);
+              }
+            : undefined
+        }
+        onQuiet={(duration) => {
+          handleQuiet(duration);
           setSelectedEvent(null);
         }}
       />
@@ -264,11 +408,31 @@ function HomeScreen() {
         sources={[{ name: '出典', url: 'https://example.com' }]}
         onClose={() => setSelectedNotification(null)}
         onFollowUpsOnly={() => {
-          dispatch(setFollowUpsOnly(true));
+          if (selectedNotification?.threadId) {
+            dispatch(subscribeThread(selectedNotification.threadId));
+          } else if (selectedNotification) {
+            dispatch(
+              setTickerNotificationMode({
+                ticker: selectedNotification.ticker,
+                mode: 'followUpsOnly',
+              }),
+            );
+          }
           setSelectedNotification(null);
         }}
-        onQuiet={() => {
-          dispatch(setQuietMode(true));
+        onStopFollowUps={
+          selectedNotification?.threadId &&
+          settings.subscribedThreadIds.includes(selectedNotification.threadId)
+            ? () => {
+                if (selectedNotification.threadId) {
+                  dispatch(unsubscribeThread(selectedNotification.threadId));
+                }
+                setSelectedNotification(null);
+              }
+            : undefined
+        }
+        onQuiet={(duration) => {
+          handleQuiet(duration);
           setSelectedNotification(null);
         }}
       />
@@ -283,10 +447,17 @@ function HomeScreen() {
 }
 
 export default function App() {
+  // Render (and start fetching) only once persisted state is restored, so
+  // HYDRATE never overwrites changes made in the meantime
+  const [hydrated, setHydrated] = useState(false);
+  useEffect(() => {
+    storeHydrated.then(() => setHydrated(true));
+  }, []);
+
   return (
     <Provider store={store}>
       <ErrorBoundary>
-        <HomeScreen />
+        {hydrated ? <HomeScreen /> : <View style={styles.container} />}
       </ErrorBoundary>
     </Provider>
   );
@@ -314,6 +485,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  companyText: {
+    color: COLORS.secondary,
+    fontSize: 14,
+  },
   container: {
     backgroundColor: COLORS.background,
     flex: 1,
@@ -339,6 +514,13 @@ const styles = StyleSheet.create({
     color: '#fca5a5',
     fontSize: 14,
   },
+  modeText: {
+    color: COLORS.secondary,
+    fontSize: 13,
+  },
+  modeTextActive: {
+    color: COLORS.accent,
+  },
   loadingContainer: {
     alignItems: 'center',
     marginVertical: 24,
@@ -370,21 +552,33 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     paddingHorizontal: 8,
   },
+  inputErrorText: {
+    color: '#fca5a5',
+    fontSize: 13,
+    marginBottom: 8,
+  },
   removeButton: {
     color: COLORS.accent,
     fontSize: 20,
     fontWeight: '600',
     lineHeight: 20,
   },
-  tickerItem: {
+  tickerActions: {
     alignItems: 'center',
+    flexDirection: 'row',
+    gap: 12,
+  },
+  tickerCard: {
     backgroundColor: COLORS.card,
     borderColor: COLORS.border,
     borderRadius: 12,
     borderWidth: 1,
+    marginBottom: 8,
+  },
+  tickerItem: {
+    alignItems: 'center',
     flexDirection: 'row',
     justifyContent: 'space-between',
-    marginBottom: 8,
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
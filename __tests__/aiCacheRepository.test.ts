@@ -0,0 +1,163 @@
+/**
+ * Tests for aiCacheRepository
+ */
+
+import {
+  clearAICache,
+  configureAICache,
+  getAICacheKey,
+  getAICacheStats,
+  getCachedAIResult,
+  setCachedAIResult,
+} from '../src/services/aiCacheRepository';
+import { initializeAI, resetAI } from '../src/services/aiService';
+import { generateSummaries } from '../src/services/summaryService';
+import { NormalizedEvent } from '../src/types/events';
+
+const KEY_INPUT = {
+  kind: 'summary',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  excerpt: '通期営業利益予想を3兆円に上方修正',
+  model: 'openai:gpt-3.5-turbo',
+  promptVersion: 1,
+};
+
+const NOW = new Date('2026-10-14T01:00:00Z');
+
+const EVENT: NormalizedEvent = {
+  id: 'event1',
+  tier: 'A',
+  title: KEY_INPUT.title,
+  url: 'https://example.com/1',
+  publishedAt: '2026-10-14T00:30:00Z',
+  fetchedAt: '2026-10-14T00:35:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+describe('aiCacheRepository', () => {
+  beforeEach(async () => {
+    configureAICache({});
+    await clearAICache();
+  });
+
+  describe('getAICacheKey', () => {
+    it('should ignore width and whitespace differences', () => {
+      expect(
+        getAICacheKey({
+          ...KEY_INPUT,
+          title: ' トヨタ自動車｜業績予想の修正に関する　お知らせ ',
+        }),
+      ).toBe(
+        getAICacheKey({
+          ...KEY_INPUT,
+          title: 'トヨタ自動車｜業績予想の修正に関する お知らせ',
+        }),
+      );
+    });
+
+    it('should change with model, prompt version and excerpt', () => {
+      const key = getAICacheKey(KEY_INPUT);
+      expect(
+        getAICacheKey({ ...KEY_INPUT, model: 'anthropic:haiku' }),
+      ).not.toBe(key);
+      expect(getAICacheKey({ ...KEY_INPUT, promptVersion: 2 })).not.toBe(key);
+      expect(getAICacheKey({ ...KEY_INPUT, excerpt: undefined })).not.toBe(key);
+    });
+  });
+
+  describe('getCachedAIResult / setCachedAIResult', () => {
+    it('should count hits and misses', async () => {
+      const key = getAICacheKey(KEY_INPUT);
+
+      expect(await getCachedAIResult(key, NOW)).toBeNull();
+      await setCachedAIResult(key, { summary: '要約' }, NOW);
+      expect(await getCachedAIResult(key, NOW)).toEqual({ summary: '要約' });
+
+      expect(await getAICacheStats()).toEqual({
+        hits: 1,
+        misses: 1,
+        entries: 1,
+      });
+    });
+
+    it('should expire entries after the TTL', async () => {
+      configureAICache({ ttlDays: 1 });
+      const key = getAICacheKey(KEY_INPUT);
+      await setCachedAIResult(key, 'value', NOW);
+
+      const later = new Date(NOW.getTime() + 25 * 60 * 60 * 1000);
+      expect(await getCachedAIResult(key, later)).toBeNull();
+    });
+
+    it('should evict the least recently used entries', async () => {
+      configureAICache({ maxEntries: 2 });
+      const at = (minutes: number) =>
+        new Date(NOW.getTime() + minutes * 60 * 1000);
+
+      await setCachedAIResult('a', 'A', at(0));
+      await setCachedAIResult('b', 'B', at(1));
+      await getCachedAIResult('a', at(2));
+      await setCachedAIResult('c', 'C', at(3));
+
+      expect(await getCachedAIResult('a', at(4))).toBe('A');
+      expect(await getCachedAIResult('b', at(4))).toBeNull();
+      expect(await getCachedAIResult('c', at(4))).toBe('C');
+    });
+  });
+
+  describe('generateSummaries', () => {
+    afterEach(() => {
+      resetAI();
+    });
+
+    it('should not call the model again for a summarized event', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: 'トヨタ自動車は業績予想の修正を発表した。',
+        model: 'stand-in',
+      });
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete,
+        },
+      });
+      const [first] = await generateSummaries([EVENT]);
+      const [second] = await generateSummaries([{ ...EVENT, id: 'event2' }]);
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(first.cached).toBeUndefined();
+      expect(second).toEqual({ ...first, cached: true });
+    });
+
+    it('should summarize again once filing figures are attached', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: 'トヨタ自動車は業績予想の修正を発表した。',
+        model: 'stand-in',
+      });
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete,
+        },
+      });
+
+      await generateSummaries([EVENT]);
+      await generateSummaries([
+        {
+          ...EVENT,
+          financials: {
+            consolidated: true,
+            forecast: { operatingProfit: 3_500_000_000_000 },
+          },
+        },
+      ]);
+      await generateSummaries([{ ...EVENT, eventType: '下方修正' }]);
+
+      expect(complete).toHaveBeenCalledTimes(3);
+    });
+  });
+});
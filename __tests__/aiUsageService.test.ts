@@ -0,0 +1,162 @@
+/**
+ * Tests for aiUsageService
+ */
+
+import { clearAICache } from '../src/services/aiCacheRepository';
+import {
+  getFailsafeMessage,
+  initializeAI,
+  resetAI,
+} from '../src/services/aiService';
+import {
+  calculateCostYen,
+  checkAIBudget,
+  clearAIUsage,
+  configureAIUsage,
+  getAIUsageSummary,
+  recordAIUsage,
+} from '../src/services/aiUsageService';
+import { analyzeImpact } from '../src/services/impactAnalysisService';
+import { generateSummary } from '../src/services/summaryService';
+import { NormalizedEvent } from '../src/types/events';
+
+/** Wednesday 2026-10-14 10:00 JST */
+const NOW = new Date('2026-10-14T01:00:00Z');
+
+const TOKENS = { promptTokens: 1000, completionTokens: 200 };
+
+const EVENT: NormalizedEvent = {
+  id: 'event1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  url: 'https://example.com/1',
+  publishedAt: '2026-10-14T00:30:00Z',
+  fetchedAt: '2026-10-14T00:35:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+describe('aiUsageService', () => {
+  beforeEach(async () => {
+    configureAIUsage({});
+    await clearAIUsage();
+  });
+
+  describe('calculateCostYen', () => {
+    it('should price by the longest matching model prefix', () => {
+      // 1000 × ¥75/1M + 200 × ¥225/1M
+      expect(calculateCostYen('gpt-3.5-turbo-0125', TOKENS)).toBeCloseTo(0.12);
+      // gpt-4o-mini, not gpt-4o
+      expect(calculateCostYen('gpt-4o-mini-2024-07-18', TOKENS)).toBeCloseTo(
+        0.0405,
+      );
+    });
+
+    it('should use the default price for unknown models', () => {
+      configureAIUsage({ defaultPrice: { input: 0, output: 0 } });
+      expect(calculateCostYen('llama3', TOKENS)).toBe(0);
+    });
+
+    it('should price Azure model names like their OpenAI counterparts', () => {
+      expect(calculateCostYen('gpt-35-turbo', TOKENS)).toBeCloseTo(0.12);
+    });
+
+    it('should not charge unknown models on an OpenAI-compatible server', () => {
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'default',
+          complete: jest.fn(),
+        },
+      });
+      expect(calculateCostYen('llama3', TOKENS)).toBe(0);
+      resetAI();
+      expect(calculateCostYen('llama3', TOKENS)).toBeCloseTo(0.9);
+    });
+  });
+
+  describe('recordAIUsage', () => {
+    it('should aggregate per JST day, month and feature', async () => {
+      await recordAIUsage('summary', 'gpt-3.5-turbo', TOKENS, NOW);
+      await recordAIUsage('impact', 'gpt-3.5-turbo', TOKENS, NOW);
+      // 2026-10-13 23:00 JST: same month, previous day
+      await recordAIUsage(
+        'impact',
+        'gpt-3.5-turbo',
+        TOKENS,
+        new Date('2026-10-13T14:00:00Z'),
+      );
+      // Counted without usage
+      await recordAIUsage('impact', 'llama3', undefined, NOW);
+
+      const { today, month } = await getAIUsageSummary(NOW);
+      expect(today.calls).toBe(3);
+      expect(today.costYen).toBeCloseTo(0.24);
+      expect(today.byFeature.impact.calls).toBe(2);
+      expect(month.calls).toBe(4);
+      expect(month.byFeature.impact.promptTokens).toBe(2000);
+    });
+  });
+
+  describe('checkAIBudget', () => {
+    it('should block calls once the daily or monthly budget is spent', async () => {
+      configureAIUsage({ dailyBudgetYen: 0.2, monthlyBudgetYen: 0.3 });
+      await recordAIUsage('summary', 'gpt-3.5-turbo', TOKENS, NOW);
+      expect((await checkAIBudget(NOW)).allowed).toBe(true);
+
+      await recordAIUsage('summary', 'gpt-3.5-turbo', TOKENS, NOW);
+      const daily = await checkAIBudget(NOW);
+      expect(daily.allowed).toBe(false);
+      expect(daily.reason).toContain('Daily');
+
+      const tomorrow = new Date('2026-10-15T01:00:00Z');
+      expect((await checkAIBudget(tomorrow)).allowed).toBe(true);
+      await recordAIUsage('summary', 'gpt-3.5-turbo', TOKENS, tomorrow);
+      expect((await checkAIBudget(tomorrow)).reason).toContain('Monthly');
+    });
+  });
+
+  describe('services over budget', () => {
+    let complete: jest.Mock;
+
+    beforeEach(async () => {
+      await clearAICache();
+      configureAIUsage({ dailyBudgetYen: 0.1 });
+      complete = jest.fn().mockResolvedValue({
+        text: 'トヨタ自動車は業績予想の修正を発表した。',
+        model: 'gpt-3.5-turbo',
+        usage: { ...TOKENS, totalTokens: 1200 },
+      });
+      initializeAI({
+        provider: {
+          id: 'openai',
+          defaultModel: 'gpt-3.5-turbo',
+          complete,
+        },
+      });
+    });
+
+    afterEach(() => {
+      resetAI();
+    });
+
+    it('should record usage and then fall back without calling the model', async () => {
+      const first = await generateSummary(EVENT);
+      expect(first.isFailsafe).toBe(false);
+      expect((await getAIUsageSummary()).today.byFeature.summary.calls).toBe(1);
+
+      const summary = await generateSummary({
+        ...EVENT,
+        title: '別のお知らせ',
+      });
+      const impact = await analyzeImpact(EVENT);
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(summary.summary).toBe(getFailsafeMessage());
+      expect(impact.isFailsafe).toBe(true);
+      expect(impact.impact).toBe('強');
+      expect(impact.warnings[0]).toContain('budget');
+    });
+  });
+});
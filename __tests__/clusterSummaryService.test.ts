@@ -0,0 +1,209 @@
+/**
+ * Tests for clusterSummaryService
+ */
+
+import { clearAICache } from '../src/services/aiCacheRepository';
+import { initializeAI, resetAI } from '../src/services/aiService';
+import { clearAIUsage } from '../src/services/aiUsageService';
+import {
+  summarizeCluster,
+  summarizeClusters,
+  validateClusterSummary,
+} from '../src/services/clusterSummaryService';
+import { ClusteredEvent, NormalizedEvent } from '../src/types/events';
+
+const FILING: NormalizedEvent = {
+  id: 'tdnet1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  excerpt: '通期営業利益予想を3兆円から3.5兆円に上方修正',
+  url: 'https://example.com/tdnet1',
+  publishedAt: '2026-10-14T06:00:00Z',
+  fetchedAt: '2026-10-14T06:05:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+const NEWS: NormalizedEvent = {
+  id: 'news1',
+  tier: 'C',
+  title: 'トヨタ、営業益予想を3.4兆円に引き上げ',
+  url: 'https://example.com/news1',
+  publishedAt: '2026-10-14T06:30:00Z',
+  fetchedAt: '2026-10-14T06:35:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'ニュース',
+};
+
+const CLUSTER: ClusteredEvent = {
+  clusterId: 'cluster1',
+  events: [FILING, NEWS],
+  primaryTicker: '7203',
+  allTickers: ['7203'],
+  title: FILING.title,
+  impact: '強',
+  eventType: '上方修正',
+  publishedAt: FILING.publishedAt,
+  sources: ['TDnet', 'ニュース'],
+};
+
+const SUMMARY =
+  'トヨタ自動車は通期の営業利益予想を上方修正した。適時開示では修正後の予想が示され、報道でも引き上げが伝えられている。'.repeat(
+    3,
+  );
+
+const RESPONSE = {
+  summary: SUMMARY,
+  facts: [
+    { text: '営業利益予想を3.5兆円に上方修正', sources: [1] },
+    { text: '報道では3.4兆円と伝えられた', sources: [2] },
+  ],
+  contradictions: [
+    {
+      topic: '営業利益予想',
+      description: '適時開示は3.5兆円、報道は3.4兆円',
+      sources: [1, 2],
+    },
+  ],
+  reasoning: '一次情報による上方修正',
+  counterReasoning: '為替前提の変動',
+};
+
+describe('clusterSummaryService', () => {
+  describe('validateClusterSummary', () => {
+    it('should map source numbers to member event IDs', () => {
+      const result = validateClusterSummary(RESPONSE, CLUSTER.events);
+
+      expect(result.isFailsafe).toBe(false);
+      expect(result.facts).toEqual([
+        { text: '営業利益予想を3.5兆円に上方修正', eventIds: ['tdnet1'] },
+        { text: '報道では3.4兆円と伝えられた', eventIds: ['news1'] },
+      ]);
+      expect(result.contradictions[0].eventIds).toEqual(['tdnet1', 'news1']);
+      expect(result.reasoning).toBe('一次情報による上方修正');
+    });
+
+    it('should drop facts without a source or not supported by their sources', () => {
+      const result = validateClusterSummary(
+        {
+          ...RESPONSE,
+          facts: [
+            { text: '営業利益予想を上方修正', sources: [3] },
+            // 3.4兆円 is only in the news article
+            { text: '営業利益予想を3.4兆円に上方修正', sources: [1] },
+            { text: '営業利益予想を3.5兆円に上方修正', sources: [1, 1] },
+          ],
+        },
+        CLUSTER.events,
+      );
+
+      expect(result.facts).toEqual([
+        { text: '営業利益予想を3.5兆円に上方修正', eventIds: ['tdnet1'] },
+      ]);
+      expect(result.warnings).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('without a valid source'),
+          expect.stringContaining('not supported'),
+        ]),
+      );
+    });
+
+    it('should drop contradictions with fewer than 2 sources', () => {
+      const result = validateClusterSummary(
+        {
+          ...RESPONSE,
+          contradictions: [{ ...RESPONSE.contradictions[0], sources: [1, 5] }],
+        },
+        CLUSTER.events,
+      );
+
+      expect(result.contradictions).toEqual([]);
+    });
+
+    it('should fall back when the summary contains forbidden words', () => {
+      const result = validateClusterSummary(
+        { ...RESPONSE, summary: `${SUMMARY}買い推奨。` },
+        CLUSTER.events,
+      );
+
+      expect(result.isFailsafe).toBe(true);
+    });
+  });
+
+  describe('summarizeClusters', () => {
+    beforeEach(async () => {
+      await clearAICache();
+      await clearAIUsage();
+    });
+
+    afterEach(() => {
+      resetAI();
+    });
+
+    it('should write the summary and attributions onto the cluster', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: JSON.stringify(RESPONSE),
+        model: 'stand-in',
+      });
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete,
+        },
+      });
+
+      const [cluster] = await summarizeClusters([CLUSTER]);
+
+      expect(cluster.summary).toBe(SUMMARY);
+      expect(cluster.facts).toHaveLength(2);
+      expect(cluster.contradictions).toHaveLength(1);
+      expect(complete.mock.calls[0][0].userMessage).toContain(
+        '[2] ニュース（報道）',
+      );
+    });
+
+    it('should cache answers rejected for forbidden words', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: JSON.stringify({ ...RESPONSE, summary: `${SUMMARY}買い推奨。` }),
+        model: 'stand-in',
+      });
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete,
+        },
+      });
+
+      await summarizeCluster(CLUSTER);
+      const repeat = await summarizeCluster(CLUSTER);
+
+      expect(repeat).toMatchObject({ isFailsafe: true, cached: true });
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the cluster unchanged when the model fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockReturnValue();
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete: jest.fn().mockResolvedValue({
+            text: '要約できませんでした',
+            model: 'stand-in',
+          }),
+        },
+      });
+
+      const result = await summarizeCluster(CLUSTER);
+      const [cluster] = await summarizeClusters([CLUSTER]);
+
+      expect(result.isFailsafe).toBe(true);
+      expect(cluster).toBe(CLUSTER);
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Benchmark for clusterEvents over a day of synthetic events
+ * (PR TIMES + EDINET + news volume, several sources per story)
+ */
+
+import { clusterEvents } from '../src/services/clusteringService';
+import { SimilarityMethod } from '../src/services/similarityService';
+import { NormalizedEvent, SourceTier } from '../src/types/events';
+
+const STORY_COUNT = 1000;
+const TICKER_COUNT = 250;
+const BASE_TIME = Date.parse('2025-01-15T00:00:00Z');
+
+const STORIES = [
+  (k: number) => `新製品「モデル${k}」を発表`,
+  (k: number) => `第${k}期の業績予想を上方修正`,
+  (k: number) => `物流拠点${k}ヶ所の新設を決定`,
+  (k: number) => `海外子会社${k}社との業務提携を締結`,
+];
+
+const SOURCES: {
+  sourceName: string;
+  tier: SourceTier;
+  title: (name: string, body: string) => string;
+}[] = [
+  { sourceName: 'EDINET', tier: 'A', title: (n, b) => `${n}、${b}` },
+  { sourceName: 'PR TIMES', tier: 'B', title: (n, b) => `${n}が${b}` },
+  { sourceName: 'ニュース', tier: 'C', title: (n, b) => `【速報】${n}、${b}` },
+];
+
+/**
+ * Each story: one ticker, three sources within 20 minutes.
+ * Stories of the same ticker are 2 hours apart with different headlines.
+ */
+function generateEvents(): NormalizedEvent[] {
+  const events: NormalizedEvent[] = [];
+  for (let s = 0; s < STORY_COUNT; s++) {
+    const ticker = String(1301 + (s % TICKER_COUNT));
+    const name = `サンプル工業${s % TICKER_COUNT}`;
+    const body = STORIES[Math.floor(s / TICKER_COUNT) % STORIES.length](s);
+    const storyTime = BASE_TIME + Math.floor(s / TICKER_COUNT) * 2 * 3600000;
+
+    SOURCES.forEach((source, i) => {
+      const publishedAt = new Date(
+        storyTime + ((s * 7 + i * 10) % 20) * 60000,
+      ).toISOString();
+      events.push({
+        id: `${s}-${i}`,
+        tier: source.tier,
+        title: source.title(name, body),
+        url: `https://example.com/${s}/${i}`,
+        publishedAt,
+        fetchedAt: publishedAt,
+        tickerCodes: [ticker],
+        eventType: '新製品',
+        sourceName: source.sourceName,
+      });
+    });
+  }
+  return events;
+}
+
+describe('clusterEvents benchmark', () => {
+  const events = generateEvents();
+
+  it.each<SimilarityMethod>(['jaccard', 'tfidf', 'minhash', 'auto'])(
+    'should cluster a day of events with %s in linear-ish time',
+    (method) => {
+      const started = Date.now();
+      const clusters = clusterEvents(events, {
+        timeWindowMinutes: 30,
+        similarityThreshold: 0.7,
+        cooldownMinutes: 30,
+        similarityMethod: method,
+      });
+      const elapsed = Date.now() - started;
+
+      expect(events).toHaveLength(STORY_COUNT * SOURCES.length);
+      expect(clusters).toHaveLength(STORY_COUNT);
+      expect(clusters.every((c) => c.events.length === SOURCES.length)).toBe(
+        true,
+      );
+      // Pairwise comparison of 3,000 events takes far longer than this
+      expect(elapsed).toBeLessThan(5000);
+    },
+  );
+});
@@ -8,7 +8,12 @@ import {
   shouldDeliver,
   generateIdempotencyKey,
   applyCooldown,
+  clusterIncrementally,
 } from '../src/services/clusteringService';
+import {
+  getSimilarityStrategy,
+  MINHASH_AUTO_THRESHOLD,
+} from '../src/services/similarityService';
 import { NormalizedEvent } from '../src/types/events';
 
 describe('clusteringService', () => {
@@ -32,6 +37,30 @@ describe('clusteringService', () => {
       const similarity = calculateSimilarity(text1, text2);
       expect(similarity).toBeLessThan(0.5);
     });
+
+    it.each(['tfidf', 'minhash'] as const)(
+      'should rank headlines the same way with %s',
+      (method) => {
+        const text1 = 'トヨタ自動車が新製品を発表';
+        const text2 = 'トヨタ自動車が新商品を発表';
+        const text3 = 'ソニーグループが決算を発表';
+
+        expect(calculateSimilarity(text1, text1, method)).toBeCloseTo(1);
+        expect(calculateSimilarity(text1, text2, method)).toBeGreaterThan(
+          calculateSimilarity(text1, text3, method),
+        );
+      },
+    );
+  });
+
+  describe('getSimilarityStrategy', () => {
+    it('should switch to MinHash for large batches in auto mode', () => {
+      expect(getSimilarityStrategy('auto', 10).method).toBe('jaccard');
+      expect(getSimilarityStrategy('auto', MINHASH_AUTO_THRESHOLD).method).toBe(
+        'minhash',
+      );
+      expect(getSimilarityStrategy('tfidf', 10).method).toBe('tfidf');
+    });
   });
 
   describe('clusterEvents', () => {
@@ -277,4 +306,84 @@ describe('clusteringService', () => {
       expect(result[0].events).toHaveLength(2);
     });
   });
+
+  describe('clusterIncrementally', () => {
+    const createEvent = (
+      overrides: Partial<NormalizedEvent>,
+    ): NormalizedEvent => ({
+      id: 'event1',
+      tier: 'B',
+      title: 'トヨタ自動車が新製品を発表',
+      url: 'https://example.com/1',
+      publishedAt: '2025-01-15T10:00:00Z',
+      fetchedAt: '2025-01-15T10:05:00Z',
+      tickerCodes: ['7203'],
+      eventType: '新製品',
+      sourceName: 'PR TIMES',
+      ...overrides,
+    });
+    const now = new Date('2025-01-15T10:20:00Z');
+
+    it('should attach a follow-up and keep the cluster ID', () => {
+      const [existing] = clusterEvents([createEvent({})]);
+      const followUp = createEvent({
+        id: 'event2',
+        tier: 'A',
+        title: 'トヨタ自動車が新商品を発表',
+        url: 'https://example.com/2',
+        publishedAt: '2025-01-15T10:15:00Z',
+        sourceName: 'EDINET',
+      });
+
+      const deltas = clusterIncrementally(
+        [existing],
+        [followUp],
+        undefined,
+        now,
+      );
+
+      expect(deltas).toHaveLength(1);
+      expect(deltas[0].type).toBe('updated');
+      expect(deltas[0].cluster.clusterId).toBe(existing.clusterId);
+      expect(deltas[0].cluster.events).toHaveLength(2);
+      expect(deltas[0].cluster.revision).toBe(2);
+      expect(deltas[0].addedEvents.map((e) => e.id)).toEqual(['event2']);
+      expect(deltas[0].previousImpact).toBe('中');
+      expect(deltas[0].cluster.impact).toBe('強');
+    });
+
+    it('should create clusters for unrelated events', () => {
+      const [existing] = clusterEvents([createEvent({})]);
+      const other = createEvent({
+        id: 'event2',
+        title: 'トヨタ自動車が決算説明会の日程を公表',
+        url: 'https://example.com/2',
+        publishedAt: '2025-01-15T10:15:00Z',
+      });
+
+      const deltas = clusterIncrementally([existing], [other], undefined, now);
+
+      expect(deltas).toHaveLength(1);
+      expect(deltas[0].type).toBe('created');
+      expect(deltas[0].cluster.clusterId).not.toBe(existing.clusterId);
+    });
+
+    it('should not attach to clusters outside the time window', () => {
+      const [existing] = clusterEvents([createEvent({})]);
+      const late = createEvent({
+        id: 'event2',
+        url: 'https://example.com/2',
+        publishedAt: '2025-01-15T11:30:00Z',
+      });
+
+      const deltas = clusterIncrementally(
+        [existing],
+        [late],
+        undefined,
+        new Date('2025-01-15T11:35:00Z'),
+      );
+
+      expect(deltas[0].type).toBe('created');
+    });
+  });
 });
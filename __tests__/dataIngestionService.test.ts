@@ -0,0 +1,139 @@
+/**
+ * Tests for dataIngestionService and sourceRegistry
+ */
+
+import { ingestData } from '../src/services/dataIngestionService';
+import {
+  clearSourceAdapters,
+  defineSourceAdapter,
+  filterEventsSince,
+  getSourceAdapter,
+  registerSourceAdapter,
+} from '../src/services/sourceRegistry';
+import { RawEvent, SourceTier } from '../src/types/events';
+
+function createRawEvent(overrides: Partial<RawEvent> = {}): RawEvent {
+  return {
+    id: 'raw-1',
+    source: 'test',
+    tier: 'A',
+    title: 'サンプル工業｜業績予想の修正に関するお知らせ',
+    url: 'https://example.com/1',
+    publishedAt: '2025-05-08T06:00:00.000Z',
+    fetchedAt: '2025-05-08T06:01:00.000Z',
+    tickerCodes: ['9999'],
+    ...overrides,
+  };
+}
+
+function registerTestAdapter(
+  id: string,
+  tier: SourceTier,
+  fetch: (since?: Date) => Promise<RawEvent[]>,
+): void {
+  registerSourceAdapter(
+    defineSourceAdapter({
+      id,
+      tier,
+      fetch: async (since) => ({ events: await fetch(since) }),
+    }),
+  );
+}
+
+describe('dataIngestionService', () => {
+  beforeEach(() => {
+    clearSourceAdapters();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report counts and errors per adapter', async () => {
+    registerTestAdapter('primary', 'A', async () => [
+      createRawEvent({ id: 'a1', source: 'primary' }),
+      createRawEvent({ id: 'a2', source: 'primary', url: 'https://x/2' }),
+    ]);
+    registerTestAdapter('broken', 'B', async () => {
+      throw new Error('feed unavailable');
+    });
+
+    const result = await ingestData();
+
+    expect(result.totalRaw).toBe(2);
+    expect(result.tierCounts).toEqual({ A: 2, B: 0, C: 0 });
+    expect(result.adapters).toEqual([
+      expect.objectContaining({ adapterId: 'primary', tier: 'A', count: 2 }),
+      expect.objectContaining({
+        adapterId: 'broken',
+        tier: 'B',
+        count: 0,
+        error: 'feed unavailable',
+      }),
+    ]);
+    expect(result.adapters[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should only fetch the selected sources', async () => {
+    const fetchA = jest.fn().mockResolvedValue([createRawEvent()]);
+    const fetchB = jest.fn().mockResolvedValue([]);
+    registerTestAdapter('a', 'A', fetchA);
+    registerTestAdapter('b', 'B', fetchB);
+
+    const since = new Date('2025-05-08T00:00:00Z');
+    const result = await ingestData({ sources: ['a'], since });
+
+    expect(fetchA).toHaveBeenCalledWith(since);
+    expect(fetchB).not.toHaveBeenCalled();
+    expect(result.adapters.map((a) => a.adapterId)).toEqual(['a']);
+  });
+});
+
+describe('sourceRegistry', () => {
+  beforeEach(() => {
+    clearSourceAdapters();
+  });
+
+  it('should track adapter health across fetches', async () => {
+    let fail = true;
+    registerTestAdapter('flaky', 'B', async () => {
+      if (fail) throw new Error('timeout');
+      return [];
+    });
+    const adapter = getSourceAdapter('flaky');
+
+    expect(adapter?.health().status).toBe('unknown');
+
+    for (let i = 0; i < 3; i++) {
+      await expect(adapter?.fetch()).rejects.toThrow('timeout');
+    }
+    expect(adapter?.health()).toMatchObject({
+      status: 'failing',
+      consecutiveFailures: 3,
+      lastError: 'timeout',
+    });
+
+    fail = false;
+    await adapter?.fetch();
+    expect(adapter?.health()).toMatchObject({
+      status: 'healthy',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should filter events published before since', () => {
+    const events = [
+      createRawEvent({ id: 'old', publishedAt: '2025-05-07T23:59:00.000Z' }),
+      createRawEvent({ id: 'new', publishedAt: '2025-05-08T00:00:00.000Z' }),
+    ];
+
+    const filtered = filterEventsSince(
+      events,
+      new Date('2025-05-08T00:00:00Z'),
+    );
+
+    expect(filtered.map((e) => e.id)).toEqual(['new']);
+    expect(filterEventsSince(events)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for deliveryPolicyService
+ */
+
+import { clusterEvents } from '../src/services/clusteringService';
+import {
+  decideDelivery,
+  DeliveryPolicySettings,
+  DeliveryRecord,
+  getNextDigestSlot,
+  getQuietUntil,
+  isMarketHoliday,
+  isQuietModeActive,
+  isWithinQuietHours,
+} from '../src/services/deliveryPolicyService';
+import {
+  ImpactLevel,
+  NormalizedEvent,
+  PersonalizedEvent,
+} from '../src/types/events';
+
+const EVENT: NormalizedEvent = {
+  id: 'event1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  url: 'https://example.com/1',
+  publishedAt: '2026-10-14T00:30:00Z',
+  fetchedAt: '2026-10-14T00:35:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+const SETTINGS: DeliveryPolicySettings = {
+  dailyLimit: 3,
+  quietMode: false,
+  quietUntil: null,
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+  minimumImpact: '中',
+  deferOnHolidays: true,
+  cooldownMinutes: 30,
+};
+
+/** Wednesday 2026-10-14 10:00 JST */
+const WEEKDAY_MORNING = new Date('2026-10-14T01:00:00Z');
+
+function createEvent(personalImpact: ImpactLevel = '強'): PersonalizedEvent {
+  const [cluster] = clusterEvents([EVENT]);
+  return {
+    ...cluster,
+    relevanceScore: 100,
+    personalImpact,
+    scoreReason: 'Direct watchlist match',
+  };
+}
+
+describe('deliveryPolicyService', () => {
+  describe('decideDelivery', () => {
+    it('should push when no rule applies', () => {
+      const decision = decideDelivery(
+        createEvent(),
+        SETTINGS,
+        [],
+        WEEKDAY_MORNING,
+      );
+      expect(decision.action).toBe('push');
+      expect(decision.deferUntil).toBeUndefined();
+    });
+
+    it('should drop events below the minimum impact', () => {
+      const decision = decideDelivery(
+        createEvent('弱'),
+        SETTINGS,
+        [],
+        WEEKDAY_MORNING,
+      );
+      expect(decision.action).toBe('drop');
+      expect(decision.reason).toContain('中以上');
+    });
+
+    it('should defer to the next digest slot in quiet mode', () => {
+      const decision = decideDelivery(
+        createEvent(),
+        { ...SETTINGS, quietMode: true },
+        [],
+        WEEKDAY_MORNING,
+      );
+      expect(decision.action).toBe('defer');
+      // 12:15 JST
+      expect(decision.deferUntil).toBe('2026-10-14T03:15:00.000Z');
+    });
+
+    it('should defer past a timed quiet period and resume after it', () => {
+      const settings = {
+        ...SETTINGS,
+        quietMode: true,
+        quietUntil: '2026-10-14T04:00:00Z', // 13:00 JST
+      };
+      const decision = decideDelivery(
+        createEvent(),
+        settings,
+        [],
+        WEEKDAY_MORNING,
+      );
+      expect(decision.action).toBe('defer');
+      // 15:45 JST, the first digest after the quiet period
+      expect(decision.deferUntil).toBe('2026-10-14T06:45:00.000Z');
+
+      const afterExpiry = new Date('2026-10-14T04:30:00Z');
+      expect(
+        decideDelivery(createEvent(), settings, [], afterExpiry).action,
+      ).toBe('push');
+    });
+
+    it('should defer inside quiet hours spanning midnight', () => {
+      const lateNight = new Date('2026-10-14T14:00:00Z'); // 23:00 JST
+      const decision = decideDelivery(createEvent(), SETTINGS, [], lateNight);
+      expect(decision.action).toBe('defer');
+      expect(decision.reason).toContain('22:00〜07:00');
+      // 08:30 JST next day
+      expect(decision.deferUntil).toBe('2026-10-14T23:30:00.000Z');
+    });
+
+    it('should defer on weekends and market holidays unless disabled', () => {
+      const saturday = new Date('2026-10-17T01:00:00Z');
+      const sportsDay = new Date('2026-10-12T01:00:00Z');
+
+      expect(decideDelivery(createEvent(), SETTINGS, [], saturday).action).toBe(
+        'defer',
+      );
+      expect(
+        decideDelivery(createEvent(), SETTINGS, [], sportsDay).reason,
+      ).toBe('休場日');
+      expect(
+        decideDelivery(
+          createEvent(),
+          { ...SETTINGS, deferOnHolidays: false },
+          [],
+          saturday,
+        ).action,
+      ).toBe('push');
+    });
+
+    it('should defer within the cooldown of the same ticker', () => {
+      const history: DeliveryRecord[] = [
+        { ticker: '7203', timestamp: '2026-10-14T00:45:00Z' },
+      ];
+      expect(
+        decideDelivery(createEvent(), SETTINGS, history, WEEKDAY_MORNING)
+          .action,
+      ).toBe('defer');
+
+      const otherTicker = [{ ...history[0], ticker: '6758' }];
+      expect(
+        decideDelivery(createEvent(), SETTINGS, otherTicker, WEEKDAY_MORNING)
+          .action,
+      ).toBe('push');
+    });
+
+    it('should defer once the daily budget is used up', () => {
+      const history: DeliveryRecord[] = [
+        { ticker: '6758', timestamp: '2026-10-13T15:30:00Z' }, // 00:30 JST
+        { ticker: '9984', timestamp: '2026-10-13T23:00:00Z' },
+        { ticker: '8306', timestamp: '2026-10-14T00:00:00Z' },
+      ];
+      const decision = decideDelivery(
+        createEvent(),
+        SETTINGS,
+        history,
+        WEEKDAY_MORNING,
+      );
+      expect(decision.action).toBe('defer');
+      expect(decision.reason).toContain('3件');
+
+      // Pushes from the previous JST day do not count
+      const yesterday = [
+        { ticker: '6758', timestamp: '2026-10-13T14:00:00Z' },
+        ...history.slice(1),
+      ];
+      expect(
+        decideDelivery(createEvent(), SETTINGS, yesterday, WEEKDAY_MORNING)
+          .action,
+      ).toBe('push');
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    it('should handle same-day and overnight ranges', () => {
+      const daytime = { enabled: true, start: '12:00', end: '13:00' };
+      expect(
+        isWithinQuietHours(new Date('2026-10-14T03:30:00Z'), daytime),
+      ).toBe(true);
+      expect(
+        isWithinQuietHours(new Date('2026-10-14T04:00:00Z'), daytime),
+      ).toBe(false);
+      expect(
+        isWithinQuietHours(new Date('2026-10-14T21:00:00Z'), {
+          ...SETTINGS.quietHours,
+        }),
+      ).toBe(true);
+      expect(
+        isWithinQuietHours(new Date('2026-10-14T21:00:00Z'), {
+          ...SETTINGS.quietHours,
+          enabled: false,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('isMarketHoliday', () => {
+    it('should use the JST calendar day', () => {
+      // Friday 23:30 UTC is Saturday 08:30 JST
+      expect(isMarketHoliday(new Date('2026-10-16T23:30:00Z'))).toBe(true);
+      expect(isMarketHoliday(new Date('2026-10-16T05:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('getNextDigestSlot', () => {
+    it('should skip slots inside quiet hours', () => {
+      const quietHours = { enabled: true, start: '12:00', end: '16:00' };
+      expect(getNextDigestSlot(WEEKDAY_MORNING, quietHours).toISOString()).toBe(
+        '2026-10-14T23:30:00.000Z',
+      );
+    });
+  });
+
+  describe('getQuietUntil', () => {
+    it('should compute the end of each preset', () => {
+      expect(getQuietUntil('1h', WEEKDAY_MORNING).toISOString()).toBe(
+        '2026-10-14T02:00:00.000Z',
+      );
+      // Thursday 09:00 JST
+      expect(
+        getQuietUntil('untilMarketOpen', WEEKDAY_MORNING).toISOString(),
+      ).toBe('2026-10-15T00:00:00.000Z');
+      // Friday evening → Monday is a trading day
+      expect(
+        getQuietUntil(
+          'untilMarketOpen',
+          new Date('2026-10-16T10:00:00Z'),
+        ).toISOString(),
+      ).toBe('2026-10-19T00:00:00.000Z');
+      // Thursday 08:30 JST
+      expect(
+        getQuietUntil('untilTomorrow', WEEKDAY_MORNING).toISOString(),
+      ).toBe('2026-10-14T23:30:00.000Z');
+    });
+
+    it('should treat quiet mode without an end as active until turned off', () => {
+      const later = new Date('2030-01-01T00:00:00Z');
+      expect(
+        isQuietModeActive({ quietMode: true, quietUntil: null }, later),
+      ).toBe(true);
+      expect(
+        isQuietModeActive(
+          { quietMode: true, quietUntil: '2026-10-14T02:00:00Z' },
+          later,
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for edinetService
+ */
+
+import {
+  convertToRawEvent,
+  createEdinetAdapter,
+  fetchEdinetDocuments,
+  filterRelevantDocuments,
+} from '../src/services/edinetService';
+import { clearSourceCursors } from '../src/services/sourceCursorRepository';
+import { EdinetDocument } from '../src/types/events';
+
+function createDoc(overrides: Partial<EdinetDocument> = {}): EdinetDocument {
+  return {
+    docID: 'S100AAAA',
+    edinetCode: 'E02144',
+    secCode: '72030',
+    filerName: 'トヨタ自動車株式会社',
+    docTypeCode: '120',
+    docDescription: '有価証券報告書－第120期',
+    submitDateTime: '2025-06-18 15:00',
+    parentDocID: null,
+    withdrawalStatus: '0',
+    ...overrides,
+  };
+}
+
+describe('edinetService', () => {
+  describe('filterRelevantDocuments', () => {
+    it('should filter by docTypeCode instead of description text', () => {
+      const docs = [
+        createDoc({ docID: 'A', docTypeCode: '120' }),
+        // Description mentions 有価証券報告書 but type is not targeted
+        createDoc({
+          docID: 'B',
+          docTypeCode: '030',
+          docDescription: '有価証券届出書（有価証券報告書参照）',
+        }),
+        createDoc({ docID: 'C', docTypeCode: '350' }),
+      ];
+
+      const result = filterRelevantDocuments(docs);
+
+      expect(result.map((d) => d.docID)).toEqual(['A', 'C']);
+    });
+
+    it('should respect a configured docTypeCode list', () => {
+      const docs = [
+        createDoc({ docID: 'A', docTypeCode: '120' }),
+        createDoc({ docID: 'B', docTypeCode: '180' }),
+      ];
+
+      const result = filterRelevantDocuments(docs, { docTypeCodes: ['180'] });
+
+      expect(result.map((d) => d.docID)).toEqual(['B']);
+    });
+
+    it('should drop unlisted filers and withdrawn documents', () => {
+      const docs = [
+        createDoc({ docID: 'A', secCode: null }),
+        createDoc({ docID: 'B', withdrawalStatus: '2' }),
+      ];
+
+      expect(filterRelevantDocuments(docs)).toHaveLength(0);
+      expect(
+        filterRelevantDocuments(docs, { includeWithdrawn: true }),
+      ).toHaveLength(1);
+    });
+
+    it('should keep only documents about the given tickers', () => {
+      const docs = [
+        createDoc({ docID: 'A' }),
+        createDoc({ docID: 'B', secCode: '72670', filerName: '本田技研工業' }),
+        // Filed by a securities house about Honda / Toyota
+        createDoc({
+          docID: 'C',
+          secCode: '86040',
+          docTypeCode: '350',
+          subjectEdinetCode: 'E02166',
+        }),
+        createDoc({
+          docID: 'D',
+          secCode: '86040',
+          docTypeCode: '350',
+          subjectEdinetCode: 'E02144',
+        }),
+      ];
+
+      const result = filterRelevantDocuments(docs, { tickers: ['7203'] });
+
+      expect(result.map((d) => d.docID)).toEqual(['A', 'D']);
+    });
+  });
+
+  describe('convertToRawEvent', () => {
+    it('should flag corrections and link the original filing', () => {
+      const event = convertToRawEvent(
+        createDoc({
+          docID: 'S100BBBB',
+          docTypeCode: '130',
+          docDescription: '訂正有価証券報告書－第120期',
+          parentDocID: 'S100AAAA',
+        }),
+      );
+
+      expect(event.title.startsWith('【訂正】')).toBe(true);
+      expect(event.externalId).toBe('EDINET:S100BBBB');
+      expect(event.filing).toEqual({
+        docTypeCode: '130',
+        isCorrection: true,
+        isWithdrawn: false,
+        parentExternalId: 'EDINET:S100AAAA',
+      });
+    });
+
+    it('should leave original filings unflagged', () => {
+      const event = convertToRawEvent(createDoc());
+
+      expect(event.title).toBe('トヨタ自動車株式会社｜有価証券報告書－第120期');
+      expect(event.tickerCodes).toEqual(['7203']);
+      expect(event.filing?.isCorrection).toBe(false);
+      expect(event.filing?.isWithdrawn).toBe(false);
+    });
+
+    it("should not tag a large shareholding report with the filer's ticker", () => {
+      // Listed securities house filing for a stake in another company
+      const event = convertToRawEvent(
+        createDoc({
+          secCode: '86040',
+          filerName: '野村證券株式会社',
+          docTypeCode: '350',
+          docDescription: '大量保有報告書',
+        }),
+      );
+
+      expect(event.tickerCodes).toEqual([]);
+    });
+  });
+
+  describe('fetchEdinetDocuments', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it('should call the v2 endpoint with the subscription key', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          metadata: { status: '200', message: 'OK' },
+          results: [createDoc()],
+        }),
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const events = await fetchEdinetDocuments('2025-06-18', {
+        apiKey: 'test-key',
+      });
+
+      expect(events).toHaveLength(1);
+      const url = fetchMock.mock.calls[0][0] as string;
+      expect(url).toContain('/api/v2/documents.json?date=2025-06-18&type=2');
+      expect(url).toContain('Subscription-Key=test-key');
+    });
+
+    it('should surface errors reported in the response body', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          metadata: { status: '401', message: 'Access denied' },
+        }),
+      }) as unknown as typeof fetch;
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(
+        fetchEdinetDocuments('2025-06-18', { apiKey: 'bad-key' }),
+      ).rejects.toThrow('EDINET API error: 401');
+    });
+  });
+
+  describe('createEdinetAdapter', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+      await clearSourceCursors();
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.useRealTimers();
+    });
+
+    it('should fetch listings by JST calendar day', async () => {
+      // 2025-06-19 05:00 JST
+      jest.useFakeTimers().setSystemTime(new Date('2025-06-18T20:00:00Z'));
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        json: async () => ({
+          metadata: { status: '200', message: 'OK' },
+          results: [],
+        }),
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      // 2025-06-18 01:00 JST
+      await createEdinetAdapter({ apiKey: 'test-key' }).fetch(
+        new Date('2025-06-17T16:00:00Z'),
+      );
+
+      const dates = fetchMock.mock.calls.map(
+        (call) => (call[0] as string).match(/date=([\d-]+)/)?.[1],
+      );
+      expect(dates).toEqual(['2025-06-18', '2025-06-19']);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for eventClassifierService
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  classifyByDictionary,
+  classifyEventType,
+  evaluateEventTypeClassifier,
+  formatClassifierEvaluation,
+  refineEventTypes,
+  trainEventTypeClassifier,
+} from '../src/services/eventClassifierService';
+import { FinancialFigures, LabeledHeadline } from '../src/types/events';
+
+const TEST_SET: LabeledHeadline[] = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, 'fixtures/classifier/event_type_test_set.json'),
+    'utf8',
+  ),
+);
+
+describe('eventClassifierService', () => {
+  describe('classifyEventType', () => {
+    it('should assign both types to 資本提携', () => {
+      const result = classifyEventType(
+        '〇〇社との資本業務提携に関するお知らせ',
+      );
+
+      expect(result.method).toBe('model');
+      expect(result.eventTypes).toEqual(
+        expect.arrayContaining(['資本政策', '提携']),
+      );
+    });
+
+    it('should not label downward revisions as 上方修正', () => {
+      const result = classifyEventType(
+        '業績予想の修正（下方修正）に関するお知らせ',
+      );
+
+      expect(result.eventType).toBe('下方修正');
+      expect(result.eventTypes).not.toContain('上方修正');
+    });
+
+    it('should return a probability per type', () => {
+      const result = classifyEventType('通期業績予想の上方修正について');
+
+      expect(result.eventType).toBe('上方修正');
+      expect(result.probabilities?.上方修正).toBeGreaterThan(0.5);
+      expect(result.probabilities?.事故).toBeLessThan(0.5);
+    });
+
+    it('should ignore the company name in "会社名｜書類名" titles', () => {
+      expect(classifyEventType('大量保有商事｜決算短信').eventType).toBe(
+        '決算発表',
+      );
+    });
+
+    it('should fall back to the dictionary for unfamiliar text', () => {
+      const result = classifyEventType('Miscellaneous announcement');
+
+      expect(result.method).toBe('dictionary');
+      expect(result.eventType).toBe('その他');
+    });
+  });
+
+  describe('refineEventTypes', () => {
+    const classify = (title: string, financials?: FinancialFigures) =>
+      refineEventTypes(classifyEventType(title), title, financials);
+
+    it('should resolve revision direction from filing figures', () => {
+      const result = classify('業績予想の修正に関するお知らせ', {
+        consolidated: true,
+        forecast: { operatingProfit: 9_000_000_000 },
+        previousForecast: { operatingProfit: 12_000_000_000 },
+      });
+
+      expect(result.method).toBe('rules');
+      expect(result.eventTypes).toEqual(['下方修正']);
+    });
+
+    it('should prefer figures over contradicting wording', () => {
+      const result = classify('業績予想の上方修正に関するお知らせ', {
+        consolidated: true,
+        forecast: { netIncome: 1_000_000_000, revenue: 60_000_000_000 },
+        previousForecast: { netIncome: 1_500_000_000, revenue: 50_000_000_000 },
+      });
+
+      expect(result.eventType).toBe('下方修正');
+      expect(result.eventTypes).not.toContain('上方修正');
+    });
+
+    it('should detect dividend direction from figures', () => {
+      const result = classify('配当予想の修正に関するお知らせ', {
+        consolidated: true,
+        forecast: { dividendPerShare: 40 },
+        previousForecast: { dividendPerShare: 50 },
+      });
+
+      expect(result.eventType).toBe('減配');
+    });
+
+    it('should split buybacks and public offerings from 資本政策', () => {
+      expect(
+        classify('自己株式の取得に係る事項の決定に関するお知らせ').eventTypes,
+      ).toEqual(['自社株買い']);
+      expect(
+        classify('公募による新株式発行及び株式売出しに関するお知らせ')
+          .eventTypes,
+      ).toEqual(['公募増資']);
+      expect(classify('株式分割に関するお知らせ').eventTypes).toEqual([
+        '資本政策',
+      ]);
+    });
+  });
+
+  describe('classifyByDictionary', () => {
+    it('should keep dictionary order for the primary type', () => {
+      const result = classifyByDictionary('資本提携に関するお知らせ');
+
+      expect(result.eventType).toBe('資本政策');
+      expect(result.eventTypes).toEqual(['資本政策', '提携']);
+    });
+
+    it('should leave the direction of a neutral revision to the figures', () => {
+      const title = '業績予想の修正に関するお知らせ';
+      const result = classifyByDictionary(title);
+
+      expect(result.eventTypes).toContain('業績予想');
+      expect(result.eventTypes).not.toContain('上方修正');
+      const refined = refineEventTypes(result, title, {
+        consolidated: true,
+        forecast: { operatingProfit: 9_000_000_000 },
+        previousForecast: { operatingProfit: 12_000_000_000 },
+      });
+      expect(refined.eventType).toBe('下方修正');
+      expect(refined.eventTypes).not.toContain('上方修正');
+    });
+  });
+
+  describe('evaluateEventTypeClassifier', () => {
+    it('should reach the precision/recall floor on the test set', () => {
+      const evaluation = evaluateEventTypeClassifier(TEST_SET);
+
+      expect(evaluation.micro.precision).toBeGreaterThanOrEqual(0.85);
+      expect(evaluation.micro.recall).toBeGreaterThanOrEqual(0.85);
+      expect(evaluation.perType.資本政策?.recall).toBe(1);
+      expect(evaluation.perType.提携?.recall).toBe(1);
+      expect(formatClassifierEvaluation(evaluation)).toContain('micro');
+    });
+
+    it('should evaluate a custom model', () => {
+      const model = trainEventTypeClassifier([
+        { text: '新製品の発売', labels: ['新製品'] },
+        { text: '工場火災事故', labels: ['事故'] },
+      ]);
+      const evaluation = evaluateEventTypeClassifier(
+        [{ text: '新製品を発売', labels: ['新製品'] }],
+        model,
+      );
+
+      expect(evaluation.micro.recall).toBe(1);
+    });
+  });
+});
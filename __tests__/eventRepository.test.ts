@@ -0,0 +1,101 @@
+/**
+ * Tests for eventRepository
+ */
+
+import {
+  clearEventRepository,
+  filterNewEvents,
+  getEventKey,
+  getEventRecord,
+  markEventsSeen,
+} from '../src/services/eventRepository';
+import { RawEvent } from '../src/types/events';
+
+function createRawEvent(overrides: Partial<RawEvent> = {}): RawEvent {
+  return {
+    id: 'raw-1',
+    source: 'prtimes',
+    tier: 'B',
+    title: '業務提携に関するお知らせ',
+    url: 'https://example.com/pr/1',
+    publishedAt: '2025-01-15T10:00:00Z',
+    fetchedAt: '2025-01-15T10:05:00Z',
+    tickerCodes: ['7203'],
+    ...overrides,
+  };
+}
+
+describe('eventRepository', () => {
+  beforeEach(async () => {
+    await clearEventRepository();
+  });
+
+  describe('getEventKey', () => {
+    it('should prefer the source-native identifier', () => {
+      const event = createRawEvent({ externalId: 'EDINET:S100ABCD' });
+      expect(getEventKey(event)).toBe('EDINET:S100ABCD');
+    });
+
+    it('should use the normalized URL otherwise', () => {
+      const a = createRawEvent({
+        url: 'http://example.com/pr/1?utm_source=rss#top',
+      });
+      const b = createRawEvent({ url: 'https://example.com/pr/1' });
+      expect(getEventKey(a)).toBe(getEventKey(b));
+    });
+  });
+
+  describe('filterNewEvents', () => {
+    it('should only return events not seen in earlier runs', async () => {
+      const first = await filterNewEvents([createRawEvent()]);
+      expect(first).toHaveLength(1);
+      await markEventsSeen(first);
+
+      // Same link comes back with a fresh ID on the next poll
+      const second = await filterNewEvents([
+        createRawEvent({ id: 'raw-2' }),
+        createRawEvent({ id: 'raw-3', url: 'https://example.com/pr/2' }),
+      ]);
+      expect(second.map((e) => e.id)).toEqual(['raw-3']);
+    });
+
+    it('should drop duplicates within the same batch', async () => {
+      const result = await filterNewEvents([
+        createRawEvent({ id: 'a', externalId: 'EDINET:S100ABCD' }),
+        createRawEvent({ id: 'b', externalId: 'EDINET:S100ABCD' }),
+      ]);
+      expect(result.map((e) => e.id)).toEqual(['a']);
+    });
+
+    it('should not record events until they are marked seen', async () => {
+      await filterNewEvents([createRawEvent()]);
+
+      expect(await filterNewEvents([createRawEvent()])).toHaveLength(1);
+      expect(await getEventRecord(createRawEvent())).toBeNull();
+    });
+  });
+
+  describe('markEventsSeen', () => {
+    it('should track first-seen and last-seen metadata', async () => {
+      const event = createRawEvent();
+      await markEventsSeen([event], new Date('2025-01-15T10:00:00Z'));
+      await markEventsSeen([event], new Date('2025-01-15T11:00:00Z'));
+
+      const record = await getEventRecord(event);
+      expect(record).toMatchObject({
+        eventId: 'raw-1',
+        firstSeenAt: '2025-01-15T10:00:00.000Z',
+        lastSeenAt: '2025-01-15T11:00:00.000Z',
+        seenCount: 2,
+      });
+    });
+
+    it('should forget records past the retention period', async () => {
+      const event = createRawEvent();
+      await markEventsSeen([event], new Date('2025-01-01T00:00:00Z'), 7);
+      await markEventsSeen([], new Date('2025-01-10T00:00:00Z'), 7);
+
+      expect(await getEventRecord(event)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for groupStructureService
+ */
+
+import {
+  findSubsidiaryMentions,
+  getParentChain,
+  resetGroupCompanies,
+  resolveTickerRelations,
+  setGroupCompanies,
+} from '../src/services/groupStructureService';
+import { normalizeEvent } from '../src/services/normalizationService';
+import { RawEvent } from '../src/types/events';
+
+function createRawEvent(title: string, tickerCodes: string[] = []): RawEvent {
+  return {
+    id: 'raw1',
+    source: 'prtimes',
+    tier: 'B',
+    title,
+    url: 'https://example.com/news/1',
+    publishedAt: '2025-06-18T10:00:00Z',
+    fetchedAt: '2025-06-18T10:01:00Z',
+    tickerCodes,
+  };
+}
+
+describe('groupStructureService', () => {
+  afterEach(() => {
+    resetGroupCompanies();
+  });
+
+  describe('getParentChain', () => {
+    it('should follow listed parents, nearest first', () => {
+      expect(getParentChain('4689')).toEqual(['9434', '9984']);
+      expect(getParentChain('9434')).toEqual(['9984']);
+      expect(getParentChain('7203')).toEqual([]);
+    });
+
+    it('should stop on cycles in the data', () => {
+      setGroupCompanies([
+        { name: 'A', code: '1111', parentCode: '2222' },
+        { name: 'B', code: '2222', parentCode: '1111' },
+      ]);
+      expect(getParentChain('1111')).toEqual(['2222']);
+    });
+  });
+
+  describe('findSubsidiaryMentions', () => {
+    it('should find unlisted subsidiaries and blank them out', () => {
+      const { mentions, remainingText } = findSubsidiaryMentions(
+        'ソニー・ミュージックエンタテインメント、新レーベル設立',
+      );
+      expect(mentions).toEqual([
+        { name: 'ソニー・ミュージックエンタテインメント', parentCode: '6758' },
+      ]);
+      expect(remainingText).not.toContain('ソニー');
+    });
+
+    it('should match aliases with word boundaries', () => {
+      expect(findSubsidiaryMentions('SIE、新型機を発表').mentions).toEqual([
+        {
+          name: 'ソニー・インタラクティブエンタテインメント',
+          parentCode: '6758',
+        },
+      ]);
+      expect(findSubsidiaryMentions('SIEMENS AG').mentions).toEqual([]);
+    });
+  });
+
+  describe('resolveTickerRelations', () => {
+    it('should tag listed subsidiaries direct and parents via_subsidiary', () => {
+      expect(resolveTickerRelations(['4689'])).toEqual([
+        { ticker: '4689', relation: 'direct' },
+        { ticker: '9434', relation: 'via_subsidiary', via: '4689' },
+        { ticker: '9984', relation: 'via_subsidiary', via: '4689' },
+      ]);
+    });
+
+    it('should keep a parent direct when it is also mentioned', () => {
+      const relations = resolveTickerRelations(
+        ['7203'],
+        [{ name: 'ダイハツ工業', parentCode: '7203' }],
+      );
+      expect(relations).toEqual([{ ticker: '7203', relation: 'direct' }]);
+    });
+  });
+
+  describe('normalizeEvent integration', () => {
+    it('should attribute unlisted subsidiary news to the parent', () => {
+      const event = normalizeEvent(
+        createRawEvent('ダイハツ、認証不正で全車種出荷停止'),
+      );
+      expect(event.tickerCodes).toEqual(['7203']);
+      expect(event.tickerRelations).toEqual([
+        { ticker: '7203', relation: 'via_subsidiary', via: 'ダイハツ工業' },
+      ]);
+    });
+
+    it('should carry both tickers for listed parent-child pairs', () => {
+      const event = normalizeEvent(
+        createRawEvent('ソフトバンク｜業績予想の修正に関するお知らせ', [
+          '94340',
+        ]),
+      );
+      expect(event.tickerCodes).toEqual(['9434', '9984']);
+      expect(event.tickerRelations?.[1]).toEqual({
+        ticker: '9984',
+        relation: 'via_subsidiary',
+        via: '9434',
+      });
+    });
+
+    it('should omit relations when every ticker is direct', () => {
+      const event = normalizeEvent(createRawEvent('トヨタ、新型EVを発表'));
+      expect(event.tickerCodes).toEqual(['7203']);
+      expect(event.tickerRelations).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for impactAnalysisService
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { clearAICache } from '../src/services/aiCacheRepository';
+import { initializeAI, resetAI } from '../src/services/aiService';
+import {
+  analyzeImpact,
+  ImpactParseError,
+  ImpactParseErrorCode,
+  parseImpactResponse,
+} from '../src/services/impactAnalysisService';
+import { NormalizedEvent } from '../src/types/events';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'impact');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8');
+}
+
+const EVENT: NormalizedEvent = {
+  id: 'event1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  url: 'https://example.com/1',
+  publishedAt: '2026-10-14T00:30:00Z',
+  fetchedAt: '2026-10-14T00:35:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+/**
+ * Use a stand-in provider that answers with the given texts in order
+ */
+function mockModel(...texts: string[]): jest.Mock {
+  const complete = jest.fn();
+  texts.forEach((text) =>
+    complete.mockResolvedValueOnce({ text, model: 'stand-in' }),
+  );
+  initializeAI({
+    provider: { id: 'openai-compatible', defaultModel: 'stand-in', complete },
+  });
+  return complete;
+}
+
+describe('impactAnalysisService', () => {
+  describe('parseImpactResponse', () => {
+    it('should parse a schema-conforming response', () => {
+      const { response, repairs } = parseImpactResponse(
+        readFixture('valid.json'),
+      );
+
+      expect(repairs).toEqual([]);
+      expect(response).toEqual({
+        outlook: '上向き',
+        impact: '強',
+        reasoning: '通期営業利益予想を上方修正、受注増が寄与',
+        counterReasoning: '為替前提が円安寄りで、円高局面では下振れ要因',
+        factors: ['業績', '受注'],
+        confidence: 0.8,
+      });
+    });
+
+    it.each([
+      ['code_fence.txt', ['code fence']],
+      ['trailing_comma.txt', ['surrounding text', 'trailing comma']],
+    ])('should repair %s', (fixture, expectedRepairs) => {
+      const { repairs } = parseImpactResponse(readFixture(fixture));
+      expect(repairs).toEqual(expectedRepairs);
+    });
+
+    it.each<[string, ImpactParseErrorCode, string | undefined]>([
+      ['empty.txt', 'empty', undefined],
+      ['truncated.txt', 'invalid_json', undefined],
+      ['legacy_text.txt', 'invalid_json', undefined],
+      ['not_object.json', 'not_object', undefined],
+      ['missing_field.json', 'missing_field', 'counterReasoning'],
+      ['invalid_outlook.json', 'invalid_value', 'outlook'],
+      ['unknown_factor.json', 'invalid_value', 'factors'],
+      ['confidence_out_of_range.json', 'invalid_value', 'confidence'],
+    ])('should reject %s as %s', (fixture, code, field) => {
+      try {
+        parseImpactResponse(readFixture(fixture));
+        throw new Error('expected parseImpactResponse to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ImpactParseError);
+        expect((error as ImpactParseError).code).toBe(code);
+        expect((error as ImpactParseError).field).toBe(field);
+      }
+    });
+  });
+
+  describe('analyzeImpact', () => {
+    let consoleWarn: jest.SpyInstance;
+
+    beforeEach(async () => {
+      consoleWarn = jest.spyOn(console, 'warn').mockReturnValue();
+      await clearAICache();
+    });
+
+    afterEach(() => {
+      consoleWarn.mockRestore();
+      resetAI();
+    });
+
+    it('should request JSON output and record passed steps', async () => {
+      const complete = mockModel(readFixture('valid.json'));
+
+      const analysis = await analyzeImpact(EVENT);
+
+      expect(complete.mock.calls[0][0].responseFormat).toEqual(
+        expect.objectContaining({ type: 'json_schema' }),
+      );
+      expect(analysis.isFailsafe).toBe(false);
+      expect(analysis.attempts).toBe(1);
+      expect(analysis.validation).toEqual([
+        { step: 'json', passed: true },
+        { step: 'schema', passed: true },
+        { step: 'forbiddenWords', passed: true },
+        { step: 'tierCap', passed: true },
+      ]);
+    });
+
+    it('should cap impact to the source tier', async () => {
+      mockModel(readFixture('valid.json'));
+
+      const analysis = await analyzeImpact({ ...EVENT, tier: 'C' });
+
+      expect(analysis.impact).toBe('弱');
+      expect(analysis.validation[3]).toEqual({
+        step: 'tierCap',
+        passed: false,
+        detail: '強 → 弱',
+      });
+    });
+
+    it('should retry once with the validation error', async () => {
+      const complete = mockModel(
+        readFixture('missing_field.json'),
+        readFixture('code_fence.txt'),
+      );
+
+      const analysis = await analyzeImpact(EVENT);
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(complete.mock.calls[1][0].userMessage).toContain(
+        'Missing field: counterReasoning',
+      );
+      expect(analysis.isFailsafe).toBe(false);
+      expect(analysis.outlook).toBe('弱含み');
+      expect(analysis.attempts).toBe(2);
+      expect(analysis.validation[0]).toEqual({
+        step: 'json',
+        passed: true,
+        detail: 'repaired: code fence',
+      });
+    });
+
+    it('should fall back when the retry is also rejected', async () => {
+      mockModel(
+        readFixture('valid.json').slice(0, 40),
+        readFixture('empty.txt'),
+      );
+
+      const analysis = await analyzeImpact(EVENT);
+
+      expect(analysis.isFailsafe).toBe(true);
+      expect(analysis.impact).toBe('強');
+      expect(analysis.attempts).toBe(2);
+      expect(analysis.validation).toEqual([
+        { step: 'json', passed: false, detail: 'Response is empty' },
+      ]);
+      expect(analysis.warnings).toHaveLength(2);
+    });
+  });
+});
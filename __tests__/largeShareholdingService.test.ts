@@ -0,0 +1,124 @@
+/**
+ * Tests for largeShareholdingService
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  formatLargeShareholdingExcerpt,
+  formatLargeShareholdingTitle,
+  parseLargeShareholdingFacts,
+} from '../src/services/largeShareholdingService';
+import { parseXbrlInstance } from '../src/services/xbrlService';
+import { LargeShareholdingInfo } from '../src/types/events';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'edinet');
+
+describe('largeShareholdingService', () => {
+  describe('parseLargeShareholdingFacts', () => {
+    it('should extract holder, issuer, ratios and purpose', () => {
+      const xml = fs.readFileSync(
+        path.join(FIXTURE_DIR, 'jplvh_sample.xbrl'),
+        'utf-8',
+      );
+
+      const info = parseLargeShareholdingFacts(parseXbrlInstance(xml));
+
+      expect(info).toEqual({
+        holderName: 'サンプル・アクティビスト・ファンド',
+        issuerName: 'サンプル工業株式会社',
+        issuerTicker: '9999',
+        holdingRatio: 6.3,
+        previousRatio: 5.1,
+        ratioChange: 1.2,
+        purpose: '純投資及び状況に応じて重要提案行為等を行うこと',
+      });
+    });
+
+    it('should use the fallback holder name when the body omits it', () => {
+      const info = parseLargeShareholdingFacts(
+        [
+          {
+            element: 'NameOfIssuer',
+            context: 'FilingDateInstant',
+            text: 'サンプル工業株式会社',
+            value: null,
+          },
+          {
+            element: 'HoldingRatioOfShareCertificatesEtc',
+            context: 'FilingDateInstant',
+            text: '5.25',
+            value: 5.25,
+          },
+        ],
+        'サンプル証券株式会社',
+      );
+
+      expect(info).toMatchObject({
+        holderName: 'サンプル証券株式会社',
+        holdingRatio: 5.25,
+        previousRatio: undefined,
+        issuerTicker: undefined,
+      });
+    });
+
+    it('should return null without a holding ratio', () => {
+      expect(
+        parseLargeShareholdingFacts([
+          {
+            element: 'NameOfIssuer',
+            context: 'FilingDateInstant',
+            text: 'サンプル工業株式会社',
+            value: null,
+          },
+        ]),
+      ).toBeNull();
+    });
+  });
+
+  describe('formatLargeShareholdingTitle', () => {
+    const base: LargeShareholdingInfo = {
+      holderName: 'サンプルファンド',
+      issuerName: 'サンプル工業',
+      issuerTicker: '9999',
+      holdingRatio: 6.3,
+      previousRatio: 5.1,
+      ratioChange: 1.2,
+    };
+
+    it('should describe an increased stake', () => {
+      expect(formatLargeShareholdingTitle(base)).toBe(
+        'サンプルファンド｜9999 サンプル工業の保有割合を引き上げ 5.10%→6.30%（+1.20pt）',
+      );
+    });
+
+    it('should describe a decreased stake', () => {
+      expect(
+        formatLargeShareholdingTitle({
+          ...base,
+          holdingRatio: 4.8,
+          ratioChange: -0.3,
+        }),
+      ).toBe(
+        'サンプルファンド｜9999 サンプル工業の保有割合を引き下げ 5.10%→4.80%（-0.30pt）',
+      );
+    });
+
+    it('should describe a new stake', () => {
+      expect(
+        formatLargeShareholdingTitle({
+          ...base,
+          previousRatio: undefined,
+          ratioChange: undefined,
+        }),
+      ).toBe('サンプルファンド｜9999 サンプル工業の株式を新規に大量保有 6.30%');
+    });
+
+    it('should include the purpose in the excerpt', () => {
+      expect(
+        formatLargeShareholdingExcerpt({ ...base, purpose: '純投資' }),
+      ).toBe('保有割合 6.30%、前回 5.10%、保有目的: 純投資');
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Tests for llmProvider
+ */
+
+import { clearAICache } from '../src/services/aiCacheRepository';
+import { initializeAI, resetAI } from '../src/services/aiService';
+import {
+  createLLMProvider,
+  LLMError,
+  LLMProvider,
+} from '../src/services/llmProvider';
+import { generateSummary } from '../src/services/summaryService';
+import { NormalizedEvent } from '../src/types/events';
+
+const REQUEST = {
+  systemPrompt: 'You are a summarizer.',
+  userMessage: 'Summarize this.',
+  temperature: 0,
+  maxTokens: 200,
+};
+
+const CHAT_COMPLETION = {
+  model: 'gpt-3.5-turbo-0125',
+  choices: [{ message: { content: '要約' } }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+};
+
+function mockFetch(status: number, body: unknown) {
+  const fetchMock = jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function requestOf(fetchMock: jest.Mock) {
+  const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+  return {
+    url,
+    headers: init.headers as Record<string, string>,
+    body: JSON.parse(init.body as string),
+  };
+}
+
+describe('llmProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('request shape', () => {
+    it('should call OpenAI with bearer auth and mapped model', async () => {
+      const fetchMock = mockFetch(200, CHAT_COMPLETION);
+      const provider = createLLMProvider({
+        provider: 'openai',
+        apiKey: 'sk-test',
+        models: { small: 'gpt-4o-mini' },
+      });
+
+      const response = await provider.complete({ ...REQUEST, model: 'small' });
+      const { url, headers, body } = requestOf(fetchMock);
+
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(headers.Authorization).toBe('Bearer sk-test');
+      expect(body.model).toBe('gpt-4o-mini');
+      expect(body.messages[0]).toEqual({
+        role: 'system',
+        content: REQUEST.systemPrompt,
+      });
+      expect(body.max_tokens).toBe(200);
+      expect(response).toEqual({
+        text: '要約',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        model: 'gpt-3.5-turbo-0125',
+      });
+    });
+
+    it('should address Azure deployments with api-key auth', async () => {
+      const fetchMock = mockFetch(200, CHAT_COMPLETION);
+      const provider = createLLMProvider({
+        provider: 'azure',
+        apiKey: 'azure-key',
+        endpoint: 'https://example.openai.azure.com/',
+        model: 'summary-deploy',
+      });
+
+      await provider.complete(REQUEST);
+      const { url, headers, body } = requestOf(fetchMock);
+
+      expect(url).toBe(
+        'https://example.openai.azure.com/openai/deployments/summary-deploy/chat/completions?api-version=2024-10-21',
+      );
+      expect(headers['api-key']).toBe('azure-key');
+      expect(headers.Authorization).toBeUndefined();
+      expect(body.model).toBeUndefined();
+    });
+
+    it('should send the system prompt separately to Anthropic', async () => {
+      const fetchMock = mockFetch(200, {
+        model: 'claude-3-haiku-20240307',
+        content: [{ type: 'text', text: '要約' }],
+        usage: { input_tokens: 12, output_tokens: 4 },
+      });
+      const provider = createLLMProvider({
+        provider: 'anthropic',
+        apiKey: 'sk-ant-test',
+      });
+
+      const response = await provider.complete(REQUEST);
+      const { url, headers, body } = requestOf(fetchMock);
+
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(headers['x-api-key']).toBe('sk-ant-test');
+      expect(headers['anthropic-version']).toBe('2023-06-01');
+      expect(body.system).toBe(REQUEST.systemPrompt);
+      expect(body.messages).toEqual([
+        { role: 'user', content: REQUEST.userMessage },
+      ]);
+      expect(response.text).toBe('要約');
+      expect(response.usage?.totalTokens).toBe(16);
+    });
+
+    it('should call a local OpenAI-compatible server without auth', async () => {
+      const fetchMock = mockFetch(200, CHAT_COMPLETION);
+      const provider = createLLMProvider({
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3',
+      });
+
+      await provider.complete(REQUEST);
+      const { url, headers, body } = requestOf(fetchMock);
+
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(headers.Authorization).toBeUndefined();
+      expect(body.model).toBe('llama3');
+    });
+
+    it('should pass a JSON schema as a strict response format', async () => {
+      const fetchMock = mockFetch(200, CHAT_COMPLETION);
+      const schema = { type: 'object', properties: {} };
+      const provider = createLLMProvider({ provider: 'openai', apiKey: 'key' });
+
+      await provider.complete({
+        ...REQUEST,
+        responseFormat: { type: 'json_schema', name: 'result', schema },
+      });
+
+      expect(requestOf(fetchMock).body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'result', schema, strict: true },
+      });
+    });
+  });
+
+  describe('structured outputs fallback', () => {
+    it('should send the schema in the prompt when response_format is rejected', async () => {
+      const consoleWarn = jest.spyOn(console, 'warn').mockReturnValue();
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          json: () =>
+            Promise.resolve({
+              error: {
+                message:
+                  "Invalid parameter: 'response_format' of type 'json_schema' is not supported with this model.",
+                type: 'invalid_request_error',
+                param: 'response_format',
+              },
+            }),
+        })
+        .mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve(CHAT_COMPLETION),
+        });
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const schema = { type: 'object', properties: {} };
+      const provider = createLLMProvider({
+        provider: 'openai',
+        apiKey: 'key',
+        model: 'gpt-3.5-turbo',
+      });
+      const request = {
+        ...REQUEST,
+        responseFormat: { type: 'json_schema' as const, name: 'r', schema },
+      };
+
+      const response = await provider.complete(request);
+      await provider.complete(request);
+
+      expect(response.text).toBe('要約');
+      // Rejected once, then never sent again
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const retried = JSON.parse(fetchMock.mock.calls[1][1].body);
+      expect(retried.response_format).toBeUndefined();
+      expect(retried.messages[0].content).toContain(JSON.stringify(schema));
+      expect(
+        JSON.parse(fetchMock.mock.calls[2][1].body).response_format,
+      ).toBeUndefined();
+      consoleWarn.mockRestore();
+    });
+
+    it('should not retry other invalid requests', async () => {
+      const fetchMock = mockFetch(400, {
+        error: { message: 'maximum context length exceeded' },
+      });
+      const provider = createLLMProvider({ provider: 'openai', apiKey: 'key' });
+
+      const error = await provider
+        .complete({
+          ...REQUEST,
+          responseFormat: { type: 'json_schema', name: 'r', schema: {} },
+        })
+        .catch((e) => e);
+
+      expect(error.code).toBe('invalid_request');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error normalization', () => {
+    it.each([
+      ['openai', 401, {}, 'auth', false],
+      [
+        'openai',
+        429,
+        { error: { code: 'rate_limit_exceeded' } },
+        'rate_limit',
+        true,
+      ],
+      ['openai', 503, {}, 'server', true],
+      [
+        'anthropic',
+        529,
+        { error: { type: 'overloaded_error' } },
+        'server',
+        true,
+      ],
+      [
+        'anthropic',
+        400,
+        { error: { type: 'invalid_request_error' } },
+        'invalid_request',
+        false,
+      ],
+    ] as const)(
+      'should map %s %i to %s',
+      async (providerId, status, body, code, retryable) => {
+        mockFetch(status, body);
+        const provider = createLLMProvider(
+          providerId === 'openai'
+            ? { provider: 'openai', apiKey: 'key' }
+            : { provider: 'anthropic', apiKey: 'key' },
+        );
+
+        const error = await provider.complete(REQUEST).catch((e) => e);
+        expect(error).toBeInstanceOf(LLMError);
+        expect(error.code).toBe(code);
+        expect(error.status).toBe(status);
+        expect(error.retryable).toBe(retryable);
+      },
+    );
+
+    it('should report an unreachable server as a network error', async () => {
+      global.fetch = jest
+        .fn()
+        .mockRejectedValue(
+          new TypeError('Network request failed'),
+        ) as unknown as typeof fetch;
+      const provider = createLLMProvider({
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:8080/v1',
+      });
+
+      const error = await provider.complete(REQUEST).catch((e) => e);
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.code).toBe('network');
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('generateSummary with a stand-in provider', () => {
+    const event: NormalizedEvent = {
+      id: 'event1',
+      tier: 'A',
+      title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+      url: 'https://example.com/1',
+      publishedAt: '2026-10-14T00:30:00Z',
+      fetchedAt: '2026-10-14T00:35:00Z',
+      tickerCodes: ['7203'],
+      eventType: '上方修正',
+      sourceName: 'TDnet',
+    };
+
+    beforeEach(async () => {
+      await clearAICache();
+    });
+
+    afterEach(() => {
+      resetAI();
+    });
+
+    it('should only depend on the provider interface', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: 'トヨタ自動車は業績予想の修正を発表した。',
+        model: 'stand-in',
+      });
+      const provider: LLMProvider = {
+        id: 'openai-compatible',
+        defaultModel: 'stand-in',
+        complete,
+      };
+      initializeAI({ provider });
+
+      const result = await generateSummary(event);
+
+      expect(result.isFailsafe).toBe(false);
+      expect(result.summary).toBe('トヨタ自動車は業績予想の修正を発表した。');
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0, maxTokens: 200 }),
+      );
+    });
+
+    it('should fall back without retrying non-retryable errors', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockReturnValue();
+      const complete = jest
+        .fn()
+        .mockRejectedValue(new LLMError('auth', 'openai', 'invalid key', 401));
+      initializeAI({
+        provider: { id: 'openai', defaultModel: 'gpt-3.5-turbo', complete },
+      });
+
+      const result = await generateSummary(event);
+
+      expect(result.isFailsafe).toBe(true);
+      expect(complete).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -69,6 +69,23 @@ describe('normalizationService', () => {
       expect(normalized.url).not.toContain('#');
     });
 
+    it('should accept alphanumeric ticker codes', () => {
+      const rawEvent: RawEvent = {
+        id: 'test-id-alnum',
+        source: 'TDNET',
+        tier: 'A',
+        title: 'サンプル｜上場に関するお知らせ',
+        url: 'https://example.com/130A',
+        publishedAt: '2025-01-15T10:00:00Z',
+        fetchedAt: '2025-01-15T10:05:00Z',
+        tickerCodes: ['130A0', '１３５ａ', '12AB'],
+      };
+
+      const normalized = normalizeEvent(rawEvent);
+
+      expect(normalized.tickerCodes).toEqual(['130A', '135A']);
+    });
+
     it('should handle events with no ticker codes', () => {
       const rawEvent: RawEvent = {
         id: 'test-id-4',
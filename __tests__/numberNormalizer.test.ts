@@ -0,0 +1,96 @@
+/**
+ * Tests for numberNormalizer utilities
+ */
+
+import { checkNumericConsistency } from '../src/services/summaryService';
+import { NormalizedEvent } from '../src/types/events';
+import {
+  extractBareNumbers,
+  extractFigureChanges,
+  extractQuantities,
+  formatFigureChange,
+} from '../src/utils/numberNormalizer';
+
+describe('numberNormalizer', () => {
+  describe('extractQuantities', () => {
+    it('should apply multipliers and units', () => {
+      const [amount, shares, ratio] = extractQuantities(
+        '売上高1,234百万円、500千株を取得、PBR1.2倍',
+      );
+
+      expect(amount).toMatchObject({ value: 1234e6, unit: 'JPY' });
+      expect(shares).toMatchObject({ value: 500e3, unit: 'shares' });
+      expect(ratio).toMatchObject({ value: 1.2, unit: 'times' });
+    });
+
+    it('should read full-width digits, kanji numerals and negatives', () => {
+      const values = extractQuantities(
+        '１２０億円、三百億円、1兆2000億円、△30億円',
+      ).map((q) => q.value);
+
+      expect(values).toEqual([120e8, 300e8, 1.2e12, -30e8]);
+    });
+
+    it('should read ranges', () => {
+      const [range] = extractQuantities('100〜120億円の調達');
+
+      expect(range).toMatchObject({ value: 100e8, valueMax: 120e8 });
+    });
+  });
+
+  describe('extractFigureChanges', () => {
+    it('should turn a revision into before/after values', () => {
+      const [change] = extractFigureChanges(
+        '営業利益を120億円から150億円に上方修正',
+      );
+
+      expect(change.label).toBe('営業利益');
+      expect(change.before.value).toBe(120e8);
+      expect(change.after.value).toBe(150e8);
+      expect(change.change).toBe(30e8);
+      expect(change.changePercent).toBe(25);
+      expect(formatFigureChange(change)).toBe(
+        '営業利益 120億円 → 150億円（+25%）',
+      );
+    });
+
+    it('should carry the unit to an arrow-style before value', () => {
+      const [change] = extractFigureChanges('年間配当 120→150円');
+
+      expect(change.before).toMatchObject({ value: 120, unit: 'JPY' });
+    });
+  });
+
+  it('should leave numbers with units out of bare numbers', () => {
+    expect(extractBareNumbers('2025年3月期 営業利益150億円')).toEqual([
+      '2025',
+      '3',
+    ]);
+  });
+});
+
+describe('checkNumericConsistency', () => {
+  const event: NormalizedEvent = {
+    id: 'e1',
+    title: 'トヨタ自動車｜業績予想の修正（上方修正）',
+    excerpt: '2025年3月期の営業利益を120億円から150億円に上方修正',
+    url: 'https://example.com',
+    sourceName: 'TDnet',
+    sourceType: 'primary',
+    publishedAt: '2025-01-01T00:00:00Z',
+    tickerCodes: ['7203'],
+    eventType: '上方修正',
+  };
+
+  it('should accept values written in other units', () => {
+    const summary = '2025年3月期の営業利益を15,000百万円に引き上げ（25%増）';
+
+    expect(checkNumericConsistency(event, summary)).toEqual([]);
+  });
+
+  it('should flag values not in the source', () => {
+    expect(
+      checkNumericConsistency(event, '営業利益を160億円に上方修正'),
+    ).toEqual(['Number 160億円 in summary not found in source']);
+  });
+});
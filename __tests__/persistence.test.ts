@@ -0,0 +1,239 @@
+/**
+ * Tests for Redux state persistence
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+
+import {
+  deserializeValue,
+  migrateState,
+  MOCK_PERSIST_WHITELIST,
+  parsePersistedState,
+  persistStore,
+  pickPersistedState,
+  serializeValue,
+  validatePersistedState,
+  withHydration,
+} from '../src/store/persistence';
+import settingsReducer from '../src/store/settingsSlice';
+import watchlistReducer from '../src/store/watchlistSlice';
+import { AppError, ErrorType } from '../src/utils/errorHandler';
+
+const STORAGE_KEY = '@bizstock/reduxState';
+
+function createStore() {
+  return configureStore({
+    reducer: withHydration(
+      combineReducers({
+        watchlist: watchlistReducer,
+        settings: settingsReducer,
+      }),
+    ),
+  });
+}
+
+describe('persistence', () => {
+  describe('serializeValue / deserializeValue', () => {
+    it('should round-trip Sets through JSON', () => {
+      const state = {
+        events: { readEventIds: new Set(['cluster_1', 'event_2']) },
+        watchlist: { tickers: ['7203'] },
+      };
+      const restored = deserializeValue(
+        JSON.parse(JSON.stringify(serializeValue(state))),
+      ) as typeof state;
+
+      expect(restored.events.readEventIds).toBeInstanceOf(Set);
+      expect([...restored.events.readEventIds]).toEqual([
+        'cluster_1',
+        'event_2',
+      ]);
+      expect(restored.watchlist.tickers).toEqual(['7203']);
+    });
+  });
+
+  describe('pickPersistedState', () => {
+    it('should keep only whitelisted slices and keys', () => {
+      const picked = pickPersistedState(
+        {
+          watchlist: { tickers: ['7203'] },
+          events: { events: [{ clusterId: 'c1' }], readEventIds: new Set() },
+          notifications: { items: [], deliveryLog: [{ clusterId: 'c1' }] },
+        },
+        { watchlist: true, events: ['readEventIds'], notifications: ['items'] },
+      );
+
+      expect(picked).toEqual({
+        watchlist: { tickers: ['7203'] },
+        events: { readEventIds: new Set() },
+        notifications: { items: [] },
+      });
+    });
+
+    it('should leave the feed out in mock mode', () => {
+      const picked = pickPersistedState(
+        {
+          events: {
+            events: [{ clusterId: 'mock' }],
+            liveEvents: [{ clusterId: 'mock' }],
+            readEventIds: new Set(['mock']),
+          },
+        },
+        MOCK_PERSIST_WHITELIST,
+      );
+
+      expect(picked.events).toEqual({ readEventIds: new Set(['mock']) });
+    });
+  });
+
+  describe('migrateState', () => {
+    it('should apply migrations in order up to the current version', () => {
+      const migrations = {
+        2: (state: Record<string, Record<string, unknown>>) => ({
+          ...state,
+          settings: { ...state.settings, dailyLimit: 5 },
+        }),
+        3: (state: Record<string, Record<string, unknown>>) => ({
+          ...state,
+          settings: {
+            ...state.settings,
+            dailyLimit: (state.settings.dailyLimit as number) * 2,
+          },
+        }),
+      };
+
+      expect(migrateState({ settings: {} }, 1, migrations, 3)).toEqual({
+        settings: { dailyLimit: 10 },
+      });
+      expect(
+        migrateState({ settings: { dailyLimit: 3 } }, 2, migrations, 3),
+      ).toEqual({ settings: { dailyLimit: 6 } });
+    });
+
+    it('should reject state from a newer app version', () => {
+      expect(() => migrateState({}, 3, {}, 2)).toThrow(AppError);
+    });
+  });
+
+  describe('parsePersistedState', () => {
+    it('should restore a stored envelope', () => {
+      const raw = JSON.stringify({
+        version: 1,
+        state: serializeValue({ events: { readEventIds: new Set(['a']) } }),
+      });
+      const state = parsePersistedState(raw);
+      expect(state.events.readEventIds).toEqual(new Set(['a']));
+    });
+
+    it.each([
+      ['invalid JSON', '{"version":1,'],
+      ['no version', JSON.stringify({ state: {} })],
+      ['no state', JSON.stringify({ version: 1 })],
+      ['not an object', '"corrupted"'],
+    ])('should report corrupted storage (%s)', (_, raw) => {
+      try {
+        parsePersistedState(raw);
+        throw new Error('expected parsePersistedState to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).type).toBe(ErrorType.STORAGE);
+      }
+    });
+  });
+
+  describe('persistStore', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('should restore stored state over defaults', async () => {
+      await AsyncStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({
+          version: 1,
+          state: {
+            watchlist: { tickers: ['7203'] },
+            settings: { dailyLimit: 9 },
+          },
+        }),
+      );
+      const store = createStore();
+      await persistStore(store, { watchlist: true, settings: true });
+
+      expect(store.getState().watchlist.tickers).toEqual(['7203']);
+      expect(store.getState().settings.dailyLimit).toBe(9);
+      // Keys missing from storage keep their defaults
+      expect(store.getState().settings.highImmediate).toBe(true);
+    });
+
+    it('should reset corrupted storage and report it', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockReturnValue();
+      await AsyncStorage.setItem(STORAGE_KEY, '{not json');
+      const store = createStore();
+      await persistStore(store, { watchlist: true });
+
+      expect(store.getState().watchlist.tickers).toEqual([]);
+      expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining('[STORAGE]'),
+        expect.any(String),
+        expect.anything(),
+      );
+      consoleError.mockRestore();
+    });
+
+    it.each([
+      ['tickers as a string', { tickers: '7203' }],
+      ['slice as an array', ['7203']],
+    ])(
+      'should reset only a slice restored with wrong types (%s)',
+      async (_, watchlist) => {
+        const consoleError = jest.spyOn(console, 'error').mockReturnValue();
+        await AsyncStorage.setItem(
+          STORAGE_KEY,
+          JSON.stringify({
+            version: 1,
+            state: { watchlist, settings: { dailyLimit: 9 } },
+          }),
+        );
+        const store = createStore();
+        await persistStore(store, { watchlist: true, settings: true });
+
+        expect(store.getState().watchlist.tickers).toEqual([]);
+        expect(store.getState().settings.dailyLimit).toBe(9);
+        expect(consoleError).toHaveBeenCalledWith(
+          expect.stringContaining('[STORAGE]'),
+          expect.any(String),
+          expect.anything(),
+        );
+        // Storage no longer holds the bad slice
+        const stored = JSON.parse(
+          (await AsyncStorage.getItem(STORAGE_KEY)) || '{}',
+        );
+        expect(stored.state.watchlist.tickers).toEqual([]);
+        consoleError.mockRestore();
+      },
+    );
+  });
+
+  describe('validatePersistedState', () => {
+    it('should check each key against the type of its default', () => {
+      const { state, invalid } = validatePersistedState(
+        {
+          watchlist: { tickers: ['7203'] },
+          events: { readEventIds: ['cluster_1'] as unknown as Set<string> },
+          settings: { quietUntil: '2026-10-19T00:00:00Z' },
+        },
+        {
+          watchlist: { tickers: [] },
+          events: { readEventIds: new Set() },
+          settings: { quietUntil: null },
+        },
+      );
+
+      expect(Object.keys(state)).toEqual(['watchlist', 'settings']);
+      expect(invalid).toEqual(['events.readEventIds']);
+    });
+  });
+});
@@ -64,6 +64,60 @@ describe('personalizationService', () => {
       expect(score).toBeGreaterThan(0);
     });
 
+    it('should score subsidiary news lower than direct news', () => {
+      const base = {
+        id: 'e1',
+        tier: 'B' as const,
+        title: 'ダイハツ、新型車を発表',
+        url: 'https://example.com/1',
+        publishedAt: '2025-01-15T10:00:00Z',
+        fetchedAt: '2025-01-15T10:01:00Z',
+        tickerCodes: ['7203'],
+        eventType: '新製品' as const,
+        sourceName: 'PR TIMES',
+      };
+      const cluster = (events: ClusteredEvent['events']): ClusteredEvent => ({
+        clusterId: 'test-group',
+        events,
+        primaryTicker: '7203',
+        allTickers: ['7203'],
+        title: 'ダイハツ、新型車を発表',
+        impact: '中',
+        eventType: '新製品',
+        publishedAt: '2025-01-15T10:00:00Z',
+        sources: ['PR TIMES'],
+      });
+
+      const profile: UserProfile = {
+        userId: 'user1',
+        watchlist: ['7203'],
+        readEvents: new Set(),
+      };
+
+      const direct = calculateRelevanceScore(cluster([base]), profile);
+      const viaSubsidiary = calculateRelevanceScore(
+        cluster([
+          {
+            ...base,
+            tickerRelations: [
+              {
+                ticker: '7203',
+                relation: 'via_subsidiary',
+                via: 'ダイハツ工業',
+              },
+            ],
+          },
+        ]),
+        profile,
+      );
+
+      expect(viaSubsidiary.score).toBeLessThan(direct.score);
+      expect(viaSubsidiary.reason).toContain(
+        '子会社経由: 7203（ダイハツ工業）',
+      );
+      expect(direct.reason).not.toContain('子会社経由');
+    });
+
     it('should boost score for high-impact events', () => {
       const eventMedium: ClusteredEvent = {
         clusterId: 'test3a',
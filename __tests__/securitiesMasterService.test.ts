@@ -0,0 +1,106 @@
+/**
+ * Tests for securitiesMasterService
+ */
+
+import {
+  extractTickerCodes,
+  findCodesByName,
+  findCodesByNumber,
+  getCompanyName,
+  getSecurityByEdinetCode,
+  getSecuritiesMasterVersion,
+  initializeSecuritiesMaster,
+  resolveSecurity,
+  updateSecuritiesMaster,
+} from '../src/services/securitiesMasterService';
+
+describe('securitiesMasterService', () => {
+  describe('findCodesByName', () => {
+    it('should resolve names, aliases and former names', () => {
+      expect(findCodesByName('トヨタ、新型EVを発表')).toEqual(['7203']);
+      expect(findCodesByName('日本電産の新工場')).toEqual(['6594']);
+      expect(findCodesByName('MUFGとSMFGが共同出資')).toEqual(['8306', '8316']);
+    });
+
+    it('should prefer the longest name', () => {
+      expect(findCodesByName('ソフトバンクグループ、決算説明会')).toEqual([
+        '9984',
+      ]);
+    });
+
+    it('should require word boundaries for ASCII names', () => {
+      expect(findCodesByName('ANALYST REPORT 2025')).toEqual([]);
+      expect(findCodesByName('ANAが新路線')).toEqual(['9202']);
+    });
+  });
+
+  describe('findCodesByNumber', () => {
+    it('should reject years, amounts and counts', () => {
+      expect(
+        findCodesByNumber('2025年3月期 売上高1200億円、従業員3000人'),
+      ).toEqual([]);
+      expect(findCodesByNumber('FY2025の見通し')).toEqual([]);
+    });
+
+    it('should accept codes with code context', () => {
+      expect(findCodesByNumber('サンプル工業（9999）が新製品')).toEqual([
+        '9999',
+      ]);
+      expect(findCodesByNumber('証券コード：９９９８')).toEqual(['9998']);
+    });
+
+    it('should accept alphanumeric codes with code context', () => {
+      expect(findCodesByNumber('サンプル（130A）が新規上場')).toEqual(['130A']);
+      expect(findCodesByNumber('東証グロース：１３５Ａ')).toEqual(['135A']);
+      // Letters B/E/I/O/Q/V/Z are never used
+      expect(findCodesByNumber('サンプル（130B）')).toEqual([]);
+    });
+
+    it('should reject year-like codes that are not listed', () => {
+      expect(findCodesByNumber('設立（2025）')).toEqual([]);
+    });
+
+    it('should accept bare numbers only when listed', () => {
+      expect(findCodesByNumber('7203 新型車を発表')).toEqual(['7203']);
+      expect(findCodesByNumber('1234 新型車を発表')).toEqual([]);
+    });
+  });
+
+  it('should combine number and name matches', () => {
+    expect(
+      extractTickerCodes('2025年 トヨタ（7203）とデンソーが提携', ''),
+    ).toEqual(['7203', '6902']);
+  });
+
+  it('should look up names and EDINET codes', () => {
+    expect(getCompanyName('7203')).toBe('トヨタ自動車');
+    expect(getCompanyName('0000')).toBeUndefined();
+    expect(getSecurityByEdinetCode('E02144')?.code).toBe('7203');
+  });
+
+  it('should resolve watchlist input by code, name or kana', () => {
+    expect(resolveSecurity('7203')?.name).toBe('トヨタ自動車');
+    expect(resolveSecurity('ｔｏｙｏｔａ')?.code).toBe('7203');
+    expect(resolveSecurity('ニンテンドウ')?.code).toBe('7974');
+    expect(resolveSecurity('存在しない会社')).toBeUndefined();
+  });
+
+  describe('updateSecuritiesMaster', () => {
+    it('should install and persist a newer list', async () => {
+      const count = await updateSecuritiesMaster(
+        [
+          { code: '9999', name: 'サンプル工業', aliases: ['サンプル'] },
+          { code: 'bad', name: '不正' },
+        ],
+        '2099-01-01',
+      );
+
+      expect(count).toBe(1);
+      expect(getCompanyName('9999')).toBe('サンプル工業');
+      expect(getCompanyName('7203')).toBeUndefined();
+
+      await initializeSecuritiesMaster();
+      expect(getSecuritiesMasterVersion()).toBe('2099-01-01');
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for sourceCursorRepository and incremental RSS fetching
+ */
+
+import { fetchNewRSSFeedEvents } from '../src/services/rssService';
+import {
+  clearSourceCursors,
+  commitCursorUpdates,
+  fetchConditional,
+  getSourceCursor,
+  updateRequestCursor,
+} from '../src/services/sourceCursorRepository';
+
+const SOURCE = {
+  id: 'prtimes',
+  name: 'PR TIMES',
+  url: 'https://example.com/feed.rss',
+  tier: 'B' as const,
+};
+
+function rssResponse(
+  items: { title: string; link: string; pubDate: string }[],
+  headers: Record<string, string> = {},
+) {
+  const body = `<?xml version="1.0"?><rss><channel>${items
+    .map(
+      (i) =>
+        `<item><title>${i.title}</title><link>${i.link}</link><pubDate>${i.pubDate}</pubDate></item>`,
+    )
+    .join('')}</channel></rss>`;
+  return {
+    ok: true,
+    status: 200,
+    headers: { get: (name: string) => headers[name] || null },
+    text: async () => body,
+  };
+}
+
+describe('sourceCursorRepository', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    await clearSourceCursors();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe('fetchConditional', () => {
+    it('should send stored validators and return null on 304', async () => {
+      await updateRequestCursor('EDINET', 'documents:2025-06-18', {
+        etag: '"abc"',
+        lastModified: 'Wed, 18 Jun 2025 06:00:00 GMT',
+      });
+      const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 304 });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const response = await fetchConditional(
+        'EDINET',
+        'documents:2025-06-18',
+        'https://example.com/documents.json',
+        { headers: { 'User-Agent': 'test' } },
+      );
+
+      expect(response).toBeNull();
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({
+        'User-Agent': 'test',
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Wed, 18 Jun 2025 06:00:00 GMT',
+      });
+    });
+
+    it('should prune request cursors past retention', async () => {
+      await updateRequestCursor(
+        'TDNET',
+        'list:2025-05-01',
+        { lastId: 'old' },
+        new Date('2025-05-01T00:00:00Z'),
+      );
+      await updateRequestCursor(
+        'TDNET',
+        'list:2025-05-10',
+        { lastId: 'new' },
+        new Date('2025-05-10T00:00:00Z'),
+      );
+
+      const cursor = await getSourceCursor('TDNET');
+
+      expect(Object.keys(cursor.requests)).toEqual(['list:2025-05-10']);
+    });
+  });
+
+  describe('fetchNewRSSFeedEvents', () => {
+    it('should return only items not older than the cursor', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const first = {
+        title: 'A',
+        link: 'https://x/a',
+        pubDate: 'Wed, 18 Jun 2025 01:00:00 GMT',
+      };
+      const second = {
+        title: 'B',
+        link: 'https://x/b',
+        pubDate: 'Wed, 18 Jun 2025 02:00:00 GMT',
+      };
+      // Same minute as the cursor, but only in the later fetch
+      const sameMinute = {
+        title: 'C',
+        link: 'https://x/c',
+        pubDate: 'Wed, 18 Jun 2025 01:00:00 GMT',
+      };
+      const older = {
+        title: 'D',
+        link: 'https://x/d',
+        pubDate: 'Wed, 18 Jun 2025 00:59:00 GMT',
+      };
+
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue(
+          rssResponse([first], { ETag: '"v1"' }),
+        ) as unknown as typeof fetch;
+      const initial = await fetchNewRSSFeedEvents(SOURCE);
+      await commitCursorUpdates(initial.cursorUpdates || []);
+
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValue(
+          rssResponse([second, sameMinute, first, older], { ETag: '"v2"' }),
+        );
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const delta = await fetchNewRSSFeedEvents(SOURCE);
+
+      expect(initial.events.map((e) => e.title)).toEqual(['A']);
+      // A repeats at the cursor's timestamp; filterNewEvents drops it
+      expect(delta.events.map((e) => e.title)).toEqual(['B', 'C', 'A']);
+      expect(fetchMock.mock.calls[0][1].headers['If-None-Match']).toBe('"v1"');
+
+      await commitCursorUpdates(delta.cursorUpdates || []);
+      const cursor = await getSourceCursor('prtimes');
+      expect(cursor.lastPublishedAt).toBe('2025-06-18T02:00:00.000Z');
+      expect(cursor.requests.feed.etag).toBe('"v2"');
+    });
+
+    it('should not move the cursor until the updates are committed', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const item = {
+        title: 'A',
+        link: 'https://x/a',
+        pubDate: 'Wed, 18 Jun 2025 01:00:00 GMT',
+      };
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValue(rssResponse([item], { ETag: '"v1"' }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      await fetchNewRSSFeedEvents(SOURCE);
+      // Run failed before commit: the same items are fetched again
+      const retry = await fetchNewRSSFeedEvents(SOURCE);
+
+      expect(retry.events.map((e) => e.title)).toEqual(['A']);
+      expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe(
+        undefined,
+      );
+      expect(await getSourceCursor('prtimes')).toEqual({
+        lastPublishedAt: undefined,
+        requests: {},
+      });
+    });
+
+    it('should return no events when the feed is unchanged', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 304,
+      }) as unknown as typeof fetch;
+
+      await expect(fetchNewRSSFeedEvents(SOURCE)).resolves.toEqual({
+        events: [],
+      });
+    });
+  });
+});
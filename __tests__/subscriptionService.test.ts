@@ -0,0 +1,107 @@
+/**
+ * Tests for subscriptionService
+ */
+
+import { clusterEvents } from '../src/services/clusteringService';
+import {
+  decideNotification,
+  NotificationPreferences,
+} from '../src/services/subscriptionService';
+import {
+  ClusterDelta,
+  ImpactLevel,
+  NormalizedEvent,
+} from '../src/types/events';
+
+const EVENT: NormalizedEvent = {
+  id: 'event1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  url: 'https://example.com/1',
+  publishedAt: '2025-01-15T10:00:00Z',
+  fetchedAt: '2025-01-15T10:05:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+const PREFS: NotificationPreferences = {
+  followUpsOnly: false,
+  followUpsOnlyTickers: [],
+  subscribedThreadIds: [],
+  unsubscribedThreadIds: [],
+  highImmediate: true,
+  tickerOverrides: {},
+};
+
+function createDelta(
+  impact: ImpactLevel,
+  overrides: Partial<ClusterDelta> = {},
+): ClusterDelta {
+  const [cluster] = clusterEvents([EVENT]);
+  return {
+    type: 'created',
+    cluster: { ...cluster, impact, threadId: 'thread1' },
+    addedEvents: [EVENT],
+    ...overrides,
+  };
+}
+
+describe('subscriptionService', () => {
+  describe('decideNotification', () => {
+    it('should follow global settings without an override', () => {
+      expect(decideNotification(createDelta('強'), PREFS).push).toBe(true);
+      expect(decideNotification(createDelta('中'), PREFS).push).toBe(false);
+    });
+
+    it('should never push muted tickers', () => {
+      const prefs = {
+        ...PREFS,
+        tickerOverrides: { '7203': { mode: 'muted' as const } },
+      };
+
+      expect(decideNotification(createDelta('強'), prefs)).toEqual({
+        push: false,
+        reason: 'ミュート中の銘柄',
+      });
+    });
+
+    it('should push every new cluster of an always-immediate ticker', () => {
+      const prefs = {
+        ...PREFS,
+        highImmediate: false,
+        tickerOverrides: { '7203': { mode: 'immediate' as const } },
+      };
+
+      expect(decideNotification(createDelta('弱'), prefs).push).toBe(true);
+    });
+
+    it('should hold subscribed follow-ups below 強 for 強のみ tickers', () => {
+      const followUp = createDelta('中', { followUp: 'update' });
+      const prefs = {
+        ...PREFS,
+        subscribedThreadIds: ['thread1'],
+        tickerOverrides: { '7203': { mode: 'highOnly' as const } },
+      };
+
+      expect(decideNotification(followUp, prefs).push).toBe(false);
+      expect(
+        decideNotification(createDelta('強', { followUp: 'update' }), prefs)
+          .push,
+      ).toBe(true);
+    });
+
+    it('should apply event type filters', () => {
+      const prefs = {
+        ...PREFS,
+        tickerOverrides: {
+          '7203': { mode: 'default' as const, eventTypes: ['事故' as const] },
+        },
+      };
+
+      expect(decideNotification(createDelta('強'), prefs).reason).toBe(
+        '対象外のイベント種別',
+      );
+    });
+  });
+});
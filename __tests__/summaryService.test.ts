@@ -0,0 +1,56 @@
+/**
+ * Tests for summaryService
+ */
+
+import { clearAICache } from '../src/services/aiCacheRepository';
+import { initializeAI, resetAI } from '../src/services/aiService';
+import { clearAIUsage } from '../src/services/aiUsageService';
+import { generateSummary } from '../src/services/summaryService';
+import { NormalizedEvent } from '../src/types/events';
+
+const EVENT: NormalizedEvent = {
+  id: 'tdnet1',
+  tier: 'A',
+  title: 'トヨタ自動車｜業績予想の修正に関するお知らせ',
+  excerpt: '通期営業利益予想を3兆円から3.5兆円に上方修正',
+  url: 'https://example.com/tdnet1',
+  publishedAt: '2026-10-14T06:00:00Z',
+  fetchedAt: '2026-10-14T06:05:00Z',
+  tickerCodes: ['7203'],
+  eventType: '上方修正',
+  sourceName: 'TDnet',
+};
+
+describe('summaryService', () => {
+  describe('generateSummary', () => {
+    beforeEach(async () => {
+      await clearAICache();
+      await clearAIUsage();
+    });
+
+    afterEach(() => {
+      resetAI();
+    });
+
+    it('should cache summaries rejected for forbidden words', async () => {
+      const complete = jest.fn().mockResolvedValue({
+        text: 'トヨタ自動車は通期の営業利益予想を3.5兆円に上方修正した。買い推奨。',
+        model: 'stand-in',
+      });
+      initializeAI({
+        provider: {
+          id: 'openai-compatible',
+          defaultModel: 'stand-in',
+          complete,
+        },
+      });
+
+      const first = await generateSummary(EVENT);
+      const second = await generateSummary(EVENT);
+
+      expect(first.isFailsafe).toBe(true);
+      expect(second).toMatchObject({ isFailsafe: true, cached: true });
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
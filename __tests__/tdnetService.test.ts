@@ -0,0 +1,147 @@
+/**
+ * Tests for tdnetService
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { normalizeEvent } from '../src/services/normalizationService';
+import {
+  clearSourceCursors,
+  commitCursorUpdates,
+} from '../src/services/sourceCursorRepository';
+import {
+  convertToRawEvent,
+  fetchNewTdnetDisclosures,
+  fetchTdnetDisclosures,
+  getTdnetListUrl,
+  getTdnetPageCount,
+  parseTdnetList,
+} from '../src/services/tdnetService';
+
+const LIST_HTML = fs.readFileSync(
+  path.join(__dirname, 'fixtures', 'tdnet', 'I_list_001_20250508.html'),
+  'utf-8',
+);
+
+describe('tdnetService', () => {
+  describe('parseTdnetList', () => {
+    it('should parse disclosure rows and skip the header', () => {
+      const disclosures = parseTdnetList(LIST_HTML, '2025-05-08');
+
+      expect(disclosures).toHaveLength(3);
+      expect(disclosures[0]).toEqual({
+        id: '140120250508500001',
+        disclosedAt: '2025-05-08T15:30:00+09:00',
+        code: '99990',
+        companyName: 'サンプル工業',
+        title: '2025年3月期　決算短信〔日本基準〕（連結）',
+        pdfUrl: 'https://www.release.tdnet.info/inbs/140120250508500001.pdf',
+        xbrlUrl: 'https://www.release.tdnet.info/inbs/081220250508500001.zip',
+        exchange: '東',
+        history: undefined,
+      });
+    });
+
+    it('should decode entities and keep optional columns', () => {
+      const [, buyback, revision] = parseTdnetList(LIST_HTML, '2025-05-08');
+
+      expect(buyback.companyName).toBe('サンプル&パートナーズ');
+      expect(buyback.xbrlUrl).toBeUndefined();
+      expect(buyback.exchange).toBe('東名');
+      expect(buyback.history).toBe('［更新］');
+      // Single-digit hours are zero-padded
+      expect(revision.disclosedAt).toBe('2025-05-08T09:00:00+09:00');
+    });
+
+    it('should detect pagination links', () => {
+      expect(getTdnetPageCount(LIST_HTML)).toBe(3);
+      expect(getTdnetPageCount('<table></table>')).toBe(1);
+    });
+  });
+
+  describe('convertToRawEvent', () => {
+    it('should produce a tier A event linking to the PDF', () => {
+      const [disclosure] = parseTdnetList(LIST_HTML, '2025-05-08');
+
+      const event = convertToRawEvent(disclosure);
+
+      expect(event).toMatchObject({
+        source: 'TDNET',
+        tier: 'A',
+        title: 'サンプル工業｜2025年3月期　決算短信〔日本基準〕（連結）',
+        url: 'https://www.release.tdnet.info/inbs/140120250508500001.pdf',
+        publishedAt: '2025-05-08T06:30:00.000Z',
+        tickerCodes: ['9999'],
+        externalId: 'TDNET:140120250508500001',
+      });
+      expect(normalizeEvent(event).sourceName).toBe('TDnet');
+    });
+  });
+
+  describe('fetchTdnetDisclosures', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it('should fetch every listing page up to the limit', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => LIST_HTML,
+      });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const events = await fetchTdnetDisclosures('2025-05-08', 2);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][0]).toBe(getTdnetListUrl('2025-05-08', 2));
+      expect(events).toHaveLength(6);
+    });
+
+    it('should return no events for dates without a listing', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      }) as unknown as typeof fetch;
+
+      await expect(fetchTdnetDisclosures('2025-05-10')).resolves.toEqual([]);
+    });
+  });
+
+  describe('fetchNewTdnetDisclosures', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+      await clearSourceCursors();
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should stop at the last processed disclosure', async () => {
+      const response = {
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        text: async () => LIST_HTML,
+      };
+      const fetchMock = jest.fn().mockResolvedValue(response);
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const initial = await fetchNewTdnetDisclosures('2025-05-08', 1);
+      await commitCursorUpdates(initial.cursorUpdates || []);
+      const repeat = await fetchNewTdnetDisclosures('2025-05-08');
+
+      expect(initial.events).toHaveLength(3);
+      // Newest row unchanged: nothing new and no further pages fetched
+      expect(repeat.events).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
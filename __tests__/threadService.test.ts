@@ -0,0 +1,207 @@
+/**
+ * Tests for threadService
+ */
+
+import {
+  clusterEvents,
+  clusterIncrementally,
+} from '../src/services/clusteringService';
+import {
+  assignThreads,
+  clearThreads,
+  FollowUpPreferences,
+  getThread,
+  getThreadSubject,
+  routeClusterDelta,
+} from '../src/services/threadService';
+import { ClusterDelta, NormalizedEvent } from '../src/types/events';
+
+function createEvent(overrides: Partial<NormalizedEvent>): NormalizedEvent {
+  return {
+    id: 'event1',
+    tier: 'A',
+    title: 'トヨタ自動車｜業務提携に関するお知らせ',
+    url: 'https://example.com/1',
+    publishedAt: '2025-01-15T10:00:00Z',
+    fetchedAt: '2025-01-15T10:05:00Z',
+    tickerCodes: ['7203'],
+    eventType: '提携',
+    sourceName: 'TDnet',
+    ...overrides,
+  };
+}
+
+/**
+ * Run one pipeline step: cluster new events, then assign threads
+ */
+async function run(
+  existing: ClusterDelta[],
+  events: NormalizedEvent[],
+  now: string,
+): Promise<ClusterDelta[]> {
+  return assignThreads(
+    clusterIncrementally(
+      existing.map((d) => d.cluster),
+      events,
+      undefined,
+      new Date(now),
+    ),
+    new Date(now),
+  );
+}
+
+const PREFS: FollowUpPreferences = {
+  followUpsOnly: false,
+  followUpsOnlyTickers: [],
+  subscribedThreadIds: [],
+  unsubscribedThreadIds: [],
+  highImmediate: true,
+};
+
+describe('threadService', () => {
+  beforeEach(async () => {
+    await clearThreads();
+  });
+
+  it('should strip update wording from subjects', () => {
+    expect(
+      getThreadSubject('トヨタ自動車｜（変更）業務提携に関するお知らせ'),
+    ).toBe(getThreadSubject('トヨタ自動車｜業務提携に関するお知らせ'));
+  });
+
+  it('should start a thread for a new cluster', async () => {
+    const [delta] = await run([], [createEvent({})], '2025-01-15T10:05:00Z');
+
+    expect(delta.followUp).toBeUndefined();
+    expect(delta.cluster.threadId).toBe(delta.cluster.clusterId);
+    expect(await getThread(delta.cluster.clusterId)).toMatchObject({
+      updateCount: 0,
+    });
+  });
+
+  it('should mark new sources on a cluster as a follow-up', async () => {
+    const first = await run([], [createEvent({})], '2025-01-15T10:05:00Z');
+    const [delta] = await run(
+      first,
+      [
+        createEvent({
+          id: 'event2',
+          tier: 'B',
+          title: 'トヨタ自動車が業務提携に関するお知らせ',
+          url: 'https://example.com/2',
+          publishedAt: '2025-01-15T10:10:00Z',
+          sourceName: 'PR TIMES',
+        }),
+      ],
+      '2025-01-15T10:15:00Z',
+    );
+
+    expect(delta.type).toBe('updated');
+    expect(delta.followUp).toBe('new_sources');
+    expect(delta.cluster.threadId).toBe(first[0].cluster.threadId);
+  });
+
+  it('should link corrections to the original filing', async () => {
+    const first = await run(
+      [],
+      [createEvent({ externalId: 'EDINET:S100AAAA' })],
+      '2025-01-15T10:05:00Z',
+    );
+    const [delta] = await run(
+      first,
+      [
+        createEvent({
+          id: 'event2',
+          title: '【訂正】トヨタ自動車｜臨時報告書',
+          url: 'https://example.com/2',
+          publishedAt: '2025-01-20T10:00:00Z',
+          externalId: 'EDINET:S100BBBB',
+          filing: {
+            docTypeCode: '190',
+            isCorrection: true,
+            isWithdrawn: false,
+            parentExternalId: 'EDINET:S100AAAA',
+          },
+        }),
+      ],
+      '2025-01-20T10:05:00Z',
+    );
+
+    expect(delta.type).toBe('created');
+    expect(delta.followUp).toBe('correction');
+    expect(delta.cluster.threadId).toBe(first[0].cluster.threadId);
+  });
+
+  it('should link later disclosures on the same subject', async () => {
+    const first = await run([], [createEvent({})], '2025-01-15T10:05:00Z');
+    const [delta] = await run(
+      first,
+      [
+        createEvent({
+          id: 'event2',
+          title: 'トヨタ自動車｜業務提携に関するお知らせ（変更）',
+          url: 'https://example.com/2',
+          publishedAt: '2025-02-01T15:00:00Z',
+        }),
+      ],
+      '2025-02-01T15:05:00Z',
+    );
+
+    expect(delta.followUp).toBe('update');
+    expect((await getThread(first[0].cluster.clusterId))?.updateCount).toBe(1);
+  });
+
+  describe('routeClusterDelta', () => {
+    const [cluster] = clusterEvents([createEvent({ tier: 'B' })]);
+    const initial: ClusterDelta = {
+      type: 'created',
+      cluster: { ...cluster, threadId: 'thread1' },
+      addedEvents: cluster.events,
+    };
+    const followUp: ClusterDelta = { ...initial, followUp: 'update' };
+
+    it('should hold first alerts and push follow-ups under 続報のみ', () => {
+      const prefs = { ...PREFS, followUpsOnlyTickers: ['7203'] };
+
+      expect(routeClusterDelta(initial, prefs).push).toBe(false);
+      expect(routeClusterDelta(followUp, prefs).push).toBe(true);
+    });
+
+    it('should follow per-thread subscriptions', () => {
+      expect(routeClusterDelta(followUp, PREFS).push).toBe(false);
+      expect(
+        routeClusterDelta(followUp, {
+          ...PREFS,
+          subscribedThreadIds: ['thread1'],
+        }).push,
+      ).toBe(true);
+      expect(
+        routeClusterDelta(followUp, {
+          ...PREFS,
+          followUpsOnly: true,
+          unsubscribedThreadIds: ['thread1'],
+        }).push,
+      ).toBe(false);
+    });
+
+    it('should push 強 once when a cluster reaches it', () => {
+      const strong = { ...cluster, impact: '強' as const };
+
+      expect(
+        routeClusterDelta({ ...initial, cluster: strong }, PREFS).push,
+      ).toBe(true);
+      expect(
+        routeClusterDelta(
+          {
+            type: 'updated',
+            cluster: strong,
+            addedEvents: [],
+            previousImpact: '強',
+            followUp: 'new_sources',
+          },
+          PREFS,
+        ).push,
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for tickerCode utilities
+ */
+
+import { validateTicker } from '../src/utils/errorHandler';
+import { isTickerCode, normalizeTickerCode } from '../src/utils/tickerCode';
+
+describe('tickerCode', () => {
+  it('should accept 4-digit and alphanumeric codes', () => {
+    expect(isTickerCode('7203')).toBe(true);
+    expect(isTickerCode('130A')).toBe(true);
+    expect(isTickerCode('1A3C')).toBe(true);
+    expect(validateTicker('285A')).toBe(true);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(isTickerCode('0123')).toBe(false);
+    expect(isTickerCode('130E')).toBe(false);
+    expect(isTickerCode('13A0A')).toBe(false);
+    expect(isTickerCode('A130')).toBe(false);
+    expect(validateTicker('130a')).toBe(false);
+  });
+
+  it('should normalize source and user input', () => {
+    expect(normalizeTickerCode('72030')).toBe('7203');
+    expect(normalizeTickerCode('130A0')).toBe('130A');
+    expect(normalizeTickerCode(' １３０ａ ')).toBe('130A');
+    expect(normalizeTickerCode('7203.T')).toBe('7203');
+    expect(normalizeTickerCode('72031')).toBeNull();
+    expect(normalizeTickerCode('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for xbrlService
+ */
+
+import { zipSync } from 'fflate';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  decodeCsvBytes,
+  extractFiguresFromZip,
+  extractFinancialFigures,
+  parseXbrlCsv,
+  parseXbrlInstance,
+} from '../src/services/xbrlService';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'edinet');
+
+function readFixture(name: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(FIXTURE_DIR, name)));
+}
+
+describe('xbrlService', () => {
+  describe('parseXbrlInstance', () => {
+    it('should extract current-period consolidated figures', () => {
+      const xml = fs.readFileSync(
+        path.join(FIXTURE_DIR, 'jpcrp_sample.xbrl'),
+        'utf-8',
+      );
+
+      const figures = extractFinancialFigures(parseXbrlInstance(xml));
+
+      expect(figures).toEqual({
+        revenue: 1050000000000,
+        operatingProfit: 120000000000,
+        netIncome: 85000000000,
+        eps: 152.37,
+        consolidated: true,
+        periodEnd: '2025-03-31',
+        forecast: undefined,
+        previousForecast: undefined,
+      });
+    });
+
+    it('should extract forecast revisions with previous values', () => {
+      const xml = fs.readFileSync(
+        path.join(FIXTURE_DIR, 'tse_rvfc_sample.xbrl'),
+        'utf-8',
+      );
+
+      const figures = extractFinancialFigures(parseXbrlInstance(xml));
+
+      expect(figures?.forecast).toEqual({
+        revenue: 1150000000000,
+        operatingProfit: 15000000000,
+        eps: -12.5,
+      });
+      expect(figures?.previousForecast).toEqual({
+        revenue: 1100000000000,
+        operatingProfit: 12000000000,
+      });
+    });
+
+    it('should reject documents without an xbrl root', () => {
+      expect(() => parseXbrlInstance('<html></html>')).toThrow(
+        'missing xbrl root',
+      );
+    });
+  });
+
+  describe('parseXbrlCsv', () => {
+    it('should decode UTF-16LE CSV and extract figures', () => {
+      const csv = decodeCsvBytes(readFixture('jpcrp_sample.csv'));
+
+      const figures = extractFinancialFigures(parseXbrlCsv(csv));
+
+      expect(figures).toMatchObject({
+        revenue: 1050000000000,
+        operatingProfit: 120000000000,
+        netIncome: 85000000000,
+        eps: 152.37,
+        consolidated: true,
+      });
+    });
+
+    it('should fall back to non-consolidated figures', () => {
+      const csv = [
+        '"要素ID"\t"項目名"\t"コンテキストID"\t"相対年度"\t"連結・個別"\t"期間・時点"\t"ユニットID"\t"単位"\t"値"',
+        '"jppfs_cor:NetSales"\t"売上高"\t"CurrentYearDuration_NonConsolidatedMember"\t"当期"\t"個別"\t"期間"\t"JPY"\t"円"\t"5000000000"',
+      ].join('\n');
+
+      const figures = extractFinancialFigures(parseXbrlCsv(csv));
+
+      expect(figures).toMatchObject({
+        revenue: 5000000000,
+        consolidated: false,
+      });
+    });
+
+    it('should return null when no key figures are present', () => {
+      const csv = [
+        '"要素ID"\t"項目名"\t"コンテキストID"\t"相対年度"\t"連結・個別"\t"期間・時点"\t"ユニットID"\t"単位"\t"値"',
+        '"jpcrp_cor:CompanyNameCoverPage"\t"会社名"\t"FilingDateInstant"\t"提出日時点"\t"その他"\t"時点"\t"－"\t"－"\t"サンプル株式会社"',
+      ].join('\n');
+
+      expect(extractFinancialFigures(parseXbrlCsv(csv))).toBeNull();
+    });
+  });
+
+  describe('extractFiguresFromZip', () => {
+    it('should prefer the CSV archive layout (type=5)', () => {
+      const zip = zipSync({
+        'XBRL_TO_CSV/jpcrp030000-asr-001_E99999-000_2025-03-31_01_2025-06-20.csv':
+          readFixture('jpcrp_sample.csv'),
+      });
+
+      expect(extractFiguresFromZip(zip)?.revenue).toBe(1050000000000);
+    });
+
+    it('should read the XBRL instance from the PublicDoc folder (type=1)', () => {
+      const zip = zipSync({
+        'XBRL/PublicDoc/jpcrp030000-asr-001_E99999-000_2025-03-31_01_2025-06-20.xbrl':
+          readFixture('jpcrp_sample.xbrl'),
+      });
+
+      expect(extractFiguresFromZip(zip)?.netIncome).toBe(85000000000);
+    });
+  });
+});
@@ -14,3 +14,6 @@ try {
 } catch (e) {
   /* optional */
 }
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
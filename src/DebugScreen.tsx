@@ -5,7 +5,7 @@
  * Accessible via long-press on app title.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Alert,
   Modal,
@@ -17,6 +17,18 @@ import {
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 
+import {
+  AICacheStats,
+  clearAICache,
+  getAICacheStats,
+} from './services/aiCacheRepository';
+import {
+  AIFeature,
+  AIUsageSummary,
+  getAIUsageSummary,
+  UsagePeriod,
+} from './services/aiUsageService';
+import type { DeliveryAction } from './services/deliveryPolicyService';
 import type { AppDispatch, RootState } from './store';
 import { addEvent, setEvents, setLiveEvents } from './store/eventsSlice';
 import { addNotification } from './store/notificationsSlice';
@@ -27,6 +39,28 @@ import {
   isMockMode,
 } from './utils/mockData';
 
+/**
+ * Format AI spending for a period (e.g., "¥12.34 / ¥100（8回, 4,210トークン）")
+ */
+function formatUsage(period: UsagePeriod): string {
+  const budget =
+    period.budgetYen === null ? '上限なし' : `¥${period.budgetYen}`;
+  const tokens = period.promptTokens + period.completionTokens;
+  return `¥${period.costYen.toFixed(2)} / ${budget}（${period.calls}回, ${tokens.toLocaleString()}トークン）`;
+}
+
+const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  summary: '要約',
+  impact: '影響分析',
+  cluster: 'クラスタ要約',
+};
+
+const DELIVERY_ACTION_LABELS: Record<DeliveryAction, string> = {
+  push: '送信',
+  defer: '保留',
+  drop: '破棄',
+};
+
 interface DebugScreenProps {
   visible: boolean;
   onClose: () => void;
@@ -41,8 +75,23 @@ export default function DebugScreen({ visible, onClose }: DebugScreenProps) {
     (state: RootState) => state.notifications.items,
   );
   const settings = useSelector((state: RootState) => state.settings);
+  const deliveryLog = useSelector(
+    (state: RootState) => state.notifications.deliveryLog,
+  );
+  const deferred = useSelector(
+    (state: RootState) => state.notifications.deferred,
+  );
 
   const [lastAction, setLastAction] = useState<string>('');
+  const [aiCacheStats, setAICacheStats] = useState<AICacheStats | null>(null);
+  const [aiUsage, setAIUsage] = useState<AIUsageSummary | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      getAICacheStats().then(setAICacheStats);
+      getAIUsageSummary().then(setAIUsage);
+    }
+  }, [visible]);
 
   const handleGenerateMockEvents = () => {
     if (watchlist.length === 0) {
@@ -96,6 +145,12 @@ export default function DebugScreen({ visible, onClose }: DebugScreenProps) {
     setLastAction('テスト通知を送信しました');
   };
 
+  const handleClearAICache = async () => {
+    await clearAICache();
+    setAICacheStats(await getAICacheStats());
+    setLastAction('AIキャッシュをクリアしました');
+  };
+
   const handleClearAll = () => {
     Alert.alert(
       '確認',
@@ -168,9 +223,106 @@ export default function DebugScreen({ visible, onClose }: DebugScreenProps) {
             <View style={styles.statusRow}>
               <Text style={styles.statusLabel}>静音モード:</Text>
               <Text style={styles.statusValue}>
-                {settings.quietMode ? 'ON' : 'OFF'}
+                {settings.quietMode
+                  ? settings.quietUntil
+                    ? `ON（${new Date(settings.quietUntil).toLocaleString(
+                        'ja-JP',
+                        {
+                          timeZone: 'Asia/Tokyo',
+                        },
+                      )}まで）`
+                    : 'ON'
+                  : 'OFF'}
               </Text>
             </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>保留中の通知:</Text>
+              <Text style={styles.statusValue}>{deferred.length}件</Text>
+            </View>
+          </View>
+
+          {/* Delivery Decisions Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>📮 配信判定</Text>
+            {deliveryLog.length === 0 ? (
+              <Text style={styles.infoText}>判定履歴なし</Text>
+            ) : (
+              deliveryLog.slice(0, 10).map((entry) => (
+                <View
+                  key={`${entry.clusterId}-${entry.decidedAt}`}
+                  style={styles.logEntry}
+                >
+                  <Text style={styles.logTitle} numberOfLines={1}>
+                    [{DELIVERY_ACTION_LABELS[entry.action]}] {entry.ticker}{' '}
+                    {entry.title}
+                  </Text>
+                  <Text style={styles.infoText}>
+                    {entry.reason}
+                    {entry.deferUntil
+                      ? `（${new Date(entry.deferUntil).toLocaleString(
+                          'ja-JP',
+                          {
+                            timeZone: 'Asia/Tokyo',
+                          },
+                        )}のダイジェストへ）`
+                      : ''}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* AI Usage Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>💴 AI利用料</Text>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>今日:</Text>
+              <Text style={styles.statusValue}>
+                {aiUsage ? formatUsage(aiUsage.today) : '-'}
+              </Text>
+            </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>今月:</Text>
+              <Text style={styles.statusValue}>
+                {aiUsage ? formatUsage(aiUsage.month) : '-'}
+              </Text>
+            </View>
+            {aiUsage ? (
+              <Text style={styles.infoText}>
+                今月の内訳:{' '}
+                {(Object.keys(AI_FEATURE_LABELS) as AIFeature[])
+                  .map((feature) => {
+                    const totals = aiUsage.month.byFeature[feature];
+                    return `${AI_FEATURE_LABELS[feature]} ¥${totals.costYen.toFixed(2)}（${totals.calls}回）`;
+                  })
+                  .join(' / ')}
+              </Text>
+            ) : null}
+          </View>
+
+          {/* AI Cache Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🧠 AIキャッシュ</Text>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>保存件数:</Text>
+              <Text style={styles.statusValue}>
+                {aiCacheStats ? `${aiCacheStats.entries}件` : '-'}
+              </Text>
+            </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>ヒット/ミス:</Text>
+              <Text style={styles.statusValue}>
+                {aiCacheStats
+                  ? `${aiCacheStats.hits} / ${aiCacheStats.misses}（起動後）`
+                  : '-'}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.button, styles.dangerButton]}
+              onPress={handleClearAICache}
+            >
+              <Text style={styles.buttonText}>🗑️ AIキャッシュをクリア</Text>
+            </TouchableOpacity>
           </View>
 
           {/* Actions Section */}
@@ -305,6 +457,17 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     fontSize: 14,
   },
+  logEntry: {
+    borderBottomColor: COLORS.border,
+    borderBottomWidth: 1,
+    marginBottom: 8,
+    paddingBottom: 8,
+  },
+  logTitle: {
+    color: COLORS.text,
+    fontSize: 13,
+    marginBottom: 2,
+  },
   section: {
     marginBottom: 24,
     marginTop: 16,
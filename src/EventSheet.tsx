@@ -8,11 +8,44 @@ import {
   Modal,
 } from 'react-native';
 
+import {
+  QUIET_DURATION_LABELS,
+  QuietDuration,
+} from './services/deliveryPolicyService';
+import { FigureChange } from './types/events';
+import { formatFigureChange } from './utils/numberNormalizer';
+
 export interface Source {
   name: string;
   url: string;
 }
 
+/**
+ * Fact with the sources stating it
+ */
+export interface SheetFact {
+  text: string;
+  /** 1-based positions in `sources` */
+  sourceNumbers: number[];
+}
+
+/**
+ * Point on which sources disagree
+ */
+export interface SheetContradiction {
+  topic: string;
+  description: string;
+  /** 1-based positions in `sources` */
+  sourceNumbers: number[];
+}
+
+/**
+ * Format source references (e.g., "[1][3]")
+ */
+function formatSourceRefs(sourceNumbers: number[]): string {
+  return sourceNumbers.map((n) => `[${n}]`).join('');
+}
+
 /**
  * Props for the EventSheet component. This sheet displays a detailed view
  * of an event including the full summary, sources and user actions.
@@ -21,17 +54,38 @@ export interface EventSheetProps {
   visible: boolean;
   summary: string;
   sources: Source[];
+  /** Before/after figures extracted from the event (e.g., 上方修正) */
+  figures?: FigureChange[];
+  /** Facts from the cluster summary, attributed to sources */
+  facts?: SheetFact[];
+  /** Contradictions between sources */
+  contradictions?: SheetContradiction[];
+  /** Reasoning for the impact (1 line) */
+  reasoning?: string;
+  /** Counter-reasoning (反証, 1 line) */
+  counterReasoning?: string;
   onClose: () => void;
   onFollowUpsOnly?: () => void;
-  onQuiet?: () => void;
+  /** Shown instead of 続報のみ while the event's thread is followed */
+  onStopFollowUps?: () => void;
+  /** Silence pushes for a preset period (1時間, 寄り付きまで, 明日の朝まで) */
+  onQuiet?: (duration: QuietDuration) => void;
 }
 
+const QUIET_DURATIONS = Object.keys(QUIET_DURATION_LABELS) as QuietDuration[];
+
 export default function EventSheet({
   visible,
   summary,
   sources,
+  figures = [],
+  facts = [],
+  contradictions = [],
+  reasoning,
+  counterReasoning,
   onClose,
   onFollowUpsOnly,
+  onStopFollowUps,
   onQuiet,
 }: EventSheetProps) {
   return (
@@ -56,6 +110,56 @@ export default function EventSheet({
           bounces={false}
         >
           <Text style={styles.summary}>{summary}</Text>
+          {figures.length > 0 && (
+            <>
+              <Text style={styles.sectionHeading}>数値</Text>
+              {figures.map((figure, idx) => (
+                <Text key={`figure-${idx}`} style={styles.figure}>
+                  {formatFigureChange(figure)}
+                </Text>
+              ))}
+            </>
+          )}
+          {facts.length > 0 && (
+            <>
+              <Text style={styles.sectionHeading}>事実</Text>
+              {facts.map((fact, idx) => (
+                <Text key={`fact-${idx}`} style={styles.fact}>
+                  ・{fact.text}
+                  <Text style={styles.sourceRef}>
+                    {formatSourceRefs(fact.sourceNumbers)}
+                  </Text>
+                </Text>
+              ))}
+            </>
+          )}
+          {contradictions.length > 0 && (
+            <>
+              <Text style={styles.sectionHeading}>情報源の食い違い</Text>
+              {contradictions.map((item, idx) => (
+                <View key={`contradiction-${idx}`} style={styles.contradiction}>
+                  <Text style={styles.contradictionTopic}>
+                    ⚠️ {item.topic}
+                    <Text style={styles.sourceRef}>
+                      {formatSourceRefs(item.sourceNumbers)}
+                    </Text>
+                  </Text>
+                  <Text style={styles.fact}>{item.description}</Text>
+                </View>
+              ))}
+            </>
+          )}
+          {(reasoning || counterReasoning) && (
+            <>
+              <Text style={styles.sectionHeading}>見立て</Text>
+              {reasoning ? (
+                <Text style={styles.fact}>理由: {reasoning}</Text>
+              ) : null}
+              {counterReasoning ? (
+                <Text style={styles.fact}>反証: {counterReasoning}</Text>
+              ) : null}
+            </>
+          )}
           <Text style={styles.sectionHeading}>出典</Text>
           {sources.map((src, idx) => (
             <Text
@@ -64,29 +168,49 @@ export default function EventSheet({
               numberOfLines={2}
               ellipsizeMode="tail"
             >
-              {src.name}: {src.url}
+              [{idx + 1}] {src.name}: {src.url}
             </Text>
           ))}
           <View style={styles.actions}>
-            {onFollowUpsOnly && (
-              <TouchableOpacity
-                style={styles.actionButton}
-                onPress={onFollowUpsOnly}
-                accessibilityLabel="Follow ups only"
-              >
-                <Text style={styles.actionText}>続報のみ受け取る</Text>
-              </TouchableOpacity>
-            )}
-            {onQuiet && (
+            {onStopFollowUps ? (
               <TouchableOpacity
                 style={styles.actionButton}
-                onPress={onQuiet}
-                accessibilityLabel="Quiet for 2 hours"
+                onPress={onStopFollowUps}
+                accessibilityLabel="Stop follow ups"
               >
-                <Text style={styles.actionText}>2時間 静かにする</Text>
+                <Text style={styles.actionText}>続報を停止</Text>
               </TouchableOpacity>
+            ) : (
+              onFollowUpsOnly && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={onFollowUpsOnly}
+                  accessibilityLabel="Follow ups only"
+                >
+                  <Text style={styles.actionText}>続報のみ受け取る</Text>
+                </TouchableOpacity>
+              )
             )}
           </View>
+          {onQuiet && (
+            <>
+              <Text style={styles.sectionHeading}>静かにする</Text>
+              <View style={styles.quietActions}>
+                {QUIET_DURATIONS.map((duration) => (
+                  <TouchableOpacity
+                    key={duration}
+                    style={styles.quietButton}
+                    onPress={() => onQuiet(duration)}
+                    accessibilityLabel={`Quiet ${duration}`}
+                  >
+                    <Text style={styles.actionText}>
+                      {QUIET_DURATION_LABELS[duration]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
         </ScrollView>
       </View>
     </Modal>
@@ -98,6 +222,7 @@ const COLORS = {
   text: '#ffffff',
   border: 'rgba(255,255,255,0.10)',
   accent: '#16a34a',
+  warning: '#f59e0b',
 };
 
 const styles = StyleSheet.create({
@@ -145,6 +270,34 @@ const styles = StyleSheet.create({
     marginTop: 8,
     marginBottom: 4,
   },
+  figure: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  fact: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  sourceRef: {
+    color: COLORS.accent,
+    fontSize: 12,
+  },
+  contradiction: {
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.warning,
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  contradictionTopic: {
+    color: COLORS.warning,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
   source: {
     color: COLORS.text,
     fontSize: 12,
@@ -162,6 +315,18 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     borderRadius: 8,
   },
+  quietActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  quietButton: {
+    borderColor: COLORS.accent,
+    borderWidth: 1,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
   actionText: {
     color: COLORS.text,
     fontSize: 14,
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+export interface QuietModeBannerProps {
+  /** ISO timestamp when quiet mode ends (null: until turned off) */
+  quietUntil: string | null;
+  /** Number of pushes waiting for the next digest */
+  deferredCount: number;
+  onResume: () => void;
+}
+
+/**
+ * Format the time left in a quiet period (e.g., "1時間12分")
+ */
+function formatRemaining(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}分`;
+  return minutes > 0 ? `${hours}時間${minutes}分` : `${hours}時間`;
+}
+
+/**
+ * Banner shown while quiet mode is on, with the remaining time and a
+ * button to resume notifications. The remaining time updates every
+ * minute.
+ */
+export default function QuietModeBanner({
+  quietUntil,
+  deferredCount,
+  onResume,
+}: QuietModeBannerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!quietUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [quietUntil]);
+
+  const remaining = quietUntil
+    ? `残り${formatRemaining(new Date(quietUntil).getTime() - now)}`
+    : '解除するまで';
+
+  return (
+    <View style={styles.banner}>
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>🔕 静音モード中（{remaining}）</Text>
+        <Text style={styles.detail}>
+          {deferredCount > 0
+            ? `保留中の通知${deferredCount}件は次のダイジェストで届きます`
+            : '通知は次のダイジェストにまとめて届きます'}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.resumeButton}
+        onPress={onResume}
+        accessibilityLabel="Resume notifications"
+      >
+        <Text style={styles.resumeText}>解除</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const COLORS = {
+  text: '#ffffff',
+  secondary: '#9ca3af',
+  card: '#0b0f14',
+  border: 'rgba(255,255,255,0.10)',
+  accent: '#16a34a',
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    borderWidth: 1,
+    flexDirection: 'row',
+    marginTop: 12,
+    padding: 12,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  detail: {
+    color: COLORS.secondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  resumeButton: {
+    borderColor: COLORS.accent,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  resumeText: {
+    color: COLORS.accent,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,131 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { TICKER_MODE_LABELS } from './services/subscriptionService';
+import {
+  EventType,
+  TickerNotificationMode,
+  TickerNotificationOverride,
+} from './types/events';
+
+/**
+ * Props for the TickerNotificationControls component, shown under a
+ * watchlist row when the row's notification settings are expanded.
+ */
+export interface TickerNotificationControlsProps {
+  ticker: string;
+  override: TickerNotificationOverride;
+  /** Event types offered as filters */
+  eventTypes: EventType[];
+  onModeChange: (mode: TickerNotificationMode) => void;
+  onEventTypesChange: (eventTypes: EventType[]) => void;
+}
+
+const MODES = Object.keys(TICKER_MODE_LABELS) as TickerNotificationMode[];
+
+/**
+ * Per-ticker notification settings: one mode (通常, 強のみ, 常に即時,
+ * 続報のみ, ミュート) and optional event type filters. No filter selected
+ * means all event types are notified.
+ */
+export default function TickerNotificationControls({
+  ticker,
+  override,
+  eventTypes,
+  onModeChange,
+  onEventTypesChange,
+}: TickerNotificationControlsProps) {
+  const selectedTypes = override.eventTypes || [];
+
+  const toggleType = (eventType: EventType) => {
+    onEventTypesChange(
+      selectedTypes.includes(eventType)
+        ? selectedTypes.filter((t) => t !== eventType)
+        : [...selectedTypes, eventType],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>通知</Text>
+      <View style={styles.chips}>
+        {MODES.map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.chip, override.mode === mode && styles.chipActive]}
+            onPress={() => onModeChange(mode)}
+            accessibilityLabel={`${ticker} notification ${mode}`}
+          >
+            <Text style={styles.chipText}>{TICKER_MODE_LABELS[mode]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.heading}>
+        種別
+        {selectedTypes.length === 0 && (
+          <Text style={styles.hint}>（未選択: すべて）</Text>
+        )}
+      </Text>
+      <View style={styles.chips}>
+        {eventTypes.map((eventType) => (
+          <TouchableOpacity
+            key={eventType}
+            style={[
+              styles.chip,
+              selectedTypes.includes(eventType) && styles.chipActive,
+            ]}
+            onPress={() => toggleType(eventType)}
+            accessibilityLabel={`${ticker} event type ${eventType}`}
+          >
+            <Text style={styles.chipText}>{eventType}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const COLORS = {
+  text: '#ffffff',
+  secondary: '#6b7280',
+  border: 'rgba(255,255,255,0.10)',
+  accent: '#16a34a',
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  heading: {
+    color: COLORS.text,
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  hint: {
+    color: COLORS.secondary,
+    fontWeight: '400',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: COLORS.accent,
+    borderColor: COLORS.accent,
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,275 @@
+/**
+ * Bundled Event Type Corpus
+ *
+ * Labeled headlines for the on-device event type classifier
+ * (see eventClassifierService). Headlines may carry several labels,
+ * e.g. 資本提携 is both 資本政策 and 提携.
+ *
+ * Labeling rules:
+ * - 上方修正 / 下方修正 by direction; revisions without a stated
+ *   direction are 業績予想
+ * - 増配 / 減配 / 自社株買い / 公募増資 instead of (not in addition to)
+ *   資本政策, which is kept for splits, allotments, reductions etc.
+ * - Events with no other label are その他
+ * - Evaluation headlines live in __tests__/fixtures/classifier and must
+ *   not be copied here
+ */
+
+import { LabeledHeadline } from '../types/events';
+
+export const EVENT_TYPE_CORPUS_VERSION = '2025-10-01';
+
+export const EVENT_TYPE_CORPUS: LabeledHeadline[] = [
+  // 上方修正
+  { text: '通期業績予想の上方修正に関するお知らせ', labels: ['上方修正'] },
+  { text: '業績予想の修正（上方修正）に関するお知らせ', labels: ['上方修正'] },
+  { text: '2025年3月期通期連結業績予想を上方修正', labels: ['上方修正'] },
+  { text: '第2四半期累計期間の業績予想を上方修正します', labels: ['上方修正'] },
+  { text: '営業利益予想を前回発表から30%増額', labels: ['上方修正'] },
+  { text: '純利益見通しを引き上げ、過去最高益へ', labels: ['上方修正'] },
+  { text: '業績予想の修正（増額）に関するお知らせ', labels: ['上方修正'] },
+  { text: '円安効果で通期営業益予想を上方修正', labels: ['上方修正'] },
+  { text: '半導体需要好調、売上高予想を上振れ修正', labels: ['上方修正'] },
+  { text: '連結業績予想の上方修正および配当予想の修正', labels: ['上方修正'] },
+  {
+    text: '個別業績予想と前期実績値との差異および上方修正',
+    labels: ['上方修正'],
+  },
+  { text: '今期経常益予想を一転増益に上方修正', labels: ['上方修正'] },
+  { text: '通期予想を上方修正、最終益は前期比2倍に', labels: ['上方修正'] },
+  {
+    text: '業績予想を上方修正 インバウンド需要が想定を上回る',
+    labels: ['上方修正'],
+  },
+  { text: '利益予想を大幅増額、受注好調で', labels: ['上方修正'] },
+  { text: '経常益予想を増額修正、価格転嫁が進む', labels: ['上方修正'] },
+
+  // 業績予想 (revisions without a stated direction)
+  { text: '通期業績予想の修正に関するお知らせ', labels: ['業績予想'] },
+  { text: '業績予想の修正（下方修正）に関するお知らせ', labels: ['下方修正'] },
+  { text: '通期連結業績予想を下方修正、原材料高が響く', labels: ['下方修正'] },
+  { text: '営業利益予想を減額修正', labels: ['下方修正'] },
+  { text: '2026年3月期の業績見通しについて', labels: ['業績予想'] },
+  { text: '業績予想の修正（減額）に関するお知らせ', labels: ['下方修正'] },
+  { text: '通期予想を据え置き、下期は慎重な見方', labels: ['業績予想'] },
+  { text: '業績見込みの開示について', labels: ['業績予想'] },
+  { text: '未定としていた通期業績予想の公表について', labels: ['業績予想'] },
+  { text: '今期最終益予想を一転減益に下方修正', labels: ['下方修正'] },
+  { text: '中期経営計画における業績目標の見直し', labels: ['業績予想'] },
+  { text: '売上高見通しを引き下げ、需要減速で', labels: ['下方修正'] },
+  { text: '第2四半期累計期間の業績予想と実績値との差異', labels: ['業績予想'] },
+  { text: '通期予想を下振れ修正 海外販売が低迷', labels: ['下方修正'] },
+
+  { text: '次期の業績予想に関するお知らせ', labels: ['業績予想'] },
+  { text: '業績予想の修正に関するお知らせ（連結）', labels: ['業績予想'] },
+
+  // 下方修正
+  { text: '通期業績予想の下方修正に関するお知らせ', labels: ['下方修正'] },
+  { text: '第2四半期累計期間業績予想の下方修正', labels: ['下方修正'] },
+  { text: '純利益予想を引き下げ、減損損失を計上', labels: ['下方修正'] },
+  { text: '通期営業益予想を下方修正 半導体市況が悪化', labels: ['下方修正'] },
+  { text: '業績予想を下方修正、赤字転落の見通し', labels: ['下方修正'] },
+  { text: '経常益予想を減額修正、為替差損が拡大', labels: ['下方修正'] },
+
+  // 決算発表
+  { text: '2025年3月期 決算短信〔日本基準〕（連結）', labels: ['決算発表'] },
+  {
+    text: '2026年3月期 第1四半期決算短信〔IFRS〕（連結）',
+    labels: ['決算発表'],
+  },
+  { text: '有価証券報告書－第85期', labels: ['決算発表'] },
+  { text: '訂正有価証券報告書の提出について', labels: ['決算発表'] },
+  { text: '四半期報告書－第120期第2四半期', labels: ['決算発表'] },
+  { text: '半期報告書－第31期', labels: ['決算発表'] },
+  { text: '決算説明会資料の公開について', labels: ['決算発表'] },
+  { text: '4-6月期営業益18%増、主力製品が好調', labels: ['決算発表'] },
+  { text: '前期純利益は過去最高、売上高1兆円を突破', labels: ['決算発表'] },
+  { text: '第3四半期累計の連結業績を発表', labels: ['決算発表'] },
+  { text: '中間決算、経常益12%減 海外が不振', labels: ['決算発表'] },
+  { text: '決算期変更に関するお知らせ', labels: ['決算発表'] },
+  { text: '本決算の発表日程について', labels: ['決算発表'] },
+  { text: '2025年12月期 第3四半期決算短信', labels: ['決算発表'] },
+  { text: '連結財務諸表の訂正について', labels: ['決算発表'] },
+
+  // 資本政策
+  {
+    text: '自己株式の取得に係る事項の決定に関するお知らせ',
+    labels: ['自社株買い'],
+  },
+  { text: '自己株式の消却に関するお知らせ', labels: ['資本政策'] },
+  {
+    text: '株式分割および定款の一部変更に関するお知らせ',
+    labels: ['資本政策'],
+  },
+  {
+    text: '第三者割当による新株式の発行に関するお知らせ',
+    labels: ['資本政策'],
+  },
+  { text: '公募による新株式発行及び株式売出し', labels: ['公募増資'] },
+  { text: '株式併合並びに単元株式数の定めの廃止', labels: ['資本政策'] },
+  { text: '減資および剰余金の処分に関するお知らせ', labels: ['資本政策'] },
+  { text: '剰余金の配当（増配）に関するお知らせ', labels: ['増配'] },
+  { text: '配当予想の修正（増配）に関するお知らせ', labels: ['増配'] },
+  { text: '自社株買いを実施、発行済株式の3%', labels: ['自社株買い'] },
+  { text: '新株予約権の発行に関するお知らせ', labels: ['資本政策'] },
+  { text: '株主還元方針の変更について', labels: ['資本政策'] },
+  { text: '自己株式立会外買付取引による取得', labels: ['自社株買い'] },
+  { text: '増資で300億円調達へ、成長投資に充当', labels: ['資本政策'] },
+  { text: '株式の売出しに関するお知らせ', labels: ['資本政策'] },
+
+  // 増配
+  { text: '期末配当予想の修正（増配）に関するお知らせ', labels: ['増配'] },
+  { text: '創立100周年記念配当の実施に関するお知らせ', labels: ['増配'] },
+  { text: '年間配当を10円増配、連続増配へ', labels: ['増配'] },
+  { text: '復配に関するお知らせ', labels: ['増配'] },
+  { text: '特別配当の実施について', labels: ['増配'] },
+  { text: '配当方針の変更および増配のお知らせ', labels: ['増配'] },
+
+  // 減配
+  { text: '配当予想の修正（減配）に関するお知らせ', labels: ['減配'] },
+  { text: '期末配当の無配に関するお知らせ', labels: ['減配'] },
+  { text: '中間配当の見送りに関するお知らせ', labels: ['減配'] },
+  { text: '年間配当を減配、業績悪化で', labels: ['減配'] },
+  { text: '剰余金の配当（減配）について', labels: ['減配'] },
+  { text: '配当予想を引き下げ、無配転落', labels: ['減配'] },
+
+  // 自社株買い
+  { text: '自己株式の取得状況に関するお知らせ', labels: ['自社株買い'] },
+  {
+    text: '自己株式の公開買付けの開始に関するお知らせ',
+    labels: ['自社株買い'],
+  },
+  { text: '上限500億円の自社株買いを発表', labels: ['自社株買い'] },
+  { text: '自己株式取得の終了に関するお知らせ', labels: ['自社株買い'] },
+  { text: '発行済株式の5%を上限に自社株買い', labels: ['自社株買い'] },
+
+  // 公募増資
+  { text: '新株式発行及び株式売出しに関するお知らせ', labels: ['公募増資'] },
+  { text: '海外募集による新株式発行に関するお知らせ', labels: ['公募増資'] },
+  { text: '公募増資で1000億円調達、希薄化率8%', labels: ['公募増資'] },
+  { text: '発行価格等の決定に関するお知らせ（公募）', labels: ['公募増資'] },
+  { text: '公募による新株式発行の条件決定', labels: ['公募増資'] },
+
+  // 提携
+  { text: '〇〇社との業務提携に関するお知らせ', labels: ['提携'] },
+  { text: 'AI分野で大手IT企業と協業を開始', labels: ['提携'] },
+  { text: '合弁会社設立に関するお知らせ', labels: ['提携'] },
+  { text: '次世代電池の共同開発で基本合意', labels: ['提携'] },
+  { text: '物流大手と戦略的パートナーシップを締結', labels: ['提携'] },
+  { text: '大学と産学連携協定を締結', labels: ['提携'] },
+  { text: '海外企業との包括的業務提携契約の締結', labels: ['提携'] },
+  { text: 'EV充電網で競合と協業へ', labels: ['提携'] },
+  { text: '販売提携を拡大、アジア市場に共同展開', labels: ['提携'] },
+  { text: '自治体と包括連携協定を締結しました', labels: ['提携'] },
+  { text: '共同出資で新会社を設立し協業', labels: ['提携'] },
+  { text: '技術提携に関するお知らせ', labels: ['提携'] },
+
+  // 資本政策 + 提携
+  {
+    text: '〇〇社との資本業務提携に関するお知らせ',
+    labels: ['資本政策', '提携'],
+  },
+  {
+    text: '資本提携および第三者割当増資の引受け',
+    labels: ['資本政策', '提携'],
+  },
+  {
+    text: '業務資本提携契約の締結並びに自己株式の処分',
+    labels: ['資本政策', '提携'],
+  },
+  { text: '資本業務提携で相互に株式を取得', labels: ['資本政策', '提携'] },
+  { text: '大手商社と資本提携、出資比率10%', labels: ['資本政策', '提携'] },
+  { text: '資本提携の拡大と追加出資について', labels: ['資本政策', '提携'] },
+
+  // 事故
+  { text: '当社工場における火災事故について', labels: ['事故'] },
+  {
+    text: '不正アクセスによる個人情報流出の可能性に関するお知らせ',
+    labels: ['事故'],
+  },
+  { text: '製品のリコールに関するお知らせ', labels: ['事故'] },
+  { text: 'ランサムウェア被害によるシステム障害について', labels: ['事故'] },
+  { text: '当社元従業員による不正行為に関するお知らせ', labels: ['事故'] },
+  { text: '品質データ改ざんの判明について', labels: ['事故'] },
+  { text: '顧客情報の漏洩に関するお詫び', labels: ['事故'] },
+  { text: '特別調査委員会の設置に関するお知らせ', labels: ['事故'] },
+  { text: '製造ラインで爆発事故、操業を停止', labels: ['事故'] },
+  { text: '不適切な会計処理の判明について', labels: ['事故'] },
+  { text: '大規模なシステム障害で全店舗の営業を停止', labels: ['事故'] },
+  { text: '認証試験の不正発覚、出荷停止へ', labels: ['事故'] },
+  { text: '自主回収のお知らせとお詫び', labels: ['事故'] },
+  { text: '子会社における不祥事について', labels: ['事故'] },
+
+  // 規制
+  { text: '金融庁からの業務改善命令について', labels: ['規制'] },
+  { text: '公正取引委員会による立入検査について', labels: ['規制'] },
+  { text: '課徴金納付命令の受領に関するお知らせ', labels: ['規制'] },
+  { text: '行政処分に関するお知らせ', labels: ['規制'] },
+  { text: '国土交通省から業務停止命令を受けました', labels: ['規制'] },
+  { text: '独占禁止法違反の疑いで排除措置命令', labels: ['規制'] },
+  { text: '新たな規制導入で事業に影響の見込み', labels: ['規制'] },
+  { text: '証券取引等監視委員会の勧告について', labels: ['規制'] },
+  { text: '厚生労働省による薬価改定の影響', labels: ['規制'] },
+  { text: '米国での輸出規制強化について', labels: ['規制'] },
+  { text: '特別注意銘柄の指定に関するお知らせ', labels: ['規制'] },
+  { text: '監理銘柄（審査中）の指定について', labels: ['規制'] },
+
+  // 新製品
+  { text: '新製品の発売に関するお知らせ', labels: ['新製品'] },
+  { text: '新型EVを来春発売へ', labels: ['新製品'] },
+  { text: '新商品「〇〇」を全国で販売開始', labels: ['新製品'] },
+  { text: '法人向け新サービスの提供を開始', labels: ['新製品'] },
+  { text: '次世代スマートフォンを発表', labels: ['新製品'] },
+  { text: '新作ゲームタイトルの配信開始日決定', labels: ['新製品'] },
+  { text: 'クラウドサービスの新バージョンをリリース', labels: ['新製品'] },
+  { text: '新薬の国内製造販売承認を取得', labels: ['新製品'] },
+  { text: '期間限定メニューを新発売', labels: ['新製品'] },
+  { text: '新ブランドを立ち上げ、若年層を開拓', labels: ['新製品'] },
+  { text: 'アプリの提供開始のお知らせ', labels: ['新製品'] },
+  { text: '世界初の新素材を開発、量産へ', labels: ['新製品'] },
+
+  // 受注
+  { text: '大型案件の受注に関するお知らせ', labels: ['受注'] },
+  { text: '防衛省から艦艇を受注', labels: ['受注'] },
+  { text: '海外鉄道車両を約500億円で受注', labels: ['受注'] },
+  { text: '大手通信会社との取引開始のお知らせ', labels: ['受注'] },
+  { text: '自治体システムの契約締結について', labels: ['受注'] },
+  { text: '発電所建設工事を受注しました', labels: ['受注'] },
+  { text: '新規顧客との販売契約を締結', labels: ['受注'] },
+  { text: '受注残高が過去最高を更新', labels: ['受注'] },
+  { text: '国内大手自動車メーカーから部品を大量受注', labels: ['受注'] },
+  { text: '官公庁向け案件を落札', labels: ['受注'] },
+  { text: '半導体製造装置の大口受注を獲得', labels: ['受注'] },
+
+  // 大量保有
+  { text: '大量保有報告書の提出', labels: ['大量保有'] },
+  { text: '変更報告書（大量保有）', labels: ['大量保有'] },
+  { text: '株券等保有割合が5%を超過', labels: ['大量保有'] },
+  {
+    text: 'アクティビストが株式を5.1%取得、大量保有報告',
+    labels: ['大量保有'],
+  },
+  { text: '投資ファンドが保有割合を8%に引き上げ', labels: ['大量保有'] },
+  { text: '主要株主の異動に関するお知らせ', labels: ['大量保有'] },
+  { text: '筆頭株主の異動について', labels: ['大量保有'] },
+  { text: '外資系ファンドが保有比率を引き下げ', labels: ['大量保有'] },
+  { text: '変更報告書の提出（保有割合の減少）', labels: ['大量保有'] },
+  { text: '短期大量譲渡に関する報告', labels: ['大量保有'] },
+
+  // その他
+  { text: '代表取締役の異動に関するお知らせ', labels: ['その他'] },
+  { text: '役員人事について', labels: ['その他'] },
+  { text: '本社移転に関するお知らせ', labels: ['その他'] },
+  { text: '定時株主総会招集ご通知', labels: ['その他'] },
+  { text: '支配人の選任について', labels: ['その他'] },
+  { text: '統合報告書2025を公開しました', labels: ['その他'] },
+  { text: 'サステナビリティレポートの発行', labels: ['その他'] },
+  { text: 'コーポレート・ガバナンス報告書の更新', labels: ['その他'] },
+  { text: '組織変更および人事異動のお知らせ', labels: ['その他'] },
+  { text: 'ウェブサイトリニューアルのお知らせ', labels: ['その他'] },
+  { text: '商号変更に関するお知らせ', labels: ['その他'] },
+  { text: '月次売上高速報（9月度）', labels: ['その他'] },
+  { text: '年末年始の営業について', labels: ['その他'] },
+  { text: '社外取締役候補者の選任', labels: ['その他'] },
+  { text: '子会社の吸収合併（簡易合併）に関するお知らせ', labels: ['その他'] },
+];
@@ -0,0 +1,47 @@
+/**
+ * Bundled Group Structure
+ *
+ * Subsidiaries of listed companies (see groupStructureService).
+ * - Unlisted subsidiaries: news is attributed to the listed parent
+ * - Listed subsidiaries (`code` set): news carries both tickers
+ *
+ * Only consolidated subsidiaries are listed; equity-method affiliates
+ * (e.g., Toyota group companies) are intentionally left out.
+ */
+
+import { GroupCompany } from '../types/events';
+
+export const BUNDLED_GROUP_COMPANIES: GroupCompany[] = [
+  // トヨタ自動車
+  { name: 'ダイハツ工業', aliases: ['ダイハツ'], parentCode: '7203' },
+  { name: 'トヨタファイナンス', parentCode: '7203' },
+  // ソニーグループ
+  {
+    name: 'ソニー・インタラクティブエンタテインメント',
+    aliases: ['SIE'],
+    parentCode: '6758',
+  },
+  { name: 'ソニー・ミュージックエンタテインメント', parentCode: '6758' },
+  { name: 'ソニー・ピクチャーズ エンタテインメント', parentCode: '6758' },
+  // ソフトバンクグループ → ソフトバンク → LINEヤフー
+  { name: 'ソフトバンク', code: '9434', parentCode: '9984' },
+  { name: 'LINEヤフー', code: '4689', parentCode: '9434' },
+  { name: 'PayPay', parentCode: '9434' },
+  // NTT
+  { name: 'NTTドコモ', aliases: ['ドコモ'], parentCode: '9432' },
+  { name: 'NTTデータグループ', aliases: ['NTTデータ'], parentCode: '9432' },
+  // 楽天グループ
+  { name: '楽天カード', parentCode: '4755' },
+  { name: '楽天モバイル', parentCode: '4755' },
+  { name: '楽天銀行', code: '5838', parentCode: '4755' },
+  // ファーストリテイリング
+  { name: 'ユニクロ', aliases: ['UNIQLO'], parentCode: '9983' },
+  { name: 'ジーユー', parentCode: '9983' },
+  // メガバンク
+  { name: '三菱UFJ銀行', parentCode: '8306' },
+  { name: '三菱UFJ信託銀行', parentCode: '8306' },
+  { name: '三井住友銀行', parentCode: '8316' },
+  { name: '三井住友カード', parentCode: '8316' },
+  { name: 'みずほ銀行', parentCode: '8411' },
+  { name: 'みずほ証券', parentCode: '8411' },
+];
@@ -0,0 +1,325 @@
+/**
+ * Bundled Securities Master
+ *
+ * Seed data for the securities master (see securitiesMasterService).
+ * Newer lists can be installed at runtime with updateSecuritiesMaster();
+ * this file only needs to cover frequently mentioned issues.
+ *
+ * Names omit 株式会社. Aliases are names used in headlines; short or
+ * ambiguous forms (e.g., "日立" also matches 日立建機) are left out.
+ */
+
+import { SecurityInfo } from '../types/events';
+
+/**
+ * Version of the bundled list (YYYY-MM-DD of the source snapshot)
+ */
+export const BUNDLED_SECURITIES_VERSION = '2025-10-01';
+
+export const BUNDLED_SECURITIES: SecurityInfo[] = [
+  {
+    code: '7203',
+    name: 'トヨタ自動車',
+    nameEn: 'Toyota Motor Corporation',
+    kana: 'トヨタジドウシャ',
+    aliases: ['トヨタ', 'TOYOTA'],
+    edinetCode: 'E02144',
+    market: 'プライム',
+    sector: '輸送用機器',
+  },
+  {
+    code: '7267',
+    name: '本田技研工業',
+    nameEn: 'Honda Motor Co., Ltd.',
+    kana: 'ホンダギケンコウギョウ',
+    aliases: ['ホンダ', 'Honda'],
+    edinetCode: 'E02166',
+    market: 'プライム',
+    sector: '輸送用機器',
+  },
+  {
+    code: '7201',
+    name: '日産自動車',
+    nameEn: 'Nissan Motor Co., Ltd.',
+    kana: 'ニッサンジドウシャ',
+    aliases: ['日産', 'NISSAN'],
+    market: 'プライム',
+    sector: '輸送用機器',
+  },
+  {
+    code: '6902',
+    name: 'デンソー',
+    nameEn: 'DENSO CORPORATION',
+    kana: 'デンソー',
+    aliases: ['DENSO'],
+    market: 'プライム',
+    sector: '輸送用機器',
+  },
+  {
+    code: '6758',
+    name: 'ソニーグループ',
+    nameEn: 'Sony Group Corporation',
+    kana: 'ソニーグループ',
+    aliases: ['SONY'],
+    formerNames: ['ソニー'],
+    edinetCode: 'E01777',
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '6501',
+    name: '日立製作所',
+    nameEn: 'Hitachi, Ltd.',
+    kana: 'ヒタチセイサクショ',
+    aliases: ['HITACHI'],
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '6752',
+    name: 'パナソニック ホールディングス',
+    nameEn: 'Panasonic Holdings Corporation',
+    kana: 'パナソニックホールディングス',
+    aliases: ['パナソニックHD', 'パナソニックホールディングス'],
+    formerNames: ['パナソニック'],
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '6861',
+    name: 'キーエンス',
+    nameEn: 'KEYENCE CORPORATION',
+    kana: 'キーエンス',
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '6594',
+    name: 'ニデック',
+    nameEn: 'Nidec Corporation',
+    kana: 'ニデック',
+    formerNames: ['日本電産'],
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '7751',
+    name: 'キヤノン',
+    nameEn: 'Canon Inc.',
+    kana: 'キヤノン',
+    aliases: ['キャノン', 'Canon'],
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '8035',
+    name: '東京エレクトロン',
+    nameEn: 'Tokyo Electron Limited',
+    kana: 'トウキョウエレクトロン',
+    market: 'プライム',
+    sector: '電気機器',
+  },
+  {
+    code: '7974',
+    name: '任天堂',
+    nameEn: 'Nintendo Co., Ltd.',
+    kana: 'ニンテンドウ',
+    aliases: ['Nintendo'],
+    edinetCode: 'E02367',
+    market: 'プライム',
+    sector: 'その他製品',
+  },
+  {
+    code: '9984',
+    name: 'ソフトバンクグループ',
+    nameEn: 'SoftBank Group Corp.',
+    kana: 'ソフトバンクグループ',
+    aliases: ['SBG'],
+    edinetCode: 'E02778',
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '9434',
+    name: 'ソフトバンク',
+    nameEn: 'SoftBank Corp.',
+    kana: 'ソフトバンク',
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '9432',
+    name: 'NTT',
+    nameEn: 'NTT, Inc.',
+    kana: 'エヌ・ティ・ティ',
+    formerNames: ['日本電信電話'],
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '9433',
+    name: 'KDDI',
+    nameEn: 'KDDI CORPORATION',
+    kana: 'ケイディーディーアイ',
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '4689',
+    name: 'LINEヤフー',
+    nameEn: 'LY Corporation',
+    kana: 'ラインヤフー',
+    formerNames: ['Zホールディングス', 'ヤフー'],
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '4755',
+    name: '楽天グループ',
+    nameEn: 'Rakuten Group, Inc.',
+    kana: 'ラクテングループ',
+    aliases: ['楽天'],
+    market: 'プライム',
+    sector: 'サービス業',
+  },
+  {
+    code: '4385',
+    name: 'メルカリ',
+    nameEn: 'Mercari, Inc.',
+    kana: 'メルカリ',
+    market: 'プライム',
+    sector: '情報・通信業',
+  },
+  {
+    code: '8306',
+    name: '三菱UFJフィナンシャル・グループ',
+    nameEn: 'Mitsubishi UFJ Financial Group, Inc.',
+    kana: 'ミツビシユーエフジェイフィナンシャルグループ',
+    aliases: ['三菱UFJ', 'MUFG'],
+    market: 'プライム',
+    sector: '銀行業',
+  },
+  {
+    code: '8316',
+    name: '三井住友フィナンシャルグループ',
+    nameEn: 'Sumitomo Mitsui Financial Group, Inc.',
+    kana: 'ミツイスミトモフィナンシャルグループ',
+    aliases: ['三井住友FG', 'SMFG'],
+    market: 'プライム',
+    sector: '銀行業',
+  },
+  {
+    code: '8411',
+    name: 'みずほフィナンシャルグループ',
+    nameEn: 'Mizuho Financial Group, Inc.',
+    kana: 'ミズホフィナンシャルグループ',
+    aliases: ['みずほFG'],
+    market: 'プライム',
+    sector: '銀行業',
+  },
+  {
+    code: '8058',
+    name: '三菱商事',
+    nameEn: 'Mitsubishi Corporation',
+    kana: 'ミツビシショウジ',
+    market: 'プライム',
+    sector: '卸売業',
+  },
+  {
+    code: '8001',
+    name: '伊藤忠商事',
+    nameEn: 'ITOCHU Corporation',
+    kana: 'イトウチュウショウジ',
+    aliases: ['ITOCHU'],
+    market: 'プライム',
+    sector: '卸売業',
+  },
+  {
+    code: '8031',
+    name: '三井物産',
+    nameEn: 'Mitsui & Co., Ltd.',
+    kana: 'ミツイブッサン',
+    market: 'プライム',
+    sector: '卸売業',
+  },
+  {
+    code: '9983',
+    name: 'ファーストリテイリング',
+    nameEn: 'FAST RETAILING CO., LTD.',
+    kana: 'ファーストリテイリング',
+    market: 'プライム',
+    sector: '小売業',
+  },
+  {
+    code: '4502',
+    name: '武田薬品工業',
+    nameEn: 'Takeda Pharmaceutical Company Limited',
+    kana: 'タケダヤクヒンコウギョウ',
+    aliases: ['武田薬品', 'Takeda'],
+    market: 'プライム',
+    sector: '医薬品',
+  },
+  {
+    code: '4063',
+    name: '信越化学工業',
+    nameEn: 'Shin-Etsu Chemical Co., Ltd.',
+    kana: 'シンエツカガクコウギョウ',
+    aliases: ['信越化学'],
+    market: 'プライム',
+    sector: '化学',
+  },
+  {
+    code: '6098',
+    name: 'リクルートホールディングス',
+    nameEn: 'Recruit Holdings Co., Ltd.',
+    kana: 'リクルートホールディングス',
+    aliases: ['リクルートHD'],
+    market: 'プライム',
+    sector: 'サービス業',
+  },
+  {
+    code: '6367',
+    name: 'ダイキン工業',
+    nameEn: 'DAIKIN INDUSTRIES, LTD.',
+    kana: 'ダイキンコウギョウ',
+    aliases: ['ダイキン'],
+    market: 'プライム',
+    sector: '機械',
+  },
+  {
+    code: '5401',
+    name: '日本製鉄',
+    nameEn: 'NIPPON STEEL CORPORATION',
+    kana: 'ニッポンセイテツ',
+    formerNames: ['新日鐵住金', '新日鉄住金'],
+    market: 'プライム',
+    sector: '鉄鋼',
+  },
+  {
+    code: '2914',
+    name: '日本たばこ産業',
+    nameEn: 'JAPAN TOBACCO INC.',
+    kana: 'ニホンタバコサンギョウ',
+    aliases: ['JT'],
+    market: 'プライム',
+    sector: '食料品',
+  },
+  {
+    code: '9201',
+    name: '日本航空',
+    nameEn: 'Japan Airlines Co., Ltd.',
+    kana: 'ニホンコウクウ',
+    aliases: ['JAL'],
+    market: 'プライム',
+    sector: '空運業',
+  },
+  {
+    code: '9202',
+    name: 'ANAホールディングス',
+    nameEn: 'ANA HOLDINGS INC.',
+    kana: 'エーエヌエーホールディングス',
+    aliases: ['ANA', '全日空'],
+    market: 'プライム',
+    sector: '空運業',
+  },
+];
@@ -3,16 +3,92 @@
  *
  * Handles app startup tasks:
  * - Request notification permissions
+ * - Load securities master
  * - Load initial data (mock or real)
  * - Start periodic refresh
+ * - Push alerts and follow-ups (続報) from each refresh, then add AI
+ *   summaries to the changed clusters
+ * - End timed quiet mode and deliver deferred pushes at their digest slot
  */
 
 import { useEffect, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 
+import { markEventsSeen } from '../services/eventRepository';
+import { initializeSecuritiesMaster } from '../services/securitiesMasterService';
+import { commitCursorUpdates } from '../services/sourceCursorRepository';
 import type { AppDispatch, RootState } from '../store';
-import { setEvents, setLiveEvents, setLoading } from '../store/eventsSlice';
-import { fetchAndProcessEvents } from '../store/thunks';
+import {
+  setError,
+  setEvents,
+  setLiveEvents,
+  setLoading,
+  updateEvents,
+} from '../store/eventsSlice';
+import { setQuietMode } from '../store/settingsSlice';
+import {
+  deliverClusterNotifications,
+  fetchAndProcessEvents,
+  flushDeferredNotifications,
+  summarizeClusterEvents,
+} from '../store/thunks';
+import { parseError } from '../utils/errorHandler';
+
+/**
+ * Pipeline run in progress (see refreshEvents)
+ */
+let refreshInFlight: Promise<void> | null = null;
+
+/**
+ * Refresh the feed, one pipeline run at a time
+ * Callers overlapping a run (mount, watchlist change, auto-refresh) wait
+ * for it instead of starting another: runs read and write the same feed,
+ * seen events and source cursors.
+ */
+function refreshEvents(dispatch: AppDispatch): Promise<void> {
+  if (!refreshInFlight) {
+    refreshInFlight = runRefresh(dispatch).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Run the pipeline, store the results and push new alerts / 続報, then
+ * add AI summaries to the created/updated clusters
+ * Ingested events are marked seen and source cursors committed only after
+ * delivery, so a failed run is refetched on the next refresh; the feed
+ * is left as it is and the error shown.
+ */
+function runRefresh(dispatch: AppDispatch): Promise<void> {
+  return dispatch(fetchAndProcessEvents())
+    .unwrap()
+    .then(async (result) => {
+      dispatch(setEvents(result.allEvents));
+      dispatch(setLiveEvents(result.liveEvents));
+      await dispatch(deliverClusterNotifications(result.deltas)).unwrap();
+      await markEventsSeen(result.ingestedEvents);
+      await commitCursorUpdates(result.cursorUpdates);
+
+      if (result.deltas.length > 0) {
+        const summarized = await dispatch(
+          summarizeClusterEvents(
+            result.deltas.map((delta) => delta.cluster.clusterId),
+          ),
+        ).unwrap();
+        dispatch(updateEvents(summarized));
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to fetch events:', error);
+      dispatch(
+        setError(
+          typeof error === 'string' ? error : parseError(error).userMessage,
+        ),
+      );
+    });
+}
 
 /**
  * Initialize app on mount
@@ -30,23 +106,22 @@ export function useAppInit() {
   const watchlist = useSelector((state: RootState) => state.watchlist.tickers);
   const hasInitialized = useRef(false);
 
+  useDeferredDelivery();
+
   useEffect(() => {
     // Only run once on mount
     if (hasInitialized.current) return;
     hasInitialized.current = true;
 
+    // Load updated securities master (falls back to bundled list)
+    initializeSecuritiesMaster().catch((error) => {
+      console.error('Failed to load securities master:', error);
+    });
+
     // Initial data fetch
     if (watchlist.length > 0) {
       dispatch(setLoading(true));
-      dispatch(fetchAndProcessEvents())
-        .unwrap()
-        .then((result) => {
-          dispatch(setEvents(result.allEvents));
-          dispatch(setLiveEvents(result.liveEvents));
-        })
-        .catch((error) => {
-          console.error('Failed to fetch events:', error);
-        });
+      refreshEvents(dispatch);
     }
   }, [dispatch, watchlist.length]);
 
@@ -54,19 +129,49 @@ export function useAppInit() {
   useEffect(() => {
     if (watchlist.length > 0) {
       dispatch(setLoading(true));
-      dispatch(fetchAndProcessEvents())
-        .unwrap()
-        .then((result) => {
-          dispatch(setEvents(result.allEvents));
-          dispatch(setLiveEvents(result.liveEvents));
-        })
-        .catch((error) => {
-          console.error('Failed to fetch events:', error);
-        });
+      refreshEvents(dispatch);
     }
   }, [dispatch, watchlist]);
 }
 
+/**
+ * Timed quiet mode and deferred delivery
+ * - Turns quiet mode off when a timed quiet period ends
+ * - Delivers deferred pushes when the earliest digest slot comes
+ */
+export function useDeferredDelivery() {
+  const dispatch = useDispatch<AppDispatch>();
+  const quietUntil = useSelector(
+    (state: RootState) => state.settings.quietUntil,
+  );
+  const deferred = useSelector(
+    (state: RootState) => state.notifications.deferred,
+  );
+
+  useEffect(() => {
+    if (!quietUntil) return;
+
+    const timeout = setTimeout(
+      () => dispatch(setQuietMode(false)),
+      Math.max(0, new Date(quietUntil).getTime() - Date.now()),
+    );
+    return () => clearTimeout(timeout);
+  }, [dispatch, quietUntil]);
+
+  useEffect(() => {
+    if (deferred.length === 0) return;
+
+    const nextSlot = Math.min(
+      ...deferred.map((d) => new Date(d.deferUntil).getTime()),
+    );
+    const timeout = setTimeout(
+      () => dispatch(flushDeferredNotifications()),
+      Math.max(0, nextSlot - Date.now()),
+    );
+    return () => clearTimeout(timeout);
+  }, [dispatch, deferred]);
+}
+
 /**
  * Auto-refresh hook
  *
@@ -87,7 +192,7 @@ export function useAutoRefresh(intervalMs = 60000) {
     if (watchlist.length === 0) return;
 
     const interval = setInterval(() => {
-      dispatch(fetchAndProcessEvents());
+      refreshEvents(dispatch);
     }, intervalMs);
 
     return () => clearInterval(interval);
@@ -0,0 +1,219 @@
+/**
+ * AI Result Cache Repository
+ *
+ * Persistent cache of AI results (summaries, impact analyses).
+ * Per product spec: small model for cost efficiency — titles are immutable,
+ * so an event already summarized never costs tokens twice
+ * - Key: hash of the normalized title and excerpt, the model and the
+ *   prompt version (bump the version when a prompt changes)
+ * - Entries expire after a TTL; beyond the size limit the least recently
+ *   used entries are evicted
+ * - Hit/miss counts for the current app session (debug screen)
+ */
+
+import { createStoredValue } from '../utils/storage';
+
+/**
+ * Cache configuration
+ */
+export interface AICacheConfig {
+  /** Time to live (days) */
+  ttlDays: number;
+  /** Maximum number of entries */
+  maxEntries: number;
+}
+
+/**
+ * Inputs that determine an AI result
+ */
+export interface AICacheKeyInput {
+  /** Result kind (e.g., "summary", "impact") */
+  kind: string;
+  title: string;
+  excerpt?: string;
+  /** Model (provider and model name, see getAIModel) */
+  model: string;
+  /** Prompt version of the service producing the result */
+  promptVersion: number;
+  /** Other prompt inputs (e.g., source tier) */
+  context?: string[];
+}
+
+/**
+ * Cache statistics
+ */
+export interface AICacheStats {
+  /** Hits in this app session */
+  hits: number;
+  /** Misses in this app session */
+  misses: number;
+  /** Stored entries */
+  entries: number;
+}
+
+interface AICacheEntry {
+  value: unknown;
+  /** ISO timestamp of when the result was stored */
+  createdAt: string;
+  /** ISO timestamp of the last hit */
+  lastUsedAt: string;
+}
+
+const STORAGE_KEY = 'aiCache';
+
+const DEFAULT_CONFIG: AICacheConfig = {
+  ttlDays: 30,
+  maxEntries: 500,
+};
+
+let config: AICacheConfig = DEFAULT_CONFIG;
+const entries = createStoredValue<Record<string, AICacheEntry>>(
+  STORAGE_KEY,
+  () => ({}),
+);
+let hits = 0;
+let misses = 0;
+
+/**
+ * Configure TTL and size limit
+ *
+ * @param overrides - Settings to change
+ */
+export function configureAICache(overrides: Partial<AICacheConfig>): void {
+  config = { ...DEFAULT_CONFIG, ...overrides };
+}
+
+/**
+ * 32-bit FNV-1a hash with a seed
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Normalize text so formatting differences share a cache entry
+ * (full-width/half-width, whitespace)
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Build the cache key for an AI result
+ * Two independent 32-bit hashes keep collisions negligible at the cache
+ * size.
+ *
+ * @param input - Inputs that determine the result
+ * @returns Cache key
+ */
+export function getAICacheKey(input: AICacheKeyInput): string {
+  const material = [
+    input.kind,
+    normalizeText(input.title),
+    normalizeText(input.excerpt || ''),
+    input.model,
+    String(input.promptVersion),
+    ...(input.context || []).map(normalizeText),
+  ].join('\u0000');
+  const high = fnv1a(material, 0x811c9dc5).toString(16).padStart(8, '0');
+  const low = fnv1a(material, 0x01000193).toString(16).padStart(8, '0');
+  return `${input.kind}:${high}${low}`;
+}
+
+function isExpired(entry: AICacheEntry, now: Date): boolean {
+  return (
+    now.getTime() - new Date(entry.createdAt).getTime() >
+    config.ttlDays * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Drop expired entries, then the least recently used beyond the limit
+ */
+function prune(current: Record<string, AICacheEntry>, now: Date): void {
+  for (const [key, entry] of Object.entries(current)) {
+    if (isExpired(entry, now)) delete current[key];
+  }
+  const keys = Object.keys(current);
+  if (keys.length <= config.maxEntries) return;
+
+  keys
+    .sort(
+      (a, b) =>
+        new Date(current[a].lastUsedAt).getTime() -
+        new Date(current[b].lastUsedAt).getTime(),
+    )
+    .slice(0, keys.length - config.maxEntries)
+    .forEach((key) => delete current[key]);
+}
+
+/**
+ * Look up a cached result
+ * Hits refresh the entry's last use in memory; it is saved with the next
+ * write.
+ *
+ * @param key - Cache key (see getAICacheKey)
+ * @param now - Reference time (defaults to now)
+ * @returns Cached result, or null on a miss or expired entry
+ */
+export async function getCachedAIResult<T>(
+  key: string,
+  now: Date = new Date(),
+): Promise<T | null> {
+  const current = await entries.load();
+  const entry = current[key];
+  if (!entry || isExpired(entry, now)) {
+    misses++;
+    return null;
+  }
+  hits++;
+  entry.lastUsedAt = now.toISOString();
+  return entry.value as T;
+}
+
+/**
+ * Store a result
+ * Store only results worth reusing (not failsafe fallbacks).
+ *
+ * @param key - Cache key (see getAICacheKey)
+ * @param value - JSON-serializable result
+ * @param now - Reference time (defaults to now)
+ */
+export async function setCachedAIResult<T>(
+  key: string,
+  value: T,
+  now: Date = new Date(),
+): Promise<void> {
+  const current = await entries.load();
+  current[key] = {
+    value,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+  };
+  prune(current, now);
+  await entries.save();
+}
+
+/**
+ * Get cache statistics
+ *
+ * @returns Session hits/misses and stored entry count
+ */
+export async function getAICacheStats(): Promise<AICacheStats> {
+  const current = await entries.load();
+  return { hits, misses, entries: Object.keys(current).length };
+}
+
+/**
+ * Clear the cache and statistics (for testing/debugging)
+ */
+export async function clearAICache(): Promise<void> {
+  hits = 0;
+  misses = 0;
+  await entries.clear();
+}
@@ -1,21 +1,32 @@
 /**
- * AI Service (OpenAI API Integration)
+ * AI Service (LLM Integration)
  *
  * Per product spec:
- * - Small model for cost efficiency (gpt-3.5-turbo or similar)
+ * - Small model for cost efficiency (gpt-4o-mini or similar)
+ * - Provider-agnostic: calls go through an LLMProvider (llmProvider.ts)
  * - Event summarization (150-250 chars, facts only)
  * - Impact estimation (outlook pill + reasoning)
  * - Guardrails: forbidden words, numeric consistency
  * - Failsafe: fallback to fixed message on failure
  */
 
+import {
+  createLLMProvider,
+  getLLMConfigFromEnv,
+  LLMError,
+  LLMProvider,
+  LLMProviderId,
+  LLMRequest,
+  LLMResponse,
+} from './llmProvider';
+
 /**
  * AI service configuration
  */
 export interface AIConfig {
-  /** OpenAI API key */
-  apiKey: string;
-  /** Model to use (default: gpt-3.5-turbo for cost) */
+  /** LLM provider (see llmProvider: OpenAI, Azure, Anthropic, compatible) */
+  provider: LLMProvider;
+  /** Model override (default: the provider's default model) */
   model?: string;
   /** Temperature (0 for deterministic) */
   temperature?: number;
@@ -26,41 +37,18 @@ export interface AIConfig {
 /**
  * AI completion request
  */
-export interface AICompletionRequest {
-  /** System prompt */
-  systemPrompt: string;
-  /** User message */
-  userMessage: string;
-  /** Model override */
-  model?: string;
-  /** Temperature override */
-  temperature?: number;
-  /** Max tokens override */
-  maxTokens?: number;
-}
+export type AICompletionRequest = LLMRequest;
 
 /**
  * AI completion response
  */
-export interface AICompletionResponse {
-  /** Generated text */
-  text: string;
-  /** Token usage */
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  /** Model used */
-  model: string;
-}
+export type AICompletionResponse = LLMResponse;
 
 /**
  * Default AI configuration
- * Per product spec: small model for cost efficiency
+ * Per product spec: deterministic, short outputs
  */
 const DEFAULT_CONFIG: Partial<AIConfig> = {
-  model: 'gpt-3.5-turbo',
   temperature: 0,
   maxTokens: 500,
 };
@@ -73,93 +61,61 @@ let globalConfig: AIConfig | null = null;
  * @param config - AI configuration
  */
 export function initializeAI(config: AIConfig): void {
-  globalConfig = { ...DEFAULT_CONFIG, ...config } as AIConfig;
+  globalConfig = { ...DEFAULT_CONFIG, ...config };
 }
 
 /**
  * Get current configuration
+ * Falls back to a provider configured via environment variables
  */
-function getConfig(): AIConfig {
+function getConfig(): AIConfig | null {
   if (!globalConfig) {
-    throw new Error('AI service not initialized. Call initializeAI() first.');
+    const envConfig = getLLMConfigFromEnv();
+    if (envConfig) {
+      initializeAI({ provider: createLLMProvider(envConfig) });
+    }
   }
   return globalConfig;
 }
 
 /**
- * Call OpenAI Chat Completion API
+ * Call the configured LLM provider
  *
  * @param request - Completion request
  * @returns Completion response
+ * @throws LLMError on provider failure
  */
-export async function callOpenAI(
+export async function callLLM(
   request: AICompletionRequest,
 ): Promise<AICompletionResponse> {
   const config = getConfig();
-
-  const model = request.model || config.model || 'gpt-3.5-turbo';
-  const temperature = request.temperature ?? config.temperature ?? 0;
-  const maxTokens = request.maxTokens || config.maxTokens || 500;
+  if (!config) {
+    throw new Error('AI service not initialized. Call initializeAI() first.');
+  }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: request.systemPrompt,
-          },
-          {
-            role: 'user',
-            content: request.userMessage,
-          },
-        ],
-        temperature,
-        max_tokens: maxTokens,
-      }),
+    return await config.provider.complete({
+      ...request,
+      model: request.model || config.model,
+      temperature: request.temperature ?? config.temperature ?? 0,
+      maxTokens: request.maxTokens || config.maxTokens || 500,
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `OpenAI API error: ${response.status} - ${JSON.stringify(errorData)}`,
-      );
-    }
-
-    const data = await response.json();
-
-    return {
-      text: data.choices[0]?.message?.content || '',
-      usage: data.usage
-        ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-          }
-        : undefined,
-      model: data.model,
-    };
   } catch (error) {
-    console.error('OpenAI API call failed:', error);
+    console.error(`LLM call failed (${config.provider.id}):`, error);
     throw error;
   }
 }
 
 /**
- * Call OpenAI with retry logic
+ * Call the LLM with retry logic
  * Per product spec: handle failures gracefully
+ * Only retryable failures (rate limit, server, network) are retried.
  *
  * @param request - Completion request
  * @param maxRetries - Maximum retry attempts (default: 2)
  * @returns Completion response
  */
-export async function callOpenAIWithRetry(
+export async function callLLMWithRetry(
   request: AICompletionRequest,
   maxRetries = 2,
 ): Promise<AICompletionResponse> {
@@ -167,11 +123,12 @@ export async function callOpenAIWithRetry(
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await callOpenAI(request);
+      return await callLLM(request);
     } catch (error) {
       lastError = error as Error;
+      if (error instanceof LLMError && !error.retryable) break;
       console.warn(
-        `OpenAI API attempt ${attempt + 1}/${maxRetries + 1} failed:`,
+        `LLM attempt ${attempt + 1}/${maxRetries + 1} failed:`,
         error,
       );
 
@@ -184,14 +141,42 @@ export async function callOpenAIWithRetry(
     }
   }
 
-  throw lastError || new Error('OpenAI API failed after retries');
+  throw lastError || new Error('LLM call failed after retries');
 }
 
 /**
- * Check if AI service is initialized
+ * Check if AI service is initialized (explicitly or via environment)
  */
 export function isAIInitialized(): boolean {
-  return globalConfig !== null;
+  return getConfig() !== null;
+}
+
+/**
+ * Get the configured provider and model (e.g., "openai:gpt-4o-mini")
+ * Identifies which model produced a result, e.g., for caching.
+ *
+ * @returns Provider and model, or null if not initialized
+ */
+export function getAIModel(): string | null {
+  const config = getConfig();
+  if (!config) return null;
+  return `${config.provider.id}:${config.model || config.provider.defaultModel}`;
+}
+
+/**
+ * Get the configured provider
+ *
+ * @returns Provider ID, or null if not initialized
+ */
+export function getAIProviderId(): LLMProviderId | null {
+  return getConfig()?.provider.id ?? null;
+}
+
+/**
+ * Reset configuration (for testing)
+ */
+export function resetAI(): void {
+  globalConfig = null;
 }
 
 /**
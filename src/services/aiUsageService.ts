@@ -0,0 +1,353 @@
+/**
+ * AI Usage Accounting Service
+ *
+ * Records token usage of every model call and enforces a spending budget.
+ * Per product spec: small model for cost efficiency — AI must never cost
+ * more than planned, even in a busy earnings week
+ * - Tokens per call, aggregated per JST day and feature (summary, impact,
+ *   cluster summary)
+ * - Cost in yen from a configurable price table (yen per 1M tokens);
+ *   models not in the table use the default price, which is free for
+ *   OpenAI-compatible (local) servers
+ * - Daily and monthly budgets: once spent, services skip the model and
+ *   use their failsafe (fixed summary message, tier-based impact,
+ *   cluster without AI summary)
+ */
+
+import { getAIProviderId } from './aiService';
+import { getJstDate } from '../utils/date';
+import { createStoredValue } from '../utils/storage';
+
+/**
+ * Feature making the model call
+ */
+export type AIFeature = 'summary' | 'impact' | 'cluster';
+
+/**
+ * Price of a model in yen per 1M tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Accounting configuration
+ */
+export interface AIUsageConfig {
+  /**
+   * Prices by model name prefix (longest match wins, so
+   * "gpt-3.5-turbo-0125" uses "gpt-3.5-turbo")
+   */
+  priceTable: Record<string, ModelPrice>;
+  /**
+   * Price for models not in the table
+   * Deliberately high so unknown models cannot overspend (0 when the
+   * provider is an OpenAI-compatible server).
+   */
+  defaultPrice: ModelPrice;
+  /** Daily budget in yen (JST day; null: unlimited) */
+  dailyBudgetYen: number | null;
+  /** Monthly budget in yen (JST month; null: unlimited) */
+  monthlyBudgetYen: number | null;
+}
+
+/**
+ * Token usage reported by a model call
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Usage totals
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costYen: number;
+}
+
+/**
+ * Usage for a period, overall and per feature
+ */
+export interface UsagePeriod extends UsageTotals {
+  byFeature: Record<AIFeature, UsageTotals>;
+  /** Budget in yen (null: unlimited) */
+  budgetYen: number | null;
+}
+
+/**
+ * Usage summary for today and this month (JST)
+ */
+export interface AIUsageSummary {
+  today: UsagePeriod;
+  month: UsagePeriod;
+}
+
+/**
+ * Budget check result
+ */
+export interface AIBudgetStatus {
+  /** Whether another model call is allowed */
+  allowed: boolean;
+  /** Why calls are blocked */
+  reason?: string;
+}
+
+/**
+ * Default prices (yen per 1M tokens, at 150 JPY/USD)
+ * Azure reports its own model names (gpt-35-turbo).
+ */
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 75, output: 225 },
+  'gpt-35-turbo': { input: 75, output: 225 },
+  'gpt-4o-mini': { input: 22.5, output: 90 },
+  'gpt-4o': { input: 375, output: 1500 },
+  'claude-3-haiku': { input: 37.5, output: 187.5 },
+  'claude-3-5-haiku': { input: 120, output: 600 },
+};
+
+const DEFAULT_CONFIG: AIUsageConfig = {
+  priceTable: DEFAULT_PRICE_TABLE,
+  defaultPrice: { input: 450, output: 2250 },
+  dailyBudgetYen: 100,
+  monthlyBudgetYen: 1500,
+};
+
+const STORAGE_KEY = 'aiUsage';
+
+/**
+ * Days of usage kept (covers the current and previous month)
+ */
+const RETENTION_DAYS = 62;
+
+const FEATURES: AIFeature[] = ['summary', 'impact', 'cluster'];
+
+/**
+ * Stored usage: JST date (YYYY-MM-DD) → feature → totals
+ */
+type UsageLog = Record<string, Partial<Record<AIFeature, UsageTotals>>>;
+
+let configOverrides: Partial<AIUsageConfig> | null = null;
+const usage = createStoredValue<UsageLog>(STORAGE_KEY, () => ({}));
+
+/**
+ * Configure prices and budgets
+ *
+ * @param config - Settings to change
+ */
+export function configureAIUsage(config: Partial<AIUsageConfig>): void {
+  configOverrides = config;
+}
+
+/**
+ * Get current configuration
+ * Falls back to environment variables when not configured:
+ * - EXPO_PUBLIC_AI_DAILY_BUDGET_YEN, EXPO_PUBLIC_AI_MONTHLY_BUDGET_YEN
+ * - EXPO_PUBLIC_AI_PRICE_INPUT_YEN, EXPO_PUBLIC_AI_PRICE_OUTPUT_YEN:
+ *   default price (yen per 1M tokens); otherwise 0 for
+ *   openai-compatible providers
+ */
+function getConfig(): AIUsageConfig {
+  const envNumber = (value: string | undefined, fallback: number | null) =>
+    value && Number.isFinite(Number(value)) ? Number(value) : fallback;
+  const basePrice =
+    getAIProviderId() === 'openai-compatible'
+      ? { input: 0, output: 0 }
+      : DEFAULT_CONFIG.defaultPrice;
+
+  return {
+    ...DEFAULT_CONFIG,
+    defaultPrice: {
+      input:
+        envNumber(process.env.EXPO_PUBLIC_AI_PRICE_INPUT_YEN, null) ??
+        basePrice.input,
+      output:
+        envNumber(process.env.EXPO_PUBLIC_AI_PRICE_OUTPUT_YEN, null) ??
+        basePrice.output,
+    },
+    dailyBudgetYen: envNumber(
+      process.env.EXPO_PUBLIC_AI_DAILY_BUDGET_YEN,
+      DEFAULT_CONFIG.dailyBudgetYen,
+    ),
+    monthlyBudgetYen: envNumber(
+      process.env.EXPO_PUBLIC_AI_MONTHLY_BUDGET_YEN,
+      DEFAULT_CONFIG.monthlyBudgetYen,
+    ),
+    ...configOverrides,
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costYen: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.calls += source.calls;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.costYen += source.costYen;
+}
+
+/**
+ * Look up the price of a model (longest matching prefix)
+ *
+ * @param model - Model name as reported by the provider
+ * @param config - Accounting configuration
+ * @returns Price in yen per 1M tokens
+ */
+export function getModelPrice(
+  model: string,
+  config: AIUsageConfig = getConfig(),
+): ModelPrice {
+  const match = Object.keys(config.priceTable)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? config.priceTable[match] : config.defaultPrice;
+}
+
+/**
+ * Convert token usage to yen
+ *
+ * @param model - Model name as reported by the provider
+ * @param tokens - Token usage
+ * @param config - Accounting configuration
+ * @returns Cost in yen
+ */
+export function calculateCostYen(
+  model: string,
+  tokens: TokenUsage,
+  config: AIUsageConfig = getConfig(),
+): number {
+  const price = getModelPrice(model, config);
+  return (
+    (tokens.promptTokens * price.input +
+      tokens.completionTokens * price.output) /
+    1000000
+  );
+}
+
+/**
+ * Record a model call
+ * Calls without reported usage are counted but cost nothing.
+ *
+ * @param feature - Feature that made the call
+ * @param model - Model name as reported by the provider
+ * @param tokens - Token usage (if reported)
+ * @param now - Reference time (defaults to now)
+ * @returns Cost of the call in yen
+ */
+export async function recordAIUsage(
+  feature: AIFeature,
+  model: string,
+  tokens: TokenUsage | undefined,
+  now: Date = new Date(),
+): Promise<number> {
+  const current = await usage.load();
+  const date = getJstDate(now);
+  const costYen = tokens ? calculateCostYen(model, tokens) : 0;
+
+  const day = current[date] || {};
+  const totals = day[feature] || emptyTotals();
+  day[feature] = totals;
+  current[date] = day;
+  addTotals(totals, {
+    calls: 1,
+    promptTokens: tokens?.promptTokens ?? 0,
+    completionTokens: tokens?.completionTokens ?? 0,
+    costYen,
+  });
+
+  const cutoff = getJstDate(
+    new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  );
+  for (const key of Object.keys(current)) {
+    if (key < cutoff) delete current[key];
+  }
+
+  await usage.save();
+  return costYen;
+}
+
+/**
+ * Sum usage over the days matching a date prefix
+ */
+function sumUsage(
+  current: UsageLog,
+  datePrefix: string,
+  budgetYen: number | null,
+): UsagePeriod {
+  const period: UsagePeriod = {
+    ...emptyTotals(),
+    byFeature: {
+      summary: emptyTotals(),
+      impact: emptyTotals(),
+      cluster: emptyTotals(),
+    },
+    budgetYen,
+  };
+  for (const [date, day] of Object.entries(current)) {
+    if (!date.startsWith(datePrefix)) continue;
+    for (const feature of FEATURES) {
+      const totals = day[feature];
+      if (!totals) continue;
+      addTotals(period.byFeature[feature], totals);
+      addTotals(period, totals);
+    }
+  }
+  return period;
+}
+
+/**
+ * Get usage for today and this month (JST)
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Usage summary with budgets
+ */
+export async function getAIUsageSummary(
+  now: Date = new Date(),
+): Promise<AIUsageSummary> {
+  const current = await usage.load();
+  const config = getConfig();
+  const date = getJstDate(now);
+  return {
+    today: sumUsage(current, date, config.dailyBudgetYen),
+    month: sumUsage(current, date.slice(0, 7), config.monthlyBudgetYen),
+  };
+}
+
+/**
+ * Check whether the budget allows another model call
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Budget status
+ */
+export async function checkAIBudget(
+  now: Date = new Date(),
+): Promise<AIBudgetStatus> {
+  const { today, month } = await getAIUsageSummary(now);
+
+  if (today.budgetYen !== null && today.costYen >= today.budgetYen) {
+    return {
+      allowed: false,
+      reason: `Daily AI budget exhausted (¥${today.costYen.toFixed(2)} / ¥${today.budgetYen})`,
+    };
+  }
+  if (month.budgetYen !== null && month.costYen >= month.budgetYen) {
+    return {
+      allowed: false,
+      reason: `Monthly AI budget exhausted (¥${month.costYen.toFixed(2)} / ¥${month.budgetYen})`,
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Clear recorded usage (for testing/debugging)
+ */
+export async function clearAIUsage(): Promise<void> {
+  await usage.clear();
+}
@@ -0,0 +1,443 @@
+/**
+ * Cluster Summary Service
+ *
+ * One AI summary per cluster, merging all member events (EDINET filing,
+ * TDnet/company IR, PR) into a single prompt.
+ * Per product spec:
+ * - Summary 150-250 characters, facts only, no forbidden words
+ * - Every fact is attributed to the member events stating it; facts
+ *   without a valid source, or with numbers not found in their sources,
+ *   are dropped
+ * - Contradictions between sources (e.g., different figures) are listed
+ *   with the disagreeing sources
+ * - Reasoning and counter-reasoning (反証) for the cluster
+ * - Structured JSON output, cached and budgeted like other AI features;
+ *   on failure the cluster is left without AI fields (UI shows the title)
+ */
+
+import {
+  getAICacheKey,
+  getCachedAIResult,
+  setCachedAIResult,
+} from './aiCacheRepository';
+import {
+  callLLMWithRetry,
+  getAIModel,
+  getFailsafeMessage,
+  isAIInitialized,
+} from './aiService';
+import { checkAIBudget, recordAIUsage } from './aiUsageService';
+import { parseJSONWithRepair } from './impactAnalysisService';
+import { LLMJsonSchemaFormat } from './llmProvider';
+import {
+  checkForbiddenWords,
+  checkNumericConsistency,
+  formatFinancialFigures,
+} from './summaryService';
+import {
+  AttributedFact,
+  ClusteredEvent,
+  NormalizedEvent,
+  SourceContradiction,
+  SourceTier,
+} from '../types/events';
+import { AppError, ErrorType } from '../utils/errorHandler';
+
+/**
+ * Cluster summary result
+ */
+export interface ClusterSummaryResult {
+  /** Summary across all sources (150-250 chars) */
+  summary: string;
+  /** Facts with the member events stating them */
+  facts: AttributedFact[];
+  /** Disagreements between member events */
+  contradictions: SourceContradiction[];
+  /** Reasoning (1 line; omitted when it fails the guardrails) */
+  reasoning?: string;
+  /** Counter-reasoning (1 line; omitted when it fails the guardrails) */
+  counterReasoning?: string;
+  /** Whether this is a failsafe message */
+  isFailsafe: boolean;
+  /** Validation warnings */
+  warnings: string[];
+  /** Whether this came from the AI result cache */
+  cached?: boolean;
+}
+
+/**
+ * Cluster prompt version (part of the cache key)
+ * Bump when the prompts or schema change so cached summaries are redone.
+ */
+const CLUSTER_PROMPT_VERSION = 1;
+
+const SOURCE_REFS_SCHEMA = {
+  type: 'array',
+  items: { type: 'integer' },
+};
+
+/**
+ * JSON schema of the model's response (sources are 1-based numbers of
+ * the member events in the prompt)
+ */
+export const CLUSTER_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    facts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          sources: SOURCE_REFS_SCHEMA,
+        },
+        required: ['text', 'sources'],
+        additionalProperties: false,
+      },
+    },
+    contradictions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          description: { type: 'string' },
+          sources: SOURCE_REFS_SCHEMA,
+        },
+        required: ['topic', 'description', 'sources'],
+        additionalProperties: false,
+      },
+    },
+    reasoning: { type: 'string' },
+    counterReasoning: { type: 'string' },
+  },
+  required: [
+    'summary',
+    'facts',
+    'contradictions',
+    'reasoning',
+    'counterReasoning',
+  ],
+  additionalProperties: false,
+};
+
+const CLUSTER_SUMMARY_FORMAT: LLMJsonSchemaFormat = {
+  type: 'json_schema',
+  name: 'cluster_summary',
+  schema: CLUSTER_SUMMARY_SCHEMA,
+};
+
+const TIER_LABELS: Record<SourceTier, string> = {
+  A: '一次',
+  B: '準一次',
+  C: '報道',
+};
+
+/**
+ * Summarize a cluster across its member events
+ *
+ * @param cluster - Clustered event
+ * @returns Cluster summary (failsafe when AI is unavailable or fails)
+ */
+export async function summarizeCluster(
+  cluster: ClusteredEvent,
+): Promise<ClusterSummaryResult> {
+  if (!isAIInitialized()) {
+    return buildFailsafeResult(['AI service not initialized']);
+  }
+
+  const events = cluster.events;
+  const cacheKey = getAICacheKey({
+    kind: 'cluster',
+    title: events.map((event) => event.title).join('\n'),
+    excerpt: events.map((event) => event.excerpt || '').join('\n'),
+    model: getAIModel() ?? 'unknown',
+    promptVersion: CLUSTER_PROMPT_VERSION,
+    // Facts refer to member IDs, so the member set is part of the key,
+    // with the other prompt inputs per member
+    context: [
+      cluster.eventType,
+      ...events.map((event) =>
+        [
+          event.id,
+          event.sourceName,
+          event.tier,
+          event.publishedAt,
+          JSON.stringify(event.financials ?? null),
+        ].join(':'),
+      ),
+    ],
+  });
+  const cached = await getCachedAIResult<ClusterSummaryResult>(cacheKey);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const budget = await checkAIBudget();
+  if (!budget.allowed) {
+    return buildFailsafeResult([budget.reason || 'AI budget exhausted']);
+  }
+
+  try {
+    const response = await callLLMWithRetry({
+      systemPrompt: buildClusterSystemPrompt(),
+      userMessage: buildClusterUserMessage(cluster),
+      temperature: 0,
+      maxTokens: 800,
+      responseFormat: CLUSTER_SUMMARY_FORMAT,
+    });
+    await recordAIUsage('cluster', response.model, response.usage);
+
+    // Rejected answers are cached too: the same prompt would be rejected
+    // (and paid for) again on every refresh
+    const { value } = parseJSONWithRepair(response.text);
+    const result = validateClusterSummary(value, events);
+    await setCachedAIResult(cacheKey, result);
+    return result;
+  } catch (error) {
+    console.error('Cluster summary failed:', error);
+    return buildFailsafeResult([`Error: ${error}`]);
+  }
+}
+
+/**
+ * Summarize clusters and write the results onto them
+ *
+ * @param clusters - Clustered events
+ * @returns Clusters with summary, facts, contradictions and reasoning
+ */
+export async function summarizeClusters<T extends ClusteredEvent>(
+  clusters: T[],
+): Promise<T[]> {
+  const results: T[] = [];
+
+  for (const cluster of clusters) {
+    const result = await summarizeCluster(cluster);
+    results.push(applyClusterSummary(cluster, result));
+
+    // Small delay to avoid rate limiting (cache hits make no API call)
+    if (!result.cached && !result.isFailsafe) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Write a summary result onto a cluster
+ * Failsafe results leave the cluster unchanged, so the UI keeps showing
+ * the title instead of the fixed failsafe message.
+ *
+ * @param cluster - Clustered event
+ * @param result - Cluster summary
+ * @returns Updated cluster
+ */
+export function applyClusterSummary<T extends ClusteredEvent>(
+  cluster: T,
+  result: ClusterSummaryResult,
+): T {
+  if (result.isFailsafe) return cluster;
+  return {
+    ...cluster,
+    summary: result.summary,
+    facts: result.facts,
+    contradictions: result.contradictions,
+    reasoning: result.reasoning,
+    counterReasoning: result.counterReasoning,
+  };
+}
+
+function buildFailsafeResult(warnings: string[]): ClusterSummaryResult {
+  return {
+    summary: getFailsafeMessage(),
+    facts: [],
+    contradictions: [],
+    isFailsafe: true,
+    warnings,
+  };
+}
+
+/**
+ * Map 1-based source numbers to member event IDs (invalid and duplicate
+ * numbers are dropped)
+ */
+function toEventIds(sources: unknown, events: NormalizedEvent[]): string[] {
+  if (!Array.isArray(sources)) return [];
+  const ids = sources
+    .filter(
+      (n): n is number =>
+        typeof n === 'number' &&
+        Number.isInteger(n) &&
+        n >= 1 &&
+        n <= events.length,
+    )
+    .map((n) => events[n - 1].id);
+  return [...new Set(ids)];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the model's response and apply the guardrails
+ *
+ * @param value - Parsed JSON
+ * @param events - Member events, in prompt order
+ * @returns Cluster summary (failsafe when the summary itself is unusable)
+ * @throws AppError when the response does not match the schema
+ */
+export function validateClusterSummary(
+  value: unknown,
+  events: NormalizedEvent[],
+): ClusterSummaryResult {
+  if (
+    !isRecord(value) ||
+    typeof value.summary !== 'string' ||
+    !Array.isArray(value.facts) ||
+    !Array.isArray(value.contradictions)
+  ) {
+    throw new AppError(
+      ErrorType.VALIDATION,
+      '要約の結果を読み取れませんでした。',
+      undefined,
+      'Cluster summary does not match the schema',
+    );
+  }
+
+  const warnings: string[] = [];
+  const summary = value.summary.trim();
+
+  if (summary.length < 150) {
+    warnings.push('Summary too short (< 150 chars)');
+  } else if (summary.length > 250) {
+    warnings.push('Summary too long (> 250 chars)');
+  }
+
+  const forbidden = checkForbiddenWords(summary);
+  if (forbidden.length > 0) {
+    return buildFailsafeResult([
+      ...warnings,
+      `Forbidden words found: ${forbidden.join(', ')}`,
+    ]);
+  }
+
+  // Summary numbers may come from any member
+  const summaryIssues = events.map((event) =>
+    checkNumericConsistency(event, summary),
+  );
+  if (summaryIssues.every((issues) => issues.length > 0)) {
+    warnings.push(...summaryIssues[0]);
+  }
+
+  // Facts must cite members, and their numbers must be in a cited member
+  const facts: AttributedFact[] = [];
+  for (const fact of value.facts) {
+    if (!isRecord(fact) || typeof fact.text !== 'string') continue;
+    const text = fact.text.trim();
+    const eventIds = toEventIds(fact.sources, events);
+    if (!text) continue;
+    if (eventIds.length === 0) {
+      warnings.push(`Fact without a valid source dropped: ${text}`);
+      continue;
+    }
+    if (checkForbiddenWords(text).length > 0) {
+      warnings.push(`Fact with forbidden words dropped: ${text}`);
+      continue;
+    }
+    const supported = events
+      .filter((event) => eventIds.includes(event.id))
+      .some((event) => checkNumericConsistency(event, text).length === 0);
+    if (!supported) {
+      warnings.push(`Fact not supported by its sources dropped: ${text}`);
+      continue;
+    }
+    facts.push({ text, eventIds });
+  }
+
+  // A contradiction needs at least two disagreeing sources
+  const contradictions: SourceContradiction[] = [];
+  for (const item of value.contradictions) {
+    if (
+      !isRecord(item) ||
+      typeof item.topic !== 'string' ||
+      typeof item.description !== 'string'
+    ) {
+      continue;
+    }
+    const eventIds = toEventIds(item.sources, events);
+    if (eventIds.length < 2) {
+      warnings.push('Contradiction with fewer than 2 sources dropped');
+      continue;
+    }
+    contradictions.push({
+      topic: item.topic.trim(),
+      description: item.description.trim(),
+      eventIds,
+    });
+  }
+
+  const guarded = (field: 'reasoning' | 'counterReasoning') => {
+    const raw = value[field];
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) return undefined;
+    if (checkForbiddenWords(text).length > 0) {
+      warnings.push(`Forbidden words found in ${field}`);
+      return undefined;
+    }
+    return text;
+  };
+
+  return {
+    summary,
+    facts,
+    contradictions,
+    reasoning: guarded('reasoning'),
+    counterReasoning: guarded('counterReasoning'),
+    isFailsafe: false,
+    warnings,
+  };
+}
+
+/**
+ * Build system prompt for cluster summaries
+ */
+function buildClusterSystemPrompt(): string {
+  return `あなたは日本株の投資ニュース要約AIです。同じ出来事に関する複数の情報源をまとめます。以下のルールに厳密に従ってください：
+
+1. summary: 全情報源を統合した要約を150〜250文字で、事実のみを記載する
+2. facts: 要約に含まれる事実を1件ずつ、根拠となる情報源の番号（sources）付きで列挙する
+3. contradictions: 情報源の間で数値や内容が食い違う点があれば、項目（topic）・内容（description）・食い違う情報源の番号を列挙する（なければ空配列）
+4. reasoning: 影響の要因を1行で、counterReasoning: リスクや不確定要素を1行で
+5. 推測や意見は一切含めない（「〜だろう」「〜と思われる」等は禁止）
+6. 売買推奨や価格目標は絶対に含めない
+7. 数値は情報源に含まれるもののみ使用し、一次情報（EDINET・適時開示）を優先する
+
+出力形式: summary, facts, contradictions, reasoning, counterReasoning をキーとするJSONオブジェクトのみ`;
+}
+
+/**
+ * Build user message for cluster summaries (numbered member events)
+ */
+function buildClusterUserMessage(cluster: ClusteredEvent): string {
+  const sources = cluster.events.map((event, index) =>
+    [
+      `[${index + 1}] ${event.sourceName}（${TIER_LABELS[event.tier]}） ${new Date(event.publishedAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+      `タイトル: ${event.title}`,
+      event.excerpt ? `内容: ${event.excerpt}` : '',
+      event.financials
+        ? `主要数値: ${formatFinancialFigures(event.financials)}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  );
+
+  return `以下の情報源（イベント種別: ${cluster.eventType}）をまとめてください：
+
+${sources.join('\n\n')}
+
+JSON:`;
+}
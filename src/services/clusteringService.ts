@@ -3,12 +3,24 @@
  *
  * Per product spec:
  * - Cluster by: ticker × time window (±30min) × headline similarity
+ * - Similarity strategy is pluggable (see similarityService)
+ * - Incremental: new events attach to open clusters, IDs stay stable
  * - Confidence evaluation: A (primary), B (semi-primary), C (news)
  * - Delivery condition: A exists OR B×2+
  * - Cooldown: same theme within 30min → merge to 1 cluster
  */
 
-import { NormalizedEvent, ClusteredEvent, ImpactLevel } from '../types/events';
+import {
+  getSimilarityStrategy,
+  SimilarityMethod,
+  SimilarityScorer,
+} from './similarityService';
+import {
+  ClusterDelta,
+  ClusteredEvent,
+  ImpactLevel,
+  NormalizedEvent,
+} from '../types/events';
 
 /**
  * Clustering configuration
@@ -20,6 +32,8 @@ export interface ClusteringConfig {
   similarityThreshold: number;
   /** Cooldown period for same theme (minutes, default: 30) */
   cooldownMinutes: number;
+  /** Headline similarity strategy (default: auto) */
+  similarityMethod?: SimilarityMethod;
 }
 
 /**
@@ -30,11 +44,25 @@ const DEFAULT_CONFIG: ClusteringConfig = {
   timeWindowMinutes: 30,
   similarityThreshold: 0.7,
   cooldownMinutes: 30,
+  similarityMethod: 'auto',
 };
 
+/**
+ * Events indexed by ticker × time bucket
+ * Buckets are one time window wide, so every event within the window of
+ * a target lies in the target's bucket or one of its two neighbours.
+ */
+interface EventIndex {
+  times: number[];
+  bucketMs: number;
+  byTickerBucket: Map<string, number[]>;
+}
+
 /**
  * Cluster events by ticker, time, and headline similarity
  * Per product spec: aggregate duplicate events from multiple sources
+ * Only events sharing a ticker and time bucket are compared, so a day
+ * of events clusters in roughly linear time.
  *
  * @param events - Normalized events to cluster
  * @param config - Clustering configuration
@@ -52,119 +80,256 @@ export function clusterEvents(
       new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime(),
   );
 
+  const strategy = getSimilarityStrategy(
+    config.similarityMethod,
+    sortedEvents.length,
+  );
+  const scorer = strategy.build(sortedEvents.map((e) => e.title));
+  const index = buildEventIndex(sortedEvents, config.timeWindowMinutes);
+
   const clusters: ClusteredEvent[] = [];
-  const processed = new Set<string>();
+  const processed = new Set<number>();
 
-  for (const event of sortedEvents) {
-    if (processed.has(event.id)) continue;
+  sortedEvents.forEach((event, i) => {
+    if (processed.has(i)) return;
 
     // Find similar events within time window
-    const similarEvents = findSimilarEvents(
-      event,
-      sortedEvents,
-      config,
-      processed,
-    );
+    const similar = findSimilarEvents(i, sortedEvents, index, scorer, config);
+    const members = similar.filter((j) => !processed.has(j));
 
     // Create cluster
-    const cluster = createCluster([event, ...similarEvents]);
+    const cluster = createCluster([
+      event,
+      ...members.map((j) => sortedEvents[j]),
+    ]);
 
     clusters.push(cluster);
 
     // Mark all events in cluster as processed
-    processed.add(event.id);
-    similarEvents.forEach((e) => processed.add(e.id));
-  }
+    processed.add(i);
+    members.forEach((j) => processed.add(j));
+  });
 
   return clusters;
 }
 
 /**
- * Find similar events within time window
+ * Attach new events to open clusters, creating clusters for the rest
+ * Per product spec: a follow-up (続報) joins the cluster it follows, so the
+ * cluster ID (read state, notification history) carries over
+ * - Open clusters: newest member within the time window of `now`
+ * - New events are clustered among themselves first; each resulting
+ *   cluster then joins the most similar open cluster, if any
+ *
+ * @param existingClusters - Clusters from earlier runs
+ * @param newEvents - Events not seen before (see filterNewEvents)
+ * @param config - Clustering configuration
+ * @param now - Reference time (defaults to now)
+ * @returns Created and updated clusters, one delta per cluster
  */
-function findSimilarEvents(
-  targetEvent: NormalizedEvent,
-  allEvents: NormalizedEvent[],
-  config: ClusteringConfig,
-  processed: Set<string>,
-): NormalizedEvent[] {
-  const similar: NormalizedEvent[] = [];
-  const targetTime = new Date(targetEvent.publishedAt).getTime();
+export function clusterIncrementally(
+  existingClusters: ClusteredEvent[],
+  newEvents: NormalizedEvent[],
+  config: ClusteringConfig = DEFAULT_CONFIG,
+  now: Date = new Date(),
+): ClusterDelta[] {
   const windowMs = config.timeWindowMinutes * 60 * 1000;
+  const openClusters = existingClusters.filter(
+    (c) => getLatestTime(c) >= now.getTime() - windowMs,
+  );
 
-  for (const event of allEvents) {
-    // Skip if already processed or same event
-    if (processed.has(event.id) || event.id === targetEvent.id) continue;
+  const deltas = new Map<string, ClusterDelta>();
 
-    // Check time window (±30min)
-    const eventTime = new Date(event.publishedAt).getTime();
-    const timeDiff = Math.abs(targetTime - eventTime);
-    if (timeDiff > windowMs) continue;
+  for (const batchCluster of clusterEvents(newEvents, config)) {
+    const target = findOpenCluster(batchCluster, openClusters, config);
 
-    // Check ticker overlap
-    const hasCommonTicker = targetEvent.tickerCodes.some((code) =>
-      event.tickerCodes.includes(code),
-    );
-    if (!hasCommonTicker) continue;
-
-    // Check headline similarity
-    const similarity = calculateSimilarity(targetEvent.title, event.title);
-    if (similarity >= config.similarityThreshold) {
-      similar.push(event);
+    if (!target) {
+      deltas.set(batchCluster.clusterId, {
+        type: 'created',
+        cluster: batchCluster,
+        addedEvents: batchCluster.events,
+      });
+      continue;
     }
+
+    // One revision per run, even if several batch clusters attach
+    const previous = deltas.get(target.clusterId);
+    const original = previous?.type === 'updated' ? previous : undefined;
+    const revision = original
+      ? original.cluster.revision || 1
+      : (target.revision || 1) + 1;
+
+    const cluster: ClusteredEvent = {
+      ...target,
+      ...createCluster(
+        [...target.events, ...batchCluster.events],
+        target.clusterId,
+        revision,
+      ),
+    };
+    openClusters[openClusters.indexOf(target)] = cluster;
+
+    deltas.set(target.clusterId, {
+      type: 'updated',
+      cluster,
+      addedEvents: [...(original?.addedEvents || []), ...batchCluster.events],
+      previousImpact: original ? original.previousImpact : target.impact,
+    });
   }
 
-  return similar;
+  return Array.from(deltas.values());
 }
 
 /**
- * Calculate text similarity using simple character-based approach
- * For production, consider using more sophisticated NLP (e.g., embeddings)
- *
- * @param text1 - First text
- * @param text2 - Second text
- * @returns Similarity score (0-1)
+ * Newest member publication time of a cluster (epoch ms)
  */
-export function calculateSimilarity(text1: string, text2: string): number {
-  // Normalize texts
-  const normalized1 = normalizeText(text1);
-  const normalized2 = normalizeText(text2);
+function getLatestTime(cluster: ClusteredEvent): number {
+  return Math.max(
+    ...cluster.events.map((e) => new Date(e.publishedAt).getTime()),
+  );
+}
 
-  // Use Jaccard similarity on character bigrams
-  const bigrams1 = getBigrams(normalized1);
-  const bigrams2 = getBigrams(normalized2);
+/**
+ * Find the open cluster a batch cluster belongs to
+ * Same rules as clusterEvents (common ticker, time window, headline
+ * similarity) applied to any member pair; the best match wins.
+ */
+function findOpenCluster(
+  batchCluster: ClusteredEvent,
+  openClusters: ClusteredEvent[],
+  config: ClusteringConfig,
+): ClusteredEvent | undefined {
+  const windowMs = config.timeWindowMinutes * 60 * 1000;
+  // Few pairs per run, so LSH candidate picking is not needed here
+  const method = config.similarityMethod === 'tfidf' ? 'tfidf' : 'jaccard';
+  let best: ClusteredEvent | undefined;
+  let bestScore = config.similarityThreshold;
+
+  for (const open of openClusters) {
+    if (!open.allTickers.some((t) => batchCluster.allTickers.includes(t))) {
+      continue;
+    }
 
-  const intersection = new Set([...bigrams1].filter((x) => bigrams2.has(x)));
-  const union = new Set([...bigrams1, ...bigrams2]);
+    for (const added of batchCluster.events) {
+      const addedTime = new Date(added.publishedAt).getTime();
+      for (const member of open.events) {
+        const timeDiff = Math.abs(
+          addedTime - new Date(member.publishedAt).getTime(),
+        );
+        if (timeDiff > windowMs) continue;
+        if (!added.tickerCodes.some((t) => member.tickerCodes.includes(t))) {
+          continue;
+        }
+
+        const score = calculateSimilarity(added.title, member.title, method);
+        if (score >= bestScore) {
+          best = open;
+          bestScore = score;
+        }
+      }
+    }
+  }
 
-  return union.size > 0 ? intersection.size / union.size : 0;
+  return best;
 }
 
 /**
- * Normalize text for similarity calculation
+ * Index events by ticker and time bucket
  */
-function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/\s+/g, '')
-    .replace(/[、。！？｜]/g, '');
+function buildEventIndex(
+  events: NormalizedEvent[],
+  timeWindowMinutes: number,
+): EventIndex {
+  const bucketMs = Math.max(1, timeWindowMinutes) * 60 * 1000;
+  const times = events.map((e) => new Date(e.publishedAt).getTime());
+  const byTickerBucket = new Map<string, number[]>();
+
+  events.forEach((event, i) => {
+    const bucket = Math.floor(times[i] / bucketMs);
+    for (const ticker of new Set(event.tickerCodes)) {
+      const key = `${ticker}:${bucket}`;
+      const entries = byTickerBucket.get(key);
+      if (entries) entries.push(i);
+      else byTickerBucket.set(key, [i]);
+    }
+  });
+
+  return { times, bucketMs, byTickerBucket };
 }
 
 /**
- * Get character bigrams from text
+ * Find similar events within time window
+ *
+ * @returns Indexes of similar events (in sortedEvents order)
  */
-function getBigrams(text: string): Set<string> {
-  const bigrams = new Set<string>();
-  for (let i = 0; i < text.length - 1; i++) {
-    bigrams.add(text.substring(i, i + 2));
+function findSimilarEvents(
+  target: number,
+  events: NormalizedEvent[],
+  index: EventIndex,
+  scorer: SimilarityScorer,
+  config: ClusteringConfig,
+): number[] {
+  const targetTime = index.times[target];
+  const windowMs = config.timeWindowMinutes * 60 * 1000;
+  const bucket = Math.floor(targetTime / index.bucketMs);
+
+  // Candidates sharing a ticker in neighbouring buckets
+  const candidates = new Set<number>();
+  for (const ticker of events[target].tickerCodes) {
+    for (let b = bucket - 1; b <= bucket + 1; b++) {
+      for (const j of index.byTickerBucket.get(`${ticker}:${b}`) || []) {
+        candidates.add(j);
+      }
+    }
+  }
+
+  const similar: number[] = [];
+  for (const j of candidates) {
+    if (j === target) continue;
+
+    // Check time window (±30min)
+    if (Math.abs(targetTime - index.times[j]) > windowMs) continue;
+
+    // Check headline similarity
+    if (scorer.isCandidate && !scorer.isCandidate(target, j)) continue;
+    if (scorer.similarity(target, j) >= config.similarityThreshold) {
+      similar.push(j);
+    }
   }
-  return bigrams;
+
+  return similar.sort((a, b) => a - b);
+}
+
+/**
+ * Calculate headline similarity
+ *
+ * @param text1 - First text
+ * @param text2 - Second text
+ * @param method - Similarity strategy (default: bigram Jaccard)
+ * @returns Similarity score (0-1)
+ */
+export function calculateSimilarity(
+  text1: string,
+  text2: string,
+  method: SimilarityMethod = 'jaccard',
+): number {
+  return getSimilarityStrategy(method, 2)
+    .build([text1, text2])
+    .similarity(0, 1);
 }
 
 /**
  * Create cluster from events
+ *
+ * @param events - Member events
+ * @param clusterId - Existing ID to keep (generated if omitted)
+ * @param revision - Update count (1 for a new cluster)
  */
-function createCluster(events: NormalizedEvent[]): ClusteredEvent {
+function createCluster(
+  events: NormalizedEvent[],
+  clusterId = generateClusterId(events),
+  revision = 1,
+): ClusteredEvent {
   // Sort by tier (A > B > C) then by time (newest first)
   const sortedEvents = events.sort((a, b) => {
     const tierOrder = { A: 0, B: 1, C: 2 };
@@ -188,9 +353,6 @@ function createCluster(events: NormalizedEvent[]): ClusteredEvent {
   // Determine impact level based on sources
   const impact = determineImpact(events);
 
-  // Generate cluster ID
-  const clusterId = generateClusterId(events);
-
   return {
     clusterId,
     events: sortedEvents,
@@ -201,6 +363,7 @@ function createCluster(events: NormalizedEvent[]): ClusteredEvent {
     eventType: primaryEvent.eventType,
     publishedAt: primaryEvent.publishedAt,
     sources: Array.from(sourceNames).slice(0, 2),
+    revision,
   };
 }
 
@@ -232,6 +395,8 @@ function determineImpact(events: NormalizedEvent[]): ImpactLevel {
 /**
  * Generate cluster ID for idempotency
  * Per product spec: idempotencyKey prevents duplicate notifications
+ * Generated once from the founding events; clusterIncrementally keeps it
+ * when later events are attached.
  *
  * Format: ticker_timestamp_hash
  */
@@ -344,7 +509,12 @@ export function applyCooldown(
         ...cluster.events,
         ...mergeables.flatMap((m) => m.events),
       ];
-      const merged = createCluster(allEvents);
+      // Keep the ID of the oldest cluster (the one users saw first)
+      const oldest = mergeables[mergeables.length - 1];
+      const revision = Math.max(
+        ...[cluster, ...mergeables].map((c) => c.revision || 1),
+      );
+      const merged = createCluster(allEvents, oldest.clusterId, revision + 1);
       result.push(merged);
 
       // Mark all as processed
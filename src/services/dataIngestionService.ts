@@ -1,9 +1,11 @@
 /**
  * Data Ingestion Service
  *
- * Orchestrates data fetching from multiple sources:
+ * Orchestrates data fetching from registered source adapters:
  * - EDINET API (tier A)
+ * - TDnet timely disclosures (tier A)
  * - RSS feeds (tier B)
+ * Additional sources are added via registerSourceAdapter (see sourceRegistry).
  *
  * Per product spec:
  * - Fetch cycle: 30-60 seconds
@@ -12,17 +14,33 @@
  * - Normalization pipeline
  */
 
-import {
-  fetchLatestEdinetDocuments,
-  fetchEdinetDocuments,
-} from './edinetService';
+import { createEdinetAdapter } from './edinetService';
 import { normalizeEvents } from './normalizationService';
+import { createRSSAdapter, DEFAULT_RSS_SOURCES } from './rssService';
+import { CursorUpdate } from './sourceCursorRepository';
 import {
-  fetchMultipleRSSFeeds,
-  RSSFeedSource,
-  DEFAULT_RSS_SOURCES,
-} from './rssService';
-import { NormalizedEvent, RawEvent } from '../types/events';
+  getSourceAdapters,
+  registerSourceAdapter,
+  SourceAdapter,
+} from './sourceRegistry';
+import { createTdnetAdapter } from './tdnetService';
+import { NormalizedEvent, RawEvent, SourceTier } from '../types/events';
+
+/**
+ * Per-adapter outcome of an ingestion run
+ */
+export interface AdapterIngestionResult {
+  /** Adapter ID (e.g., "EDINET") */
+  adapterId: string;
+  /** Adapter tier */
+  tier: SourceTier;
+  /** Raw events returned by the adapter */
+  count: number;
+  /** Fetch duration (ms) */
+  durationMs: number;
+  /** Error message if the fetch failed (non-fatal) */
+  error?: string;
+}
 
 /**
  * Ingestion result with metadata
@@ -38,8 +56,13 @@ export interface IngestionResult {
     B: number;
     C: number;
   };
-  /** Errors encountered during fetch (non-fatal) */
-  errors: string[];
+  /** Per-adapter counts, durations and errors */
+  adapters: AdapterIngestionResult[];
+  /**
+   * Source cursor changes; commit them (commitCursorUpdates) once the
+   * events are recorded as seen
+   */
+  cursorUpdates: CursorUpdate[];
   /** Ingestion timestamp */
   timestamp: string;
 }
@@ -48,16 +71,24 @@ export interface IngestionResult {
  * Ingestion configuration
  */
 export interface IngestionConfig {
-  /** Whether to fetch EDINET data */
-  enableEdinet: boolean;
-  /** Whether to fetch RSS data */
-  enableRSS: boolean;
-  /** Custom RSS feed sources (defaults to DEFAULT_RSS_SOURCES) */
-  rssSources?: RSSFeedSource[];
-  /** EDINET date (YYYY-MM-DD), defaults to today */
-  edinetDate?: string;
+  /** Adapter IDs to fetch from (defaults to all registered adapters) */
+  sources?: string[];
+  /** Only fetch events published at or after this time (default: today) */
+  since?: Date;
+  /**
+   * Watched tickers (default: all); sources may leave out events about
+   * other companies instead of downloading their filings
+   */
+  tickers?: string[];
 }
 
+// Built-in sources; EDINET reads its key via configureEdinet / env at fetch time
+registerSourceAdapter(createEdinetAdapter());
+registerSourceAdapter(createTdnetAdapter());
+DEFAULT_RSS_SOURCES.forEach((source) =>
+  registerSourceAdapter(createRSSAdapter(source)),
+);
+
 /**
  * Ingest data from all configured sources
  *
@@ -65,40 +96,22 @@ export interface IngestionConfig {
  * @returns Ingestion result with normalized events
  */
 export async function ingestData(
-  config: IngestionConfig = {
-    enableEdinet: true,
-    enableRSS: true,
-  },
+  config: IngestionConfig = {},
 ): Promise<IngestionResult> {
   const startTime = Date.now();
   const rawEvents: RawEvent[] = [];
-  const errors: string[] = [];
+  const cursorUpdates: CursorUpdate[] = [];
+  const adapters = getSourceAdapters(config.sources);
 
   // Fetch from all sources in parallel
-  const fetchPromises: Promise<RawEvent[]>[] = [];
-
-  if (config.enableEdinet) {
-    fetchPromises.push(
-      fetchEdinetData(config.edinetDate).catch((error) => {
-        errors.push(`EDINET fetch error: ${error.message}`);
-        return [];
-      }),
-    );
-  }
-
-  if (config.enableRSS) {
-    fetchPromises.push(
-      fetchRSSData(config.rssSources).catch((error) => {
-        errors.push(`RSS fetch error: ${error.message}`);
-        return [];
-      }),
-    );
-  }
-
-  // Wait for all fetches to complete
-  const results = await Promise.all(fetchPromises);
+  const results = await Promise.all(
+    adapters.map((adapter) =>
+      fetchAdapterData(adapter, config.since, config.tickers),
+    ),
+  );
   for (const result of results) {
-    rawEvents.push(...result);
+    rawEvents.push(...result.events);
+    cursorUpdates.push(...result.cursorUpdates);
   }
 
   // Normalize all raw events
@@ -120,37 +133,60 @@ export async function ingestData(
     events: normalizedEvents,
     totalRaw: rawEvents.length,
     tierCounts,
-    errors,
+    adapters: results.map((r) => r.stats),
+    cursorUpdates,
     timestamp: new Date().toISOString(),
   };
 }
 
 /**
- * Fetch EDINET data with error handling
+ * Fetch from a single adapter with error handling and timing
  */
-async function fetchEdinetData(date?: string): Promise<RawEvent[]> {
-  if (date) {
-    return await fetchEdinetDocuments(date);
-  } else {
-    return await fetchLatestEdinetDocuments();
+async function fetchAdapterData(
+  adapter: SourceAdapter,
+  since?: Date,
+  tickers?: string[],
+): Promise<{
+  events: RawEvent[];
+  cursorUpdates: CursorUpdate[];
+  stats: AdapterIngestionResult;
+}> {
+  const startTime = Date.now();
+  try {
+    const { events, cursorUpdates = [] } = await adapter.fetch(since, tickers);
+    return {
+      events,
+      cursorUpdates,
+      stats: {
+        adapterId: adapter.id,
+        tier: adapter.tier,
+        count: events.length,
+        durationMs: Date.now() - startTime,
+      },
+    };
+  } catch (error) {
+    return {
+      events: [],
+      cursorUpdates: [],
+      stats: {
+        adapterId: adapter.id,
+        tier: adapter.tier,
+        count: 0,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
   }
 }
 
-/**
- * Fetch RSS data with error handling
- */
-async function fetchRSSData(sources?: RSSFeedSource[]): Promise<RawEvent[]> {
-  const feedSources = sources || DEFAULT_RSS_SOURCES;
-  return await fetchMultipleRSSFeeds(feedSources);
-}
-
 /**
  * Continuous ingestion loop (for background service)
  * Per product spec: 30-60 second cycle
  *
  * @param config - Ingestion configuration
  * @param intervalMs - Interval between ingestions (default: 60000ms = 1 min)
- * @param onData - Callback invoked with each ingestion result
+ * @param onData - Callback invoked with each ingestion result (commit
+ *   its cursorUpdates once processed, or the same events are refetched)
  * @returns Stop function to halt the loop
  */
 export function startIngestionLoop(
@@ -0,0 +1,315 @@
+/**
+ * Delivery Policy Service
+ *
+ * Decides when a push that passed the notification rules is delivered.
+ * Per product spec: push notifications are scarce and must respect the user
+ * - Minimum impact: events below it are never pushed
+ * - Quiet mode (until turned off, or timed: 1h, until the market
+ *   opens, until tomorrow) and quiet hours (JST, may span midnight)
+ * - Weekends and market holidays: nothing can be traded until the next
+ *   session, so pushes wait for the next digest
+ * - Cooldown: one push per ticker within the cooldown
+ * - Daily budget: at most `dailyLimit` pushes per JST day
+ * Deferred events go to the next digest slot; dropped events stay in the
+ * feed only.
+ */
+
+import { DEFAULT_SCHEDULE } from './schedulerService';
+import { MARKET_HOLIDAYS } from '../data/marketHolidays';
+import { ImpactLevel, PersonalizedEvent } from '../types/events';
+import { getJstDate, JST_OFFSET_MS, toJst } from '../utils/date';
+
+/**
+ * Delivery outcome
+ * - push: send now
+ * - defer: leave for the next digest slot
+ * - drop: do not notify (the event stays in the feed)
+ */
+export type DeliveryAction = 'push' | 'defer' | 'drop';
+
+/**
+ * Delivery decision for one candidate event
+ */
+export interface DeliveryDecision {
+  action: DeliveryAction;
+  /** Why (shown in the debug screen) */
+  reason: string;
+  /** ISO timestamp of the digest slot a deferred event goes to */
+  deferUntil?: string;
+}
+
+/**
+ * Timed quiet mode presets
+ * - 1h: one hour from now
+ * - untilMarketOpen: next TSE open (09:00 JST on a trading day)
+ * - untilTomorrow: tomorrow's morning digest (08:30 JST)
+ */
+export type QuietDuration = '1h' | 'untilMarketOpen' | 'untilTomorrow';
+
+/**
+ * Daily quiet hours in JST ('HH:MM')
+ * An end before the start spans midnight (e.g., 22:00-07:00).
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/**
+ * Everything decideDelivery needs from settings
+ */
+export interface DeliveryPolicySettings {
+  /** Maximum pushes per JST day */
+  dailyLimit: number;
+  /** Temporary silence: everything is deferred */
+  quietMode: boolean;
+  /** ISO timestamp when quiet mode ends (null: until turned off) */
+  quietUntil: string | null;
+  quietHours: QuietHours;
+  /** Lowest personal impact that is pushed */
+  minimumImpact: ImpactLevel;
+  /** Defer pushes on weekends and market holidays */
+  deferOnHolidays: boolean;
+  /** Minimum minutes between pushes for the same ticker (0 = off) */
+  cooldownMinutes: number;
+}
+
+/**
+ * A push already delivered (notification history entries qualify)
+ */
+export interface DeliveryRecord {
+  ticker: string;
+  /** ISO timestamp when the push was sent */
+  timestamp: string;
+}
+
+/**
+ * Display labels for timed quiet mode presets
+ */
+export const QUIET_DURATION_LABELS: Record<QuietDuration, string> = {
+  '1h': '1時間',
+  untilMarketOpen: '寄り付きまで',
+  untilTomorrow: '明日の朝まで',
+};
+
+/**
+ * TSE morning session opens at 09:00 JST
+ */
+const MARKET_OPEN_MINUTES = 9 * 60;
+
+const IMPACT_RANK: Record<ImpactLevel, number> = {
+  弱: 1,
+  中: 2,
+  強: 3,
+};
+
+/**
+ * Days searched for the next digest slot
+ */
+const DIGEST_SEARCH_DAYS = 7;
+
+const holidays = new Set(MARKET_HOLIDAYS);
+
+/**
+ * Point in time for a JST wall-clock time, `days` days after a date
+ */
+function atJstTime(date: Date, days: number, minutes: number): Date {
+  const jst = toJst(date);
+  return new Date(
+    Date.UTC(
+      jst.getUTCFullYear(),
+      jst.getUTCMonth(),
+      jst.getUTCDate() + days,
+      0,
+      minutes,
+    ) - JST_OFFSET_MS,
+  );
+}
+
+/**
+ * Parse 'HH:MM' into minutes of the day
+ */
+function parseTime(time: string): number {
+  const [hour, minute] = time.split(':').map((part) => parseInt(part, 10));
+  return (hour || 0) * 60 + (minute || 0);
+}
+
+/**
+ * Whether a point in time falls within quiet hours
+ *
+ * @param date - Point in time
+ * @param quietHours - Quiet hours (JST)
+ * @returns True if inside quiet hours
+ */
+export function isWithinQuietHours(
+  date: Date,
+  quietHours: QuietHours,
+): boolean {
+  if (!quietHours.enabled) return false;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === end) return false;
+
+  const jst = toJst(date);
+  const minutes = jst.getUTCHours() * 60 + jst.getUTCMinutes();
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Whether a point in time falls on a weekend or market holiday (JST)
+ *
+ * @param date - Point in time
+ * @returns True if the market is closed all day
+ */
+export function isMarketHoliday(date: Date): boolean {
+  const day = toJst(date).getUTCDay();
+  return day === 0 || day === 6 || holidays.has(getJstDate(date));
+}
+
+/**
+ * Get the next digest slot at or after a point in time
+ * Slots inside quiet hours are skipped.
+ *
+ * @param now - Reference time
+ * @param quietHours - Quiet hours (JST)
+ * @returns Next enabled digest slot
+ */
+export function getNextDigestSlot(now: Date, quietHours: QuietHours): Date {
+  const slots = DEFAULT_SCHEDULE.filter((slot) => slot.enabled);
+
+  for (let day = 0; day <= DIGEST_SEARCH_DAYS; day++) {
+    for (const slot of slots) {
+      const time = atJstTime(now, day, slot.hour * 60 + slot.minute);
+      if (time >= now && !isWithinQuietHours(time, quietHours)) return time;
+    }
+  }
+
+  // Every slot is inside quiet hours: fall back to the end of quiet hours
+  const endToday = atJstTime(now, 0, parseTime(quietHours.end));
+  return endToday >= now
+    ? endToday
+    : atJstTime(now, 1, parseTime(quietHours.end));
+}
+
+/**
+ * Get when a timed quiet period ends
+ *
+ * @param duration - Quiet mode preset
+ * @param now - Reference time (defaults to now)
+ * @returns End of the quiet period
+ */
+export function getQuietUntil(
+  duration: QuietDuration,
+  now: Date = new Date(),
+): Date {
+  switch (duration) {
+    case '1h':
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case 'untilMarketOpen':
+      for (let day = 0; day <= DIGEST_SEARCH_DAYS * 2; day++) {
+        const open = atJstTime(now, day, MARKET_OPEN_MINUTES);
+        if (open > now && !isMarketHoliday(open)) return open;
+      }
+      return atJstTime(now, 1, MARKET_OPEN_MINUTES);
+    case 'untilTomorrow': {
+      const morning = DEFAULT_SCHEDULE[0];
+      return atJstTime(now, 1, morning.hour * 60 + morning.minute);
+    }
+  }
+}
+
+/**
+ * Whether quiet mode is in effect (timed quiet periods expire)
+ *
+ * @param settings - Delivery settings
+ * @param now - Reference time (defaults to now)
+ * @returns True if pushes are silenced
+ */
+export function isQuietModeActive(
+  settings: Pick<DeliveryPolicySettings, 'quietMode' | 'quietUntil'>,
+  now: Date = new Date(),
+): boolean {
+  if (!settings.quietMode) return false;
+  return !settings.quietUntil || new Date(settings.quietUntil) > now;
+}
+
+/**
+ * Decide whether a candidate event is pushed now, deferred or dropped
+ * Rules are checked in order; the first that applies decides.
+ * 1. Personal impact below the minimum: drop
+ * 2. Quiet mode (until it expires): defer past the quiet period
+ * 3. Quiet hours: defer
+ * 4. Weekend or market holiday (if enabled): defer
+ * 5. Same ticker pushed within the cooldown: defer
+ * 6. Daily budget used up: defer
+ * 7. Otherwise push
+ *
+ * @param event - Candidate event (personalized)
+ * @param settings - Delivery settings
+ * @param history - Pushes already delivered (any order)
+ * @param now - Reference time (defaults to now)
+ * @returns Delivery decision with reason
+ */
+export function decideDelivery(
+  event: PersonalizedEvent,
+  settings: DeliveryPolicySettings,
+  history: DeliveryRecord[],
+  now: Date = new Date(),
+): DeliveryDecision {
+  const defer = (reason: string): DeliveryDecision => ({
+    action: 'defer',
+    reason,
+    deferUntil: getNextDigestSlot(now, settings.quietHours).toISOString(),
+  });
+
+  if (IMPACT_RANK[event.personalImpact] < IMPACT_RANK[settings.minimumImpact]) {
+    return {
+      action: 'drop',
+      reason: `影響度${event.personalImpact}は通知対象外（${settings.minimumImpact}以上）`,
+    };
+  }
+  if (isQuietModeActive(settings, now)) {
+    // Deferred pushes go to the first digest after the quiet period
+    const resumeAt = settings.quietUntil ? new Date(settings.quietUntil) : now;
+    return {
+      action: 'defer',
+      reason: '静音モード中',
+      deferUntil: getNextDigestSlot(
+        resumeAt,
+        settings.quietHours,
+      ).toISOString(),
+    };
+  }
+  if (isWithinQuietHours(now, settings.quietHours)) {
+    const { start, end } = settings.quietHours;
+    return defer(`通知停止時間帯（${start}〜${end}）`);
+  }
+  if (settings.deferOnHolidays && isMarketHoliday(now)) {
+    return defer('休場日');
+  }
+
+  if (settings.cooldownMinutes > 0) {
+    const cooldownStart = now.getTime() - settings.cooldownMinutes * 60 * 1000;
+    const recent = history.some(
+      (record) =>
+        record.ticker === event.primaryTicker &&
+        new Date(record.timestamp).getTime() > cooldownStart,
+    );
+    if (recent) {
+      return defer(`同一銘柄のクールダウン中（${settings.cooldownMinutes}分）`);
+    }
+  }
+
+  const today = getJstDate(now);
+  const sentToday = history.filter(
+    (record) => getJstDate(new Date(record.timestamp)) === today,
+  ).length;
+  if (sentToday >= settings.dailyLimit) {
+    return defer(`1日の通知上限（${settings.dailyLimit}件）に到達`);
+  }
+
+  return { action: 'push', reason: '即時通知' };
+}
@@ -4,14 +4,150 @@
  * Fetches disclosure documents from EDINET (Electronic Disclosure for Investors' NETwork)
  * Per product spec: Primary source (tier A) for official corporate disclosures
  *
- * EDINET API documentation: https://disclosure.edinet-fsa.go.jp/EKW0EZ1001.html
+ * EDINET API v2 documentation: https://disclosure2dl.edinet-fsa.go.jp/guide/static/disclosure/WZEK0110.html
+ * (v1 is being sunset; v2 requires a subscription key)
  */
 
 import { v4 as uuidv4 } from 'uuid';
 
-import { RawEvent, EdinetDocument } from '../types/events';
+import {
+  formatLargeShareholdingExcerpt,
+  formatLargeShareholdingTitle,
+  parseLargeShareholdingFacts,
+} from './largeShareholdingService';
+import { getSecurityByEdinetCode } from './securitiesMasterService';
+import {
+  CursorUpdate,
+  fetchConditional,
+  getResponseValidators,
+  getSourceCursor,
+} from './sourceCursorRepository';
+import {
+  defineSourceAdapter,
+  filterEventsSince,
+  SourceAdapter,
+  SourceFetchResult,
+} from './sourceRegistry';
+import { extractFactsFromZip, extractFiguresFromZip } from './xbrlService';
+import {
+  RawEvent,
+  EdinetDocument,
+  FinancialFigures,
+  LargeShareholdingInfo,
+} from '../types/events';
+import { addDays, getJstDate } from '../utils/date';
+import { normalizeTickerCode } from '../utils/tickerCode';
 
-const EDINET_API_BASE = 'https://disclosure.edinet-fsa.go.jp/api/v1';
+const EDINET_API_BASE = 'https://api.edinet-fsa.go.jp/api/v2';
+
+/**
+ * EDINET document type codes (書類種別コード)
+ */
+export const EDINET_DOC_TYPES: Record<string, string> = {
+  '120': '有価証券報告書',
+  '130': '訂正有価証券報告書',
+  '140': '四半期報告書',
+  '150': '訂正四半期報告書',
+  '160': '半期報告書',
+  '170': '訂正半期報告書',
+  '180': '臨時報告書',
+  '190': '訂正臨時報告書',
+  '220': '自己株券買付状況報告書',
+  '230': '訂正自己株券買付状況報告書',
+  '350': '大量保有報告書',
+  '360': '訂正大量保有報告書',
+};
+
+/**
+ * Document type codes that carry financial statements (XBRL figures)
+ */
+const FINANCIAL_DOC_TYPE_CODES = ['120', '130', '140', '150', '160', '170'];
+
+/**
+ * Document type codes for large shareholding reports (大量保有報告書/変更報告書)
+ */
+const LARGE_SHAREHOLDING_DOC_TYPE_CODES = ['350', '360'];
+
+/**
+ * Source adapter / cursor ID
+ */
+const EDINET_SOURCE_ID = 'EDINET';
+
+/**
+ * Document type codes that correct an earlier filing
+ */
+const CORRECTION_DOC_TYPE_CODES = ['130', '150', '170', '190', '230', '360'];
+
+/**
+ * Default target document types per product spec
+ * 有報/四半期/半期/臨報/大量保有 (and their corrections)
+ */
+export const DEFAULT_EDINET_DOC_TYPE_CODES = [
+  '120',
+  '130',
+  '140',
+  '150',
+  '160',
+  '170',
+  '180',
+  '190',
+  '350',
+  '360',
+];
+
+/**
+ * EDINET API v2 client configuration
+ */
+export interface EdinetClientConfig {
+  /** EDINET API v2 subscription key (Subscription-Key) */
+  apiKey: string;
+  /** Document type codes to keep (defaults to DEFAULT_EDINET_DOC_TYPE_CODES) */
+  docTypeCodes?: string[];
+  /** Whether to keep withdrawn documents and withdrawal notices */
+  includeWithdrawn?: boolean;
+  /** Whether to download filing bodies and extract key figures (default: false) */
+  fetchFinancials?: boolean;
+  /** Whether to parse large shareholding reports (default: true) */
+  parseLargeShareholdings?: boolean;
+  /**
+   * Only keep documents about these tickers (default: all), so filing
+   * bodies are downloaded for watched companies only. Large shareholding
+   * reports are matched by their target issuer via the securities master.
+   */
+  tickers?: string[];
+}
+
+let globalConfig: EdinetClientConfig | null = null;
+
+/**
+ * Configure EDINET client (call once at app startup)
+ *
+ * @param config - EDINET client configuration
+ */
+export function configureEdinet(config: EdinetClientConfig): void {
+  globalConfig = config;
+}
+
+/**
+ * Get current configuration
+ * Falls back to EXPO_PUBLIC_EDINET_API_KEY when not configured
+ */
+function getConfig(): EdinetClientConfig {
+  if (globalConfig) {
+    return globalConfig;
+  }
+
+  const apiKey = process.env.EXPO_PUBLIC_EDINET_API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      'EDINET API key not configured. Call configureEdinet() or set EXPO_PUBLIC_EDINET_API_KEY.',
+    );
+  }
+  return {
+    apiKey,
+    fetchFinancials: process.env.EXPO_PUBLIC_EDINET_FETCH_FINANCIALS === 'true',
+  };
+}
 
 /**
  * EDINET API response structure
@@ -33,116 +169,426 @@ interface EdinetApiResponse {
   results: EdinetDocument[];
 }
 
+/**
+ * Fetch EDINET document metadata for a specific date (API v2)
+ *
+ * @param date - Date in YYYY-MM-DD format (JST)
+ * @param config - Client configuration (defaults to configured client)
+ * @returns Document metadata for the date
+ */
+export async function fetchEdinetDocumentList(
+  date: string,
+  config: EdinetClientConfig = getConfig(),
+): Promise<EdinetDocument[]> {
+  const response = await fetch(getDocumentListUrl(date, config), {
+    headers: {
+      'User-Agent': 'BizStockAlert/0.1.0',
+    },
+  });
+
+  return parseDocumentListResponse(response);
+}
+
+/**
+ * Build the document list URL (API v2, metadata + document list)
+ */
+function getDocumentListUrl(date: string, config: EdinetClientConfig): string {
+  return `${EDINET_API_BASE}/documents.json?date=${date}&type=2&Subscription-Key=${encodeURIComponent(config.apiKey)}`;
+}
+
+/**
+ * Read a document list response, surfacing HTTP and body-level errors
+ */
+async function parseDocumentListResponse(
+  response: Response,
+): Promise<EdinetDocument[]> {
+  if (!response.ok) {
+    throw new Error(
+      `EDINET API error: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const data: EdinetApiResponse = await response.json();
+
+  // v2 reports auth and parameter errors in the body (e.g., 401 with HTTP 200)
+  if (data.metadata.status !== '200') {
+    throw new Error(
+      `EDINET API error: ${data.metadata.status} - ${data.metadata.message}`,
+    );
+  }
+
+  return data.results || [];
+}
+
 /**
  * Fetch EDINET documents for a specific date
  *
  * @param date - Date in YYYY-MM-DD format (JST)
+ * @param config - Client configuration (defaults to configured client)
  * @returns Array of raw events from EDINET
  *
  * Per product spec:
  * - This is a tier A (primary) source
- * - Fetch metadata only (no full document text per spec: no redistribution)
+ * - Bodies are downloaded only to extract facts (大量保有 holdings, key
+ *   figures when fetchFinancials is set); document text is never stored
+ *   or shown (no redistribution)
  * - Target document types: 有報/四半期/臨報/大量保有
  */
-export async function fetchEdinetDocuments(date: string): Promise<RawEvent[]> {
-  const url = `${EDINET_API_BASE}/documents.json?date=${date}&type=2`;
+export async function fetchEdinetDocuments(
+  date: string,
+  config: EdinetClientConfig = getConfig(),
+): Promise<RawEvent[]> {
+  try {
+    const docs = await fetchEdinetDocumentList(date, config);
+    return await buildEdinetEvents(docs, config);
+  } catch (error) {
+    console.error('Failed to fetch EDINET documents:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch only EDINET documents not processed by an earlier call
+ * - Conditional request (If-None-Match / If-Modified-Since) on the list
+ * - Skips documents up to the last processed docID (the list is in
+ *   submission order, new filings are appended)
+ * - Cursor changes are returned, not saved (see commitCursorUpdates)
+ *
+ * @param date - Date in YYYY-MM-DD format (JST)
+ * @param config - Client configuration (defaults to configured client)
+ * @returns Raw events for newly listed documents and the cursor change
+ */
+export async function fetchNewEdinetDocuments(
+  date: string,
+  config: EdinetClientConfig = getConfig(),
+): Promise<SourceFetchResult> {
+  const requestKey = `documents:${date}`;
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'BizStockAlert/0.1.0',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `EDINET API error: ${response.status} ${response.statusText}`,
-      );
+    const response = await fetchConditional(
+      EDINET_SOURCE_ID,
+      requestKey,
+      getDocumentListUrl(date, config),
+      { headers: { 'User-Agent': 'BizStockAlert/0.1.0' } },
+    );
+    if (!response) {
+      return { events: [] }; // 304 Not Modified
     }
 
-    const data: EdinetApiResponse = await response.json();
+    const docs = await parseDocumentListResponse(response);
+    const cursor = await getSourceCursor(EDINET_SOURCE_ID);
+    const lastId = cursor.requests[requestKey]?.lastId;
+    const lastIndex = lastId ? docs.findIndex((d) => d.docID === lastId) : -1;
 
-    if (data.metadata.status !== '200') {
-      throw new Error(
-        `EDINET API error: ${data.metadata.status} - ${data.metadata.message}`,
-      );
-    }
+    const events = await buildEdinetEvents(docs.slice(lastIndex + 1), config);
 
-    // Filter relevant document types and convert to RawEvent
-    const relevantDocs = filterRelevantDocuments(data.results);
-    return relevantDocs.map((doc) => convertToRawEvent(doc));
+    return {
+      events,
+      cursorUpdates: [
+        {
+          sourceId: EDINET_SOURCE_ID,
+          requestKey,
+          request: {
+            ...getResponseValidators(response),
+            lastId: docs.length > 0 ? docs[docs.length - 1].docID : lastId,
+          },
+        },
+      ],
+    };
   } catch (error) {
-    console.error('Failed to fetch EDINET documents:', error);
+    console.error('Failed to fetch new EDINET documents:', error);
     throw error;
   }
 }
 
 /**
- * Filter relevant document types per product spec
- * Target: 有報/四半期/臨報/大量保有
+ * Filter, convert and enrich listed documents
+ * Body downloads (large shareholding, key figures) run sequentially.
  */
-function filterRelevantDocuments(docs: EdinetDocument[]): EdinetDocument[] {
-  const relevantDocTypes = [
-    '有価証券報告書',
-    '四半期報告書',
-    '半期報告書',
-    '臨時報告書',
-    '大量保有報告書',
-    '変更報告書',
-    '訂正報告書',
-  ];
+async function buildEdinetEvents(
+  docs: EdinetDocument[],
+  config: EdinetClientConfig,
+): Promise<RawEvent[]> {
+  // Filter relevant document types and convert to RawEvent
+  const relevantDocs = filterRelevantDocuments(docs, config);
+  const events = relevantDocs.map((doc) => convertToRawEvent(doc));
+
+  if (config.parseLargeShareholdings !== false) {
+    for (let i = 0; i < relevantDocs.length; i++) {
+      const info = await fetchLargeShareholding(relevantDocs[i], config);
+      if (info) {
+        applyLargeShareholding(events[i], info);
+      }
+    }
+  }
+
+  if (config.fetchFinancials) {
+    // Sequential to avoid overwhelming API
+    for (let i = 0; i < relevantDocs.length; i++) {
+      const financials = await fetchEdinetFinancials(relevantDocs[i], config);
+      if (financials) {
+        events[i].financials = financials;
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Download an EDINET document body (API v2)
+ *
+ * @param docID - Document ID
+ * @param type - 1: XBRL ZIP, 2: PDF, 5: XBRL-to-CSV ZIP
+ * @param config - Client configuration (defaults to configured client)
+ * @returns File contents
+ */
+export async function fetchEdinetDocumentFile(
+  docID: string,
+  type: 1 | 2 | 5,
+  config: EdinetClientConfig = getConfig(),
+): Promise<Uint8Array> {
+  const url = `${EDINET_API_BASE}/documents/${docID}?type=${type}&Subscription-Key=${encodeURIComponent(config.apiKey)}`;
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'BizStockAlert/0.1.0',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `EDINET API error: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  // v2 returns JSON (not a file) when the request fails
+  const contentType = response.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    const data = await response.json();
+    throw new Error(
+      `EDINET API error: ${data.metadata?.status} - ${data.metadata?.message}`,
+    );
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Download a filing body and extract key figures
+ * Uses the XBRL-to-CSV archive (type=5) when available, else XBRL (type=1).
+ * Failures are non-fatal: the event is still delivered without figures.
+ *
+ * @param doc - Document metadata
+ * @param config - Client configuration (defaults to configured client)
+ * @returns Key figures or null if unavailable
+ */
+export async function fetchEdinetFinancials(
+  doc: EdinetDocument,
+  config: EdinetClientConfig = getConfig(),
+): Promise<FinancialFigures | null> {
+  if (!FINANCIAL_DOC_TYPE_CODES.includes(doc.docTypeCode)) {
+    return null;
+  }
+
+  const type = doc.csvFlag === '1' ? 5 : doc.xbrlFlag === '1' ? 1 : null;
+  if (type === null) {
+    return null;
+  }
+
+  try {
+    const zip = await fetchEdinetDocumentFile(doc.docID, type, config);
+    return extractFiguresFromZip(zip);
+  } catch (error) {
+    console.warn(`Failed to extract figures for ${doc.docID}:`, error);
+    return null;
+  }
+}
+
+// Parsed large shareholding reports by docID (each body downloaded once)
+const largeShareholdingCache = new Map<string, LargeShareholdingInfo | null>();
+
+/**
+ * Download and parse a large shareholding report
+ * Failures are non-fatal: the event is still delivered with metadata only.
+ *
+ * @param doc - Document metadata
+ * @param config - Client configuration (defaults to configured client)
+ * @returns Report details or null if unavailable
+ */
+export async function fetchLargeShareholding(
+  doc: EdinetDocument,
+  config: EdinetClientConfig = getConfig(),
+): Promise<LargeShareholdingInfo | null> {
+  if (!LARGE_SHAREHOLDING_DOC_TYPE_CODES.includes(doc.docTypeCode)) {
+    return null;
+  }
+
+  const cached = largeShareholdingCache.get(doc.docID);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const type = doc.csvFlag === '1' ? 5 : doc.xbrlFlag === '1' ? 1 : null;
+  if (type === null) {
+    return null;
+  }
+
+  try {
+    const zip = await fetchEdinetDocumentFile(doc.docID, type, config);
+    const facts = extractFactsFromZip(zip, 'jplvh');
+    const info = facts
+      ? parseLargeShareholdingFacts(facts, doc.filerName)
+      : null;
+    largeShareholdingCache.set(doc.docID, info);
+    return info;
+  } catch (error) {
+    console.warn(`Failed to parse large shareholding ${doc.docID}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Attach large shareholding details to an EDINET event
+ * The target issuer (not the filer) becomes the event's ticker.
+ */
+function applyLargeShareholding(
+  event: RawEvent,
+  info: LargeShareholdingInfo,
+): void {
+  const label = event.filing?.isCorrection ? '【訂正】' : '';
+  event.title = `${label}${formatLargeShareholdingTitle(info)}`;
+  event.excerpt = formatLargeShareholdingExcerpt(info);
+  event.tickerCodes = info.issuerTicker ? [info.issuerTicker] : [];
+  event.largeShareholding = info;
+}
+
+/**
+ * Filter relevant document types by docTypeCode
+ * Target: 有報/四半期/臨報/大量保有 (configurable), optionally only about
+ * the configured tickers
+ *
+ * @param docs - Document metadata
+ * @param config - Client configuration
+ * @returns Documents from listed companies with a target document type
+ */
+export function filterRelevantDocuments(
+  docs: EdinetDocument[],
+  config: Pick<
+    EdinetClientConfig,
+    'docTypeCodes' | 'includeWithdrawn' | 'tickers'
+  > = {},
+): EdinetDocument[] {
+  const docTypeCodes = config.docTypeCodes || DEFAULT_EDINET_DOC_TYPE_CODES;
+  const { tickers } = config;
 
   return docs.filter(
     (doc) =>
-      // Has security code (listed company)
-      doc.secCode &&
+      // Has security code (listed company), or targets one (大量保有)
+      (doc.secCode ||
+        (LARGE_SHAREHOLDING_DOC_TYPE_CODES.includes(doc.docTypeCode) &&
+          doc.subjectEdinetCode)) &&
       // Is one of the relevant document types
-      relevantDocTypes.some((type) => doc.docDescription.includes(type)),
+      docTypeCodes.includes(doc.docTypeCode) &&
+      // Withdrawn documents only when requested
+      (config.includeWithdrawn || !isWithdrawn(doc)) &&
+      // About a requested ticker
+      (!tickers || tickers.includes(getDocumentTicker(doc) ?? '')),
   );
 }
 
+/**
+ * Ticker a document is about, before its body is downloaded
+ * Large shareholding reports are about their target issuer (looked up in
+ * the securities master by EDINET code), other documents about the filer.
+ */
+function getDocumentTicker(doc: EdinetDocument): string | null {
+  if (LARGE_SHAREHOLDING_DOC_TYPE_CODES.includes(doc.docTypeCode)) {
+    return doc.subjectEdinetCode
+      ? (getSecurityByEdinetCode(doc.subjectEdinetCode)?.code ?? null)
+      : null;
+  }
+  return doc.secCode ? normalizeTickerCode(doc.secCode) : null;
+}
+
+/**
+ * Whether the document corrects an earlier filing (訂正)
+ */
+export function isCorrection(doc: EdinetDocument): boolean {
+  return (
+    CORRECTION_DOC_TYPE_CODES.includes(doc.docTypeCode) || !!doc.parentDocID
+  );
+}
+
+/**
+ * Whether the document was withdrawn or is a withdrawal notice (取下げ)
+ */
+export function isWithdrawn(doc: EdinetDocument): boolean {
+  return !!doc.withdrawalStatus && doc.withdrawalStatus !== '0';
+}
+
 /**
  * Convert EDINET document to RawEvent
+ * Corrections and withdrawals are labeled in the title so they are not
+ * mistaken for original filings. Large shareholding reports get no ticker
+ * here: secCode is the filer's (e.g., a securities house), and the target
+ * issuer is only known once the body is parsed (see
+ * applyLargeShareholding), so an unparsed report matches no watchlist.
  */
-function convertToRawEvent(doc: EdinetDocument): RawEvent {
-  const tickerCode = doc.secCode ? doc.secCode.substring(0, 4) : '';
+export function convertToRawEvent(doc: EdinetDocument): RawEvent {
+  const tickerCode =
+    doc.secCode && !LARGE_SHAREHOLDING_DOC_TYPE_CODES.includes(doc.docTypeCode)
+      ? normalizeTickerCode(doc.secCode)
+      : null;
+  const correction = isCorrection(doc);
+  const withdrawn = isWithdrawn(doc);
+  const label = withdrawn ? '【取下げ】' : correction ? '【訂正】' : '';
 
   return {
     id: uuidv4(),
     source: 'EDINET',
     tier: 'A', // Primary source per product spec
-    title: `${doc.filerName}｜${doc.docDescription}`,
+    title: `${label}${doc.filerName}｜${doc.docDescription}`,
     url: `https://disclosure.edinet-fsa.go.jp/E01EW/BLMainController.jsp?PID=W1E63011&SESSIONKEY=&ORGCD=&EDTCD=&PNTCD=&UEKDT=&SPEFL=&RVEFLG=0&ALNDTSTR=&ALNDTED=&SECCD=${doc.secCode}&UNITCNT=&RSC=1&DCL=1&SPNM=${encodeURIComponent(doc.filerName)}`,
     publishedAt: new Date(doc.submitDateTime).toISOString(),
     fetchedAt: new Date().toISOString(),
     tickerCodes: tickerCode ? [tickerCode] : [],
     excerpt: doc.docDescription,
+    externalId: `EDINET:${doc.docID}`,
+    filing: {
+      docTypeCode: doc.docTypeCode,
+      isCorrection: correction,
+      isWithdrawn: withdrawn,
+      parentExternalId: doc.parentDocID
+        ? `EDINET:${doc.parentDocID}`
+        : undefined,
+    },
   };
 }
 
 /**
  * Fetch EDINET documents for date range
+ * Pages through the window one day at a time (the API is per-date)
  *
- * @param startDate - Start date (YYYY-MM-DD)
- * @param endDate - End date (YYYY-MM-DD)
+ * @param startDate - Start date (YYYY-MM-DD, JST)
+ * @param endDate - End date (YYYY-MM-DD, JST)
+ * @param config - Client configuration (defaults to configured client)
  * @returns Array of raw events
  */
 export async function fetchEdinetDocumentsRange(
   startDate: string,
   endDate: string,
+  config: EdinetClientConfig = getConfig(),
 ): Promise<RawEvent[]> {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
   const allEvents: RawEvent[] = [];
 
   for (
-    let date = new Date(start);
-    date <= end;
-    date.setDate(date.getDate() + 1)
+    let dateStr = startDate;
+    dateStr <= endDate;
+    dateStr = addDays(dateStr, 1)
   ) {
-    const dateStr = date.toISOString().split('T')[0];
     try {
-      const events = await fetchEdinetDocuments(dateStr);
+      const events = await fetchEdinetDocuments(dateStr, config);
       allEvents.push(...events);
       // Small delay to avoid overwhelming API
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -156,10 +602,52 @@ export async function fetchEdinetDocumentsRange(
 }
 
 /**
- * Fetch latest EDINET documents (today only)
+ * Fetch latest EDINET documents (today only, JST)
  * Convenience function for real-time monitoring
  */
-export async function fetchLatestEdinetDocuments(): Promise<RawEvent[]> {
-  const today = new Date().toISOString().split('T')[0];
-  return fetchEdinetDocuments(today);
+export async function fetchLatestEdinetDocuments(
+  config: EdinetClientConfig = getConfig(),
+): Promise<RawEvent[]> {
+  return fetchEdinetDocuments(getJstDate(new Date()), config);
+}
+
+/**
+ * Create a source adapter for EDINET
+ * Fetches every JST day from `since` through today; only documents listed
+ * since the previous fetch are returned (see fetchNewEdinetDocuments).
+ * Tickers passed to fetch limit the documents (and downloads) to those
+ * companies.
+ *
+ * @param config - Client configuration (defaults to configured client at fetch time)
+ * @returns Source adapter
+ */
+export function createEdinetAdapter(
+  config?: EdinetClientConfig,
+): SourceAdapter {
+  return defineSourceAdapter({
+    id: EDINET_SOURCE_ID,
+    tier: 'A',
+    fetch: async (since, tickers) => {
+      const baseConfig = config || getConfig();
+      const clientConfig = {
+        ...baseConfig,
+        tickers: tickers ?? baseConfig.tickers,
+      };
+      const today = getJstDate(new Date());
+      const events: RawEvent[] = [];
+      const cursorUpdates: CursorUpdate[] = [];
+
+      for (
+        let date = since ? getJstDate(since) : today;
+        date <= today;
+        date = addDays(date, 1)
+      ) {
+        const result = await fetchNewEdinetDocuments(date, clientConfig);
+        events.push(...result.events);
+        cursorUpdates.push(...(result.cursorUpdates || []));
+      }
+
+      return { events: filterEventsSince(events, since), cursorUpdates };
+    },
+  });
 }
@@ -0,0 +1,598 @@
+/**
+ * Event Classifier Service
+ *
+ * On-device event type classifier: logistic regression over character
+ * n-grams, trained at first use from the bundled corpus
+ * (src/data/eventTypeCorpus.ts).
+ * Per product spec: event types drive scoring, so "資本提携" must not be
+ * decided by which dictionary entry happens to come first
+ * - One binary model per event type → probability per type, multi-label
+ *   ("資本提携" is both 資本政策 and 提携)
+ * - Keyword dictionary fallback when no type is confident, or when the
+ *   text has little in common with the corpus (e.g., English headlines)
+ * - Direction-aware types (上方/下方修正, 増配/減配, 自社株買い, 公募増資)
+ *   are confirmed from explicit wording and filing figures (refineEventTypes),
+ *   since a near-miss flips the signal
+ * - evaluateEventTypeClassifier reports precision/recall on a test set
+ */
+
+import {
+  EVENT_TYPE_CORPUS,
+  EVENT_TYPE_CORPUS_VERSION,
+} from '../data/eventTypeCorpus';
+import {
+  EventType,
+  FinancialFigures,
+  FinancialValues,
+  LabeledHeadline,
+} from '../types/events';
+
+/**
+ * Event type classification keywords (dictionary fallback)
+ * Per product spec: 上方修正/資本政策/提携/事故/規制/etc.
+ */
+const EVENT_TYPE_KEYWORDS: Record<EventType, string[]> = {
+  上方修正: ['上方修正', '増益', '上振れ'],
+  下方修正: ['下方修正', '減額修正', '下振れ'],
+  増配: ['増配', '復配', '記念配当'],
+  減配: ['減配', '無配'],
+  自社株買い: ['自己株式の取得', '自社株買い', '自己株式立会外買付'],
+  公募増資: ['公募', '株式売出し', '海外募集'],
+  資本政策: ['自己株式', '株式分割', '増資', '減資', '株式併合', '資本提携'],
+  提携: ['業務提携', '資本提携', '合弁', '協業', '連携'],
+  事故: ['事故', '不祥事', 'リコール', '流出', '情報漏洩'],
+  規制: ['行政処分', '業務改善命令', '課徴金', '規制'],
+  決算発表: ['決算', '業績', '財務諸表', '四半期', '期末', '有価証券報告書'],
+  // Neutral revision wording: refineEventTypes decides the direction
+  業績予想: ['業績予想', '業績予想の修正', '通期予想', '見通し', '業績見込み'],
+  新製品: ['新製品', '新商品', '発売', 'リリース'],
+  受注: ['受注', '契約', '取引開始'],
+  大量保有: ['大量保有', '株券等保有割合'],
+  その他: [],
+};
+
+/**
+ * All event types, in dictionary priority order
+ */
+export const EVENT_TYPES = Object.keys(EVENT_TYPE_KEYWORDS) as EventType[];
+
+/**
+ * Character n-gram sizes used as features
+ */
+const NGRAM_SIZES = [1, 2, 3];
+
+/**
+ * Training: passes over the corpus, learning rate and L2 penalty
+ * Examples are visited in corpus order, so training is deterministic.
+ */
+const TRAINING_EPOCHS = 40;
+const LEARNING_RATE = 0.2;
+const L2_PENALTY = 0.0005;
+
+/**
+ * Probability at or above which a type is assigned
+ */
+const LABEL_THRESHOLD = 0.5;
+
+/**
+ * Minimum share of the text's n-grams seen in training
+ * Below this the model is guessing, so the dictionary is used instead.
+ */
+const MIN_VOCABULARY_COVERAGE = 0.3;
+
+/**
+ * Wording that decides a direction-aware type
+ */
+const TITLE_RULES: { eventType: EventType; pattern: RegExp }[] = [
+  {
+    eventType: '下方修正',
+    pattern: /下方修正|減額修正|下振れ|(?:予想|見通し)を(?:引き)?下げ/,
+  },
+  {
+    eventType: '上方修正',
+    pattern: /上方修正|増額修正|上振れ|(?:予想|見通し)を(?:引き)?上げ/,
+  },
+  {
+    eventType: '減配',
+    pattern: /減配|無配|配当.{0,8}(?:見送り|引き下げ|減額)/,
+  },
+  {
+    eventType: '増配',
+    pattern: /増配|復配|記念配当|特別配当|配当.{0,8}(?:引き上げ|増額)/,
+  },
+  {
+    eventType: '自社株買い',
+    pattern: /自己株式の?(?:取得|買付|公開買付)|自己株式立会外買付|自社株買い/,
+  },
+  {
+    eventType: '公募増資',
+    pattern:
+      /公募増資|公募による新株式?発行|新株式発行(?:及び|並びに|および)株式売出し|海外募集/,
+  },
+];
+
+/**
+ * Forecast figures compared for revision direction, in priority order
+ */
+const REVISION_FIGURES: (keyof FinancialValues)[] = [
+  'netIncome',
+  'operatingProfit',
+  'revenue',
+];
+
+/**
+ * Types replaced when a direction-aware type is confirmed
+ * (e.g., 自社株買い replaces the generic 資本政策)
+ */
+const SUPERSEDED_TYPES: Partial<Record<EventType, EventType[]>> = {
+  上方修正: ['下方修正', '業績予想'],
+  下方修正: ['上方修正', '業績予想'],
+  増配: ['減配', '資本政策'],
+  減配: ['増配', '資本政策'],
+  自社株買い: ['資本政策'],
+  公募増資: ['資本政策'],
+};
+
+/**
+ * Binary (type vs. not type) logistic regression for one event type
+ */
+interface TypeModel {
+  bias: number;
+  /** Weight per n-gram (n-grams without a weight count as 0) */
+  weights: Map<string, number>;
+}
+
+/**
+ * Trained event type classifier
+ */
+export interface EventTypeModel {
+  /** Corpus version the model was trained from */
+  version: string;
+  vocabulary: Set<string>;
+  types: Partial<Record<EventType, TypeModel>>;
+}
+
+/**
+ * Classification result
+ * - model: probabilities from the n-gram model
+ * - dictionary: keyword fallback (no probabilities)
+ * - rules: direction-aware types confirmed from wording or filing figures
+ * - override: decided from structured data (e.g., filing type)
+ */
+export interface EventTypeClassification {
+  /** Most likely type */
+  eventType: EventType;
+  /** All assigned types, eventType first */
+  eventTypes: EventType[];
+  /** Probability per type (model only) */
+  probabilities?: Partial<Record<EventType, number>>;
+  method: 'model' | 'dictionary' | 'rules' | 'override';
+}
+
+/**
+ * Precision/recall for one event type (or micro-averaged)
+ */
+export interface ClassificationMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Number of test examples carrying the type */
+  support: number;
+}
+
+/**
+ * Evaluation result on a labeled test set
+ */
+export interface ClassifierEvaluation {
+  perType: Partial<Record<EventType, ClassificationMetrics>>;
+  /** Micro-average over all labels */
+  micro: ClassificationMetrics;
+  /** Share of examples whose predicted label set equals the gold set */
+  exactMatch: number;
+  /** Share of examples classified by the dictionary fallback */
+  fallbackRate: number;
+}
+
+let defaultModel: EventTypeModel | null = null;
+
+/**
+ * Prepare headline text for feature extraction
+ * - "会社名｜書類名" titles (EDINET/TDnet) keep the document part only
+ * - Full-width → half-width, lowercase, digits folded to 0
+ * - Whitespace and punctuation removed
+ */
+function prepareText(text: string): string {
+  const body = text.includes('｜') ? text.split('｜').slice(1).join('') : text;
+  return body
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\d+/g, '0')
+    .replace(/[\s、。,.・:：!！?？「」『』()（）【】〔〕[\]［］〇-]/g, '');
+}
+
+/**
+ * Extract the set of character n-grams in a text
+ *
+ * @param text - Headline
+ * @returns Unique n-grams
+ */
+export function extractNgrams(text: string): Set<string> {
+  const prepared = prepareText(text);
+  const grams = new Set<string>();
+
+  for (const size of NGRAM_SIZES) {
+    for (let i = 0; i + size <= prepared.length; i++) {
+      grams.add(prepared.substring(i, i + size));
+    }
+  }
+  return grams;
+}
+
+/**
+ * Logistic function
+ */
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Probability of one type given the n-grams of a headline
+ */
+function typeProbability(model: TypeModel, grams: Set<string>): number {
+  let logit = model.bias;
+  for (const gram of grams) {
+    logit += model.weights.get(gram) || 0;
+  }
+  return sigmoid(logit);
+}
+
+/**
+ * Train a classifier from labeled headlines
+ * Each type gets its own binary model, so probabilities are independent
+ * and several types can be assigned to one headline.
+ *
+ * @param corpus - Labeled headlines
+ * @param version - Corpus version (for diagnostics)
+ * @returns Trained model
+ */
+export function trainEventTypeClassifier(
+  corpus: LabeledHeadline[],
+  version = 'custom',
+): EventTypeModel {
+  const examples = corpus.map((item) => ({
+    grams: extractNgrams(item.text),
+    labels: item.labels,
+  }));
+
+  const vocabulary = new Set<string>();
+  examples.forEach((e) => e.grams.forEach((g) => vocabulary.add(g)));
+
+  const types: Partial<Record<EventType, TypeModel>> = {};
+  for (const eventType of EVENT_TYPES) {
+    if (!examples.some((e) => e.labels.includes(eventType))) continue;
+
+    const model: TypeModel = { bias: 0, weights: new Map() };
+    for (let epoch = 0; epoch < TRAINING_EPOCHS; epoch++) {
+      for (const example of examples) {
+        const target = example.labels.includes(eventType) ? 1 : 0;
+        const step =
+          LEARNING_RATE * (target - typeProbability(model, example.grams));
+        model.bias += step;
+        for (const gram of example.grams) {
+          const weight = model.weights.get(gram) || 0;
+          model.weights.set(
+            gram,
+            weight + step - LEARNING_RATE * L2_PENALTY * weight,
+          );
+        }
+      }
+    }
+    types[eventType] = model;
+  }
+
+  return { version, vocabulary, types };
+}
+
+/**
+ * Get the model trained from the bundled corpus (trained on first use)
+ */
+function getDefaultModel(): EventTypeModel {
+  if (!defaultModel) {
+    defaultModel = trainEventTypeClassifier(
+      EVENT_TYPE_CORPUS,
+      EVENT_TYPE_CORPUS_VERSION,
+    );
+  }
+  return defaultModel;
+}
+
+/**
+ * Get the model's probability for every event type
+ *
+ * @param text - Headline
+ * @param model - Trained model (defaults to the bundled corpus model)
+ * @returns Probability per type, and the share of n-grams seen in training
+ */
+export function predictEventTypeProbabilities(
+  text: string,
+  model: EventTypeModel = getDefaultModel(),
+): { probabilities: Partial<Record<EventType, number>>; coverage: number } {
+  const grams = extractNgrams(text);
+  const known = new Set([...grams].filter((g) => model.vocabulary.has(g)));
+  const probabilities: Partial<Record<EventType, number>> = {};
+
+  for (const eventType of EVENT_TYPES) {
+    const typeModel = model.types[eventType];
+    if (typeModel) {
+      probabilities[eventType] = typeProbability(typeModel, known);
+    }
+  }
+
+  return {
+    probabilities,
+    coverage: grams.size > 0 ? known.size / grams.size : 0,
+  };
+}
+
+/**
+ * Classify event type using the keyword dictionary
+ * The first matching type (in dictionary order) is the primary type.
+ *
+ * @param text - Title and excerpt
+ * @returns Dictionary classification
+ */
+export function classifyByDictionary(text: string): EventTypeClassification {
+  const lower = text.toLowerCase();
+  const matched = EVENT_TYPES.filter((eventType) =>
+    EVENT_TYPE_KEYWORDS[eventType].some((keyword) =>
+      lower.includes(keyword.toLowerCase()),
+    ),
+  );
+
+  return {
+    eventType: matched[0] || 'その他',
+    eventTypes: matched.length > 0 ? matched : ['その他'],
+    method: 'dictionary',
+  };
+}
+
+/**
+ * Classify event type(s) for a headline
+ * The model sees the title only (the corpus is headlines; long excerpts
+ * would swamp it); the dictionary fallback also checks the excerpt.
+ *
+ * @param title - Event title
+ * @param excerpt - Event excerpt/description
+ * @param model - Trained model (defaults to the bundled corpus model)
+ * @returns Classification with all assigned types
+ */
+export function classifyEventType(
+  title: string,
+  excerpt?: string,
+  model: EventTypeModel = getDefaultModel(),
+): EventTypeClassification {
+  const { probabilities, coverage } = predictEventTypeProbabilities(
+    title,
+    model,
+  );
+
+  const assigned = EVENT_TYPES.filter(
+    (t) => (probabilities[t] ?? 0) >= LABEL_THRESHOLD,
+  ).sort((a, b) => (probabilities[b] ?? 0) - (probabilities[a] ?? 0));
+  // その他 only stands alone
+  const labels =
+    assigned.length > 1 ? assigned.filter((t) => t !== 'その他') : assigned;
+
+  if (coverage < MIN_VOCABULARY_COVERAGE || labels.length === 0) {
+    return classifyByDictionary(`${title} ${excerpt || ''}`);
+  }
+
+  return {
+    eventType: labels[0],
+    eventTypes: labels,
+    probabilities,
+    method: 'model',
+  };
+}
+
+/**
+ * Compare the first forecast figure present before and after a revision
+ *
+ * @returns 1 (up), -1 (down) or 0 (unchanged / not comparable)
+ */
+function compareForecast(
+  financials: FinancialFigures | undefined,
+  keys: (keyof FinancialValues)[],
+): number {
+  const current = financials?.forecast;
+  const previous = financials?.previousForecast;
+  if (!current || !previous) return 0;
+
+  for (const key of keys) {
+    const after = current[key];
+    const before = previous[key];
+    if (after !== undefined && before !== undefined) {
+      return Math.sign(after - before);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Detect direction-aware event types
+ * Filing figures (修正前 vs 修正後 forecast) win over wording, so a title
+ * that only says "業績予想の修正" is still resolved when XBRL is attached.
+ *
+ * @param title - Event title
+ * @param financials - Figures from the filing, when available
+ * @returns Detected types (figures first, then wording)
+ */
+export function detectDirectionalEventTypes(
+  title: string,
+  financials?: FinancialFigures,
+): EventType[] {
+  const detected: EventType[] = [];
+
+  const revision = compareForecast(financials, REVISION_FIGURES);
+  if (revision !== 0) {
+    detected.push(revision > 0 ? '上方修正' : '下方修正');
+  }
+  const dividend = compareForecast(financials, ['dividendPerShare']);
+  if (dividend !== 0) {
+    detected.push(dividend > 0 ? '増配' : '減配');
+  }
+
+  const text = title.normalize('NFKC');
+  for (const { eventType, pattern } of TITLE_RULES) {
+    const contradicted = detected.some((t) =>
+      SUPERSEDED_TYPES[t]?.includes(eventType),
+    );
+    if (!contradicted && !detected.includes(eventType) && pattern.test(text)) {
+      detected.push(eventType);
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Apply direction-aware detection to a classification
+ * Detected types come first; model/dictionary types they supersede
+ * (opposite direction, generic 業績予想 / 資本政策) are dropped.
+ *
+ * @param classification - Result of classifyEventType
+ * @param title - Event title
+ * @param financials - Figures from the filing, when available
+ * @returns Refined classification (unchanged if nothing was detected)
+ */
+export function refineEventTypes(
+  classification: EventTypeClassification,
+  title: string,
+  financials?: FinancialFigures,
+): EventTypeClassification {
+  const detected = detectDirectionalEventTypes(title, financials);
+  if (detected.length === 0) {
+    return classification;
+  }
+
+  const superseded = new Set(
+    detected.flatMap((t) => SUPERSEDED_TYPES[t] || []),
+  );
+  const remaining = classification.eventTypes.filter(
+    (t) => !detected.includes(t) && !superseded.has(t) && t !== 'その他',
+  );
+  const eventTypes = [...detected, ...remaining];
+
+  return {
+    ...classification,
+    eventType: eventTypes[0],
+    eventTypes,
+    method: 'rules',
+  };
+}
+
+/**
+ * Compute precision, recall and F1 from counts
+ */
+function toMetrics(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number,
+): ClassificationMetrics {
+  const predicted = truePositives + falsePositives;
+  const actual = truePositives + falseNegatives;
+  const precision = predicted > 0 ? truePositives / predicted : 0;
+  const recall = actual > 0 ? truePositives / actual : 0;
+  const f1 =
+    precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : 0;
+  return { precision, recall, f1, support: actual };
+}
+
+/**
+ * Evaluate the classifier on a labeled test set
+ *
+ * @param testSet - Labeled headlines not used for training
+ * @param model - Trained model (defaults to the bundled corpus model)
+ * @returns Per-type and micro-averaged precision/recall
+ */
+export function evaluateEventTypeClassifier(
+  testSet: LabeledHeadline[],
+  model: EventTypeModel = getDefaultModel(),
+): ClassifierEvaluation {
+  const counts = new Map<EventType, { tp: number; fp: number; fn: number }>();
+  EVENT_TYPES.forEach((t) => counts.set(t, { tp: 0, fp: 0, fn: 0 }));
+  let exact = 0;
+  let fallbacks = 0;
+
+  for (const item of testSet) {
+    const result = refineEventTypes(
+      classifyEventType(item.text, undefined, model),
+      item.text,
+    );
+    if (result.method === 'dictionary') fallbacks++;
+
+    const predicted = new Set(result.eventTypes);
+    const gold = new Set(item.labels);
+    if (
+      predicted.size === gold.size &&
+      [...predicted].every((t) => gold.has(t))
+    ) {
+      exact++;
+    }
+
+    for (const eventType of EVENT_TYPES) {
+      const count = counts.get(eventType);
+      if (!count) continue;
+      if (predicted.has(eventType) && gold.has(eventType)) count.tp++;
+      else if (predicted.has(eventType)) count.fp++;
+      else if (gold.has(eventType)) count.fn++;
+    }
+  }
+
+  const perType: Partial<Record<EventType, ClassificationMetrics>> = {};
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const [eventType, count] of counts) {
+    if (count.tp + count.fp + count.fn === 0) continue;
+    perType[eventType] = toMetrics(count.tp, count.fp, count.fn);
+    tp += count.tp;
+    fp += count.fp;
+    fn += count.fn;
+  }
+
+  const total = testSet.length || 1;
+  return {
+    perType,
+    micro: toMetrics(tp, fp, fn),
+    exactMatch: exact / total,
+    fallbackRate: fallbacks / total,
+  };
+}
+
+/**
+ * Format an evaluation as a plain-text table (for logs and debugging)
+ *
+ * @param evaluation - Result of evaluateEventTypeClassifier
+ * @returns One line per type plus the micro average
+ */
+export function formatClassifierEvaluation(
+  evaluation: ClassifierEvaluation,
+): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const row = (name: string, m: ClassificationMetrics) =>
+    `${name}\t${pct(m.precision)}\t${pct(m.recall)}\t${pct(m.f1)}\t${m.support}`;
+
+  const lines = ['type\tprecision\trecall\tf1\tsupport'];
+  for (const eventType of EVENT_TYPES) {
+    const metrics = evaluation.perType[eventType];
+    if (metrics) lines.push(row(eventType, metrics));
+  }
+  lines.push(row('micro', evaluation.micro));
+  lines.push(
+    `exact match ${pct(evaluation.exactMatch)}, dictionary fallback ${pct(evaluation.fallbackRate)}`,
+  );
+  return lines.join('\n');
+}
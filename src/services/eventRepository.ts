@@ -0,0 +1,165 @@
+/**
+ * Event Repository Service
+ *
+ * Persistent record of events already seen by the ingestion pipeline.
+ * Per product spec: zero duplicate notifications
+ * - Stable natural keys (EDINET docID, normalized URL)
+ * - First-seen / last-seen metadata kept across app restarts
+ * - Old records pruned after a retention period
+ */
+
+import { normalizeUrl } from './normalizationService';
+import { createStoredValue } from '../utils/storage';
+
+/**
+ * Metadata stored for each seen event
+ */
+export interface EventRecord {
+  /** Natural key (see getEventKey) */
+  key: string;
+  /** Event ID assigned on first sighting */
+  eventId: string;
+  /** ISO timestamp when the event was first seen */
+  firstSeenAt: string;
+  /** ISO timestamp when the event was last seen */
+  lastSeenAt: string;
+  /** Number of ingestion runs that returned this event */
+  seenCount: number;
+}
+
+/**
+ * Minimal event shape needed to compute a natural key
+ * (satisfied by both RawEvent and NormalizedEvent)
+ */
+export interface KeyableEvent {
+  id: string;
+  url: string;
+  externalId?: string;
+}
+
+const STORAGE_KEY = 'eventRepository';
+
+/**
+ * Records not seen for this long are pruned (days)
+ */
+const DEFAULT_RETENTION_DAYS = 14;
+
+const records = createStoredValue<Record<string, EventRecord>>(
+  STORAGE_KEY,
+  () => ({}),
+);
+
+/**
+ * Get stable natural key for an event
+ * - Source-native ID when available (e.g., "EDINET:S100ABCD")
+ * - Otherwise the normalized URL
+ *
+ * @param event - Raw or normalized event
+ * @returns Natural key
+ */
+export function getEventKey(event: KeyableEvent): string {
+  if (event.externalId) {
+    return event.externalId;
+  }
+  return `url:${normalizeUrl(event.url)}`;
+}
+
+/**
+ * Remove records not seen within the retention period
+ */
+function pruneRecords(
+  current: Record<string, EventRecord>,
+  now: Date,
+  retentionDays: number,
+): void {
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  for (const [key, record] of Object.entries(current)) {
+    if (new Date(record.lastSeenAt).getTime() < cutoff) {
+      delete current[key];
+    }
+  }
+}
+
+/**
+ * Return only events never seen before
+ * Duplicates within the same batch are also dropped. Nothing is recorded:
+ * call markEventsSeen once the run that uses them has succeeded, so events
+ * from a failed run come back on the next one.
+ *
+ * @param events - Events from the latest ingestion run
+ * @returns Events seen for the first time
+ */
+export async function filterNewEvents<T extends KeyableEvent>(
+  events: T[],
+): Promise<T[]> {
+  const current = await records.load();
+  const batchKeys = new Set<string>();
+
+  return events.filter((event) => {
+    const key = getEventKey(event);
+    if (current[key] || batchKeys.has(key)) return false;
+    batchKeys.add(key);
+    return true;
+  });
+}
+
+/**
+ * Record events as seen (first-seen / last-seen metadata)
+ *
+ * @param events - Events from a successful ingestion run
+ * @param now - Reference time (defaults to now)
+ * @param retentionDays - Days to keep records after last sighting
+ */
+export async function markEventsSeen(
+  events: KeyableEvent[],
+  now: Date = new Date(),
+  retentionDays = DEFAULT_RETENTION_DAYS,
+): Promise<void> {
+  const current = await records.load();
+  const timestamp = now.toISOString();
+
+  for (const event of events) {
+    const key = getEventKey(event);
+    const existing = current[key];
+
+    if (existing) {
+      // Only count one sighting per run
+      if (existing.lastSeenAt !== timestamp) {
+        existing.lastSeenAt = timestamp;
+        existing.seenCount += 1;
+      }
+      continue;
+    }
+
+    current[key] = {
+      key,
+      eventId: event.id,
+      firstSeenAt: timestamp,
+      lastSeenAt: timestamp,
+      seenCount: 1,
+    };
+  }
+
+  pruneRecords(current, now, retentionDays);
+  await records.save();
+}
+
+/**
+ * Get stored metadata for an event
+ *
+ * @param event - Raw or normalized event
+ * @returns Event record or null if never seen
+ */
+export async function getEventRecord(
+  event: KeyableEvent,
+): Promise<EventRecord | null> {
+  const current = await records.load();
+  return current[getEventKey(event)] || null;
+}
+
+/**
+ * Clear all records (for testing/debugging)
+ */
+export async function clearEventRepository(): Promise<void> {
+  await records.clear();
+}
@@ -0,0 +1,256 @@
+/**
+ * Group Structure Service
+ *
+ * Parent/subsidiary resolution on top of the securities master.
+ * Per product spec: news about a group company must reach holders of the
+ * listed parent, but must not be scored as if the parent were the subject
+ * - Unlisted subsidiary (ダイハツ, PayPay) → listed parent, via_subsidiary
+ * - Listed subsidiary (ソフトバンク 9434) → own ticker (direct) and
+ *   listed parents (via_subsidiary), so both tickers are carried
+ * - Chains are followed (LINEヤフー → ソフトバンク → ソフトバンクグループ)
+ */
+
+import { BUNDLED_GROUP_COMPANIES } from '../data/groupStructure';
+import { GroupCompany, TickerRelation } from '../types/events';
+
+/**
+ * Subsidiary mentioned by name in free text
+ */
+export interface SubsidiaryMention {
+  /** Subsidiary name (as registered, not as written) */
+  name: string;
+  /** Ticker code of the listed parent */
+  parentCode: string;
+}
+
+/**
+ * Result of scanning text for subsidiary names
+ */
+export interface SubsidiaryScanResult {
+  mentions: SubsidiaryMention[];
+  /**
+   * Text with matched names blanked out, for further name matching
+   * ("ソニー・ミュージック…" must not also match "ソニー" as a direct hit)
+   */
+  remainingText: string;
+}
+
+/**
+ * Name pattern for headline matching
+ */
+interface SubsidiaryPattern {
+  pattern: string;
+  company: GroupCompany;
+  /** ASCII names need word boundaries ("SIE" must not match "SIEMENS") */
+  ascii: boolean;
+}
+
+/**
+ * Lookup indexes over the group structure
+ */
+interface GroupIndex {
+  /** Listed subsidiary code → parent code */
+  parentByCode: Map<string, string>;
+  /** Parent code → subsidiaries */
+  byParent: Map<string, GroupCompany[]>;
+  /** Unlisted subsidiary names, longest first */
+  patterns: SubsidiaryPattern[];
+}
+
+/**
+ * Upper bound on parent chain length (guards against cycles in data)
+ */
+const MAX_CHAIN_DEPTH = 3;
+
+let index = buildIndex(BUNDLED_GROUP_COMPANIES);
+
+/**
+ * Normalize text for matching (full-width → half-width, compatibility forms)
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC');
+}
+
+/**
+ * Whether a character is an ASCII letter or digit
+ */
+function isAsciiWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Build lookup indexes for a group structure list
+ * Listed subsidiaries are matched by name through the securities master,
+ * so only unlisted ones get name patterns here.
+ */
+function buildIndex(companies: GroupCompany[]): GroupIndex {
+  const parentByCode = new Map<string, string>();
+  const byParent = new Map<string, GroupCompany[]>();
+  const patterns: SubsidiaryPattern[] = [];
+
+  for (const company of companies) {
+    byParent.set(company.parentCode, [
+      ...(byParent.get(company.parentCode) || []),
+      company,
+    ]);
+
+    if (company.code) {
+      parentByCode.set(company.code, company.parentCode);
+      continue;
+    }
+
+    for (const name of [company.name, ...(company.aliases || [])]) {
+      const pattern = normalizeText(name);
+      patterns.push({
+        pattern,
+        company,
+        ascii: /^[\x20-\x7E]+$/.test(pattern),
+      });
+    }
+  }
+
+  patterns.sort((a, b) => b.pattern.length - a.pattern.length);
+  return { parentByCode, byParent, patterns };
+}
+
+/**
+ * Replace the bundled group structure (for testing or data updates)
+ *
+ * @param companies - Full group structure list
+ */
+export function setGroupCompanies(companies: GroupCompany[]): void {
+  index = buildIndex(companies);
+}
+
+/**
+ * Restore the bundled group structure
+ */
+export function resetGroupCompanies(): void {
+  index = buildIndex(BUNDLED_GROUP_COMPANIES);
+}
+
+/**
+ * Get listed parents of a ticker, nearest first
+ *
+ * @param code - Ticker code (e.g., "4689")
+ * @returns Parent codes (e.g., ["9434", "9984"]); empty if not a subsidiary
+ */
+export function getParentChain(code: string): string[] {
+  const chain: string[] = [];
+  let current = index.parentByCode.get(code);
+
+  while (current && chain.length < MAX_CHAIN_DEPTH) {
+    if (current === code || chain.includes(current)) break;
+    chain.push(current);
+    current = index.parentByCode.get(current);
+  }
+  return chain;
+}
+
+/**
+ * Get registered subsidiaries of a listed parent
+ *
+ * @param parentCode - Ticker code of the parent
+ * @returns Subsidiaries (listed and unlisted)
+ */
+export function getSubsidiaries(parentCode: string): GroupCompany[] {
+  return index.byParent.get(parentCode) || [];
+}
+
+/**
+ * Find unlisted subsidiaries mentioned by name in free text
+ * Longest names are matched first and matches never overlap.
+ *
+ * @param text - Headline or excerpt
+ * @returns Mentions in order of appearance, and the text with them blanked
+ */
+export function findSubsidiaryMentions(text: string): SubsidiaryScanResult {
+  const normalized = normalizeText(text);
+  const taken: [number, number][] = [];
+  const matches: { company: GroupCompany; start: number }[] = [];
+
+  for (const { pattern, company, ascii } of index.patterns) {
+    const haystack = ascii ? normalized.toUpperCase() : normalized;
+    const needle = ascii ? pattern.toUpperCase() : pattern;
+
+    for (
+      let start = haystack.indexOf(needle);
+      start >= 0;
+      start = haystack.indexOf(needle, start + 1)
+    ) {
+      const end = start + needle.length;
+      if (
+        ascii &&
+        (isAsciiWordChar(haystack[start - 1]) || isAsciiWordChar(haystack[end]))
+      ) {
+        continue;
+      }
+      if (taken.some(([s, e]) => start < e && end > s)) {
+        continue;
+      }
+      taken.push([start, end]);
+      matches.push({ company, start });
+    }
+  }
+
+  let remainingText = normalized;
+  for (const [start, end] of taken) {
+    remainingText =
+      remainingText.substring(0, start) +
+      ' '.repeat(end - start) +
+      remainingText.substring(end);
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+  const mentions: SubsidiaryMention[] = [];
+  for (const { company } of matches) {
+    if (!mentions.some((m) => m.name === company.name)) {
+      mentions.push({ name: company.name, parentCode: company.parentCode });
+    }
+  }
+
+  return { mentions, remainingText };
+}
+
+/**
+ * Build ticker relations for an event
+ * Direct tickers come first (in the given order), then parents reached
+ * through a subsidiary. A ticker that is both direct and a parent stays direct.
+ *
+ * @param directCodes - Tickers of the issue itself (filer, mentioned names)
+ * @param mentions - Unlisted subsidiaries mentioned in the event
+ * @returns Relations, one per ticker
+ */
+export function resolveTickerRelations(
+  directCodes: string[],
+  mentions: SubsidiaryMention[] = [],
+): TickerRelation[] {
+  const relations: TickerRelation[] = [];
+  const seen = new Set<string>();
+
+  for (const ticker of directCodes) {
+    if (seen.has(ticker)) continue;
+    seen.add(ticker);
+    relations.push({ ticker, relation: 'direct' });
+  }
+
+  const addParents = (parents: string[], via: string) => {
+    for (const ticker of parents) {
+      if (seen.has(ticker)) continue;
+      seen.add(ticker);
+      relations.push({ ticker, relation: 'via_subsidiary', via });
+    }
+  };
+
+  for (const ticker of directCodes) {
+    addParents(getParentChain(ticker), ticker);
+  }
+  for (const mention of mentions) {
+    addParents(
+      [mention.parentCode, ...getParentChain(mention.parentCode)],
+      mention.name,
+    );
+  }
+
+  return relations;
+}
@@ -6,11 +6,30 @@
  * - Impact level (強/中/弱) based on source tier
  * - Reasoning (要因タグ付き) and counter-reasoning (反証)
  * - Score/confidence for internal use
+ * - Structured output: the model answers with JSON constrained by
+ *   IMPACT_RESPONSE_SCHEMA; the response is validated, repaired locally
+ *   (code fences, trailing commas) or retried once with the error, and
+ *   each validation step is recorded on the result
+ * - Results are cached by content and prompt version (aiCacheRepository)
+ * - Tier-based failsafe once the AI budget is spent (aiUsageService)
  */
 
-import { callOpenAIWithRetry, isAIInitialized } from './aiService';
+import {
+  getAICacheKey,
+  getCachedAIResult,
+  setCachedAIResult,
+} from './aiCacheRepository';
+import {
+  AICompletionRequest,
+  callLLMWithRetry,
+  getAIModel,
+  isAIInitialized,
+} from './aiService';
+import { checkAIBudget, recordAIUsage } from './aiUsageService';
+import { LLMJsonSchemaFormat } from './llmProvider';
 import { checkForbiddenWords } from './summaryService';
 import { NormalizedEvent, ImpactLevel, SourceTier } from '../types/events';
+import { AppError, ErrorType } from '../utils/errorHandler';
 
 /**
  * Outlook types per product spec
@@ -30,6 +49,148 @@ export type FactorTag =
   | '提携'
   | 'その他';
 
+const OUTLOOKS: OutlookType[] = ['上向き', '弱含み', '不確定'];
+
+const IMPACT_LEVELS: ImpactLevel[] = ['強', '中', '弱'];
+
+const FACTOR_TAGS: FactorTag[] = [
+  '金利',
+  '為替',
+  '資金調達',
+  '規制',
+  '受注',
+  '業績',
+  '提携',
+  'その他',
+];
+
+/**
+ * JSON schema of the model's response
+ */
+export const IMPACT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    outlook: { type: 'string', enum: OUTLOOKS },
+    impact: { type: 'string', enum: IMPACT_LEVELS },
+    reasoning: { type: 'string' },
+    counterReasoning: { type: 'string' },
+    factors: {
+      type: 'array',
+      items: { type: 'string', enum: FACTOR_TAGS },
+      minItems: 1,
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: [
+    'outlook',
+    'impact',
+    'reasoning',
+    'counterReasoning',
+    'factors',
+    'confidence',
+  ],
+  additionalProperties: false,
+};
+
+const IMPACT_RESPONSE_FORMAT: LLMJsonSchemaFormat = {
+  type: 'json_schema',
+  name: 'impact_analysis',
+  schema: IMPACT_RESPONSE_SCHEMA,
+};
+
+/**
+ * Impact prompt version (part of the cache key)
+ * Bump when the prompts or schema change so cached analyses are redone.
+ */
+const IMPACT_PROMPT_VERSION = 2;
+
+/**
+ * Retries with the validation error after a malformed response
+ */
+const MAX_REPAIR_RETRIES = 1;
+
+/**
+ * Validated model response
+ */
+export interface ImpactResponse {
+  outlook: OutlookType;
+  impact: ImpactLevel;
+  reasoning: string;
+  counterReasoning: string;
+  factors: FactorTag[];
+  confidence: number;
+}
+
+/**
+ * Validation steps, in order
+ * - json: response parses as JSON (possibly after local repair)
+ * - schema: fields present with allowed values
+ * - forbiddenWords: no speculation or trading advice in the text
+ * - tierCap: impact within the source tier's maximum
+ */
+export type ImpactValidationStep =
+  | 'json'
+  | 'schema'
+  | 'forbiddenWords'
+  | 'tierCap';
+
+/**
+ * Outcome of one validation step
+ */
+export interface ImpactValidationResult {
+  step: ImpactValidationStep;
+  passed: boolean;
+  /** Failure reason, or the repair/adjustment applied */
+  detail?: string;
+}
+
+/**
+ * Why a model response was rejected
+ * - empty: no text
+ * - invalid_json: not parseable, even after repair
+ * - not_object: JSON but not an object
+ * - missing_field: a required field is absent
+ * - invalid_value: a field has the wrong type or a value outside the schema
+ */
+export type ImpactParseErrorCode =
+  | 'empty'
+  | 'invalid_json'
+  | 'not_object'
+  | 'missing_field'
+  | 'invalid_value';
+
+/**
+ * Rejected model response
+ */
+export class ImpactParseError extends AppError {
+  code: ImpactParseErrorCode;
+  /** Offending field (missing_field, invalid_value) */
+  field?: keyof ImpactResponse;
+
+  constructor(
+    code: ImpactParseErrorCode,
+    message: string,
+    field?: keyof ImpactResponse,
+  ) {
+    super(
+      ErrorType.VALIDATION,
+      '影響分析の結果を読み取れませんでした。',
+      undefined,
+      message,
+    );
+    this.name = 'ImpactParseError';
+    this.code = code;
+    this.field = field;
+  }
+
+  /** Validation step that failed */
+  get step(): ImpactValidationStep {
+    return this.code === 'empty' || this.code === 'invalid_json'
+      ? 'json'
+      : 'schema';
+  }
+}
+
 /**
  * Impact analysis result
  */
@@ -50,6 +211,12 @@ export interface ImpactAnalysis {
   isFailsafe: boolean;
   /** Validation warnings */
   warnings: string[];
+  /** Validation steps run on the model response (empty without AI) */
+  validation: ImpactValidationResult[];
+  /** Model calls made, including repair retries */
+  attempts: number;
+  /** Whether this came from the AI result cache */
+  cached?: boolean;
 }
 
 /**
@@ -70,68 +237,171 @@ export async function analyzeImpact(
 
   // If AI not initialized, return tier-based analysis
   if (!isAIInitialized()) {
-    return {
-      outlook: '不確定',
-      impact: baseImpact,
-      reasoning: 'イベントの影響を分析中',
-      factors: [eventTypeToFactor(event.eventType)],
-      counterReasoning: '詳細は出典をご確認ください',
-      confidence: 0.5,
-      isFailsafe: true,
-      warnings: ['AI service not initialized'],
-    };
+    return buildFailsafeAnalysis(event, 0.5, ['AI service not initialized']);
   }
 
+  // Tier and summary are prompt inputs besides title and excerpt
+  const cacheKey = getAICacheKey({
+    kind: 'impact',
+    title: event.title,
+    excerpt: event.excerpt,
+    model: getAIModel() ?? 'unknown',
+    promptVersion: IMPACT_PROMPT_VERSION,
+    context: [event.tier, event.eventType, summary || ''],
+  });
+  const cached = await getCachedAIResult<ImpactAnalysis>(cacheKey);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const budget = await checkAIBudget();
+  if (!budget.allowed) {
+    return buildFailsafeAnalysis(event, 0.5, [
+      budget.reason || 'AI budget exhausted',
+    ]);
+  }
+
+  const request: AICompletionRequest = {
+    systemPrompt: buildImpactSystemPrompt(),
+    userMessage: buildImpactUserMessage(event, summary),
+    temperature: 0.3, // Slightly higher for reasoning
+    maxTokens: 300,
+    responseFormat: IMPACT_RESPONSE_FORMAT,
+  };
+  const warnings: string[] = [];
+  let attempts = 0;
+
   try {
-    const systemPrompt = buildImpactSystemPrompt();
-    const userMessage = buildImpactUserMessage(event, summary);
-
-    const response = await callOpenAIWithRetry({
-      systemPrompt,
-      userMessage,
-      temperature: 0.3, // Slightly higher for reasoning
-      maxTokens: 300,
-    });
+    let parsed: { response: ImpactResponse; repairs: string[] } | null = null;
+    let lastError: ImpactParseError | null = null;
+    let lastText = '';
+
+    while (!parsed && attempts <= MAX_REPAIR_RETRIES) {
+      const response = await callLLMWithRetry(
+        lastError
+          ? {
+              ...request,
+              userMessage: buildRepairMessage(
+                request.userMessage,
+                lastText,
+                lastError,
+              ),
+            }
+          : request,
+      );
+      attempts++;
+      await recordAIUsage('impact', response.model, response.usage);
+
+      try {
+        parsed = parseImpactResponse(response.text);
+      } catch (error) {
+        if (!(error instanceof ImpactParseError)) throw error;
+        console.warn(`Impact response rejected (${error.code}):`, error);
+        warnings.push(`Attempt ${attempts} rejected: ${error.message}`);
+        lastError = error;
+        lastText = response.text;
+      }
+    }
 
-    const analysis = parseImpactResponse(response.text);
+    if (!parsed) {
+      const failedStep = lastError?.step ?? 'json';
+      return buildFailsafeAnalysis(event, 0.3, warnings, attempts, [
+        ...(failedStep === 'schema'
+          ? [{ step: 'json' as const, passed: true }]
+          : []),
+        { step: failedStep, passed: false, detail: lastError?.message },
+      ]);
+    }
 
-    // Validate
-    const warnings: string[] = [];
+    const { response, repairs } = parsed;
+    const validation: ImpactValidationResult[] = [
+      {
+        step: 'json',
+        passed: true,
+        ...(repairs.length > 0
+          ? { detail: `repaired: ${repairs.join(', ')}` }
+          : {}),
+      },
+      { step: 'schema', passed: true },
+    ];
+    let impact = response.impact;
 
     // Check for forbidden words
-    const forbiddenInReasoning = checkForbiddenWords(analysis.reasoning);
-    const forbiddenInCounter = checkForbiddenWords(analysis.counterReasoning);
-
-    if (forbiddenInReasoning.length > 0 || forbiddenInCounter.length > 0) {
+    const forbidden = [
+      ...checkForbiddenWords(response.reasoning),
+      ...checkForbiddenWords(response.counterReasoning),
+    ];
+    if (forbidden.length > 0) {
       warnings.push(
-        `Forbidden words found in reasoning: ${[...forbiddenInReasoning, ...forbiddenInCounter].join(', ')}`,
+        `Forbidden words found in reasoning: ${forbidden.join(', ')}`,
       );
       // Override impact to base tier level if forbidden words detected
-      analysis.impact = baseImpact;
+      impact = baseImpact;
     }
+    validation.push({
+      step: 'forbiddenWords',
+      passed: forbidden.length === 0,
+      ...(forbidden.length > 0 ? { detail: forbidden.join(', ') } : {}),
+    });
 
     // Ensure impact doesn't exceed tier-based maximum
-    analysis.impact = enforceMaxImpact(analysis.impact, event.tier);
+    const capped = enforceMaxImpact(impact, event.tier);
+    validation.push({
+      step: 'tierCap',
+      passed: capped === impact,
+      ...(capped !== impact ? { detail: `${impact} → ${capped}` } : {}),
+    });
 
-    return {
-      ...analysis,
+    const analysis: ImpactAnalysis = {
+      outlook: response.outlook,
+      impact: capped,
+      reasoning: response.reasoning,
+      factors: response.factors,
+      counterReasoning: response.counterReasoning,
+      confidence: response.confidence,
+      isFailsafe: false,
       warnings,
+      validation,
+      attempts,
     };
+    await setCachedAIResult(cacheKey, analysis);
+    return analysis;
   } catch (error) {
     console.error('Impact analysis failed:', error);
-    return {
-      outlook: '不確定',
-      impact: baseImpact,
-      reasoning: 'イベントの影響を分析中',
-      factors: [eventTypeToFactor(event.eventType)],
-      counterReasoning: '詳細は出典をご確認ください',
-      confidence: 0.3,
-      isFailsafe: true,
-      warnings: [`Error: ${error}`],
-    };
+    return buildFailsafeAnalysis(
+      event,
+      0.3,
+      [...warnings, `Error: ${error}`],
+      attempts,
+    );
   }
 }
 
+/**
+ * Tier-based analysis used when AI is unavailable or its output is
+ * rejected
+ */
+function buildFailsafeAnalysis(
+  event: NormalizedEvent,
+  confidence: number,
+  warnings: string[],
+  attempts = 0,
+  validation: ImpactValidationResult[] = [],
+): ImpactAnalysis {
+  return {
+    outlook: '不確定',
+    impact: determineBaseImpact(event.tier),
+    reasoning: 'イベントの影響を分析中',
+    factors: [eventTypeToFactor(event.eventType)],
+    counterReasoning: '詳細は出典をご確認ください',
+    confidence,
+    isFailsafe: true,
+    warnings,
+    validation,
+    attempts,
+  };
+}
+
 /**
  * Determine base impact from source tier
  * Per product spec: A → 強, B → 中, C → 弱
@@ -171,7 +441,12 @@ function enforceMaxImpact(impact: ImpactLevel, tier: SourceTier): ImpactLevel {
 function eventTypeToFactor(eventType: string): FactorTag {
   const mapping: Record<string, FactorTag> = {
     上方修正: '業績',
+    下方修正: '業績',
     資本政策: '資金調達',
+    増配: '業績',
+    減配: '業績',
+    自社株買い: '資金調達',
+    公募増資: '資金調達',
     提携: '提携',
     規制: '規制',
     受注: '受注',
@@ -194,12 +469,13 @@ function buildImpactSystemPrompt(): string {
 4. 推測語は使わない（「〜だろう」等は禁止）
 5. 売買推奨や価格目標は絶対に含めない
 
-出力形式（必ずこの形式で）:
-見通し: [上向き/弱含み/不確定]
-理由: [要因を1行で]
-要因: [金利/為替/資金調達/規制/受注/業績/提携/その他]
-反証: [リスクを1行で]
-信頼度: [0.0-1.0]`;
+出力形式: 次のキーを持つJSONオブジェクトのみ（説明文やコードブロックは付けない）
+- outlook: "上向き" | "弱含み" | "不確定"
+- impact: "強" | "中" | "弱"
+- reasoning: 要因を1行で
+- counterReasoning: リスクを1行で
+- factors: "金利" | "為替" | "資金調達" | "規制" | "受注" | "業績" | "提携" | "その他" の配列（1つ以上）
+- confidence: 0.0〜1.0 の数値`;
 }
 
 /**
@@ -221,77 +497,165 @@ ${event.excerpt ? `詳細: ${event.excerpt}` : ''}
 }
 
 /**
- * Parse AI response into structured impact analysis
+ * Build the retry message for a rejected response
  */
-function parseImpactResponse(response: string): ImpactAnalysis {
-  const lines = response.split('\n').map((l) => l.trim());
-
-  let outlook: OutlookType = '不確定';
-  let reasoning = '';
-  let factors: FactorTag[] = [];
-  let counterReasoning = '';
-  let confidence = 0.5;
-
-  for (const line of lines) {
-    if (line.startsWith('見通し:')) {
-      const value = line.replace('見通し:', '').trim();
-      if (value === '上向き' || value === '弱含み' || value === '不確定') {
-        outlook = value;
-      }
-    } else if (line.startsWith('理由:')) {
-      reasoning = line.replace('理由:', '').trim();
-    } else if (line.startsWith('要因:')) {
-      const factorStr = line.replace('要因:', '').trim();
-      factors = parseFactors(factorStr);
-    } else if (line.startsWith('反証:')) {
-      counterReasoning = line.replace('反証:', '').trim();
-    } else if (line.startsWith('信頼度:')) {
-      const confStr = line.replace('信頼度:', '').trim();
-      confidence = parseFloat(confStr) || 0.5;
-    }
+function buildRepairMessage(
+  userMessage: string,
+  previousText: string,
+  error: ImpactParseError,
+): string {
+  return `${userMessage}
+
+前回の出力はスキーマに合いませんでした（${error.message}）:
+${previousText.slice(0, 500)}
+
+スキーマに従うJSONオブジェクトのみを出力してください。`;
+}
+
+/**
+ * Parse JSON text, repairing common model mistakes when strict parsing
+ * fails: Markdown code fences, prose around the object, trailing commas
+ *
+ * @param text - Model output
+ * @returns Parsed value and the repairs applied
+ * @throws ImpactParseError (empty, invalid_json)
+ */
+export function parseJSONWithRepair(text: string): {
+  value: unknown;
+  repairs: string[];
+} {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new ImpactParseError('empty', 'Response is empty');
   }
 
-  // Fallbacks
-  if (!reasoning) reasoning = 'イベントの影響を評価中';
-  if (factors.length === 0) factors = ['その他'];
-  if (!counterReasoning) counterReasoning = '詳細は出典をご確認ください';
+  let parseError: unknown;
+  try {
+    return { value: JSON.parse(trimmed), repairs: [] };
+  } catch (error) {
+    parseError = error;
+  }
 
-  return {
-    outlook,
-    impact: '中', // Will be determined by tier
-    reasoning,
-    factors,
-    counterReasoning,
-    confidence: Math.max(0, Math.min(1, confidence)),
-    isFailsafe: false,
-    warnings: [],
-  };
+  const repairs: string[] = [];
+  let repaired = trimmed;
+
+  const fenced = repaired.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    repaired = fenced[1].trim();
+    repairs.push('code fence');
+  }
+
+  const start = repaired.indexOf('{');
+  const end = repaired.lastIndexOf('}');
+  if (start !== -1 && end > start && (start > 0 || end < repaired.length - 1)) {
+    repaired = repaired.slice(start, end + 1);
+    repairs.push('surrounding text');
+  }
+
+  const withoutTrailingCommas = repaired.replace(/,\s*([}\]])/g, '$1');
+  if (withoutTrailingCommas !== repaired) {
+    repaired = withoutTrailingCommas;
+    repairs.push('trailing comma');
+  }
+
+  if (repairs.length > 0) {
+    try {
+      return { value: JSON.parse(repaired), repairs };
+    } catch (error) {
+      parseError = error;
+    }
+  }
+
+  throw new ImpactParseError(
+    'invalid_json',
+    `Response is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+  );
 }
 
 /**
- * Parse factor tags from string
+ * Validate a parsed response against IMPACT_RESPONSE_SCHEMA
+ * Unknown keys are ignored; duplicate factors are removed.
+ *
+ * @param value - Parsed JSON
+ * @returns Validated response
+ * @throws ImpactParseError (not_object, missing_field, invalid_value)
  */
-function parseFactors(factorStr: string): FactorTag[] {
-  const validFactors: FactorTag[] = [
-    '金利',
-    '為替',
-    '資金調達',
-    '規制',
-    '受注',
-    '業績',
-    '提携',
-    'その他',
-  ];
-
-  const factors: FactorTag[] = [];
-
-  for (const factor of validFactors) {
-    if (factorStr.includes(factor)) {
-      factors.push(factor);
+export function validateImpactResponse(value: unknown): ImpactResponse {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ImpactParseError(
+      'not_object',
+      `Response is ${Array.isArray(value) ? 'an array' : typeof value}, not an object`,
+    );
+  }
+
+  const data = value as Record<string, unknown>;
+  for (const field of IMPACT_RESPONSE_SCHEMA.required) {
+    if (data[field] === undefined || data[field] === null) {
+      throw new ImpactParseError(
+        'missing_field',
+        `Missing field: ${field}`,
+        field as keyof ImpactResponse,
+      );
+    }
+  }
+
+  const invalid = (field: keyof ImpactResponse, expected: string) =>
+    new ImpactParseError(
+      'invalid_value',
+      `Invalid ${field}: expected ${expected}, got ${JSON.stringify(data[field])}`,
+      field,
+    );
+
+  if (!OUTLOOKS.includes(data.outlook as OutlookType)) {
+    throw invalid('outlook', OUTLOOKS.join('/'));
+  }
+  if (!IMPACT_LEVELS.includes(data.impact as ImpactLevel)) {
+    throw invalid('impact', IMPACT_LEVELS.join('/'));
+  }
+  for (const field of ['reasoning', 'counterReasoning'] as const) {
+    if (typeof data[field] !== 'string' || !(data[field] as string).trim()) {
+      throw invalid(field, 'non-empty string');
     }
   }
+  if (
+    !Array.isArray(data.factors) ||
+    data.factors.length === 0 ||
+    !data.factors.every((factor) => FACTOR_TAGS.includes(factor))
+  ) {
+    throw invalid('factors', `non-empty array of ${FACTOR_TAGS.join('/')}`);
+  }
+  if (
+    typeof data.confidence !== 'number' ||
+    !Number.isFinite(data.confidence) ||
+    data.confidence < 0 ||
+    data.confidence > 1
+  ) {
+    throw invalid('confidence', 'number between 0 and 1');
+  }
 
-  return factors.length > 0 ? factors : ['その他'];
+  return {
+    outlook: data.outlook as OutlookType,
+    impact: data.impact as ImpactLevel,
+    reasoning: (data.reasoning as string).trim(),
+    counterReasoning: (data.counterReasoning as string).trim(),
+    factors: [...new Set(data.factors as FactorTag[])],
+    confidence: data.confidence,
+  };
+}
+
+/**
+ * Parse and validate the model's JSON response
+ *
+ * @param text - Model output
+ * @returns Validated response and the JSON repairs applied
+ * @throws ImpactParseError when the response cannot be used
+ */
+export function parseImpactResponse(text: string): {
+  response: ImpactResponse;
+  repairs: string[];
+} {
+  const { value, repairs } = parseJSONWithRepair(text);
+  return { response: validateImpactResponse(value), repairs };
 }
 
 /**
@@ -310,8 +674,10 @@ export async function analyzeImpacts(
     const analysis = await analyzeImpact(event, summary);
     results.push(analysis);
 
-    // Small delay to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    // Small delay to avoid rate limiting (cache hits make no API call)
+    if (!analysis.cached) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
   }
 
   return results;
@@ -0,0 +1,151 @@
+/**
+ * Large Shareholding Report Service
+ *
+ * Parses 大量保有報告書 / 変更報告書 (EDINET docTypeCode 350/360) into
+ * holder, target issuer, holding ratio, previous ratio and purpose.
+ * Per product spec: stake-building by activists is a high-priority signal,
+ * so these filings are surfaced as their own event type (大量保有).
+ */
+
+import { XbrlFact } from './xbrlService';
+import { LargeShareholdingInfo } from '../types/events';
+import { normalizeTickerCode } from '../utils/tickerCode';
+
+/**
+ * jplvh taxonomy element names
+ */
+const ELEMENTS = {
+  issuerName: ['NameOfIssuer'],
+  issuerCode: ['SecurityCodeOfIssuer'],
+  holderName: ['Name', 'FilerNameInJapaneseDEI'],
+  holdingRatio: ['HoldingRatioOfShareCertificatesEtc'],
+  previousRatio: ['HoldingRatioOfShareCertificatesEtcPerLastReport'],
+  purpose: ['PurposeOfHolding'],
+};
+
+/**
+ * Contexts for individual holders (joint holders are reported per member)
+ */
+const HOLDER_CONTEXT_PATTERN =
+  /LargeVolumeHolder\d+Member|JointHolder\d+Member/;
+
+/**
+ * Find the first fact for the given elements
+ * Prefers totals (no holder member), then the first filer.
+ */
+function findFact(facts: XbrlFact[], elements: string[]): XbrlFact | undefined {
+  for (const element of elements) {
+    const matches = facts.filter((f) => f.element === element && f.text);
+    const total = matches.find((f) => !HOLDER_CONTEXT_PATTERN.test(f.context));
+    const filer = matches.find((f) =>
+      f.context.includes('FilerLargeVolumeHolder1Member'),
+    );
+    const fact = total || filer || matches[0];
+    if (fact) return fact;
+  }
+  return undefined;
+}
+
+/**
+ * Convert an XBRL ratio to a percentage
+ * XBRL stores pure ratios (0.063); some CSV exports use percents (6.3).
+ */
+function toPercent(value: number): number {
+  const percent = value <= 1 ? value * 100 : value;
+  return Math.round(percent * 100) / 100;
+}
+
+/**
+ * Parse large shareholding report facts
+ *
+ * @param facts - Facts from the report's XBRL (jplvh taxonomy)
+ * @param fallbackHolderName - Holder name when the body omits it (EDINET filerName)
+ * @returns Report details, or null if the ratio or issuer is missing
+ */
+export function parseLargeShareholdingFacts(
+  facts: XbrlFact[],
+  fallbackHolderName?: string,
+): LargeShareholdingInfo | null {
+  const ratioFact = findFact(facts, ELEMENTS.holdingRatio);
+  const issuerFact = findFact(facts, ELEMENTS.issuerName);
+  if (!ratioFact || ratioFact.value === null || !issuerFact) {
+    return null;
+  }
+
+  const holdingRatio = toPercent(ratioFact.value);
+  const previousFact = findFact(facts, ELEMENTS.previousRatio);
+  const previousRatio =
+    previousFact && previousFact.value !== null
+      ? toPercent(previousFact.value)
+      : undefined;
+
+  const codeFact = findFact(facts, ELEMENTS.issuerCode);
+  const issuerTicker = codeFact
+    ? normalizeTickerCode(codeFact.text) || undefined
+    : undefined;
+
+  const holderName =
+    findFact(facts, ELEMENTS.holderName)?.text || fallbackHolderName || '';
+
+  return {
+    holderName,
+    issuerName: issuerFact.text,
+    issuerTicker,
+    holdingRatio,
+    previousRatio,
+    ratioChange:
+      previousRatio !== undefined
+        ? Math.round((holdingRatio - previousRatio) * 100) / 100
+        : undefined,
+    purpose: findFact(facts, ELEMENTS.purpose)?.text,
+  };
+}
+
+/**
+ * Format ratio for display (e.g., "6.30%")
+ */
+function formatRatio(ratio: number): string {
+  return `${ratio.toFixed(2)}%`;
+}
+
+/**
+ * Build event title for a large shareholding report
+ * e.g. "〇〇ファンド｜7203 トヨタ自動車の保有割合 5.10%→6.30%（+1.20pt）"
+ *
+ * @param info - Report details
+ * @returns Event title
+ */
+export function formatLargeShareholdingTitle(
+  info: LargeShareholdingInfo,
+): string {
+  const target = info.issuerTicker
+    ? `${info.issuerTicker} ${info.issuerName}`
+    : info.issuerName;
+
+  if (info.previousRatio === undefined || info.ratioChange === undefined) {
+    return `${info.holderName}｜${target}の株式を新規に大量保有 ${formatRatio(info.holdingRatio)}`;
+  }
+
+  const sign = info.ratioChange >= 0 ? '+' : '';
+  const verb = info.ratioChange >= 0 ? '引き上げ' : '引き下げ';
+  return `${info.holderName}｜${target}の保有割合を${verb} ${formatRatio(info.previousRatio)}→${formatRatio(info.holdingRatio)}（${sign}${info.ratioChange.toFixed(2)}pt）`;
+}
+
+/**
+ * Build a short excerpt (purpose of holding)
+ *
+ * @param info - Report details
+ * @returns Excerpt text
+ */
+export function formatLargeShareholdingExcerpt(
+  info: LargeShareholdingInfo,
+): string {
+  const parts = [`保有割合 ${formatRatio(info.holdingRatio)}`];
+  if (info.previousRatio !== undefined) {
+    parts.push(`前回 ${formatRatio(info.previousRatio)}`);
+  }
+  if (info.purpose) {
+    parts.push(`保有目的: ${info.purpose}`);
+  }
+  return parts.join('、');
+}
@@ -0,0 +1,747 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * One chat completion interface over several vendors, so AI features
+ * (summaries, impact analysis) do not depend on a specific API.
+ * Per product spec: small, low-cost models; vendors are interchangeable
+ * - openai: OpenAI Chat Completions
+ * - azure: Azure OpenAI (deployments instead of model names, api-key auth)
+ * - anthropic: Anthropic Messages API
+ * - openai-compatible: any server speaking the OpenAI wire format at a
+ *   custom base URL (llama.cpp server, Ollama, vLLM...), auth optional
+ * Each provider maps model names, authenticates its own way and turns
+ * failures into LLMError with a normalized code.
+ */
+
+import { AppError, ErrorType } from '../utils/errorHandler';
+
+/**
+ * Provider identifier
+ */
+export type LLMProviderId =
+  | 'openai'
+  | 'azure'
+  | 'anthropic'
+  | 'openai-compatible';
+
+/**
+ * Chat completion request (one system prompt, one user message)
+ */
+export interface LLMRequest {
+  /** System prompt */
+  systemPrompt: string;
+  /** User message */
+  userMessage: string;
+  /**
+   * Model name or alias (see LLMProviderConfig.models); the provider's
+   * default model when omitted
+   */
+  model?: string;
+  /** Sampling temperature */
+  temperature?: number;
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Constrain the output to JSON matching a schema */
+  responseFormat?: LLMJsonSchemaFormat;
+}
+
+/**
+ * JSON schema response format
+ * OpenAI-format providers enforce it (structured outputs); Anthropic gets
+ * the schema as an instruction. Callers still validate the output.
+ */
+export interface LLMJsonSchemaFormat {
+  type: 'json_schema';
+  /** Schema name (letters, digits, _ and -) */
+  name: string;
+  /** JSON schema of the response object */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Chat completion response
+ */
+export interface LLMResponse {
+  /** Generated text */
+  text: string;
+  /** Token usage */
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  /** Model that produced the response */
+  model: string;
+}
+
+/**
+ * Chat completion provider
+ */
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Default model (after alias mapping) */
+  defaultModel: string;
+  /**
+   * Run a chat completion
+   * @throws LLMError on any failure
+   */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Normalized failure category
+ * - auth: missing/invalid key or no permission (401/403)
+ * - rate_limit: throttled or out of quota (429)
+ * - invalid_request: rejected request, unknown model/deployment (400/404/422)
+ * - server: provider-side failure or overload (5xx, 529)
+ * - network: no response (connection refused, DNS, timeout)
+ * - invalid_response: response body not in the expected shape
+ */
+export type LLMErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'invalid_request'
+  | 'server'
+  | 'network'
+  | 'invalid_response';
+
+const ERROR_TYPES: Record<LLMErrorCode, ErrorType> = {
+  auth: ErrorType.API,
+  rate_limit: ErrorType.RATE_LIMIT,
+  invalid_request: ErrorType.API,
+  server: ErrorType.API,
+  network: ErrorType.NETWORK,
+  invalid_response: ErrorType.API,
+};
+
+const USER_MESSAGES: Record<LLMErrorCode, string> = {
+  auth: 'AIサービスの認証に失敗しました。APIキーを確認してください。',
+  rate_limit: 'API利用制限に達しました。しばらく待ってから再試行してください。',
+  invalid_request:
+    'AIサービスへのリクエストが拒否されました。設定を確認してください。',
+  server:
+    'AIサービスで障害が発生しています。しばらく待ってから再試行してください。',
+  network: 'AIサービスに接続できません。接続を確認してください。',
+  invalid_response: 'AIサービスから予期しない応答がありました。',
+};
+
+/**
+ * LLM failure with a provider-independent code
+ */
+export class LLMError extends AppError {
+  code: LLMErrorCode;
+  provider: LLMProviderId;
+  /** HTTP status (absent for network errors) */
+  status?: number;
+  /** Whether retrying may succeed (rate limit, server, network) */
+  retryable: boolean;
+
+  constructor(
+    code: LLMErrorCode,
+    provider: LLMProviderId,
+    message: string,
+    status?: number,
+    originalError?: Error,
+  ) {
+    super(ERROR_TYPES[code], USER_MESSAGES[code], originalError, message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+    this.retryable =
+      code === 'rate_limit' || code === 'server' || code === 'network';
+  }
+}
+
+/**
+ * Settings shared by all providers
+ */
+interface BaseProviderConfig {
+  /** Default model (or alias); provider default when omitted */
+  model?: string;
+  /** Model aliases: requested name → provider model (or Azure deployment) */
+  models?: Record<string, string>;
+}
+
+export interface OpenAIProviderConfig extends BaseProviderConfig {
+  provider: 'openai';
+  apiKey: string;
+  /** API base URL (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** OpenAI organization ID */
+  organization?: string;
+}
+
+export interface AzureOpenAIProviderConfig extends BaseProviderConfig {
+  provider: 'azure';
+  apiKey: string;
+  /** Resource endpoint, e.g. https://my-resource.openai.azure.com */
+  endpoint: string;
+  /** API version (default: AZURE_DEFAULT_API_VERSION) */
+  apiVersion?: string;
+}
+
+export interface AnthropicProviderConfig extends BaseProviderConfig {
+  provider: 'anthropic';
+  apiKey: string;
+  /** API base URL (default: https://api.anthropic.com/v1) */
+  baseUrl?: string;
+}
+
+export interface OpenAICompatibleProviderConfig extends BaseProviderConfig {
+  provider: 'openai-compatible';
+  /** Server base URL including /v1, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Bearer token, if the server requires one */
+  apiKey?: string;
+}
+
+/**
+ * Configuration for createLLMProvider
+ */
+export type LLMProviderConfig =
+  | OpenAIProviderConfig
+  | AzureOpenAIProviderConfig
+  | AnthropicProviderConfig
+  | OpenAICompatibleProviderConfig;
+
+/**
+ * Default models per provider (small models for cost, with structured
+ * outputs on OpenAI)
+ * Azure has no default: deployments are named by the user.
+ */
+const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  azure: '',
+  anthropic: 'claude-3-haiku-20240307',
+  'openai-compatible': 'default',
+};
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Azure OpenAI API version used when none is configured (the first GA
+ * version with structured outputs)
+ */
+export const AZURE_DEFAULT_API_VERSION = '2024-10-21';
+
+/**
+ * Resolve a requested model name through the alias table
+ */
+function resolveModel(
+  config: BaseProviderConfig,
+  providerId: LLMProviderId,
+  requested?: string,
+): string {
+  const name = requested || config.model || DEFAULT_MODELS[providerId];
+  return config.models?.[name] || name;
+}
+
+/**
+ * Map an HTTP status to an error code
+ */
+function codeForStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'invalid_request';
+}
+
+/**
+ * Send a JSON POST request, normalizing failures
+ *
+ * @param providerId - Provider (for error reporting)
+ * @param url - Endpoint URL
+ * @param headers - Auth and version headers
+ * @param body - Request body
+ * @param getErrorCode - Provider-specific code for an error response
+ * @returns Parsed response body
+ */
+async function postJSON(
+  providerId: LLMProviderId,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  getErrorCode: (status: number, errorBody: unknown) => LLMErrorCode,
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new LLMError(
+      'network',
+      providerId,
+      `${providerId} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      undefined,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}));
+    throw new LLMError(
+      getErrorCode(response.status, errorBody),
+      providerId,
+      `${providerId} API error: ${response.status} - ${JSON.stringify(errorBody)}`,
+      response.status,
+    );
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new LLMError(
+      'invalid_response',
+      providerId,
+      `${providerId} returned a non-JSON response`,
+      response.status,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * OpenAI wire format response
+ */
+interface ChatCompletionBody {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * OpenAI wire format error code (error.code / error.type)
+ * Quota errors come as 429 like rate limits; context length and content
+ * filter errors as 400.
+ */
+function openAIErrorCode(status: number, errorBody: unknown): LLMErrorCode {
+  const error = (errorBody as { error?: { code?: string; type?: string } })
+    ?.error;
+  if (error?.code === 'invalid_api_key') return 'auth';
+  if (error?.code === 'DeploymentNotFound') return 'invalid_request';
+  return codeForStatus(status);
+}
+
+/**
+ * System prompt with the response schema appended as an instruction, for
+ * APIs without (or rejecting) a JSON schema parameter
+ */
+function withSchemaInstruction(request: LLMRequest): string {
+  return request.responseFormat
+    ? `${request.systemPrompt}\n\n次のJSONスキーマに従うJSONオブジェクトのみを出力してください:\n${JSON.stringify(request.responseFormat.schema)}`
+    : request.systemPrompt;
+}
+
+/**
+ * Build the OpenAI wire format request body
+ *
+ * @param request - Completion request
+ * @param model - Model (omitted for Azure, where it is in the URL)
+ * @param structuredOutputs - Send the schema as response_format (false:
+ *   as a prompt instruction)
+ */
+function chatCompletionBody(
+  request: LLMRequest,
+  model?: string,
+  structuredOutputs = true,
+) {
+  const schemaFormat = structuredOutputs ? request.responseFormat : undefined;
+  return {
+    ...(model ? { model } : {}),
+    messages: [
+      {
+        role: 'system',
+        content: structuredOutputs
+          ? request.systemPrompt
+          : withSchemaInstruction(request),
+      },
+      { role: 'user', content: request.userMessage },
+    ],
+    ...(request.temperature !== undefined
+      ? { temperature: request.temperature }
+      : {}),
+    ...(request.maxTokens !== undefined
+      ? { max_tokens: request.maxTokens }
+      : {}),
+    ...(schemaFormat
+      ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: schemaFormat.name,
+              schema: schemaFormat.schema,
+              strict: true,
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Whether an error is the server rejecting response_format (models
+ * without structured outputs such as gpt-3.5-turbo, many local servers)
+ */
+function isResponseFormatRejected(error: unknown): boolean {
+  return (
+    error instanceof LLMError &&
+    error.code === 'invalid_request' &&
+    /response_format|json_schema/i.test(error.message)
+  );
+}
+
+/**
+ * Send an OpenAI wire format request
+ * When the server rejects response_format, the request is sent again with
+ * the schema as a prompt instruction, and the provider stops sending
+ * response_format from then on.
+ *
+ * @param providerId - Provider (for error reporting)
+ * @param url - Endpoint URL
+ * @param headers - Auth headers
+ * @param request - Completion request
+ * @param model - Model (omitted for Azure)
+ * @param support - Per-provider structured outputs support (updated)
+ * @param getErrorCode - Provider-specific code for an error response
+ * @returns Parsed response body
+ */
+async function postChatCompletion(
+  providerId: LLMProviderId,
+  url: string,
+  headers: Record<string, string>,
+  request: LLMRequest,
+  model: string | undefined,
+  support: { structuredOutputs: boolean },
+  getErrorCode: (status: number, errorBody: unknown) => LLMErrorCode,
+): Promise<unknown> {
+  if (request.responseFormat && support.structuredOutputs) {
+    try {
+      return await postJSON(
+        providerId,
+        url,
+        headers,
+        chatCompletionBody(request, model),
+        getErrorCode,
+      );
+    } catch (error) {
+      if (!isResponseFormatRejected(error)) throw error;
+      console.warn(
+        `${providerId} does not support response_format; sending the schema in the prompt`,
+      );
+      support.structuredOutputs = false;
+    }
+  }
+  return postJSON(
+    providerId,
+    url,
+    headers,
+    chatCompletionBody(request, model, false),
+    getErrorCode,
+  );
+}
+
+/**
+ * Parse an OpenAI wire format response
+ */
+function parseChatCompletion(
+  providerId: LLMProviderId,
+  data: unknown,
+  fallbackModel: string,
+): LLMResponse {
+  const body = data as ChatCompletionBody;
+  if (!Array.isArray(body?.choices)) {
+    throw new LLMError(
+      'invalid_response',
+      providerId,
+      `${providerId} response has no choices`,
+    );
+  }
+  return {
+    text: body.choices[0]?.message?.content || '',
+    usage: body.usage
+      ? {
+          promptTokens: body.usage.prompt_tokens,
+          completionTokens: body.usage.completion_tokens,
+          totalTokens: body.usage.total_tokens,
+        }
+      : undefined,
+    model: body.model || fallbackModel,
+  };
+}
+
+/**
+ * OpenAI Chat Completions
+ *
+ * @param config - API key, optional base URL and organization
+ * @returns LLM provider
+ */
+export function createOpenAIProvider(
+  config: Omit<OpenAIProviderConfig, 'provider'>,
+): LLMProvider {
+  const baseUrl = (config.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '');
+  const support = { structuredOutputs: true };
+  return {
+    id: 'openai',
+    defaultModel: resolveModel(config, 'openai'),
+    async complete(request) {
+      const model = resolveModel(config, 'openai', request.model);
+      const data = await postChatCompletion(
+        'openai',
+        `${baseUrl}/chat/completions`,
+        {
+          Authorization: `Bearer ${config.apiKey}`,
+          ...(config.organization
+            ? { 'OpenAI-Organization': config.organization }
+            : {}),
+        },
+        request,
+        model,
+        support,
+        openAIErrorCode,
+      );
+      return parseChatCompletion('openai', data, model);
+    },
+  };
+}
+
+/**
+ * Azure OpenAI
+ * Models resolve to deployment names: the deployment is part of the URL
+ * and the request body carries no model.
+ *
+ * @param config - API key, endpoint, API version and deployments
+ * @returns LLM provider
+ */
+export function createAzureOpenAIProvider(
+  config: Omit<AzureOpenAIProviderConfig, 'provider'>,
+): LLMProvider {
+  const endpoint = config.endpoint.replace(/\/+$/, '');
+  const apiVersion = config.apiVersion || AZURE_DEFAULT_API_VERSION;
+  const support = { structuredOutputs: true };
+  return {
+    id: 'azure',
+    defaultModel: resolveModel(config, 'azure'),
+    async complete(request) {
+      const deployment = resolveModel(config, 'azure', request.model);
+      if (!deployment) {
+        throw new LLMError(
+          'invalid_request',
+          'azure',
+          'Azure OpenAI deployment not configured',
+        );
+      }
+      const data = await postChatCompletion(
+        'azure',
+        `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+        { 'api-key': config.apiKey },
+        request,
+        undefined,
+        support,
+        openAIErrorCode,
+      );
+      return parseChatCompletion('azure', data, deployment);
+    },
+  };
+}
+
+/**
+ * Anthropic Messages API response
+ */
+interface AnthropicMessageBody {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic error type (error.type)
+ * Overload (529) is a server error; most others follow the status.
+ */
+function anthropicErrorCode(status: number, errorBody: unknown): LLMErrorCode {
+  const type = (errorBody as { error?: { type?: string } })?.error?.type;
+  switch (type) {
+    case 'authentication_error':
+    case 'permission_error':
+      return 'auth';
+    case 'rate_limit_error':
+      return 'rate_limit';
+    case 'overloaded_error':
+    case 'api_error':
+      return 'server';
+    case 'invalid_request_error':
+    case 'not_found_error':
+      return 'invalid_request';
+    default:
+      return codeForStatus(status);
+  }
+}
+
+/**
+ * Anthropic Messages API
+ * The system prompt is a top-level field and max_tokens is required.
+ *
+ * @param config - API key and optional base URL
+ * @returns LLM provider
+ */
+export function createAnthropicProvider(
+  config: Omit<AnthropicProviderConfig, 'provider'>,
+): LLMProvider {
+  const baseUrl = (config.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+  return {
+    id: 'anthropic',
+    defaultModel: resolveModel(config, 'anthropic'),
+    async complete(request) {
+      const model = resolveModel(config, 'anthropic', request.model);
+      const data = await postJSON(
+        'anthropic',
+        `${baseUrl}/messages`,
+        { 'x-api-key': config.apiKey, 'anthropic-version': ANTHROPIC_VERSION },
+        {
+          model,
+          system: withSchemaInstruction(request),
+          messages: [{ role: 'user', content: request.userMessage }],
+          max_tokens: request.maxTokens ?? 500,
+          ...(request.temperature !== undefined
+            ? { temperature: request.temperature }
+            : {}),
+        },
+        anthropicErrorCode,
+      );
+
+      const body = data as AnthropicMessageBody;
+      if (!Array.isArray(body?.content)) {
+        throw new LLMError(
+          'invalid_response',
+          'anthropic',
+          'anthropic response has no content',
+        );
+      }
+      return {
+        text: body.content
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text || '')
+          .join(''),
+        usage: body.usage
+          ? {
+              promptTokens: body.usage.input_tokens,
+              completionTokens: body.usage.output_tokens,
+              totalTokens: body.usage.input_tokens + body.usage.output_tokens,
+            }
+          : undefined,
+        model: body.model || model,
+      };
+    },
+  };
+}
+
+/**
+ * OpenAI-compatible server (llama.cpp, Ollama, vLLM, LM Studio...)
+ * Local servers often ignore the model name or serve a single model, so
+ * the default is a placeholder; auth is sent only when a key is set.
+ *
+ * @param config - Base URL and optional API key
+ * @returns LLM provider
+ */
+export function createOpenAICompatibleProvider(
+  config: Omit<OpenAICompatibleProviderConfig, 'provider'>,
+): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const support = { structuredOutputs: true };
+  return {
+    id: 'openai-compatible',
+    defaultModel: resolveModel(config, 'openai-compatible'),
+    async complete(request) {
+      const model = resolveModel(config, 'openai-compatible', request.model);
+      const data = await postChatCompletion(
+        'openai-compatible',
+        `${baseUrl}/chat/completions`,
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        request,
+        model,
+        support,
+        (status) => codeForStatus(status),
+      );
+      return parseChatCompletion('openai-compatible', data, model);
+    },
+  };
+}
+
+/**
+ * Create a provider from configuration
+ *
+ * @param config - Provider configuration
+ * @returns LLM provider
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'azure':
+      return createAzureOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+  }
+}
+
+/**
+ * Read provider configuration from environment variables
+ * - EXPO_PUBLIC_LLM_PROVIDER: openai (default), azure, anthropic,
+ *   openai-compatible
+ * - EXPO_PUBLIC_LLM_API_KEY (EXPO_PUBLIC_OPENAI_API_KEY for openai)
+ * - EXPO_PUBLIC_LLM_BASE_URL: base URL (Azure: resource endpoint)
+ * - EXPO_PUBLIC_LLM_MODEL (EXPO_PUBLIC_OPENAI_MODEL for openai): model,
+ *   or deployment name for Azure
+ * - EXPO_PUBLIC_AZURE_OPENAI_API_VERSION
+ *
+ * @returns Provider configuration, or null if incomplete
+ */
+export function getLLMConfigFromEnv(): LLMProviderConfig | null {
+  const provider = (process.env.EXPO_PUBLIC_LLM_PROVIDER ||
+    'openai') as LLMProviderId;
+  const apiKey = process.env.EXPO_PUBLIC_LLM_API_KEY;
+  const baseUrl = process.env.EXPO_PUBLIC_LLM_BASE_URL;
+  const model = process.env.EXPO_PUBLIC_LLM_MODEL;
+
+  switch (provider) {
+    case 'openai': {
+      const key = apiKey || process.env.EXPO_PUBLIC_OPENAI_API_KEY;
+      if (!key) return null;
+      return {
+        provider,
+        apiKey: key,
+        baseUrl,
+        model: model || process.env.EXPO_PUBLIC_OPENAI_MODEL,
+      };
+    }
+    case 'azure':
+      if (!apiKey || !baseUrl) return null;
+      return {
+        provider,
+        apiKey,
+        endpoint: baseUrl,
+        apiVersion: process.env.EXPO_PUBLIC_AZURE_OPENAI_API_VERSION,
+        model,
+      };
+    case 'anthropic':
+      if (!apiKey) return null;
+      return { provider, apiKey, baseUrl, model };
+    case 'openai-compatible':
+      if (!baseUrl) return null;
+      return { provider, baseUrl, apiKey, model };
+    default:
+      console.warn(`Unknown LLM provider: ${provider}`);
+      return null;
+  }
+}
@@ -4,40 +4,33 @@
  * Per product spec:
  * - URL normalization for duplicate detection
  * - Title cleanup
- * - Ticker code resolution (aliases, subsidiaries → parent mapping)
- * - Event type classification (dictionary-based, AI extension in Phase 3)
+ * - Ticker code resolution (aliases, subsidiaries → parent mapping,
+ *   tagged direct / via_subsidiary)
+ * - Event type classification (n-gram model with dictionary fallback)
+ * - Numbers with units and before/after figures from title/excerpt
  */
 
-import { RawEvent, NormalizedEvent, EventType } from '../types/events';
+import {
+  classifyEventType,
+  EventTypeClassification,
+  refineEventTypes,
+} from './eventClassifierService';
+import {
+  findSubsidiaryMentions,
+  resolveTickerRelations,
+} from './groupStructureService';
+import { findCodesByName } from './securitiesMasterService';
+import { RawEvent, NormalizedEvent, TickerRelation } from '../types/events';
+import {
+  extractFigureChanges,
+  extractQuantities,
+} from '../utils/numberNormalizer';
+import { normalizeTickerCode } from '../utils/tickerCode';
 
 /**
- * Event type classification keywords (dictionary-based)
- * Per product spec: 上方修正/資本政策/提携/事故/規制/etc.
+ * EDINET document type codes for large shareholding reports
  */
-const EVENT_TYPE_KEYWORDS: Record<EventType, string[]> = {
-  上方修正: ['上方修正', '業績予想の修正', '増益', '上振れ'],
-  資本政策: ['自己株式', '株式分割', '増資', '減資', '株式併合', '資本提携'],
-  提携: ['業務提携', '資本提携', '合弁', '協業', '連携'],
-  事故: ['事故', '不祥事', 'リコール', '流出', '情報漏洩'],
-  規制: ['行政処分', '業務改善命令', '課徴金', '規制'],
-  決算発表: ['決算', '業績', '財務諸表', '四半期', '期末', '有価証券報告書'],
-  業績予想: ['業績予想', '通期予想', '見通し', '業績見込み'],
-  新製品: ['新製品', '新商品', '発売', 'リリース'],
-  受注: ['受注', '契約', '取引開始'],
-  その他: [],
-};
-
-/**
- * Company name to ticker code mapping (for subsidiary → parent resolution)
- * In production, this would be a comprehensive database lookup
- */
-const COMPANY_TICKER_MAP: Record<string, string> = {
-  // Example mappings
-  トヨタ自動車: '7203',
-  トヨタ: '7203',
-  TOYOTA: '7203',
-  // Add more mappings as needed
-};
+const LARGE_SHAREHOLDING_DOC_TYPE_CODES = ['350', '360'];
 
 /**
  * Normalize a raw event
@@ -46,6 +39,13 @@ const COMPANY_TICKER_MAP: Record<string, string> = {
  * @returns Normalized event
  */
 export function normalizeEvent(raw: RawEvent): NormalizedEvent {
+  const tickerRelations = resolveTickerCodes(raw.tickerCodes, raw.title);
+  const classification = classifyRawEventType(raw);
+  // Sentence break keeps title labels from spilling into the excerpt
+  const text = `${raw.title}。${raw.excerpt || ''}`;
+  const quantities = extractQuantities(text);
+  const figureChanges = extractFigureChanges(text);
+
   return {
     id: raw.id,
     tier: raw.tier,
@@ -53,10 +53,21 @@ export function normalizeEvent(raw: RawEvent): NormalizedEvent {
     url: normalizeUrl(raw.url),
     publishedAt: raw.publishedAt,
     fetchedAt: raw.fetchedAt,
-    tickerCodes: resolveTickerCodes(raw.tickerCodes, raw.title),
-    eventType: classifyEventType(raw.title, raw.excerpt),
+    tickerCodes: tickerRelations.map((r) => r.ticker),
+    eventType: classification.eventType,
     sourceName: getSourceDisplayName(raw.source),
     excerpt: raw.excerpt,
+    externalId: raw.externalId,
+    filing: raw.filing,
+    financials: raw.financials,
+    largeShareholding: raw.largeShareholding,
+    tickerRelations: tickerRelations.some((r) => r.relation !== 'direct')
+      ? tickerRelations
+      : undefined,
+    eventTypes: classification.eventTypes,
+    eventTypeProbabilities: classification.probabilities,
+    quantities: quantities.length > 0 ? quantities : undefined,
+    figureChanges: figureChanges.length > 0 ? figureChanges : undefined,
   };
 }
 
@@ -80,7 +91,7 @@ function normalizeTitle(title: string): string {
  * - Standardize protocol (https)
  * - Remove fragment identifiers
  */
-function normalizeUrl(url: string): string {
+export function normalizeUrl(url: string): string {
   try {
     const parsed = new URL(url);
 
@@ -105,15 +116,18 @@ function normalizeUrl(url: string): string {
 
 /**
  * Resolve ticker codes:
- * - Validate format (4 digits)
- * - Map subsidiary/alias to parent company
+ * - Validate format (4 characters)
+ * - Map aliases to listed issues, subsidiaries to listed parents
  * - Remove duplicates
  *
  * @param codes - Initial ticker codes
  * @param context - Context text for additional extraction
- * @returns Resolved ticker codes
+ * @returns Ticker relations (direct tickers sorted first, then parents)
  */
-function resolveTickerCodes(codes: string[], context: string): string[] {
+function resolveTickerCodes(
+  codes: string[],
+  context: string,
+): TickerRelation[] {
   const resolved = new Set<string>();
 
   // Add explicitly provided codes
@@ -124,55 +138,40 @@ function resolveTickerCodes(codes: string[], context: string): string[] {
     }
   }
 
-  // Extract additional codes from context (company names → ticker)
-  for (const [company, ticker] of Object.entries(COMPANY_TICKER_MAP)) {
-    if (context.includes(company)) {
-      resolved.add(ticker);
-    }
-  }
-
-  return Array.from(resolved).sort();
-}
-
-/**
- * Normalize a single ticker code
- * - Ensure 4-digit format
- * - Validate range (1000-9999 for Japanese stocks)
- */
-function normalizeTickerCode(code: string): string | null {
-  const cleaned = code.trim().replace(/[^\d]/g, '').substring(0, 4);
+  // Subsidiary names first, so "ソニー・ミュージック…" is not read as ソニー
+  const { mentions, remainingText } = findSubsidiaryMentions(context);
 
-  if (cleaned.length === 4) {
-    const num = parseInt(cleaned, 10);
-    if (num >= 1000 && num <= 9999) {
-      return cleaned;
-    }
+  // Extract additional codes from context (company names → ticker)
+  for (const ticker of findCodesByName(remainingText)) {
+    resolved.add(ticker);
   }
 
-  return null;
+  return resolveTickerRelations(Array.from(resolved).sort(), mentions);
 }
 
 /**
- * Classify event type using keyword dictionary
- * Per product spec: dictionary-based (Phase 1), AI-based (Phase 3)
- *
- * @param title - Event title
- * @param excerpt - Event excerpt/description
- * @returns Classified event type
+ * Classify event type, using structured filing data when available
+ * - EDINET 大量保有報告書 / 変更報告書 (docTypeCode 350/360) → 大量保有
+ * - Otherwise the event type classifier, with revision/dividend direction
+ *   confirmed from the title and filing figures
  */
-function classifyEventType(
-  title: string,
-  excerpt: string | undefined,
-): EventType {
-  const text = `${title} ${excerpt || ''}`.toLowerCase();
-
-  for (const [eventType, keywords] of Object.entries(EVENT_TYPE_KEYWORDS)) {
-    if (keywords.some((keyword) => text.includes(keyword.toLowerCase()))) {
-      return eventType as EventType;
-    }
+function classifyRawEventType(raw: RawEvent): EventTypeClassification {
+  if (
+    raw.largeShareholding ||
+    LARGE_SHAREHOLDING_DOC_TYPE_CODES.includes(raw.filing?.docTypeCode || '')
+  ) {
+    return {
+      eventType: '大量保有',
+      eventTypes: ['大量保有'],
+      method: 'override',
+    };
   }
 
-  return 'その他';
+  return refineEventTypes(
+    classifyEventType(raw.title, raw.excerpt),
+    raw.title,
+    raw.financials,
+  );
 }
 
 /**
@@ -182,6 +181,7 @@ function classifyEventType(
 function getSourceDisplayName(sourceId: string): string {
   const displayNames: Record<string, string> = {
     EDINET: 'EDINET',
+    TDNET: 'TDnet',
     prtimes: 'PR TIMES',
     company_ir: '会社IR',
   };
@@ -4,6 +4,7 @@
  * Per product spec:
  * - User-specific impact estimation
  * - Relevance scoring based on watchlist and positions
+ *   (news via a subsidiary scores lower than news about the issue itself)
  * - Event type preference weighting
  * - Transparent scoring reasons
  */
@@ -13,6 +14,7 @@ import {
   EventType,
   ImpactLevel,
   PersonalizedEvent,
+  TickerRelation,
   UserProfile,
 } from '../types/events';
 
@@ -22,7 +24,12 @@ import {
  */
 const DEFAULT_EVENT_TYPE_WEIGHTS: Record<EventType, number> = {
   上方修正: 1.5, // High importance
-  資本政策: 1.4,
+  下方修正: 1.5, // High importance (negative)
+  資本政策: 1.2,
+  増配: 1.3,
+  減配: 1.4, // Negative
+  自社株買い: 1.3,
+  公募増資: 1.4, // Dilutive (negative)
   決算発表: 1.3,
   業績予想: 1.2,
   提携: 1.1,
@@ -30,6 +37,7 @@ const DEFAULT_EVENT_TYPE_WEIGHTS: Record<EventType, number> = {
   新製品: 0.9,
   事故: 1.4, // High importance (negative)
   規制: 1.2,
+  大量保有: 1.4, // Activist stake-building is closely watched
   その他: 0.5,
 };
 
@@ -42,11 +50,46 @@ const IMPACT_SCORE: Record<ImpactLevel, number> = {
   弱: 30,
 };
 
+/**
+ * Base score for a watchlist match
+ * Group-company news reaches the parent's holders at half weight.
+ */
+const TICKER_MATCH_SCORE = {
+  direct: 30,
+  via_subsidiary: 15,
+};
+
+/**
+ * Get how a ticker is linked to a cluster
+ * Direct if any event mentions it directly (untagged events are all direct).
+ *
+ * @param event - Clustered event
+ * @param ticker - Ticker code
+ * @returns Relation for the ticker
+ */
+export function getTickerRelation(
+  event: ClusteredEvent,
+  ticker: string,
+): TickerRelation {
+  let viaSubsidiary: TickerRelation | undefined;
+
+  for (const e of event.events) {
+    if (!e.tickerCodes.includes(ticker)) continue;
+    const relation = e.tickerRelations?.find((r) => r.ticker === ticker);
+    if (!relation || relation.relation === 'direct') {
+      return { ticker, relation: 'direct' };
+    }
+    viaSubsidiary = viaSubsidiary || relation;
+  }
+
+  return viaSubsidiary || { ticker, relation: 'direct' };
+}
+
 /**
  * Calculate relevance score for an event to a specific user
  *
  * Scoring factors:
- * 1. Ticker match (base score)
+ * 1. Ticker match (base score; lower when only via a subsidiary)
  * 2. Portfolio position size (if available)
  * 3. Event type preference
  * 4. Base impact level
@@ -73,8 +116,23 @@ export function calculateRelevanceScore(
   }
 
   // Base score for ticker match
-  score += 30;
-  reasons.push(`ウォッチリスト銘柄: ${matchedTickers.join(', ')}`);
+  const relations = matchedTickers.map((t) => getTickerRelation(event, t));
+  const direct = relations.filter((r) => r.relation === 'direct');
+  const viaSubsidiary = relations.filter((r) => r.relation !== 'direct');
+
+  if (direct.length > 0) {
+    score += TICKER_MATCH_SCORE.direct;
+    reasons.push(
+      `ウォッチリスト銘柄: ${direct.map((r) => r.ticker).join(', ')}`,
+    );
+  } else {
+    score += TICKER_MATCH_SCORE.via_subsidiary;
+  }
+  if (viaSubsidiary.length > 0) {
+    reasons.push(
+      `子会社経由: ${viaSubsidiary.map((r) => `${r.ticker}（${r.via}）`).join(', ')}`,
+    );
+  }
 
   // 2. Portfolio position weighting
   if (profile.positions) {
@@ -10,6 +10,19 @@
 import { XMLParser } from 'fast-xml-parser';
 import { v4 as uuidv4 } from 'uuid';
 
+import { extractTickerCodes } from './securitiesMasterService';
+import {
+  CursorUpdate,
+  fetchConditional,
+  getResponseValidators,
+  getSourceCursor,
+} from './sourceCursorRepository';
+import {
+  defineSourceAdapter,
+  filterEventsSince,
+  SourceAdapter,
+  SourceFetchResult,
+} from './sourceRegistry';
 import { RawEvent, RSSFeedItem } from '../types/events';
 
 const xmlParser = new XMLParser({
@@ -53,23 +66,29 @@ export async function fetchRSSFeed(feedUrl: string): Promise<RSSFeedItem[]> {
       );
     }
 
-    const xmlText = await response.text();
-    const parsed = xmlParser.parse(xmlText);
-
-    // Handle both RSS 2.0 and Atom feed formats
-    if (parsed.rss?.channel?.item) {
-      return parseRSS20(parsed.rss.channel.item);
-    } else if (parsed.feed?.entry) {
-      return parseAtom(parsed.feed.entry);
-    } else {
-      throw new Error('Unsupported feed format');
-    }
+    return parseFeed(await response.text());
   } catch (error) {
     console.error(`Failed to fetch RSS feed ${feedUrl}:`, error);
     throw error;
   }
 }
 
+/**
+ * Parse feed XML (RSS 2.0 or Atom)
+ */
+function parseFeed(xmlText: string): RSSFeedItem[] {
+  const parsed = xmlParser.parse(xmlText);
+
+  // Handle both RSS 2.0 and Atom feed formats
+  if (parsed.rss?.channel?.item) {
+    return parseRSS20(parsed.rss.channel.item);
+  } else if (parsed.feed?.entry) {
+    return parseAtom(parsed.feed.entry);
+  } else {
+    throw new Error('Unsupported feed format');
+  }
+}
+
 /**
  * Parse RSS 2.0 format
  */
@@ -147,6 +166,63 @@ export async function fetchRSSFeedEvents(
   }
 }
 
+/**
+ * Fetch only feed items newer than the previous fetch
+ * - Conditional request (If-None-Match / If-Modified-Since)
+ * - Drops items published before the source's cursor; items at the
+ *   cursor's timestamp are kept, since minute-precision pubDates are shared
+ *   by items arriving in later fetches (repeats are removed by
+ *   filterNewEvents)
+ * - Cursor changes are returned, not saved (see commitCursorUpdates)
+ *
+ * @param source - RSS feed source configuration
+ * @returns Raw events for new items and the feed's cursor changes
+ */
+export async function fetchNewRSSFeedEvents(
+  source: RSSFeedSource,
+): Promise<SourceFetchResult> {
+  try {
+    const response = await fetchConditional(source.id, 'feed', source.url, {
+      headers: { 'User-Agent': 'BizStockAlert/0.1.0' },
+    });
+    if (!response) {
+      return { events: [] }; // 304 Not Modified
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        `RSS fetch error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const items = parseFeed(await response.text());
+    const cursor = await getSourceCursor(source.id);
+    const lastTime = cursor.lastPublishedAt
+      ? new Date(cursor.lastPublishedAt).getTime()
+      : -Infinity;
+
+    const events = items
+      .map((item) => convertRSSItemToRawEvent(item, source))
+      .filter((e) => new Date(e.publishedAt).getTime() >= lastTime);
+
+    const cursorUpdate: CursorUpdate = {
+      sourceId: source.id,
+      requestKey: 'feed',
+      request: getResponseValidators(response),
+    };
+    if (events.length > 0) {
+      cursorUpdate.lastPublishedAt = events.reduce((a, b) =>
+        new Date(a.publishedAt) > new Date(b.publishedAt) ? a : b,
+      ).publishedAt;
+    }
+
+    return { events, cursorUpdates: [cursorUpdate] };
+  } catch (error) {
+    console.error(`Failed to fetch new RSS items for ${source.name}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Convert RSS feed item to RawEvent
  */
@@ -154,7 +230,7 @@ function convertRSSItemToRawEvent(
   item: RSSFeedItem,
   source: RSSFeedSource,
 ): RawEvent {
-  // Extract ticker codes from title or categories (heuristic)
+  // Extract ticker codes from title/description (codes and company names)
   const extractedTickers = extractTickerCodes(
     item.title,
     item.description || '',
@@ -177,25 +253,6 @@ function convertRSSItemToRawEvent(
   };
 }
 
-/**
- * Extract ticker codes from text (simple heuristic)
- * Looks for 4-digit numbers that could be Japanese stock codes
- *
- * @param text - Text to search
- * @returns Array of potential ticker codes
- */
-function extractTickerCodes(...texts: string[]): string[] {
-  const combined = texts.join(' ');
-  // Match 4-digit numbers (Japanese stock codes)
-  const matches = combined.match(/\b\d{4}\b/g);
-  if (!matches) return [];
-
-  // Filter to valid ticker code range (typically 1000-9999)
-  return [...new Set(matches)].filter(
-    (code) => parseInt(code, 10) >= 1000 && parseInt(code, 10) <= 9999,
-  );
-}
-
 /**
  * Fetch multiple RSS feeds concurrently
  *
@@ -221,6 +278,24 @@ export async function fetchMultipleRSSFeeds(
   return allEvents;
 }
 
+/**
+ * Create a source adapter for an RSS/Atom feed
+ * The adapter ID is the feed source ID (e.g., "prtimes").
+ *
+ * @param source - RSS feed source configuration
+ * @returns Source adapter
+ */
+export function createRSSAdapter(source: RSSFeedSource): SourceAdapter {
+  return defineSourceAdapter({
+    id: source.id,
+    tier: source.tier,
+    fetch: async (since) => {
+      const result = await fetchNewRSSFeedEvents(source);
+      return { ...result, events: filterEventsSince(result.events, since) };
+    },
+  });
+}
+
 /**
  * Pre-configured RSS feed sources for common PR/IR providers
  */
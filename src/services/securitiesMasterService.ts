@@ -0,0 +1,330 @@
+/**
+ * Securities Master Service
+ *
+ * Bundled, updatable list of listed issues (code, names, EDINET code,
+ * market segment, sector) and resolvers built on it.
+ * Per product spec: ticker resolution must not produce false alerts
+ * - Company names in headlines (PR TIMES etc.) → ticker codes
+ * - Codes (7203, 130A) are only tickers with code context (（7203）, コード:7203)
+ *   or when listed in the master; years, amounts and counts are rejected
+ * - Display names for the UI instead of bare codes
+ */
+
+import {
+  BUNDLED_SECURITIES,
+  BUNDLED_SECURITIES_VERSION,
+} from '../data/securities';
+import { SecurityInfo } from '../types/events';
+import { loadJSON, saveJSON } from '../utils/storage';
+import { isTickerCode, TICKER_CODE_SOURCE } from '../utils/tickerCode';
+
+/**
+ * Master list installed via updateSecuritiesMaster (persisted)
+ */
+interface StoredSecuritiesMaster {
+  version: string;
+  securities: SecurityInfo[];
+}
+
+/**
+ * Name pattern for headline matching
+ */
+interface NamePattern {
+  pattern: string;
+  code: string;
+  /** ASCII names need word boundaries ("ANA" must not match "ANALYST") */
+  ascii: boolean;
+}
+
+/**
+ * Lookup indexes over the current master list
+ */
+interface SecuritiesIndex {
+  byCode: Map<string, SecurityInfo>;
+  byEdinetCode: Map<string, SecurityInfo>;
+  /** Longest first, so "ソフトバンクグループ" wins over "ソフトバンク" */
+  patterns: NamePattern[];
+}
+
+const STORAGE_KEY = 'securitiesMaster';
+
+/**
+ * Names shorter than this are never matched in free text
+ */
+const MIN_NAME_LENGTH = 2;
+
+/**
+ * Text right before a number that marks it as a securities code
+ */
+const CODE_PREFIX_PATTERN =
+  /(?:[([【［]|コード[:：]?|東証(?:プライム|スタンダード|グロース)?[:：・]?)\s*$/;
+
+/**
+ * Text right after a number that marks it as a quantity, date or amount
+ */
+const NON_CODE_SUFFIX_PATTERN =
+  /^\s*(?:年|月|日|期|円|%|万|億|千|百|件|人|名|株|倍|個|台|回|社|号|系|型|店|km|kg|m|g)/i;
+
+/**
+ * Text right before a number that marks it as a non-code value
+ */
+const NON_CODE_PREFIX_PATTERN = /(?:[¥$€£＄]|第|FY|No\.?|#)\s*$/i;
+
+let version = BUNDLED_SECURITIES_VERSION;
+let index = buildIndex(BUNDLED_SECURITIES);
+
+/**
+ * Normalize text for matching (full-width → half-width, compatibility forms)
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC');
+}
+
+/**
+ * Whether a character is an ASCII letter or digit
+ */
+function isAsciiWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Build lookup indexes for a master list
+ */
+function buildIndex(securities: SecurityInfo[]): SecuritiesIndex {
+  const byCode = new Map<string, SecurityInfo>();
+  const byEdinetCode = new Map<string, SecurityInfo>();
+  const patterns: NamePattern[] = [];
+  const seen = new Set<string>();
+
+  for (const security of securities) {
+    byCode.set(security.code, security);
+    if (security.edinetCode) {
+      byEdinetCode.set(security.edinetCode, security);
+    }
+
+    const names = [
+      security.name,
+      security.nameEn,
+      ...(security.aliases || []),
+      ...(security.formerNames || []),
+    ];
+    for (const name of names) {
+      if (!name) continue;
+      const pattern = normalizeText(name);
+      if (pattern.length < MIN_NAME_LENGTH || seen.has(pattern)) continue;
+      seen.add(pattern);
+      patterns.push({
+        pattern,
+        code: security.code,
+        ascii: /^[\x20-\x7E]+$/.test(pattern),
+      });
+    }
+  }
+
+  patterns.sort((a, b) => b.pattern.length - a.pattern.length);
+  return { byCode, byEdinetCode, patterns };
+}
+
+/**
+ * Load a previously installed master list (call once at app start)
+ * The stored list is used only if it is newer than the bundled one.
+ */
+export async function initializeSecuritiesMaster(): Promise<void> {
+  const stored = await loadJSON<StoredSecuritiesMaster | null>(
+    STORAGE_KEY,
+    null,
+  );
+  if (stored && stored.version > BUNDLED_SECURITIES_VERSION) {
+    version = stored.version;
+    index = buildIndex(stored.securities);
+  }
+}
+
+/**
+ * Install a new master list and persist it
+ * Entries without a valid code or name are dropped.
+ *
+ * @param securities - Full master list
+ * @param newVersion - Version of the list (YYYY-MM-DD)
+ * @returns Number of entries installed
+ */
+export async function updateSecuritiesMaster(
+  securities: SecurityInfo[],
+  newVersion: string,
+): Promise<number> {
+  const valid = securities.filter((s) => s && isTickerCode(s.code) && !!s.name);
+  version = newVersion;
+  index = buildIndex(valid);
+  await saveJSON(STORAGE_KEY, { version: newVersion, securities: valid });
+  return valid.length;
+}
+
+/**
+ * Get the version of the active master list
+ */
+export function getSecuritiesMasterVersion(): string {
+  return version;
+}
+
+/**
+ * Look up an issue by securities code
+ *
+ * @param code - Securities code (e.g., "7203")
+ * @returns Master entry or undefined if unknown
+ */
+export function getSecurity(code: string): SecurityInfo | undefined {
+  return index.byCode.get(code);
+}
+
+/**
+ * Look up an issue by EDINET code
+ *
+ * @param edinetCode - EDINETコード (e.g., "E02144")
+ * @returns Master entry or undefined if unknown
+ */
+export function getSecurityByEdinetCode(
+  edinetCode: string,
+): SecurityInfo | undefined {
+  return index.byEdinetCode.get(edinetCode);
+}
+
+/**
+ * Get display name for a securities code
+ *
+ * @param code - Securities code
+ * @returns Company name, or undefined if the code is not in the master
+ */
+export function getCompanyName(code: string): string | undefined {
+  return index.byCode.get(code)?.name;
+}
+
+/**
+ * Resolve user input (code, name, alias, former name or kana) to an issue
+ * Used for watchlist entry; requires an exact match.
+ *
+ * @param query - User input
+ * @returns Master entry or undefined if nothing matches
+ */
+export function resolveSecurity(query: string): SecurityInfo | undefined {
+  const normalized = normalizeText(query).trim().toUpperCase();
+  if (!normalized) return undefined;
+
+  const byCode = index.byCode.get(normalized);
+  if (byCode) return byCode;
+
+  for (const security of index.byCode.values()) {
+    const names = [
+      security.name,
+      security.nameEn,
+      security.kana,
+      ...(security.aliases || []),
+      ...(security.formerNames || []),
+    ];
+    if (names.some((n) => n && normalizeText(n).toUpperCase() === normalized)) {
+      return security;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find issues mentioned by name in free text
+ * Longest names are matched first and matches never overlap, so
+ * "ソフトバンクグループ" does not also yield ソフトバンク.
+ *
+ * @param text - Headline or excerpt
+ * @returns Securities codes in order of first mention
+ */
+export function findCodesByName(text: string): string[] {
+  const normalized = normalizeText(text);
+  const taken: [number, number][] = [];
+  const matches: { code: string; start: number }[] = [];
+
+  for (const { pattern, code, ascii } of index.patterns) {
+    const haystack = ascii ? normalized.toUpperCase() : normalized;
+    const needle = ascii ? pattern.toUpperCase() : pattern;
+
+    for (
+      let start = haystack.indexOf(needle);
+      start >= 0;
+      start = haystack.indexOf(needle, start + 1)
+    ) {
+      const end = start + needle.length;
+      if (
+        ascii &&
+        (isAsciiWordChar(haystack[start - 1]) || isAsciiWordChar(haystack[end]))
+      ) {
+        continue;
+      }
+      if (taken.some(([s, e]) => start < e && end > s)) {
+        continue;
+      }
+      taken.push([start, end]);
+      matches.push({ code, start });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+  return [...new Set(matches.map((m) => m.code))];
+}
+
+/**
+ * Whether a year-like number (1900-2099) could be a code
+ */
+function isYearLike(code: string): boolean {
+  const num = parseInt(code, 10);
+  return num >= 1900 && num <= 2099;
+}
+
+/**
+ * Find securities codes (4-digit or alphanumeric) in free text
+ * - With code context (（7203）, コード:7203, 東証プライム:7203): accepted
+ *   if listed, or if not year-like
+ * - Bare numbers: accepted only if listed in the master
+ * - Numbers followed by units (年, 円, %, 件...) are never codes
+ *
+ * @param text - Headline or excerpt
+ * @returns Securities codes in order of appearance
+ */
+export function findCodesByNumber(text: string): string[] {
+  const normalized = normalizeText(text);
+  const codes: string[] = [];
+
+  const pattern = new RegExp(TICKER_CODE_SOURCE, 'g');
+
+  for (const match of normalized.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + 4;
+    const before = normalized.substring(Math.max(0, start - 10), start);
+    const after = normalized.substring(end, end + 3);
+    const code = match[0];
+
+    // Part of a longer number or identifier
+    if (/[\d.,A-Za-z]$/.test(before) || /^[\d.,A-Za-z]/.test(after)) {
+      continue;
+    }
+    if (NON_CODE_SUFFIX_PATTERN.test(after)) continue;
+    if (NON_CODE_PREFIX_PATTERN.test(before)) continue;
+
+    const listed = index.byCode.has(code);
+    const hasContext = CODE_PREFIX_PATTERN.test(before);
+    if (listed || (hasContext && !isYearLike(code))) {
+      codes.push(code);
+    }
+  }
+
+  return [...new Set(codes)];
+}
+
+/**
+ * Extract securities codes from free text (numbers and company names)
+ *
+ * @param texts - Headline, excerpt, etc.
+ * @returns Unique securities codes
+ */
+export function extractTickerCodes(...texts: string[]): string[] {
+  const combined = texts.join(' ');
+  return [
+    ...new Set([...findCodesByNumber(combined), ...findCodesByName(combined)]),
+  ];
+}
@@ -0,0 +1,241 @@
+/**
+ * Headline Similarity Service
+ *
+ * Pluggable similarity strategies for event clustering.
+ * Per product spec: duplicate headlines from multiple sources must merge
+ * - jaccard: character bigram Jaccard (exact, small batches)
+ * - tfidf: cosine over bigram TF-IDF vectors (down-weights boilerplate
+ *   such as "に関するお知らせ" that every filing title shares)
+ * - minhash: MinHash signatures with LSH banding pick candidate pairs,
+ *   which are then scored with exact bigram Jaccard (for large batches)
+ * - auto: jaccard, switching to minhash above MINHASH_AUTO_THRESHOLD
+ */
+
+/**
+ * Similarity strategy identifier
+ */
+export type SimilarityMethod = 'jaccard' | 'tfidf' | 'minhash' | 'auto';
+
+/**
+ * Similarity over a batch of texts, addressed by index
+ */
+export interface SimilarityScorer {
+  /** Similarity of texts i and j (0-1) */
+  similarity(i: number, j: number): number;
+  /**
+   * Whether texts i and j are worth scoring at all
+   * Absent when every pair is a candidate.
+   */
+  isCandidate?(i: number, j: number): boolean;
+}
+
+/**
+ * Similarity strategy: prepares a scorer for one batch of texts
+ */
+export interface SimilarityStrategy {
+  method: Exclude<SimilarityMethod, 'auto'>;
+  build(texts: string[]): SimilarityScorer;
+}
+
+/**
+ * Batch size from which 'auto' uses MinHash/LSH
+ */
+export const MINHASH_AUTO_THRESHOLD = 2000;
+
+/**
+ * MinHash signature length (LSH_BANDS × LSH_ROWS)
+ * 16 bands of 4 rows put the LSH threshold near Jaccard 0.5, well
+ * below the clustering threshold, so few true pairs are missed.
+ */
+const LSH_BANDS = 16;
+const LSH_ROWS = 4;
+const SIGNATURE_LENGTH = LSH_BANDS * LSH_ROWS;
+
+/**
+ * Normalize text for similarity calculation
+ */
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/[、。！？｜|!?,.]/g, '');
+}
+
+/**
+ * Get character bigrams from text
+ */
+export function getBigrams(text: string): Set<string> {
+  const bigrams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) {
+    bigrams.add(text.substring(i, i + 2));
+  }
+  return bigrams;
+}
+
+/**
+ * Jaccard similarity of two sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const item of small) {
+    if (large.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Second, independent hash of a value (odd, for double hashing)
+ */
+function rehash(value: number): number {
+  let x = Math.imul(value ^ 0x5bd1e995, 0x9e3779b1);
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  return (x | 1) >>> 0;
+}
+
+/**
+ * Bigram Jaccard (exact)
+ */
+export const jaccardStrategy: SimilarityStrategy = {
+  method: 'jaccard',
+  build(texts) {
+    const sets = texts.map((t) => getBigrams(normalizeForSimilarity(t)));
+    return { similarity: (i, j) => jaccard(sets[i], sets[j]) };
+  },
+};
+
+/**
+ * Cosine similarity over bigram TF-IDF vectors
+ * IDF is computed over the batch (smoothed, so 2-text batches still work).
+ */
+export const tfidfStrategy: SimilarityStrategy = {
+  method: 'tfidf',
+  build(texts) {
+    const counts = texts.map((t) => {
+      const text = normalizeForSimilarity(t);
+      const tf = new Map<string, number>();
+      for (let k = 0; k < text.length - 1; k++) {
+        const bigram = text.substring(k, k + 2);
+        tf.set(bigram, (tf.get(bigram) || 0) + 1);
+      }
+      return tf;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    for (const tf of counts) {
+      for (const bigram of tf.keys()) {
+        documentFrequency.set(bigram, (documentFrequency.get(bigram) || 0) + 1);
+      }
+    }
+
+    const n = texts.length;
+    const vectors = counts.map((tf) => {
+      const vector = new Map<string, number>();
+      let norm = 0;
+      for (const [bigram, count] of tf) {
+        const df = documentFrequency.get(bigram) || 0;
+        const weight = count * (Math.log((1 + n) / (1 + df)) + 1);
+        vector.set(bigram, weight);
+        norm += weight * weight;
+      }
+      norm = Math.sqrt(norm);
+      for (const [bigram, weight] of vector) {
+        vector.set(bigram, norm > 0 ? weight / norm : 0);
+      }
+      return vector;
+    });
+
+    return {
+      similarity(i, j) {
+        const [small, large] =
+          vectors[i].size <= vectors[j].size
+            ? [vectors[i], vectors[j]]
+            : [vectors[j], vectors[i]];
+        let dot = 0;
+        for (const [bigram, weight] of small) {
+          dot += weight * (large.get(bigram) || 0);
+        }
+        return Math.min(1, dot);
+      },
+    };
+  },
+};
+
+/**
+ * Bigram Jaccard restricted to MinHash/LSH candidate pairs
+ * Scoring candidates exactly (rather than by signature agreement) keeps
+ * results identical to jaccard for any pair LSH lets through.
+ */
+export const minhashStrategy: SimilarityStrategy = {
+  method: 'minhash',
+  build(texts) {
+    const sets = texts.map((t) => getBigrams(normalizeForSimilarity(t)));
+    const signatures = sets.map((bigrams) => {
+      const signature = new Uint32Array(SIGNATURE_LENGTH).fill(0xffffffff);
+      for (const bigram of bigrams) {
+        // Double hashing: h1 + k·h2 gives SIGNATURE_LENGTH hash functions
+        const h1 = hashString(bigram);
+        const h2 = rehash(h1);
+        for (let k = 0; k < SIGNATURE_LENGTH; k++) {
+          const value = (h1 + Math.imul(k, h2)) >>> 0;
+          if (value < signature[k]) signature[k] = value;
+        }
+      }
+      return signature;
+    });
+
+    // Band keys: texts sharing any whole band are candidates
+    const bandKeys = signatures.map((signature) =>
+      Array.from({ length: LSH_BANDS }, (_, band) =>
+        signature.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS).join(','),
+      ),
+    );
+
+    return {
+      similarity: (i, j) => jaccard(sets[i], sets[j]),
+      isCandidate: (i, j) =>
+        bandKeys[i].some((key, band) => key === bandKeys[j][band]),
+    };
+  },
+};
+
+const STRATEGIES: Record<SimilarityStrategy['method'], SimilarityStrategy> = {
+  jaccard: jaccardStrategy,
+  tfidf: tfidfStrategy,
+  minhash: minhashStrategy,
+};
+
+/**
+ * Get the similarity strategy for a method
+ *
+ * @param method - Similarity method ('auto' resolves by batch size)
+ * @param batchSize - Number of texts to be compared
+ * @returns Similarity strategy
+ */
+export function getSimilarityStrategy(
+  method: SimilarityMethod = 'auto',
+  batchSize = 0,
+): SimilarityStrategy {
+  if (method === 'auto') {
+    return batchSize >= MINHASH_AUTO_THRESHOLD
+      ? minhashStrategy
+      : jaccardStrategy;
+  }
+  return STRATEGIES[method] || jaccardStrategy;
+}
@@ -0,0 +1,230 @@
+/**
+ * Source Cursor Repository
+ *
+ * Persistent per-source cursors for incremental fetching.
+ * Per product spec: 30-60 second polling must stay cheap on mobile data
+ * - HTTP validators (ETag / Last-Modified) sent as If-None-Match /
+ *   If-Modified-Since, so unchanged listings cost a 304
+ * - Last processed item per request (e.g., EDINET docID) and newest
+ *   publish time per source, so only deltas are converted and clustered
+ * - Fetches return their cursor changes (CursorUpdate) instead of saving
+ *   them; the pipeline commits them once the events are recorded as seen,
+ *   so a failed run is refetched rather than skipped
+ */
+
+import { createStoredValue } from '../utils/storage';
+
+/**
+ * Cursor for one request (feed URL, listing page for a date, ...)
+ */
+export interface RequestCursor {
+  /** ETag from the last successful response */
+  etag?: string;
+  /** Last-Modified from the last successful response */
+  lastModified?: string;
+  /** Source-native ID of the newest item processed from this request */
+  lastId?: string;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/**
+ * Cursor for a source adapter
+ */
+export interface SourceCursor {
+  /** Publish time (ISO) of the newest event processed */
+  lastPublishedAt?: string;
+  /** Request cursors by request key (e.g., "documents:2025-06-18") */
+  requests: Record<string, RequestCursor>;
+}
+
+/**
+ * Cursor change produced by a fetch (see commitCursorUpdates)
+ */
+export interface CursorUpdate {
+  /** Source adapter ID */
+  sourceId: string;
+  /** Request key and its new validators / last ID */
+  requestKey?: string;
+  request?: Omit<RequestCursor, 'updatedAt'>;
+  /** Publish time (ISO) of the newest event returned */
+  lastPublishedAt?: string;
+}
+
+const STORAGE_KEY = 'sourceCursors';
+
+/**
+ * Request cursors not updated for this long are pruned (days)
+ * Date-keyed requests (EDINET/TDnet listings) would otherwise accumulate.
+ */
+const REQUEST_RETENTION_DAYS = 7;
+
+const cursors = createStoredValue<Record<string, SourceCursor>>(
+  STORAGE_KEY,
+  () => ({}),
+);
+
+/**
+ * Get (or create) the cursor entry for a source
+ */
+async function getEntry(sourceId: string): Promise<SourceCursor> {
+  const current = await cursors.load();
+  if (!current[sourceId]) {
+    current[sourceId] = { requests: {} };
+  }
+  return current[sourceId];
+}
+
+/**
+ * Remove request cursors not updated within the retention period
+ */
+function pruneRequests(cursor: SourceCursor, now: Date): void {
+  const cutoff = now.getTime() - REQUEST_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [key, request] of Object.entries(cursor.requests)) {
+    if (new Date(request.updatedAt).getTime() < cutoff) {
+      delete cursor.requests[key];
+    }
+  }
+}
+
+/**
+ * Get the cursor for a source
+ *
+ * @param sourceId - Source adapter ID (e.g., "EDINET")
+ * @returns Cursor (empty if the source was never fetched)
+ */
+export async function getSourceCursor(sourceId: string): Promise<SourceCursor> {
+  const entry = await getEntry(sourceId);
+  return {
+    lastPublishedAt: entry.lastPublishedAt,
+    requests: { ...entry.requests },
+  };
+}
+
+/**
+ * Advance the newest processed publish time for a source
+ * Older timestamps are ignored so the cursor never moves backwards.
+ *
+ * @param sourceId - Source adapter ID
+ * @param publishedAt - Publish time (ISO) of the newest processed event
+ */
+export async function advanceSourceCursor(
+  sourceId: string,
+  publishedAt: string,
+): Promise<void> {
+  const entry = await getEntry(sourceId);
+  if (
+    !entry.lastPublishedAt ||
+    new Date(publishedAt).getTime() > new Date(entry.lastPublishedAt).getTime()
+  ) {
+    entry.lastPublishedAt = publishedAt;
+    await cursors.save();
+  }
+}
+
+/**
+ * Update the cursor for one request
+ * Call after the response was processed, so a failed run is retried.
+ *
+ * @param sourceId - Source adapter ID
+ * @param requestKey - Request key (stable, must not contain API keys)
+ * @param update - Validators and/or last processed ID
+ * @param now - Reference time (defaults to now)
+ */
+export async function updateRequestCursor(
+  sourceId: string,
+  requestKey: string,
+  update: Omit<RequestCursor, 'updatedAt'>,
+  now: Date = new Date(),
+): Promise<void> {
+  const entry = await getEntry(sourceId);
+  entry.requests[requestKey] = {
+    ...entry.requests[requestKey],
+    ...update,
+    updatedAt: now.toISOString(),
+  };
+  pruneRequests(entry, now);
+  await cursors.save();
+}
+
+/**
+ * Save the cursor changes of a pipeline run
+ * Call once the run's events are recorded as seen (markEventsSeen).
+ *
+ * @param updates - Cursor changes returned by the fetches
+ * @param now - Reference time (defaults to now)
+ */
+export async function commitCursorUpdates(
+  updates: CursorUpdate[],
+  now: Date = new Date(),
+): Promise<void> {
+  for (const update of updates) {
+    if (update.requestKey && update.request) {
+      await updateRequestCursor(
+        update.sourceId,
+        update.requestKey,
+        update.request,
+        now,
+      );
+    }
+    if (update.lastPublishedAt) {
+      await advanceSourceCursor(update.sourceId, update.lastPublishedAt);
+    }
+  }
+}
+
+/**
+ * Fetch with conditional request headers from the stored cursor
+ * Validators are not stored here; return getResponseValidators(response)
+ * in a CursorUpdate once the body has been processed.
+ *
+ * @param sourceId - Source adapter ID
+ * @param requestKey - Request key (stable, must not contain API keys)
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @returns Response, or null if the resource is unchanged (304)
+ */
+export async function fetchConditional(
+  sourceId: string,
+  requestKey: string,
+  url: string,
+  init: RequestInit = {},
+): Promise<Response | null> {
+  const entry = await getEntry(sourceId);
+  const request = entry.requests[requestKey];
+
+  const headers: Record<string, string> = {
+    ...(init.headers as Record<string, string> | undefined),
+  };
+  if (request?.etag) {
+    headers['If-None-Match'] = request.etag;
+  }
+  if (request?.lastModified) {
+    headers['If-Modified-Since'] = request.lastModified;
+  }
+
+  const response = await fetch(url, { ...init, headers });
+  return response.status === 304 ? null : response;
+}
+
+/**
+ * Read HTTP validators from a response
+ *
+ * @param response - Fetch response
+ * @returns ETag and Last-Modified (when present)
+ */
+export function getResponseValidators(
+  response: Response,
+): Pick<RequestCursor, 'etag' | 'lastModified'> {
+  return {
+    etag: response.headers?.get('ETag') || undefined,
+    lastModified: response.headers?.get('Last-Modified') || undefined,
+  };
+}
+
+/**
+ * Clear all cursors (for testing/debugging, or to force a full refetch)
+ */
+export async function clearSourceCursors(): Promise<void> {
+  await cursors.clear();
+}
@@ -0,0 +1,184 @@
+/**
+ * Source Adapter Registry
+ *
+ * Common interface for data sources (EDINET, TDnet, RSS, company IR pages...)
+ * so new sources can be added without editing the ingestion orchestrator.
+ * Per product spec: every source declares its tier (A/B/C) up front
+ * - fetch(since, tickers): return events published at or after `since`,
+ *   with the cursor changes to commit once they are processed; `tickers`
+ *   lets sources skip per-item downloads for companies nobody watches
+ * - health(): last success/failure, used to surface broken sources
+ */
+
+import { CursorUpdate } from './sourceCursorRepository';
+import { RawEvent, SourceTier } from '../types/events';
+
+/**
+ * Health snapshot for a source adapter
+ * - unknown: never fetched
+ * - healthy: last fetch succeeded
+ * - degraded: recent failures (below FAILING_THRESHOLD)
+ * - failing: FAILING_THRESHOLD or more consecutive failures
+ */
+export interface SourceHealth {
+  status: 'unknown' | 'healthy' | 'degraded' | 'failing';
+  /** ISO timestamp of the last successful fetch */
+  lastSuccessAt?: string;
+  /** ISO timestamp of the last failed fetch */
+  lastFailureAt?: string;
+  /** Error message from the last failed fetch */
+  lastError?: string;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Duration of the last fetch (ms) */
+  lastDurationMs?: number;
+}
+
+/**
+ * Result of an adapter fetch
+ */
+export interface SourceFetchResult {
+  /** Fetched events */
+  events: RawEvent[];
+  /** Cursor changes to commit after the events are recorded as seen */
+  cursorUpdates?: CursorUpdate[];
+}
+
+/**
+ * Data source adapter
+ */
+export interface SourceAdapter {
+  /** Unique identifier (matches RawEvent.source, e.g., "EDINET") */
+  id: string;
+  /** Source tier classification */
+  tier: SourceTier;
+  /**
+   * Fetch events
+   * @param since - Only events published at or after this time (default: today)
+   * @param tickers - Watched tickers; events about others may be left out
+   */
+  fetch(since?: Date, tickers?: string[]): Promise<SourceFetchResult>;
+  /** Current health snapshot */
+  health(): SourceHealth;
+}
+
+/**
+ * Adapter definition without health tracking (see defineSourceAdapter)
+ */
+export interface SourceAdapterDefinition {
+  id: string;
+  tier: SourceTier;
+  fetch(since?: Date, tickers?: string[]): Promise<SourceFetchResult>;
+}
+
+/**
+ * Consecutive failures before a source is reported as failing
+ */
+const FAILING_THRESHOLD = 3;
+
+const registry = new Map<string, SourceAdapter>();
+
+/**
+ * Create a source adapter with built-in health tracking
+ *
+ * @param definition - Adapter ID, tier and fetch function
+ * @returns Source adapter
+ */
+export function defineSourceAdapter(
+  definition: SourceAdapterDefinition,
+): SourceAdapter {
+  const state: SourceHealth = { status: 'unknown', consecutiveFailures: 0 };
+
+  return {
+    id: definition.id,
+    tier: definition.tier,
+    async fetch(since?: Date, tickers?: string[]): Promise<SourceFetchResult> {
+      const startTime = Date.now();
+      try {
+        const result = await definition.fetch(since, tickers);
+        state.status = 'healthy';
+        state.lastSuccessAt = new Date().toISOString();
+        state.consecutiveFailures = 0;
+        return result;
+      } catch (error) {
+        state.consecutiveFailures += 1;
+        state.status =
+          state.consecutiveFailures >= FAILING_THRESHOLD
+            ? 'failing'
+            : 'degraded';
+        state.lastFailureAt = new Date().toISOString();
+        state.lastError =
+          error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        state.lastDurationMs = Date.now() - startTime;
+      }
+    },
+    health(): SourceHealth {
+      return { ...state };
+    },
+  };
+}
+
+/**
+ * Keep only events published at or after `since`
+ *
+ * @param events - Fetched events
+ * @param since - Lower bound (no filtering when omitted)
+ * @returns Filtered events
+ */
+export function filterEventsSince(
+  events: RawEvent[],
+  since?: Date,
+): RawEvent[] {
+  if (!since) return events;
+  const cutoff = since.getTime();
+  return events.filter((e) => new Date(e.publishedAt).getTime() >= cutoff);
+}
+
+/**
+ * Register a source adapter
+ * Replaces any adapter already registered under the same ID.
+ *
+ * @param adapter - Source adapter
+ */
+export function registerSourceAdapter(adapter: SourceAdapter): void {
+  registry.set(adapter.id, adapter);
+}
+
+/**
+ * Remove a source adapter
+ *
+ * @param id - Adapter ID
+ */
+export function unregisterSourceAdapter(id: string): void {
+  registry.delete(id);
+}
+
+/**
+ * Get a registered source adapter
+ *
+ * @param id - Adapter ID
+ * @returns Adapter or undefined if not registered
+ */
+export function getSourceAdapter(id: string): SourceAdapter | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Get registered source adapters in registration order
+ *
+ * @param ids - Optional adapter IDs to select (unknown IDs are ignored)
+ * @returns Source adapters
+ */
+export function getSourceAdapters(ids?: string[]): SourceAdapter[] {
+  const adapters = Array.from(registry.values());
+  return ids ? adapters.filter((a) => ids.includes(a.id)) : adapters;
+}
+
+/**
+ * Remove all adapters (for testing)
+ */
+export function clearSourceAdapters(): void {
+  registry.clear();
+}
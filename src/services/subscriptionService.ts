@@ -0,0 +1,119 @@
+/**
+ * Subscription Service
+ *
+ * Per-ticker notification overrides on top of the global settings.
+ * Per product spec: users tune alerts per holding, not only globally
+ * - Mute a ticker
+ * - Only 強 for a ticker
+ * - Always immediate for a core holding
+ * - Event type filters per ticker
+ * The cluster's primary ticker decides which override applies.
+ */
+
+import { FollowUpPreferences, routeClusterDelta } from './threadService';
+import {
+  ClusterDelta,
+  ClusteredEvent,
+  EventType,
+  TickerNotificationMode,
+  TickerNotificationOverride,
+} from '../types/events';
+
+/**
+ * Everything decideNotification needs from settings
+ */
+export interface NotificationPreferences extends FollowUpPreferences {
+  /** Overrides by ticker code (tickers without one use 'default') */
+  tickerOverrides: Record<string, TickerNotificationOverride>;
+}
+
+/**
+ * Push decision for one cluster delta
+ */
+export interface NotificationDecision {
+  push: boolean;
+  /** Why (for debugging and notification history) */
+  reason: string;
+}
+
+/**
+ * Display labels for ticker modes (watchlist rows)
+ */
+export const TICKER_MODE_LABELS: Record<TickerNotificationMode, string> = {
+  default: '通常',
+  highOnly: '強のみ',
+  immediate: '常に即時',
+  followUpsOnly: '続報のみ',
+  muted: 'ミュート',
+};
+
+/**
+ * Get the override that applies to a cluster
+ *
+ * @param cluster - Cluster to be notified
+ * @param overrides - Overrides by ticker code
+ * @returns Override of the primary ticker (default if none)
+ */
+export function getTickerOverride(
+  cluster: ClusteredEvent,
+  overrides: Record<string, TickerNotificationOverride>,
+): TickerNotificationOverride {
+  return overrides[cluster.primaryTicker] || { mode: 'default' };
+}
+
+/**
+ * Whether any event type of a cluster passes a type filter
+ */
+function matchesEventTypes(
+  cluster: ClusteredEvent,
+  eventTypes: EventType[] | undefined,
+): boolean {
+  if (!eventTypes || eventTypes.length === 0) return true;
+  const clusterTypes = new Set<EventType>([
+    cluster.eventType,
+    ...cluster.events.flatMap((e) => e.eventTypes || [e.eventType]),
+  ]);
+  return eventTypes.some((t) => clusterTypes.has(t));
+}
+
+/**
+ * Decide whether a cluster delta is pushed immediately
+ * Called before sendImmediateNotification; anything not pushed is left
+ * for the digest.
+ * 1. Muted ticker: never
+ * 2. Event type filter of the ticker: other types never
+ * 3. Always immediate: every new cluster (follow-ups as in 4)
+ * 4. Global and thread rules (see routeClusterDelta); 続報のみ tickers
+ *    are passed through as followUpsOnlyTickers
+ * 5. 強のみ: only 強 clusters, even for follow-ups
+ *
+ * @param delta - Delta with thread information
+ * @param prefs - Global, thread and ticker settings
+ * @returns Push decision with reason
+ */
+export function decideNotification(
+  delta: ClusterDelta,
+  prefs: NotificationPreferences,
+): NotificationDecision {
+  const { cluster } = delta;
+  const override = getTickerOverride(cluster, prefs.tickerOverrides);
+
+  if (override.mode === 'muted') {
+    return { push: false, reason: 'ミュート中の銘柄' };
+  }
+  if (!matchesEventTypes(cluster, override.eventTypes)) {
+    return { push: false, reason: '対象外のイベント種別' };
+  }
+  if (override.mode === 'immediate' && delta.type === 'created') {
+    return { push: true, reason: '常に即時の銘柄' };
+  }
+
+  const route = routeClusterDelta(delta, {
+    ...prefs,
+    highImmediate: prefs.highImmediate || override.mode === 'highOnly',
+  });
+  if (override.mode === 'highOnly' && route.push && cluster.impact !== '強') {
+    return { push: false, reason: '強のみの銘柄' };
+  }
+  return route;
+}
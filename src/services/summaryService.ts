@@ -5,16 +5,37 @@
  * - 150-250 characters
  * - Facts only, no speculation
  * - No forbidden words (price targets, buy/sell recommendations, etc.)
- * - Numeric consistency (only numbers from source)
+ * - Numeric consistency (only numbers from source, compared by value)
  * - Failsafe on error
+ * - Results are cached by content and prompt version (aiCacheRepository),
+ *   including summaries rejected for forbidden words
+ * - Failsafe once the AI budget is spent (aiUsageService)
  */
 
 import {
-  callOpenAIWithRetry,
+  getAICacheKey,
+  getCachedAIResult,
+  setCachedAIResult,
+} from './aiCacheRepository';
+import {
+  callLLMWithRetry,
+  getAIModel,
   getFailsafeMessage,
   isAIInitialized,
 } from './aiService';
-import { NormalizedEvent } from '../types/events';
+import { checkAIBudget, recordAIUsage } from './aiUsageService';
+import {
+  FinancialFigures,
+  FinancialValues,
+  NormalizedEvent,
+  QuantityUnit,
+} from '../types/events';
+import {
+  extractBareNumbers,
+  extractFigureChanges,
+  extractQuantities,
+  getQuantityPrecision,
+} from '../utils/numberNormalizer';
 
 /**
  * Summary generation result
@@ -26,8 +47,16 @@ export interface SummaryResult {
   isFailsafe: boolean;
   /** Validation warnings (if any) */
   warnings: string[];
+  /** Whether this came from the AI result cache */
+  cached?: boolean;
 }
 
+/**
+ * Summary prompt version (part of the cache key)
+ * Bump when the prompts change so cached summaries are regenerated.
+ */
+const SUMMARY_PROMPT_VERSION = 1;
+
 /**
  * Forbidden words/phrases per product spec
  * - 断定的助言 (definitive advice)
@@ -76,16 +105,46 @@ export async function generateSummary(
     };
   }
 
+  // Everything else in the prompt (and the figures the numeric check uses),
+  // so a summary made before XBRL figures or a refined type is not reused
+  const cacheKey = getAICacheKey({
+    kind: 'summary',
+    title: event.title,
+    excerpt: event.excerpt,
+    model: getAIModel() ?? 'unknown',
+    promptVersion: SUMMARY_PROMPT_VERSION,
+    context: [
+      event.eventType,
+      event.sourceName,
+      event.publishedAt,
+      JSON.stringify(event.financials ?? null),
+    ],
+  });
+  const cached = await getCachedAIResult<SummaryResult>(cacheKey);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const budget = await checkAIBudget();
+  if (!budget.allowed) {
+    return {
+      summary: getFailsafeMessage(),
+      isFailsafe: true,
+      warnings: [budget.reason || 'AI budget exhausted'],
+    };
+  }
+
   try {
     const systemPrompt = buildSummarySystemPrompt();
     const userMessage = buildSummaryUserMessage(event);
 
-    const response = await callOpenAIWithRetry({
+    const response = await callLLMWithRetry({
       systemPrompt,
       userMessage,
       temperature: 0,
       maxTokens: 200,
     });
+    await recordAIUsage('summary', response.model, response.usage);
 
     const summary = response.text.trim();
 
@@ -103,12 +162,15 @@ export async function generateSummary(
     const forbiddenFound = checkForbiddenWords(summary);
     if (forbiddenFound.length > 0) {
       warnings.push(`Forbidden words found: ${forbiddenFound.join(', ')}`);
-      // Return failsafe if forbidden words detected
-      return {
+      // Return failsafe if forbidden words detected; cached like a summary,
+      // since the same prompt would be rejected (and paid for) again
+      const failsafe: SummaryResult = {
         summary: getFailsafeMessage(),
         isFailsafe: true,
         warnings,
       };
+      await setCachedAIResult(cacheKey, failsafe);
+      return failsafe;
     }
 
     // Check numeric consistency
@@ -117,11 +179,13 @@ export async function generateSummary(
       warnings.push(...numericIssues);
     }
 
-    return {
+    const result: SummaryResult = {
       summary,
       isFailsafe: false,
       warnings,
     };
+    await setCachedAIResult(cacheKey, result);
+    return result;
   } catch (error) {
     console.error('Summary generation failed:', error);
     return {
@@ -159,10 +223,44 @@ function buildSummaryUserMessage(event: NormalizedEvent): string {
 公開日時: ${new Date(event.publishedAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}
 イベント種別: ${event.eventType}
 ${event.excerpt ? `内容: ${event.excerpt}` : ''}
+${event.financials ? `主要数値: ${formatFinancialFigures(event.financials)}` : ''}
 
 要約（150〜250文字）:`;
 }
 
+/**
+ * Format key figures for prompts (百万円, EPS in 円)
+ *
+ * @param figures - Filing figures
+ * @returns Figures as one line
+ */
+export function formatFinancialFigures(figures: FinancialFigures): string {
+  const toMillions = (value: number) =>
+    `${Math.round(value / 1_000_000)}百万円`;
+  const parts: string[] = [];
+
+  if (figures.revenue !== undefined) {
+    parts.push(`売上高 ${toMillions(figures.revenue)}`);
+  }
+  if (figures.operatingProfit !== undefined) {
+    parts.push(`営業利益 ${toMillions(figures.operatingProfit)}`);
+  }
+  if (figures.netIncome !== undefined) {
+    parts.push(`純利益 ${toMillions(figures.netIncome)}`);
+  }
+  if (figures.eps !== undefined) {
+    parts.push(`EPS ${figures.eps}円`);
+  }
+  if (figures.dividendPerShare !== undefined) {
+    parts.push(`年間配当 ${figures.dividendPerShare}円`);
+  }
+  if (figures.forecast?.operatingProfit !== undefined) {
+    parts.push(`営業利益予想 ${toMillions(figures.forecast.operatingProfit)}`);
+  }
+
+  return `${parts.join('、')}（${figures.consolidated ? '連結' : '個別'}）`;
+}
+
 /**
  * Check for forbidden words
  * Per product spec: no definitive advice, price targets, speculation
@@ -185,6 +283,9 @@ export function checkForbiddenWords(text: string): string[] {
 /**
  * Check numeric consistency
  * Per product spec: only numbers from source allowed
+ * - Numbers with units are compared by value, so "120億円" in the source
+ *   allows "12,000百万円" and a before/after pair allows its % change
+ * - Other numbers (years, periods) must appear as written
  *
  * @param event - Original event
  * @param summary - Generated summary
@@ -195,16 +296,31 @@ export function checkNumericConsistency(
   summary: string,
 ): string[] {
   const issues: string[] = [];
+  const sourceText = `${event.title} ${event.excerpt || ''}`;
 
-  // Extract numbers from summary
-  const summaryNumbers = extractNumbers(summary);
+  const allowed = getSourceValues(event, sourceText);
+  for (const quantity of extractQuantities(summary)) {
+    const candidates = allowed.get(quantity.unit) || [];
+    const tolerance = getQuantityPrecision(quantity) / 2;
+    const bounds = [quantity.value, quantity.valueMax].filter(
+      (v): v is number => v !== undefined,
+    );
+    const found = bounds.every((bound) =>
+      candidates.some((c) => Math.abs(Math.abs(bound) - c) <= tolerance),
+    );
+    if (!found) {
+      issues.push(`Number ${quantity.text} in summary not found in source`);
+    }
+  }
 
-  // Extract numbers from source (title + excerpt)
-  const sourceText = `${event.title} ${event.excerpt || ''}`;
-  const sourceNumbers = extractNumbers(sourceText);
+  // Extract numbers from source (title + excerpt + filing figures)
+  const sourceNumbers = [
+    ...extractNumbers(sourceText),
+    ...getFinancialNumbers(event.financials),
+  ];
 
-  // Check if all numbers in summary exist in source
-  for (const num of summaryNumbers) {
+  // Check if all other numbers in summary exist in source
+  for (const num of extractBareNumbers(summary)) {
     if (!sourceNumbers.includes(num)) {
       issues.push(`Number ${num} in summary not found in source`);
     }
@@ -217,9 +333,91 @@ export function checkNumericConsistency(
  * Extract numbers from text
  */
 function extractNumbers(text: string): string[] {
-  // Match numbers (including decimal, percentage, etc.)
-  const matches = text.match(/\d+(?:\.\d+)?%?/g);
-  return matches || [];
+  // Match numbers (including thousands separators and decimals)
+  const matches = text.normalize('NFKC').match(/\d[\d,]*(?:\.\d+)?/g);
+  return (matches || []).map((m) => m.replace(/,/g, ''));
+}
+
+/**
+ * Values a summary may quote, by unit (absolute values)
+ * Source quantities, before/after pairs and their changes, and filing
+ * figures with forecast revision rates.
+ */
+function getSourceValues(
+  event: NormalizedEvent,
+  sourceText: string,
+): Map<QuantityUnit, number[]> {
+  const values = new Map<QuantityUnit, number[]>();
+  const add = (unit: QuantityUnit, value: number | undefined) => {
+    if (value === undefined) return;
+    values.set(unit, [...(values.get(unit) || []), Math.abs(value)]);
+  };
+
+  for (const q of event.quantities || extractQuantities(sourceText)) {
+    add(q.unit, q.value);
+    add(q.unit, q.valueMax);
+  }
+  for (const c of event.figureChanges || extractFigureChanges(sourceText)) {
+    add(c.before.unit, c.before.value);
+    add(c.after.unit, c.after.value);
+    add(c.after.unit, c.change);
+    add('percent', c.changePercent);
+  }
+
+  const figures = event.financials;
+  if (figures) {
+    const { forecast, previousForecast } = figures;
+    for (const value of [
+      figures.revenue,
+      figures.operatingProfit,
+      figures.netIncome,
+      figures.eps,
+      figures.dividendPerShare,
+      ...Object.values(forecast || {}),
+      ...Object.values(previousForecast || {}),
+    ]) {
+      add('JPY', value);
+    }
+    for (const key of Object.keys(
+      forecast || {},
+    ) as (keyof FinancialValues)[]) {
+      const after = forecast?.[key];
+      const before = previousForecast?.[key];
+      if (after !== undefined && before !== undefined && before !== 0) {
+        add('percent', ((after - before) / Math.abs(before)) * 100);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Numbers a summary may quote from filing figures
+ * Each value is allowed as-is and in 百万円 / 億円 units.
+ */
+function getFinancialNumbers(figures?: FinancialFigures): string[] {
+  if (!figures) return [];
+
+  const values = [
+    figures.revenue,
+    figures.operatingProfit,
+    figures.netIncome,
+    figures.eps,
+    figures.dividendPerShare,
+    ...Object.values(figures.forecast || {}),
+    ...Object.values(figures.previousForecast || {}),
+  ].filter((v): v is number => v !== undefined);
+
+  const numbers = new Set<string>();
+  for (const value of values) {
+    const abs = Math.abs(value);
+    numbers.add(String(abs));
+    numbers.add(String(Math.round(abs / 1_000_000)));
+    numbers.add(String(Math.round(abs / 100_000_000)));
+    numbers.add((abs / 100_000_000).toFixed(1));
+  }
+  return Array.from(numbers);
 }
 
 /**
@@ -237,8 +435,10 @@ export async function generateSummaries(
     const result = await generateSummary(event);
     results.push(result);
 
-    // Small delay to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    // Small delay to avoid rate limiting (cache hits make no API call)
+    if (!result.cached) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
   }
 
   return results;
@@ -0,0 +1,373 @@
+/**
+ * TDnet Service
+ *
+ * Fetches timely disclosures (適時開示) from the TDnet public listing
+ * (適時開示情報閲覧サービス). Per product spec: primary source (tier A)
+ * - 決算短信, 業績予想の修正, 自己株式取得 etc. are published here first
+ * - Each event links to the disclosure PDF (no full-text redistribution)
+ * - Listing pages are parsed without network access so fixtures can be used
+ *
+ * The listing keeps roughly one month of disclosures, 100 rows per page:
+ *   {TDNET_BASE_URL}/I_list_001_YYYYMMDD.html, I_list_002_..., ...
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  CursorUpdate,
+  fetchConditional,
+  getResponseValidators,
+  getSourceCursor,
+} from './sourceCursorRepository';
+import {
+  defineSourceAdapter,
+  filterEventsSince,
+  SourceAdapter,
+  SourceFetchResult,
+} from './sourceRegistry';
+import { RawEvent, TdnetDisclosure } from '../types/events';
+import { addDays, getJstDate } from '../utils/date';
+import { normalizeTickerCode } from '../utils/tickerCode';
+
+const TDNET_BASE_URL = 'https://www.release.tdnet.info/inbs';
+
+/**
+ * Source adapter / cursor ID
+ */
+const TDNET_SOURCE_ID = 'TDNET';
+
+/**
+ * Upper bound on listing pages fetched per day (100 rows each)
+ */
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Listing table cells by class name
+ */
+const CELL_CLASSES = {
+  time: 'kjTime',
+  code: 'kjCode',
+  name: 'kjName',
+  title: 'kjTitle',
+  xbrl: 'kjXbrl',
+  exchange: 'kjPlace',
+  history: 'kjHistroy', // sic: TDnet's own spelling
+};
+
+/**
+ * Decode the HTML entities used in TDnet listings
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Strip tags and collapse whitespace
+ */
+function cellText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ''))
+    .replace(/[ \t\r\n]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find a table cell by class name within a row
+ */
+function findCell(row: string, className: string): string | undefined {
+  const match = row.match(
+    new RegExp(
+      `<td[^>]*class="[^"]*\\b${className}\\b[^"]*"[^>]*>([\\s\\S]*?)</td>`,
+      'i',
+    ),
+  );
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Find the first link target within a cell
+ */
+function findHref(cell: string | undefined): string | undefined {
+  const match = cell?.match(/<a[^>]*href="([^"]+)"/i);
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+/**
+ * Resolve a listing-relative link to an absolute URL
+ */
+function resolveUrl(href: string): string {
+  return /^https?:\/\//.test(href) ? href : `${TDNET_BASE_URL}/${href}`;
+}
+
+/**
+ * Format date for listing page URLs (YYYY-MM-DD → YYYYMMDD)
+ */
+function toListDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Build listing page URL
+ *
+ * @param date - Disclosure date (YYYY-MM-DD)
+ * @param page - Page number (1-based)
+ * @returns Listing page URL
+ */
+export function getTdnetListUrl(date: string, page = 1): string {
+  const pageStr = String(page).padStart(3, '0');
+  return `${TDNET_BASE_URL}/I_list_${pageStr}_${toListDate(date)}.html`;
+}
+
+/**
+ * Parse a TDnet listing page
+ * Rows without a time, code or PDF link (headers, notices) are skipped.
+ *
+ * @param html - Listing page HTML
+ * @param date - Disclosure date of the listing (YYYY-MM-DD)
+ * @returns Disclosures in listing order (newest first)
+ */
+export function parseTdnetList(html: string, date: string): TdnetDisclosure[] {
+  const disclosures: TdnetDisclosure[] = [];
+  const rows = html.match(/<tr[^>]*>[\s\S]*?<\/tr>/gi) || [];
+
+  for (const row of rows) {
+    const time = cellText(findCell(row, CELL_CLASSES.time) || '');
+    const code = cellText(findCell(row, CELL_CLASSES.code) || '');
+    const titleCell = findCell(row, CELL_CLASSES.title);
+    const pdfHref = findHref(titleCell);
+    if (!/^\d{1,2}:\d{2}$/.test(time) || !code || !titleCell || !pdfHref) {
+      continue;
+    }
+
+    const xbrlHref = findHref(findCell(row, CELL_CLASSES.xbrl));
+    const exchange = cellText(findCell(row, CELL_CLASSES.exchange) || '');
+    const history = cellText(findCell(row, CELL_CLASSES.history) || '');
+
+    disclosures.push({
+      id: pdfHref.replace(/^.*\//, '').replace(/\.pdf$/i, ''),
+      disclosedAt: `${date}T${time.padStart(5, '0')}:00+09:00`,
+      code,
+      companyName: cellText(findCell(row, CELL_CLASSES.name) || ''),
+      title: cellText(titleCell),
+      pdfUrl: resolveUrl(pdfHref),
+      xbrlUrl: xbrlHref ? resolveUrl(xbrlHref) : undefined,
+      exchange: exchange || undefined,
+      history: history || undefined,
+    });
+  }
+
+  return disclosures;
+}
+
+/**
+ * Get the number of listing pages linked from a page
+ *
+ * @param html - Listing page HTML
+ * @returns Highest page number found (at least 1)
+ */
+export function getTdnetPageCount(html: string): number {
+  let max = 1;
+  for (const match of html.matchAll(/I_list_(\d{3})_\d{8}\.html/g)) {
+    max = Math.max(max, parseInt(match[1], 10));
+  }
+  return max;
+}
+
+/**
+ * Fetch a single listing page
+ */
+async function fetchTdnetListPage(date: string, page: number): Promise<string> {
+  const response = await fetch(getTdnetListUrl(date, page), {
+    headers: {
+      'User-Agent': 'BizStockAlert/0.1.0',
+    },
+  });
+
+  return readListResponse(response);
+}
+
+/**
+ * Read a listing page response
+ */
+async function readListResponse(response: Response): Promise<string> {
+  // TDnet returns 404 for dates without disclosures (weekends, holidays)
+  if (response.status === 404) {
+    return '';
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `TDnet API error: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return response.text();
+}
+
+/**
+ * Fetch TDnet disclosures for a specific date
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param maxPages - Maximum listing pages to fetch
+ * @returns Array of raw events
+ */
+export async function fetchTdnetDisclosures(
+  date: string,
+  maxPages = DEFAULT_MAX_PAGES,
+): Promise<RawEvent[]> {
+  try {
+    const firstPage = await fetchTdnetListPage(date, 1);
+    const disclosures = parseTdnetList(firstPage, date);
+
+    const pageCount = Math.min(getTdnetPageCount(firstPage), maxPages);
+    for (let page = 2; page <= pageCount; page++) {
+      const html = await fetchTdnetListPage(date, page);
+      disclosures.push(...parseTdnetList(html, date));
+    }
+
+    return disclosures.map(convertToRawEvent);
+  } catch (error) {
+    console.error('Failed to fetch TDnet disclosures:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch only TDnet disclosures not processed by an earlier call
+ * - Conditional request (If-None-Match / If-Modified-Since) on page 1
+ * - The listing is newest first: stops at the last processed disclosure,
+ *   so later pages are only fetched when more than a page is new
+ * - Cursor changes are returned, not saved (see commitCursorUpdates)
+ *
+ * @param date - Date in YYYY-MM-DD format (JST)
+ * @param maxPages - Maximum listing pages to fetch
+ * @returns Raw events for newly listed disclosures and the cursor change
+ */
+export async function fetchNewTdnetDisclosures(
+  date: string,
+  maxPages = DEFAULT_MAX_PAGES,
+): Promise<SourceFetchResult> {
+  const requestKey = `list:${date}`;
+
+  try {
+    const response = await fetchConditional(
+      TDNET_SOURCE_ID,
+      requestKey,
+      getTdnetListUrl(date, 1),
+      { headers: { 'User-Agent': 'BizStockAlert/0.1.0' } },
+    );
+    if (!response) {
+      return { events: [] }; // 304 Not Modified
+    }
+
+    const firstPage = await readListResponse(response);
+    const cursor = await getSourceCursor(TDNET_SOURCE_ID);
+    const lastId = cursor.requests[requestKey]?.lastId;
+
+    const firstRows = parseTdnetList(firstPage, date);
+    const disclosures: TdnetDisclosure[] = [];
+    let reachedLast = false;
+
+    const collect = (rows: TdnetDisclosure[]) => {
+      for (const row of rows) {
+        if (row.id === lastId) {
+          reachedLast = true;
+          return;
+        }
+        disclosures.push(row);
+      }
+    };
+
+    collect(firstRows);
+    const pageCount = Math.min(getTdnetPageCount(firstPage), maxPages);
+    for (let page = 2; page <= pageCount && !reachedLast; page++) {
+      collect(parseTdnetList(await fetchTdnetListPage(date, page), date));
+    }
+
+    return {
+      events: disclosures.map(convertToRawEvent),
+      cursorUpdates: [
+        {
+          sourceId: TDNET_SOURCE_ID,
+          requestKey,
+          request: {
+            ...getResponseValidators(response),
+            lastId: firstRows.length > 0 ? firstRows[0].id : lastId,
+          },
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Failed to fetch new TDnet disclosures:', error);
+    throw error;
+  }
+}
+
+/**
+ * Convert TDnet disclosure to RawEvent
+ * The event links to the disclosure PDF; publishedAt is the disclosure time.
+ */
+export function convertToRawEvent(disclosure: TdnetDisclosure): RawEvent {
+  const tickerCode = normalizeTickerCode(disclosure.code);
+
+  return {
+    id: uuidv4(),
+    source: TDNET_SOURCE_ID,
+    tier: 'A', // Primary source per product spec
+    title: `${disclosure.companyName}｜${disclosure.title}`,
+    url: disclosure.pdfUrl,
+    publishedAt: new Date(disclosure.disclosedAt).toISOString(),
+    fetchedAt: new Date().toISOString(),
+    tickerCodes: tickerCode ? [tickerCode] : [],
+    excerpt: disclosure.title,
+    externalId: `TDNET:${disclosure.id}`,
+  };
+}
+
+/**
+ * Fetch latest TDnet disclosures (today only, JST)
+ * Convenience function for real-time monitoring
+ */
+export async function fetchLatestTdnetDisclosures(): Promise<RawEvent[]> {
+  return fetchTdnetDisclosures(getJstDate(new Date()));
+}
+
+/**
+ * Create a source adapter for TDnet
+ * Fetches every listing day (JST) from `since` through today; only
+ * disclosures listed since the previous fetch are returned.
+ *
+ * @param maxPages - Maximum listing pages to fetch per day
+ * @returns Source adapter
+ */
+export function createTdnetAdapter(
+  maxPages = DEFAULT_MAX_PAGES,
+): SourceAdapter {
+  return defineSourceAdapter({
+    id: TDNET_SOURCE_ID,
+    tier: 'A',
+    fetch: async (since) => {
+      const today = getJstDate(new Date());
+      const events: RawEvent[] = [];
+      const cursorUpdates: CursorUpdate[] = [];
+
+      for (
+        let date = since ? getJstDate(since) : today;
+        date <= today;
+        date = addDays(date, 1)
+      ) {
+        const result = await fetchNewTdnetDisclosures(date, maxPages);
+        events.push(...result.events);
+        cursorUpdates.push(...(result.cursorUpdates || []));
+      }
+
+      return { events: filterEventsSince(events, since), cursorUpdates };
+    },
+  });
+}
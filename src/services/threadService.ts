@@ -0,0 +1,312 @@
+/**
+ * Event Thread Service
+ *
+ * Follow-up (続報) tracking across clustering runs.
+ * Per product spec: a thread is one story told over time; the first
+ * cluster starts it and later updates are 続報
+ * - new_sources: more sources attached to the same cluster
+ * - correction: a filing that corrects an earlier one (訂正, parentDocID)
+ * - update: a later disclosure on the same subject (変更, 経過, 延期...)
+ * Threads persist across app restarts and are pruned after a retention period.
+ */
+
+import { calculateSimilarity } from './clusteringService';
+import { ClusterDelta, ClusteredEvent, FollowUpReason } from '../types/events';
+import { createStoredValue } from '../utils/storage';
+
+/**
+ * Stored thread metadata
+ */
+export interface EventThread {
+  /** Thread ID (cluster ID of the cluster that started it) */
+  threadId: string;
+  /** Tickers of all clusters in the thread */
+  tickers: string[];
+  /** Title of the first cluster */
+  title: string;
+  /** Subject for matching later disclosures (see getThreadSubject) */
+  subject: string;
+  /** Source-native IDs of member events (for corrections) */
+  externalIds: string[];
+  /** Clusters in the thread, oldest first */
+  clusterIds: string[];
+  /** ISO timestamp of the first cluster */
+  startedAt: string;
+  /** ISO timestamp of the latest follow-up */
+  updatedAt: string;
+  /** Number of follow-ups so far */
+  updateCount: number;
+}
+
+/**
+ * Follow-up settings (see settingsSlice)
+ */
+export interface FollowUpPreferences {
+  /** 続報のみ for all tickers */
+  followUpsOnly: boolean;
+  /** 続報のみ for these tickers */
+  followUpsOnlyTickers: string[];
+  /** Threads whose follow-ups are always pushed */
+  subscribedThreadIds: string[];
+  /** Threads whose follow-ups are never pushed */
+  unsubscribedThreadIds: string[];
+  /** Push 強 events immediately */
+  highImmediate: boolean;
+}
+
+/**
+ * Push decision for one cluster delta
+ */
+export interface FollowUpRoute {
+  push: boolean;
+  /** Why (for debugging and notification history) */
+  reason: string;
+}
+
+const STORAGE_KEY = 'eventThreads';
+
+/**
+ * Threads without follow-ups for this long are pruned (days)
+ */
+const THREAD_RETENTION_DAYS = 30;
+
+/**
+ * Subject similarity for a disclosure to continue a thread (0-1)
+ * Lower than the clustering threshold: the update wording differs.
+ */
+const SUBJECT_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Title wording that marks a disclosure as an update to an earlier one
+ */
+const UPDATE_TITLE_PATTERN =
+  /訂正|変更|経過|続報|進捗|延期|中止|撤回|完了|追加|補足|第\d+報/;
+
+/**
+ * Wording stripped before comparing subjects
+ */
+const SUBJECT_NOISE_PATTERN =
+  /【[^】]*】|[（(][^）)]*[）)]|(?:の一部)?(?:訂正|変更|経過|続報|進捗|延期|中止|撤回|完了|追加|補足)(?:について|に関する|のお知らせ)?|第\d+報|に関するお知らせ|についてのお知らせ|のお知らせ|お知らせ/g;
+
+const threads = createStoredValue<Record<string, EventThread>>(
+  STORAGE_KEY,
+  () => ({}),
+);
+
+/**
+ * Get the subject of a headline for thread matching
+ * Company prefix, brackets and update wording are removed, so
+ * "A社｜業務提携に関するお知らせ（変更）" and "A社｜業務提携に関するお知らせ"
+ * share a subject.
+ *
+ * @param title - Event or cluster title
+ * @returns Subject text
+ */
+export function getThreadSubject(title: string): string {
+  const normalized = title.normalize('NFKC');
+  const body = normalized.includes('｜')
+    ? normalized.substring(normalized.indexOf('｜') + 1)
+    : normalized;
+  return body.replace(SUBJECT_NOISE_PATTERN, '').replace(/\s+/g, '');
+}
+
+/**
+ * Find the thread a new cluster continues, if any
+ * - Corrections: parent filing is in a thread
+ * - Updates: update wording, shared ticker and similar subject
+ */
+function findParentThread(
+  cluster: ClusteredEvent,
+  current: Record<string, EventThread>,
+): { thread: EventThread; reason: FollowUpReason } | undefined {
+  for (const event of cluster.events) {
+    const parentId = event.filing?.parentExternalId;
+    if (!parentId) continue;
+    const thread = Object.values(current).find((t) =>
+      t.externalIds.includes(parentId),
+    );
+    if (thread) return { thread, reason: 'correction' };
+  }
+
+  const isUpdate = cluster.events.some(
+    (e) =>
+      UPDATE_TITLE_PATTERN.test(e.title) || (e.filing?.isCorrection ?? false),
+  );
+  if (!isUpdate) return undefined;
+
+  const subject = getThreadSubject(cluster.title);
+  let best: EventThread | undefined;
+  let bestScore = SUBJECT_SIMILARITY_THRESHOLD;
+  for (const thread of Object.values(current)) {
+    if (!thread.tickers.some((t) => cluster.allTickers.includes(t))) continue;
+    if (thread.clusterIds.includes(cluster.clusterId)) continue;
+    const score = calculateSimilarity(subject, thread.subject);
+    if (score >= bestScore) {
+      best = thread;
+      bestScore = score;
+    }
+  }
+  return best ? { thread: best, reason: 'update' } : undefined;
+}
+
+/**
+ * Add a cluster to a thread (or start one)
+ */
+function addToThread(
+  thread: EventThread | undefined,
+  cluster: ClusteredEvent,
+  isFollowUp: boolean,
+  timestamp: string,
+): EventThread {
+  const externalIds = cluster.events
+    .map((e) => e.externalId)
+    .filter((id): id is string => !!id);
+
+  if (!thread) {
+    return {
+      threadId: cluster.clusterId,
+      tickers: [...cluster.allTickers],
+      title: cluster.title,
+      subject: getThreadSubject(cluster.title),
+      externalIds,
+      clusterIds: [cluster.clusterId],
+      startedAt: timestamp,
+      updatedAt: timestamp,
+      updateCount: 0,
+    };
+  }
+
+  return {
+    ...thread,
+    tickers: [...new Set([...thread.tickers, ...cluster.allTickers])],
+    externalIds: [...new Set([...thread.externalIds, ...externalIds])],
+    clusterIds: thread.clusterIds.includes(cluster.clusterId)
+      ? thread.clusterIds
+      : [...thread.clusterIds, cluster.clusterId],
+    updatedAt: isFollowUp ? timestamp : thread.updatedAt,
+    updateCount: thread.updateCount + (isFollowUp ? 1 : 0),
+  };
+}
+
+/**
+ * Assign clustering deltas to threads and mark follow-ups
+ * Sets `threadId` on each cluster and `followUp` on deltas that continue
+ * an existing thread; threads are persisted.
+ *
+ * @param deltas - Deltas from clusterIncrementally
+ * @param now - Reference time (defaults to now)
+ * @returns Deltas with thread information
+ */
+export async function assignThreads(
+  deltas: ClusterDelta[],
+  now: Date = new Date(),
+): Promise<ClusterDelta[]> {
+  const current = await threads.load();
+  const timestamp = now.toISOString();
+
+  const result = deltas.map((delta): ClusterDelta => {
+    const existing = delta.cluster.threadId
+      ? current[delta.cluster.threadId]
+      : undefined;
+
+    let thread: EventThread | undefined;
+    let followUp: FollowUpReason | undefined;
+    if (delta.type === 'updated') {
+      thread = existing;
+      followUp = 'new_sources';
+    } else {
+      const parent = findParentThread(delta.cluster, current);
+      thread = parent?.thread;
+      followUp = parent?.reason;
+    }
+
+    const updated = addToThread(thread, delta.cluster, !!followUp, timestamp);
+    current[updated.threadId] = updated;
+
+    return {
+      ...delta,
+      cluster: { ...delta.cluster, threadId: updated.threadId },
+      followUp,
+    };
+  });
+
+  pruneThreads(current, now);
+  await threads.save();
+
+  return result;
+}
+
+/**
+ * Remove threads without activity within the retention period
+ */
+function pruneThreads(current: Record<string, EventThread>, now: Date): void {
+  const cutoff = now.getTime() - THREAD_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [threadId, thread] of Object.entries(current)) {
+    if (new Date(thread.updatedAt).getTime() < cutoff) {
+      delete current[threadId];
+    }
+  }
+}
+
+/**
+ * Get stored thread metadata
+ *
+ * @param threadId - Thread ID
+ * @returns Thread or null if unknown (or pruned)
+ */
+export async function getThread(threadId: string): Promise<EventThread | null> {
+  const current = await threads.load();
+  return current[threadId] || null;
+}
+
+/**
+ * Decide whether a cluster delta is pushed
+ * Per product spec: 続報のみ suppresses first alerts, not follow-ups
+ * 1. Follow-ups of unsubscribed threads: never
+ * 2. Follow-ups of subscribed threads, or under 続報のみ: push
+ * 3. First alerts under 続報のみ (global or ticker): digest only
+ * 4. Otherwise 強 is pushed once (when a cluster is created as 強, or
+ *    first reaches 強 through new sources)
+ *
+ * @param delta - Delta with thread information (see assignThreads)
+ * @param prefs - Follow-up settings
+ * @returns Push decision with reason
+ */
+export function routeClusterDelta(
+  delta: ClusterDelta,
+  prefs: FollowUpPreferences,
+): FollowUpRoute {
+  const { cluster, followUp } = delta;
+  const threadId = cluster.threadId || cluster.clusterId;
+  const followUpsOnly =
+    prefs.followUpsOnly ||
+    cluster.allTickers.some((t) => prefs.followUpsOnlyTickers.includes(t));
+
+  if (followUp && prefs.unsubscribedThreadIds.includes(threadId)) {
+    return { push: false, reason: '続報停止中のスレッド' };
+  }
+  if (
+    followUp &&
+    (followUpsOnly || prefs.subscribedThreadIds.includes(threadId))
+  ) {
+    return { push: true, reason: '続報' };
+  }
+  if (followUpsOnly) {
+    return { push: false, reason: '続報のみ受け取る設定' };
+  }
+
+  const becameHigh =
+    cluster.impact === '強' &&
+    (delta.type === 'created' || delta.previousImpact !== '強');
+  if (becameHigh && prefs.highImmediate) {
+    return { push: true, reason: '影響:強' };
+  }
+  return { push: false, reason: '即時通知の対象外' };
+}
+
+/**
+ * Clear all threads (for testing/debugging)
+ */
+export async function clearThreads(): Promise<void> {
+  await threads.clear();
+}
@@ -0,0 +1,381 @@
+/**
+ * XBRL Parsing Service
+ *
+ * Extracts key figures from EDINET/TDnet filing bodies:
+ * - XBRL instance documents (EDINET type=1 ZIP)
+ * - XBRL-to-CSV files (EDINET type=5 ZIP, UTF-16LE TSV)
+ *
+ * Per product spec: figures are used for numeric consistency checks only
+ * (no full-text redistribution). Parsing is network-free so it can run
+ * against local fixture files.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { strFromU8, unzipSync } from 'fflate';
+
+import { FinancialFigures, FinancialValues } from '../types/events';
+
+/**
+ * Single fact from an XBRL instance or CSV
+ */
+export interface XbrlFact {
+  /** Element local name without namespace prefix (e.g., "NetSales") */
+  element: string;
+  /** Context ID (e.g., "CurrentYearDuration") */
+  context: string;
+  /** Raw fact text */
+  text: string;
+  /** Numeric value (null for text facts) */
+  value: number | null;
+  /** Period end date (YYYY-MM-DD) when known */
+  periodEnd?: string;
+}
+
+/**
+ * Element names per figure, in priority order
+ * Covers J-GAAP, IFRS and US-GAAP summary elements (jppfs/jpcrp/jpigp/tse-ed-t)
+ */
+const FIGURE_ELEMENTS: Record<keyof FinancialValues, string[]> = {
+  revenue: [
+    'NetSales',
+    'NetSalesSummaryOfBusinessResults',
+    'RevenueIFRS',
+    'RevenueIFRSSummaryOfBusinessResults',
+    'OperatingRevenue1',
+    'OperatingRevenue1SummaryOfBusinessResults',
+    'RevenuesUSGAAPSummaryOfBusinessResults',
+  ],
+  operatingProfit: [
+    'OperatingIncome',
+    'OperatingProfitLossIFRS',
+    'OperatingIncomeLossSummaryOfBusinessResults',
+  ],
+  netIncome: [
+    'ProfitLossAttributableToOwnersOfParent',
+    'ProfitAttributableToOwnersOfParent',
+    'ProfitLossAttributableToOwnersOfParentSummaryOfBusinessResults',
+    'ProfitLossAttributableToOwnersOfParentIFRS',
+    'ProfitLossAttributableToOwnersOfParentIFRSSummaryOfBusinessResults',
+    'NetIncomeLossSummaryOfBusinessResults',
+    'NetIncome',
+  ],
+  eps: [
+    'BasicEarningsLossPerShareSummaryOfBusinessResults',
+    'BasicEarningsLossPerShareIFRSSummaryOfBusinessResults',
+    'BasicEarningsLossPerShare',
+    'NetIncomePerShare',
+  ],
+  dividendPerShare: [
+    'DividendPaidPerShareSummaryOfBusinessResults',
+    'AnnualDividendPerShare',
+  ],
+};
+
+/**
+ * Forecast element names per figure (TDnet 決算短信 / 業績予想の修正)
+ */
+const FORECAST_ELEMENTS: Record<keyof FinancialValues, string[]> = {
+  revenue: [
+    'ForecastNetSales',
+    'ForecastRevenueIFRS',
+    'ForecastOperatingRevenues',
+  ],
+  operatingProfit: ['ForecastOperatingIncome', 'ForecastOperatingProfitIFRS'],
+  netIncome: [
+    'ForecastProfitAttributableToOwnersOfParent',
+    'ForecastNetIncome',
+    'ForecastProfitAttributableToOwnersOfParentIFRS',
+  ],
+  eps: ['ForecastNetIncomePerShare', 'ForecastBasicEarningsPerShareIFRS'],
+  dividendPerShare: ['ForecastAnnualDividendPerShare'],
+};
+
+/**
+ * Contexts for the current reporting period
+ */
+const CURRENT_CONTEXT_PATTERN =
+  /^(CurrentYear|CurrentYTD|CurrentQuarter|CurrentAccumulatedQ\d)(Duration|Instant)/;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+});
+
+/**
+ * Strip namespace prefix from an element name
+ */
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index >= 0 ? name.substring(index + 1) : name;
+}
+
+/**
+ * Parse a numeric fact value (handles "△" negatives and thousands separators)
+ */
+function parseNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const cleaned = String(value).trim().replace(/^[△▲]/, '-').replace(/,/g, '');
+  if (cleaned === '' || cleaned === '-') return null;
+  const num = Number(cleaned);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parse an XBRL instance document into facts
+ *
+ * @param xml - XBRL instance XML text
+ * @returns Facts (numeric and text)
+ */
+export function parseXbrlInstance(xml: string): XbrlFact[] {
+  const parsed = xmlParser.parse(xml);
+  const rootKey = Object.keys(parsed).find((k) => localName(k) === 'xbrl');
+  if (!rootKey) {
+    throw new Error('Invalid XBRL instance: missing xbrl root element');
+  }
+  const root = parsed[rootKey] as Record<string, unknown>;
+
+  // Resolve period end dates per context
+  const periodEnds = new Map<string, string>();
+  for (const [key, value] of Object.entries(root)) {
+    if (localName(key) !== 'context') continue;
+    for (const ctx of toArray(value) as Record<string, unknown>[]) {
+      const period = findChild(ctx, 'period');
+      const end =
+        typeof period === 'object'
+          ? findChild(period, 'endDate') || findChild(period, 'instant')
+          : undefined;
+      if (typeof end === 'string') {
+        periodEnds.set(ctx['@_id'] as string, end.trim());
+      }
+    }
+  }
+
+  const facts: XbrlFact[] = [];
+  for (const [key, value] of Object.entries(root)) {
+    const element = localName(key);
+    if (element === 'context' || element === 'unit') continue;
+
+    for (const item of toArray(value)) {
+      if (typeof item !== 'object' || item === null) continue;
+      const record = item as Record<string, unknown>;
+      const context = record['@_contextRef'] as string | undefined;
+      if (!context) continue;
+
+      const text = record['#text'];
+      if (text === undefined || text === null) continue;
+
+      facts.push({
+        element,
+        context,
+        text: String(text).trim(),
+        value: parseNumber(text),
+        periodEnd: periodEnds.get(context),
+      });
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Parse an EDINET XBRL-to-CSV file into facts
+ * Columns: 要素ID, 項目名, コンテキストID, 相対年度, 連結・個別, 期間・時点,
+ *          ユニットID, 単位, 値
+ *
+ * @param csv - Decoded CSV text (tab-separated)
+ * @returns Facts (numeric and text)
+ */
+export function parseXbrlCsv(csv: string): XbrlFact[] {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const facts: XbrlFact[] = [];
+
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const columns = line
+      .split('\t')
+      .map((c) => c.trim().replace(/^"(.*)"$/, '$1'));
+    if (columns.length < 9) continue;
+
+    const [elementId, , context, , , , , , rawValue] = columns;
+
+    facts.push({
+      element: localName(elementId),
+      context,
+      text: rawValue,
+      value: parseNumber(rawValue),
+    });
+  }
+
+  return facts;
+}
+
+/**
+ * Pick figures for a set of element candidates from matching facts
+ */
+function pickValues(
+  facts: XbrlFact[],
+  elements: Record<keyof FinancialValues, string[]>,
+  contextFilter: (context: string) => boolean,
+): FinancialValues {
+  const values: FinancialValues = {};
+
+  for (const key of Object.keys(elements) as (keyof FinancialValues)[]) {
+    for (const element of elements[key]) {
+      const fact = facts.find(
+        (f) =>
+          f.element === element && f.value !== null && contextFilter(f.context),
+      );
+      if (fact && fact.value !== null) {
+        values[key] = fact.value;
+        break;
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Whether a values object has at least one figure
+ */
+function hasValues(values: FinancialValues): boolean {
+  return Object.values(values).some((v) => v !== undefined);
+}
+
+/**
+ * Build key figures from numeric facts
+ * Prefers consolidated figures, falls back to non-consolidated.
+ *
+ * @param facts - Facts from XBRL or CSV
+ * @returns Key figures, or null if none were found
+ */
+export function extractFinancialFigures(
+  facts: XbrlFact[],
+): FinancialFigures | null {
+  const isCurrent = (context: string) => CURRENT_CONTEXT_PATTERN.test(context);
+  const isNonConsolidated = (context: string) =>
+    context.includes('NonConsolidatedMember');
+
+  let consolidated = true;
+  let values = pickValues(
+    facts,
+    FIGURE_ELEMENTS,
+    (c) => isCurrent(c) && !isNonConsolidated(c),
+  );
+  if (!hasValues(values)) {
+    consolidated = false;
+    values = pickValues(
+      facts,
+      FIGURE_ELEMENTS,
+      (c) => isCurrent(c) && isNonConsolidated(c),
+    );
+  }
+
+  const forecast = pickValues(
+    facts,
+    FORECAST_ELEMENTS,
+    (c) => !c.includes('Previous'),
+  );
+  const previousForecast = pickValues(facts, FORECAST_ELEMENTS, (c) =>
+    c.includes('Previous'),
+  );
+
+  if (!hasValues(values) && !hasValues(forecast)) {
+    return null;
+  }
+
+  const periodFact = facts.find(
+    (f) => f.periodEnd && isCurrent(f.context) && !isNonConsolidated(f.context),
+  );
+
+  return {
+    ...values,
+    consolidated,
+    periodEnd: periodFact?.periodEnd,
+    forecast: hasValues(forecast) ? forecast : undefined,
+    previousForecast: hasValues(previousForecast)
+      ? previousForecast
+      : undefined,
+  };
+}
+
+/**
+ * Decode EDINET CSV bytes (UTF-16LE with BOM, or UTF-8)
+ *
+ * @param bytes - File contents
+ * @returns Decoded text
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode(bytes[i] | (bytes[i + 1] << 8));
+    }
+    return text;
+  }
+  return strFromU8(bytes);
+}
+
+/**
+ * Read facts from an EDINET document ZIP
+ * - type=5: XBRL_TO_CSV/*.csv (preferred, smaller)
+ * - type=1: XBRL/PublicDoc/*.xbrl
+ *
+ * @param zip - ZIP file contents
+ * @param prefix - Preferred file name prefix (e.g., "jpcrp", "jplvh")
+ * @returns Facts, or null if the archive has no XBRL data
+ */
+export function extractFactsFromZip(
+  zip: Uint8Array,
+  prefix = 'jpcrp',
+): XbrlFact[] | null {
+  const files = unzipSync(zip);
+  const names = Object.keys(files);
+
+  const csvName =
+    names.find((n) =>
+      new RegExp(`XBRL_TO_CSV/${prefix}[^/]*\\.csv$`).test(n),
+    ) || names.find((n) => /XBRL_TO_CSV\/[^/]*\.csv$/.test(n));
+  if (csvName) {
+    return parseXbrlCsv(decodeCsvBytes(files[csvName]));
+  }
+
+  const xbrlName = names.find((n) => /PublicDoc\/[^/]*\.xbrl$/.test(n));
+  if (xbrlName) {
+    return parseXbrlInstance(strFromU8(files[xbrlName]));
+  }
+
+  return null;
+}
+
+/**
+ * Extract key figures from an EDINET document ZIP
+ *
+ * @param zip - ZIP file contents
+ * @returns Key figures, or null if the archive has no usable data
+ */
+export function extractFiguresFromZip(
+  zip: Uint8Array,
+): FinancialFigures | null {
+  const facts = extractFactsFromZip(zip);
+  return facts ? extractFinancialFigures(facts) : null;
+}
+
+/**
+ * Wrap a possibly-single parsed node in an array
+ */
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Find a child node regardless of namespace prefix
+ */
+function findChild(
+  node: Record<string, unknown>,
+  name: string,
+): Record<string, unknown> | string | undefined {
+  const key = Object.keys(node).find((k) => localName(k) === name);
+  return key ? (node[key] as Record<string, unknown> | string) : undefined;
+}
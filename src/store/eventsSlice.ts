@@ -29,6 +29,12 @@ export interface EventsState {
   readEventIds: Set<string>;
 }
 
+/**
+ * Maximum events kept in the feed (the feed is persisted across restarts,
+ * see persistence); the lowest ranked are dropped first
+ */
+export const MAX_FEED_EVENTS = 200;
+
 const initialState: EventsState = {
   events: [],
   liveEvents: [],
@@ -47,9 +53,10 @@ const eventsSlice = createSlice({
   reducers: {
     /**
      * Set all personalized events (called after ingestion + personalization)
+     * Expects ranked events and keeps the top MAX_FEED_EVENTS.
      */
     setEvents: (state, action: PayloadAction<PersonalizedEvent[]>) => {
-      state.events = action.payload;
+      state.events = action.payload.slice(0, MAX_FEED_EVENTS);
       state.lastUpdated = new Date().toISOString();
       state.error = null;
     },
@@ -81,6 +88,24 @@ const eventsSlice = createSlice({
       }
     },
 
+    /**
+     * Replace events by clusterId (e.g., after AI summaries)
+     * Clusters that changed since (new revision) or left the feed are
+     * skipped, so a late result never overwrites newer members.
+     */
+    updateEvents: (state, action: PayloadAction<PersonalizedEvent[]>) => {
+      const updates = new Map(
+        action.payload.map((event) => [event.clusterId, event]),
+      );
+      const apply = (events: PersonalizedEvent[]) =>
+        events.map((event) => {
+          const update = updates.get(event.clusterId);
+          return update && update.revision === event.revision ? update : event;
+        });
+      state.events = apply(state.events);
+      state.liveEvents = apply(state.liveEvents);
+    },
+
     /**
      * Mark event as read
      */
@@ -141,6 +166,7 @@ export const {
   setEvents,
   setLiveEvents,
   setLoading,
+  updateEvents,
 } = eventsSlice.actions;
 
 export default eventsSlice.reducer;
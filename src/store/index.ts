@@ -1,40 +1,72 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+import { enableMapSet } from 'immer';
 
 // Bring in reducers from individual slices. As additional state slices
 // are added to the application they should be imported here and added
 // to the root reducer below.
 import eventsReducer from './eventsSlice';
 import notificationsReducer from './notificationsSlice';
+import {
+  HYDRATE,
+  MOCK_PERSIST_WHITELIST,
+  PERSIST_WHITELIST,
+  persistStore,
+  withHydration,
+} from './persistence';
 import settingsReducer from './settingsSlice';
 import watchlistReducer from './watchlistSlice';
+import { isMockMode } from '../utils/mockData';
+
+// events.readEventIds is a Set, which Immer only drafts with this plugin
+enableMapSet();
+
+const rootReducer = combineReducers({
+  // Slice holding the list of ticker symbols the user is following.
+  watchlist: watchlistReducer,
+  // Slice containing pending and past notifications.  New notifications are
+  // prepended to ensure most recent alerts appear first.
+  notifications: notificationsReducer,
+  // Slice storing user adjustable settings such as notification limits.
+  settings: settingsReducer,
+  // Slice managing personalized events from the data pipeline (Phase 1-5).
+  events: eventsReducer,
+});
+
+// Declared separately so the state type is inferred from rootReducer
+const hydratingReducer = withHydration(rootReducer);
 
 /**
  * Configure the Redux store for the BizStock application. This store holds
  * global state such as the user's watchlist. Additional reducers should be
- * registered here when new features are implemented.
+ * registered here when new features are implemented. Whitelisted state is
+ * restored from AsyncStorage on startup (see persistence).
  */
 export const store = configureStore({
-  reducer: {
-    // Slice holding the list of ticker symbols the user is following.
-    watchlist: watchlistReducer,
-    // Slice containing pending and past notifications.  New notifications are
-    // prepended to ensure most recent alerts appear first.
-    notifications: notificationsReducer,
-    // Slice storing user adjustable settings such as notification limits.
-    settings: settingsReducer,
-    // Slice managing personalized events from the data pipeline (Phase 1-5).
-    events: eventsReducer,
-  },
+  reducer: hydratingReducer,
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
       serializableCheck: {
         // Ignore Set objects in eventsSlice.readEventIds
         ignoredPaths: ['events.readEventIds'],
-        ignoredActions: ['events/markEventRead', 'events/markEventsRead'],
+        ignoredActions: [
+          'events/markEventRead',
+          'events/markEventsRead',
+          HYDRATE,
+        ],
       },
     }),
 });
 
+/**
+ * Resolves once persisted state has been restored
+ * App renders (and useAppInit dispatches) only after this, since HYDRATE
+ * replaces whitelisted state wholesale. The mock feed is never persisted.
+ */
+export const storeHydrated = persistStore(
+  store,
+  isMockMode() ? MOCK_PERSIST_WHITELIST : PERSIST_WHITELIST,
+);
+
 // Infer the `RootState` and `AppDispatch` types from the store itself. These
 // types are useful when selecting from the state or dispatching actions.
 export type RootState = ReturnType<typeof store.getState>;
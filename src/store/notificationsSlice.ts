@@ -1,5 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
+import type { DeliveryAction } from '../services/deliveryPolicyService';
+
 /**
  * Representation of a push notification delivered to the user. The
  * application will store a list of these notifications locally so that
@@ -21,15 +23,68 @@ export interface Notification {
   timestamp: string;
   /** Whether the user has opened or acknowledged this notification. */
   read: boolean;
+  /** Event thread the notification belongs to (for 続報 subscriptions). */
+  threadId?: string;
+  /**
+   * Whether the notification was deferred and delivered in a digest. These
+   * do not count toward the daily budget.
+   */
+  viaDigest?: boolean;
+}
+
+/**
+ * A push deferred by the delivery policy, waiting for its digest slot.
+ */
+export interface DeferredNotification {
+  clusterId: string;
+  /** Notification to add to the history once delivered. */
+  notification: Notification;
+  /** Why it was deferred. */
+  reason: string;
+  /** ISO timestamp of the digest slot it goes to. */
+  deferUntil: string;
+}
+
+/**
+ * One delivery decision, kept so the debug screen can explain why a
+ * cluster was or was not pushed.
+ */
+export interface DeliveryLogEntry {
+  clusterId: string;
+  ticker: string;
+  title: string;
+  action: DeliveryAction;
+  reason: string;
+  /** ISO timestamp of the digest slot (deferred only). */
+  deferUntil?: string;
+  /** ISO timestamp of the decision. */
+  decidedAt: string;
 }
 
 export interface NotificationsState {
   /** Array of notifications, newest first. */
   items: Notification[];
+  /** Recent delivery decisions, newest first. */
+  deliveryLog: DeliveryLogEntry[];
+  /** Pushes waiting for the next digest, oldest first. */
+  deferred: DeferredNotification[];
 }
 
+/**
+ * Number of delivery decisions kept in the log.
+ */
+const DELIVERY_LOG_SIZE = 50;
+
+/**
+ * Number of notifications kept in the history. Well above a day of
+ * pushes, which the delivery budget and cooldown look back on.
+ */
+const NOTIFICATION_HISTORY_SIZE = 200;
+
 const initialState: NotificationsState = {
   items: [],
+  deliveryLog: [],
+  deferred: [],
 };
 
 const notificationsSlice = createSlice({
@@ -39,7 +94,8 @@ const notificationsSlice = createSlice({
     /**
      * Push a new notification to the front of the list. Newest
      * notifications appear first. If a notification with the same ID
-     * already exists, it will be updated in place.
+     * already exists, it will be updated in place. Only the most recent
+     * notifications are kept.
      */
     addNotification: (state, action: PayloadAction<Notification>) => {
       const existingIndex = state.items.findIndex(
@@ -49,6 +105,7 @@ const notificationsSlice = createSlice({
         state.items[existingIndex] = action.payload;
       } else {
         state.items.unshift(action.payload);
+        state.items.splice(NOTIFICATION_HISTORY_SIZE);
       }
     },
     /**
@@ -68,10 +125,56 @@ const notificationsSlice = createSlice({
     clearNotifications: (state) => {
       state.items = [];
     },
+    /**
+     * Record a delivery decision. Only the most recent decisions are
+     * kept.
+     */
+    logDeliveryDecision: (state, action: PayloadAction<DeliveryLogEntry>) => {
+      state.deliveryLog.unshift(action.payload);
+      state.deliveryLog.splice(DELIVERY_LOG_SIZE);
+    },
+    /**
+     * Queue a deferred push for the next digest. A cluster deferred again
+     * (e.g. after new sources) replaces its earlier entry.
+     */
+    deferNotification: (state, action: PayloadAction<DeferredNotification>) => {
+      state.deferred = state.deferred.filter(
+        (d) => d.clusterId !== action.payload.clusterId,
+      );
+      state.deferred.push(action.payload);
+    },
+    /**
+     * Move deferred pushes to a later digest slot.
+     */
+    rescheduleDeferred: (
+      state,
+      action: PayloadAction<{ clusterIds: string[]; deferUntil: string }>,
+    ) => {
+      for (const deferred of state.deferred) {
+        if (action.payload.clusterIds.includes(deferred.clusterId)) {
+          deferred.deferUntil = action.payload.deferUntil;
+        }
+      }
+    },
+    /**
+     * Remove deferred pushes once delivered (or no longer needed).
+     */
+    removeDeferred: (state, action: PayloadAction<string[]>) => {
+      state.deferred = state.deferred.filter(
+        (d) => !action.payload.includes(d.clusterId),
+      );
+    },
   },
 });
 
-export const { addNotification, markRead, clearNotifications } =
-  notificationsSlice.actions;
+export const {
+  addNotification,
+  markRead,
+  clearNotifications,
+  logDeliveryDecision,
+  deferNotification,
+  rescheduleDeferred,
+  removeDeferred,
+} = notificationsSlice.actions;
 
 export default notificationsSlice.reducer;
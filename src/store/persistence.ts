@@ -0,0 +1,424 @@
+/**
+ * Redux State Persistence
+ *
+ * Saves selected parts of the store to AsyncStorage and restores them on
+ * startup.
+ * - Whitelist: user data (watchlist, settings, notification history, read
+ *   events) and the processed feed, which later runs build on (their
+ *   events are already recorded as seen and past the source cursors)
+ * - Sets are stored as tagged arrays and restored as Sets
+ * - Schema version with step-by-step migrations
+ * - Corrupted or unknown data is discarded: the store keeps its defaults
+ *   and the failure is reported through errorHandler
+ * - Readable data of the wrong shape (e.g., a string where the default is
+ *   an array) resets only the affected slice
+ */
+
+import type { AnyAction, Reducer, Store } from '@reduxjs/toolkit';
+
+import { AppError, ErrorType, logError } from '../utils/errorHandler';
+import { loadString, removeItem, saveJSON } from '../utils/storage';
+
+/**
+ * Current schema version of persisted state
+ * Bump when a whitelisted slice changes shape, and add a migration.
+ */
+export const PERSIST_VERSION = 1;
+
+const STORAGE_KEY = 'reduxState';
+
+/**
+ * Delay before writing after a change (ms), so bursts of actions are
+ * saved once
+ */
+const SAVE_DEBOUNCE_MS = 500;
+
+/**
+ * User-facing message when stored state is discarded
+ */
+const RESET_MESSAGE =
+  '保存データを読み込めなかったため、初期状態に戻しました。';
+
+/**
+ * Action that merges restored state into the store
+ */
+export const HYDRATE = 'persistence/hydrate';
+
+/**
+ * Persisted parts of each slice: `true` for the whole slice, or its keys
+ */
+export type PersistWhitelist = Record<string, true | string[]>;
+
+/**
+ * What is persisted
+ * - deliveryLog is debug-only
+ * - The feed (events, liveEvents; capped by MAX_FEED_EVENTS) is not
+ *   refetched on startup: sources only return events past their cursors,
+ *   and events already seen are filtered out
+ */
+export const PERSIST_WHITELIST: PersistWhitelist = {
+  watchlist: true,
+  settings: true,
+  notifications: ['items', 'deferred'],
+  events: ['events', 'liveEvents', 'readEventIds'],
+};
+
+/**
+ * What is persisted in mock mode
+ * The feed holds generated events, which must never be restored into a
+ * real pipeline run (later runs cluster against the stored feed).
+ */
+export const MOCK_PERSIST_WHITELIST: PersistWhitelist = {
+  ...PERSIST_WHITELIST,
+  events: ['readEventIds'],
+};
+
+type SliceState = Record<string, unknown>;
+type PersistedSlices = Record<string, SliceState>;
+
+/**
+ * Migration from the previous schema version to the version it is keyed by
+ */
+export type Migration = (state: PersistedSlices) => PersistedSlices;
+
+/**
+ * Migrations by target version (2: from 1 to 2, ...)
+ */
+export const MIGRATIONS: Record<number, Migration> = {};
+
+/**
+ * Stored envelope
+ */
+interface PersistedEnvelope {
+  version: number;
+  state: unknown;
+}
+
+/**
+ * Tagged form of a Set in stored JSON
+ */
+interface SerializedSet {
+  __type: 'Set';
+  values: unknown[];
+}
+
+function isSerializedSet(value: unknown): value is SerializedSet {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as SerializedSet).__type === 'Set' &&
+    Array.isArray((value as SerializedSet).values)
+  );
+}
+
+/**
+ * Convert a value to plain JSON data (Sets become tagged arrays)
+ *
+ * @param value - State value
+ * @returns JSON-safe value
+ */
+export function serializeValue(value: unknown): unknown {
+  if (value instanceof Set) {
+    return { __type: 'Set', values: [...value].map(serializeValue) };
+  }
+  if (Array.isArray(value)) return value.map(serializeValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, serializeValue(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Restore a value from stored JSON (tagged arrays become Sets)
+ *
+ * @param value - Parsed JSON value
+ * @returns State value
+ */
+export function deserializeValue(value: unknown): unknown {
+  if (isSerializedSet(value)) {
+    return new Set(value.values.map(deserializeValue));
+  }
+  if (Array.isArray(value)) return value.map(deserializeValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, deserializeValue(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Pick the whitelisted parts of the state
+ *
+ * @param state - Root state
+ * @param whitelist - Persisted slices and keys
+ * @returns Whitelisted state
+ */
+export function pickPersistedState(
+  state: Record<string, unknown>,
+  whitelist: PersistWhitelist = PERSIST_WHITELIST,
+): PersistedSlices {
+  const picked: PersistedSlices = {};
+  for (const [slice, keys] of Object.entries(whitelist)) {
+    const sliceState = state[slice] as SliceState | undefined;
+    if (!sliceState) continue;
+    picked[slice] =
+      keys === true
+        ? sliceState
+        : Object.fromEntries(
+            keys
+              .filter((key) => key in sliceState)
+              .map((key) => [key, sliceState[key]]),
+          );
+  }
+  return picked;
+}
+
+/**
+ * Bring persisted state up to the current schema version
+ *
+ * @param state - Persisted slices
+ * @param fromVersion - Version they were saved with
+ * @param migrations - Migrations by target version
+ * @param toVersion - Current version
+ * @returns Migrated slices
+ * @throws AppError when the version is newer than toVersion
+ */
+export function migrateState(
+  state: PersistedSlices,
+  fromVersion: number,
+  migrations: Record<number, Migration> = MIGRATIONS,
+  toVersion: number = PERSIST_VERSION,
+): PersistedSlices {
+  if (fromVersion > toVersion) {
+    throw new AppError(
+      ErrorType.STORAGE,
+      RESET_MESSAGE,
+      undefined,
+      `Persisted state version ${fromVersion} is newer than ${toVersion}`,
+    );
+  }
+  let migrated = state;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = migrations[version];
+    if (migration) migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Parse stored state, migrating it to the current version
+ *
+ * @param raw - Stored string
+ * @param migrations - Migrations by target version
+ * @param toVersion - Current version
+ * @returns Whitelisted slices ready to hydrate
+ * @throws AppError when the stored data is corrupted or unknown
+ */
+export function parsePersistedState(
+  raw: string,
+  migrations: Record<number, Migration> = MIGRATIONS,
+  toVersion: number = PERSIST_VERSION,
+): PersistedSlices {
+  let envelope: PersistedEnvelope;
+  try {
+    envelope = JSON.parse(raw);
+  } catch (error) {
+    throw new AppError(
+      ErrorType.STORAGE,
+      RESET_MESSAGE,
+      error instanceof Error ? error : undefined,
+      'Persisted state is not valid JSON',
+    );
+  }
+
+  if (
+    typeof envelope !== 'object' ||
+    envelope === null ||
+    typeof envelope.version !== 'number' ||
+    typeof envelope.state !== 'object' ||
+    envelope.state === null
+  ) {
+    throw new AppError(
+      ErrorType.STORAGE,
+      RESET_MESSAGE,
+      undefined,
+      'Persisted state has no version or state',
+    );
+  }
+
+  const state = deserializeValue(envelope.state) as PersistedSlices;
+  return migrateState(state, envelope.version, migrations, toVersion);
+}
+
+/**
+ * Whether a restored value has the same kind as the slice default
+ * (Set, array, plain object, or the same primitive type); `null` defaults
+ * accept anything, since they stand for optional values
+ */
+function matchesDefault(defaults: unknown, value: unknown): boolean {
+  if (defaults === null || defaults === undefined) return true;
+  if (defaults instanceof Set) return value instanceof Set;
+  if (Array.isArray(defaults)) return Array.isArray(value);
+  if (typeof defaults === 'object') {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Set)
+    );
+  }
+  return typeof value === typeof defaults;
+}
+
+/**
+ * Drop restored slices whose shape does not match the current state
+ * Each restored key is checked against the type of its default; a slice
+ * with any mismatch is left out, so it keeps its defaults.
+ *
+ * @param restored - Parsed slices
+ * @param defaults - Current (default) root state
+ * @returns Valid slices and the paths that did not match
+ */
+export function validatePersistedState(
+  restored: PersistedSlices,
+  defaults: Record<string, unknown>,
+): { state: PersistedSlices; invalid: string[] } {
+  const state: PersistedSlices = {};
+  const invalid: string[] = [];
+
+  for (const [slice, sliceState] of Object.entries(restored)) {
+    const sliceDefaults = defaults[slice];
+    if (!matchesDefault(sliceDefaults, sliceState)) {
+      invalid.push(slice);
+      continue;
+    }
+    const mismatched = Object.keys(sliceState).filter(
+      (key) =>
+        !matchesDefault(
+          (sliceDefaults as SliceState | undefined)?.[key],
+          sliceState[key],
+        ),
+    );
+    if (mismatched.length > 0) {
+      invalid.push(...mismatched.map((key) => `${slice}.${key}`));
+      continue;
+    }
+    state[slice] = sliceState;
+  }
+
+  return { state, invalid };
+}
+
+/**
+ * Wrap the root reducer so HYDRATE merges restored slices over the
+ * current (default) state; keys missing from storage keep their defaults
+ *
+ * @param reducer - Root reducer
+ * @returns Reducer that handles HYDRATE
+ */
+export function withHydration<S>(
+  reducer: Reducer<S, AnyAction>,
+): Reducer<S, AnyAction> {
+  return (state, action) => {
+    const next = reducer(state, action);
+    if (action.type !== HYDRATE) return next;
+
+    const current = next as unknown as Record<string, unknown>;
+    const restored = action.payload as PersistedSlices;
+    const merged: Record<string, unknown> = { ...current };
+    for (const [slice, sliceState] of Object.entries(restored)) {
+      const defaults = current[slice];
+      if (typeof defaults !== 'object' || defaults === null) continue;
+      merged[slice] = { ...defaults, ...sliceState };
+    }
+    return merged as unknown as S;
+  };
+}
+
+/**
+ * Restore persisted state into the store and save whitelisted changes
+ * from then on. On corrupted storage the stored data is removed and the
+ * store keeps its defaults; slices of the wrong shape keep their defaults,
+ * which are written back right away.
+ *
+ * @param store - Redux store (root reducer wrapped with withHydration)
+ * @param whitelist - Persisted slices and keys
+ * @returns Resolves once the state is restored
+ */
+export async function persistStore(
+  store: Store,
+  whitelist: PersistWhitelist = PERSIST_WHITELIST,
+): Promise<void> {
+  let repair = false;
+  try {
+    const raw = await loadString(STORAGE_KEY);
+    if (raw !== null) {
+      const { state, invalid } = validatePersistedState(
+        pickPersistedState(parsePersistedState(raw), whitelist),
+        store.getState(),
+      );
+      if (invalid.length > 0) {
+        logError(
+          new AppError(
+            ErrorType.STORAGE,
+            RESET_MESSAGE,
+            undefined,
+            `Persisted state has unexpected types: ${invalid.join(', ')}`,
+          ),
+          'Restoring persisted state',
+        );
+        repair = true;
+      }
+      store.dispatch({ type: HYDRATE, payload: state });
+    }
+  } catch (error) {
+    const appError =
+      error instanceof AppError
+        ? error
+        : new AppError(
+            ErrorType.STORAGE,
+            RESET_MESSAGE,
+            error instanceof Error ? error : undefined,
+          );
+    logError(appError, 'Restoring persisted state');
+    await removeItem(STORAGE_KEY);
+  }
+
+  let saved = pickPersistedState(store.getState(), whitelist);
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  const save = () =>
+    saveJSON<PersistedEnvelope>(STORAGE_KEY, {
+      version: PERSIST_VERSION,
+      state: serializeValue(saved),
+    });
+
+  // Replace slices of the wrong shape in storage with their defaults
+  if (repair) await save();
+
+  store.subscribe(() => {
+    const current = pickPersistedState(store.getState(), whitelist);
+    const changed = Object.keys(current).some((slice) =>
+      Object.keys(current[slice]).some(
+        (key) => current[slice][key] !== saved[slice]?.[key],
+      ),
+    );
+    if (!changed) return;
+
+    saved = current;
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timeout = null;
+      save();
+    }, SAVE_DEBOUNCE_MS);
+  });
+}
+
+/**
+ * Remove persisted state (for testing/debugging)
+ */
+export async function clearPersistedState(): Promise<void> {
+  await removeItem(STORAGE_KEY);
+}
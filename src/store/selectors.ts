@@ -8,6 +8,10 @@
 import { createSelector } from '@reduxjs/toolkit';
 
 import type { RootState } from './index';
+import type { DeliveryPolicySettings } from '../services/deliveryPolicyService';
+import type { NotificationPreferences } from '../services/subscriptionService';
+import type { FollowUpPreferences } from '../services/threadService';
+import type { TickerNotificationOverride } from '../types/events';
 
 /**
  * Base selectors (direct state access)
@@ -140,3 +144,75 @@ export const selectIsInitialLoading = createSelector(
     return hasWatchlist && loading && events.length === 0;
   },
 );
+
+/**
+ * Per-ticker notification overrides
+ */
+export const selectTickerOverrides = (state: RootState) =>
+  state.settings.tickerOverrides;
+
+const DEFAULT_TICKER_OVERRIDE: TickerNotificationOverride = { mode: 'default' };
+
+/**
+ * Get the notification override for a ticker ('default' if none)
+ */
+export const selectTickerOverride = createSelector(
+  [selectTickerOverrides, (_state: RootState, ticker: string) => ticker],
+  (overrides, ticker): TickerNotificationOverride =>
+    overrides[ticker] || DEFAULT_TICKER_OVERRIDE,
+);
+
+/**
+ * Follow-up (続報) routing preferences
+ */
+export const selectFollowUpPreferences = createSelector(
+  [selectSettings],
+  (settings): FollowUpPreferences => ({
+    followUpsOnly: settings.followUpsOnly,
+    followUpsOnlyTickers: Object.keys(settings.tickerOverrides).filter(
+      (ticker) => settings.tickerOverrides[ticker].mode === 'followUpsOnly',
+    ),
+    subscribedThreadIds: settings.subscribedThreadIds,
+    unsubscribedThreadIds: settings.unsubscribedThreadIds,
+    highImmediate: settings.highImmediate,
+  }),
+);
+
+/**
+ * Preferences for decideNotification (global, thread and ticker)
+ */
+export const selectNotificationPreferences = createSelector(
+  [selectFollowUpPreferences, selectTickerOverrides],
+  (followUps, tickerOverrides): NotificationPreferences => ({
+    ...followUps,
+    tickerOverrides,
+  }),
+);
+
+/**
+ * Settings for decideDelivery (budget, quiet hours, impact, cooldown)
+ */
+export const selectDeliveryPolicySettings = createSelector(
+  [selectSettings],
+  (settings): DeliveryPolicySettings => ({
+    dailyLimit: settings.dailyLimit,
+    quietMode: settings.quietMode,
+    quietUntil: settings.quietUntil,
+    quietHours: settings.quietHours,
+    minimumImpact: settings.minimumImpact,
+    deferOnHolidays: settings.deferOnHolidays,
+    cooldownMinutes: settings.cooldownMinutes,
+  }),
+);
+
+/**
+ * Recent delivery decisions, newest first (debug screen)
+ */
+export const selectDeliveryLog = (state: RootState) =>
+  state.notifications.deliveryLog;
+
+/**
+ * Pushes deferred to the next digest
+ */
+export const selectDeferredNotifications = (state: RootState) =>
+  state.notifications.deferred;
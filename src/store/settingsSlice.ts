@@ -1,5 +1,13 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
+import type { QuietHours } from '../services/deliveryPolicyService';
+import {
+  EventType,
+  ImpactLevel,
+  TickerNotificationMode,
+  TickerNotificationOverride,
+} from '../types/events';
+
 /**
  * User preferences and settings for controlling notification behaviour
  * and other configurable aspects of the application. Settings are kept
@@ -23,21 +31,82 @@ export interface SettingsState {
    * initial alerts). This corresponds to the "続報のみ受け取る" action.
    */
   followUpsOnly: boolean;
+  /**
+   * Per‑ticker overrides (mute, 強 only, always immediate, 続報のみ and
+   * event type filters). Tickers without an entry follow the global
+   * settings above.
+   */
+  tickerOverrides: Record<string, TickerNotificationOverride>;
+  /**
+   * Threads whose follow‑ups are always pushed (chosen from an event).
+   */
+  subscribedThreadIds: string[];
+  /**
+   * Threads whose follow‑ups are never pushed.
+   */
+  unsubscribedThreadIds: string[];
   /**
    * Whether notifications should be silenced for a temporary period. When
    * true, push notifications will not be shown until the quiet period
    * expires.
    */
   quietMode: boolean;
+  /**
+   * ISO timestamp when a timed quiet period ends (null while quiet mode is
+   * off or on until turned off). Pushes deferred meanwhile roll into the
+   * next digest.
+   */
+  quietUntil: string | null;
+  /**
+   * Daily quiet hours (JST). Pushes inside them are deferred to the next
+   * digest slot.
+   */
+  quietHours: QuietHours;
+  /**
+   * Lowest personal impact that may be pushed. Lower events appear in the
+   * feed only.
+   */
+  minimumImpact: ImpactLevel;
+  /**
+   * Whether pushes on weekends and market holidays wait for the next
+   * digest.
+   */
+  deferOnHolidays: boolean;
+  /**
+   * Minimum minutes between pushes for the same ticker.
+   */
+  cooldownMinutes: number;
 }
 
 const initialState: SettingsState = {
   highImmediate: true,
   dailyLimit: 5,
   followUpsOnly: false,
+  tickerOverrides: {},
+  subscribedThreadIds: [],
+  unsubscribedThreadIds: [],
   quietMode: false,
+  quietUntil: null,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  minimumImpact: '弱',
+  deferOnHolidays: true,
+  cooldownMinutes: 30,
 };
 
+/**
+ * Drop an override that no longer changes anything
+ */
+function pruneOverride(state: SettingsState, ticker: string): void {
+  const override = state.tickerOverrides[ticker];
+  if (
+    override &&
+    override.mode === 'default' &&
+    (!override.eventTypes || override.eventTypes.length === 0)
+  ) {
+    delete state.tickerOverrides[ticker];
+  }
+}
+
 const settingsSlice = createSlice({
   name: 'settings',
   initialState,
@@ -51,8 +120,65 @@ const settingsSlice = createSlice({
     setFollowUpsOnly: (state, action: PayloadAction<boolean>) => {
       state.followUpsOnly = action.payload;
     },
+    setTickerNotificationMode: (
+      state,
+      action: PayloadAction<{ ticker: string; mode: TickerNotificationMode }>,
+    ) => {
+      const { ticker, mode } = action.payload;
+      const current = state.tickerOverrides[ticker];
+      state.tickerOverrides[ticker] = { ...current, mode };
+      pruneOverride(state, ticker);
+    },
+    setTickerEventTypes: (
+      state,
+      action: PayloadAction<{ ticker: string; eventTypes: EventType[] }>,
+    ) => {
+      const { ticker, eventTypes } = action.payload;
+      const current = state.tickerOverrides[ticker] || { mode: 'default' };
+      state.tickerOverrides[ticker] = { ...current, eventTypes };
+      pruneOverride(state, ticker);
+    },
+    clearTickerOverride: (state, action: PayloadAction<string>) => {
+      delete state.tickerOverrides[action.payload];
+    },
+    subscribeThread: (state, action: PayloadAction<string>) => {
+      state.unsubscribedThreadIds = state.unsubscribedThreadIds.filter(
+        (id) => id !== action.payload,
+      );
+      if (!state.subscribedThreadIds.includes(action.payload)) {
+        state.subscribedThreadIds.push(action.payload);
+      }
+    },
+    unsubscribeThread: (state, action: PayloadAction<string>) => {
+      state.subscribedThreadIds = state.subscribedThreadIds.filter(
+        (id) => id !== action.payload,
+      );
+      if (!state.unsubscribedThreadIds.includes(action.payload)) {
+        state.unsubscribedThreadIds.push(action.payload);
+      }
+    },
     setQuietMode: (state, action: PayloadAction<boolean>) => {
       state.quietMode = action.payload;
+      state.quietUntil = null;
+    },
+    /**
+     * Silence pushes until the given ISO timestamp (see getQuietUntil).
+     */
+    startQuietPeriod: (state, action: PayloadAction<string>) => {
+      state.quietMode = true;
+      state.quietUntil = action.payload;
+    },
+    setQuietHours: (state, action: PayloadAction<Partial<QuietHours>>) => {
+      state.quietHours = { ...state.quietHours, ...action.payload };
+    },
+    setMinimumImpact: (state, action: PayloadAction<ImpactLevel>) => {
+      state.minimumImpact = action.payload;
+    },
+    setDeferOnHolidays: (state, action: PayloadAction<boolean>) => {
+      state.deferOnHolidays = action.payload;
+    },
+    setCooldownMinutes: (state, action: PayloadAction<number>) => {
+      state.cooldownMinutes = action.payload;
     },
   },
 });
@@ -61,7 +187,17 @@ export const {
   setHighImmediate,
   setDailyLimit,
   setFollowUpsOnly,
+  setTickerNotificationMode,
+  setTickerEventTypes,
+  clearTickerOverride,
+  subscribeThread,
+  unsubscribeThread,
   setQuietMode,
+  startQuietPeriod,
+  setQuietHours,
+  setMinimumImpact,
+  setDeferOnHolidays,
+  setCooldownMinutes,
 } = settingsSlice.actions;
 
 export default settingsSlice.reducer;
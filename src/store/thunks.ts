@@ -8,11 +8,38 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
 
 import { RootState } from './index';
-import { clusterEvents } from '../services/clusteringService';
-import { ingestData } from '../services/dataIngestionService';
-import { normalizeEvent } from '../services/normalizationService';
+import {
+  addNotification,
+  deferNotification,
+  logDeliveryDecision,
+  Notification,
+  removeDeferred,
+  rescheduleDeferred,
+} from './notificationsSlice';
+import {
+  selectDeliveryPolicySettings,
+  selectNotificationPreferences,
+} from './selectors';
+import { summarizeClusters } from '../services/clusterSummaryService';
+import {
+  clusterEvents,
+  clusterIncrementally,
+  ClusteringConfig,
+  generateIdempotencyKey,
+} from '../services/clusteringService';
+import { ingestData, IngestionConfig } from '../services/dataIngestionService';
+import {
+  decideDelivery,
+  getNextDigestSlot,
+  isQuietModeActive,
+  isWithinQuietHours,
+} from '../services/deliveryPolicyService';
+import { filterNewEvents } from '../services/eventRepository';
+import { formatNotification } from '../services/notificationFormatter';
+import { sendImmediateNotification } from '../services/notificationService';
 import {
   filterUnreadEvents,
+  personalizeEvent,
   personalizeEvents,
 } from '../services/personalizationService';
 import {
@@ -21,7 +48,20 @@ import {
   MORNING_DIGEST_RANKING,
   rankEvents,
 } from '../services/rankingService';
-import { ClusteredEvent, NormalizedEvent, UserProfile } from '../types/events';
+import { createRSSAdapter } from '../services/rssService';
+import { getCompanyName } from '../services/securitiesMasterService';
+import { SimilarityMethod } from '../services/similarityService';
+import { CursorUpdate } from '../services/sourceCursorRepository';
+import { registerSourceAdapter } from '../services/sourceRegistry';
+import { decideNotification } from '../services/subscriptionService';
+import { assignThreads } from '../services/threadService';
+import {
+  ClusterDelta,
+  ClusteredEvent,
+  NormalizedEvent,
+  PersonalizedEvent,
+  UserProfile,
+} from '../types/events';
 import { parseError } from '../utils/errorHandler';
 import {
   generateMockDigestEvents,
@@ -29,24 +69,76 @@ import {
   isMockMode,
 } from '../utils/mockData';
 
+registerSourceAdapter(
+  createRSSAdapter({
+    id: 'prtimes',
+    name: 'PR TIMES',
+    url: 'https://prtimes.jp/main/feed/rss/all.rss',
+    tier: 'B',
+  }),
+);
+
+/**
+ * Sources used by the real data pipeline
+ */
+const PIPELINE_INGESTION_CONFIG: IngestionConfig = {
+  sources: ['EDINET', 'TDNET', 'prtimes'],
+};
+
+/**
+ * Clustering configuration from environment
+ */
+function getClusteringConfig(): ClusteringConfig {
+  return {
+    timeWindowMinutes: parseInt(
+      process.env.EXPO_PUBLIC_CLUSTER_TIME_WINDOW || '30',
+      10,
+    ),
+    similarityThreshold: parseFloat(
+      process.env.EXPO_PUBLIC_CLUSTER_SIMILARITY_THRESHOLD || '0.7',
+    ),
+    cooldownMinutes: parseInt(
+      process.env.EXPO_PUBLIC_CLUSTER_COOLDOWN || '30',
+      10,
+    ),
+    similarityMethod: (process.env.EXPO_PUBLIC_CLUSTER_SIMILARITY_METHOD ||
+      'auto') as SimilarityMethod,
+  };
+}
+
 /**
  * Fetch and process events from data sources
  *
  * Full pipeline:
- * 1. Ingest data (EDINET + RSS) OR use mock data
- * 2. Normalize events
- * 3. Cluster by ticker × time × similarity
+ * 1. Ingest data (registered sources: EDINET, TDnet, RSS) OR use mock data
+ * 2. Drop events already seen in earlier successful runs
+ * 3. Cluster by ticker × time × similarity (new events attach to open
+ *    clusters from earlier runs, keeping their IDs)
  * 4. Personalize for user
  * 5. Rank by relevance
+ *
+ * `deltas` lists clusters created or updated in this run (with 続報
+ * marked), for deliverClusterNotifications and then summarizeClusterEvents
+ * (AI summaries run after delivery, so 強 is never held back by them).
+ * `ingestedEvents` are the
+ * watched events of this run: mark them seen (markEventsSeen) only once
+ * the run has been stored and delivered, so a failure never loses them,
+ * then commit `cursorUpdates` (commitCursorUpdates).
+ * A failed run is rejected with a user-facing message and the caller keeps
+ * the current feed: mock data must never be stored, since later runs
+ * cluster against the stored feed.
  */
 export const fetchAndProcessEvents = createAsyncThunk<
   {
     allEvents: ReturnType<typeof personalizeEvents>;
     liveEvents: ReturnType<typeof getTopEvents>;
+    deltas: ClusterDelta[];
+    ingestedEvents: NormalizedEvent[];
+    cursorUpdates: CursorUpdate[];
   },
   void,
-  { state: RootState }
->('events/fetchAndProcess', async (_, { getState }) => {
+  { state: RootState; rejectValue: string }
+>('events/fetchAndProcess', async (_, { getState, rejectWithValue }) => {
   const state = getState();
   const watchlistTickers = state.watchlist.tickers;
 
@@ -64,6 +156,9 @@ export const fetchAndProcessEvents = createAsyncThunk<
     return {
       allEvents: mockEvents,
       liveEvents: mockEvents.slice(0, 3),
+      deltas: [],
+      ingestedEvents: [],
+      cursorUpdates: [],
     };
   }
 
@@ -71,59 +166,57 @@ export const fetchAndProcessEvents = createAsyncThunk<
   try {
     // Step 1: Data Ingestion (Phase 1)
     const ingestionResult = await ingestData({
-      edinetEnabled: true,
-      rssFeeds: [
-        {
-          name: 'PR TIMES',
-          url: 'https://prtimes.jp/main/feed/rss/all.rss',
-          tier: 'B' as const,
-        },
-      ],
+      ...PIPELINE_INGESTION_CONFIG,
+      tickers: watchlistTickers,
     });
 
-    const rawEvents = ingestionResult.events;
-
-    // Step 2: Normalization (Phase 1)
-    const normalizedEvents = rawEvents.map(normalizeEvent);
-
     // Filter to watchlist tickers only for performance
-    const relevantEvents = normalizedEvents.filter((event) =>
+    const watchedEvents = ingestionResult.events.filter((event) =>
       event.tickerCodes.some((ticker) => watchlistTickers.includes(ticker)),
     );
 
-    // Step 3: Clustering (Phase 4)
-    const clusteredEvents = clusterEvents(relevantEvents, {
-      timeWindowMinutes: parseInt(
-        process.env.EXPO_PUBLIC_CLUSTER_TIME_WINDOW || '30',
-        10,
-      ),
-      similarityThreshold: parseFloat(
-        process.env.EXPO_PUBLIC_CLUSTER_SIMILARITY_THRESHOLD || '0.7',
+    // Step 2: Deduplication - only events never seen before go downstream
+    // (recorded as seen by the caller after delivery)
+    const relevantEvents = await filterNewEvents(watchedEvents);
+
+    // Step 3: Clustering (Phase 4), with follow-ups linked to threads
+    const deltas = await assignThreads(
+      clusterIncrementally(
+        state.events.events,
+        relevantEvents,
+        getClusteringConfig(),
       ),
-    });
+    );
+    const clusteredEvents = deltas.map((delta) => delta.cluster);
 
     // Step 4: Personalization (Phase 5)
     const personalizedEvents = personalizeEvents(clusteredEvents, userProfile);
 
+    // Keep previously processed events for tickers still on the watchlist
+    const existingEvents = state.events.events.filter(
+      (event) =>
+        event.allTickers.some((ticker) => watchlistTickers.includes(ticker)) &&
+        !personalizedEvents.some((e) => e.clusterId === event.clusterId),
+    );
+
     // Step 5: Ranking (Phase 5)
-    const rankedEvents = rankEvents(personalizedEvents, LIVE_FEED_RANKING);
+    const rankedEvents = rankEvents(
+      [...personalizedEvents, ...existingEvents],
+      LIVE_FEED_RANKING,
+    );
     const liveEvents = getTopEvents(rankedEvents, 5, LIVE_FEED_RANKING);
 
     return {
       allEvents: rankedEvents,
       liveEvents,
+      deltas,
+      ingestedEvents: watchedEvents,
+      cursorUpdates: ingestionResult.cursorUpdates,
     };
   } catch (error) {
-    // If real pipeline fails, log error and fall back to mock data
     const appError = parseError(error);
     console.error('Data pipeline error:', appError.userMessage);
-
-    console.warn('Falling back to mock data due to error');
-    const mockEvents = generateMockLiveTileEvents(watchlistTickers);
-    return {
-      allEvents: mockEvents,
-      liveEvents: mockEvents.slice(0, 3),
-    };
+    return rejectWithValue(appError.userMessage);
   }
 });
 
@@ -171,30 +264,18 @@ export const generateDigest = createAsyncThunk<
     } else {
       // Fetch fresh data
       const ingestionResult = await ingestData({
-        edinetEnabled: true,
-        rssFeeds: [
-          {
-            name: 'PR TIMES',
-            url: 'https://prtimes.jp/main/feed/rss/all.rss',
-            tier: 'B' as const,
-          },
-        ],
+        ...PIPELINE_INGESTION_CONFIG,
+        tickers: watchlistTickers,
       });
 
-      const rawEvents = ingestionResult.events;
-      const normalizedEvents = rawEvents.map(normalizeEvent);
-      const relevantEvents = normalizedEvents.filter((event) =>
+      const relevantEvents = ingestionResult.events.filter((event) =>
         event.tickerCodes.some((ticker) => watchlistTickers.includes(ticker)),
       );
-      const clusteredEvents = clusterEvents(relevantEvents, {
-        timeWindowMinutes: parseInt(
-          process.env.EXPO_PUBLIC_CLUSTER_TIME_WINDOW || '30',
-          10,
-        ),
-        similarityThreshold: parseFloat(
-          process.env.EXPO_PUBLIC_CLUSTER_SIMILARITY_THRESHOLD || '0.7',
-        ),
-      });
+      // Without AI summaries: digests are not held back by model calls
+      const clusteredEvents = clusterEvents(
+        relevantEvents,
+        getClusteringConfig(),
+      );
       eventsToProcess = personalizeEvents(clusteredEvents, userProfile);
     }
 
@@ -246,10 +327,15 @@ export const refreshLiveEvents = createAsyncThunk<
 /**
  * Process new events from real-time data pipeline
  *
- * Used when new events arrive via ingestion loop
+ * Used when new events arrive via ingestion loop. `ingestedEvents` are
+ * the events of this batch: mark them seen (markEventsSeen) only once the
+ * result has been stored, as with fetchAndProcessEvents.
  */
 export const processNewEvents = createAsyncThunk<
-  ReturnType<typeof personalizeEvents>,
+  {
+    events: ReturnType<typeof personalizeEvents>;
+    ingestedEvents: NormalizedEvent[];
+  },
   NormalizedEvent[],
   { state: RootState }
 >('events/processNew', async (normalizedEvents, { getState }) => {
@@ -262,20 +348,225 @@ export const processNewEvents = createAsyncThunk<
     readEvents: state.events.readEventIds,
   };
 
-  // Cluster new events
-  const clusteredEvents: ClusteredEvent[] = clusterEvents(normalizedEvents, {
-    timeWindowMinutes: parseInt(
-      process.env.EXPO_PUBLIC_CLUSTER_TIME_WINDOW || '30',
-      10,
-    ),
-    similarityThreshold: parseFloat(
-      process.env.EXPO_PUBLIC_CLUSTER_SIMILARITY_THRESHOLD || '0.7',
-    ),
-  });
+  // Drop events already processed in earlier runs
+  const newEvents = await filterNewEvents(normalizedEvents);
+
+  // Cluster new events (attaching to open clusters where they follow up)
+  const clusteredEvents: ClusteredEvent[] = clusterIncrementally(
+    state.events.events,
+    newEvents,
+    getClusteringConfig(),
+  ).map((delta) => delta.cluster);
 
   // Personalize for user
   const personalizedEvents = personalizeEvents(clusteredEvents, userProfile);
 
   // Rank by recency (live feed config)
-  return rankEvents(personalizedEvents, LIVE_FEED_RANKING);
+  const rankedEvents = rankEvents(personalizedEvents, LIVE_FEED_RANKING);
+  return { events: rankedEvents, ingestedEvents: normalizedEvents };
+});
+
+/**
+ * Summarize clusters across their sources (AI, cached; no-op without AI)
+ * Runs after deliverClusterNotifications, so pushes never wait for model
+ * calls; store the result with updateEvents.
+ *
+ * @returns Summarized events (clusters no longer in the feed are skipped)
+ */
+export const summarizeClusterEvents = createAsyncThunk<
+  PersonalizedEvent[],
+  string[],
+  { state: RootState }
+>('events/summarizeClusters', async (clusterIds, { getState }) => {
+  const clusters = getState().events.events.filter((event) =>
+    clusterIds.includes(event.clusterId),
+  );
+  return summarizeClusters(clusters);
+});
+
+/**
+ * Push notifications for clusters created or updated in a pipeline run
+ * Per product spec: 強 is pushed immediately; under 続報のみ only thread
+ * updates are pushed; per-ticker overrides apply (see decideNotification).
+ * Pushes then pass the delivery policy (budget, quiet hours, minimum
+ * impact, holidays, cooldown; see decideDelivery); deferred pushes are
+ * queued for the next digest (see flushDeferredNotifications) and every
+ * decision is logged for the debug screen.
+ *
+ * @returns Notifications sent
+ */
+export const deliverClusterNotifications = createAsyncThunk<
+  Notification[],
+  ClusterDelta[],
+  { state: RootState }
+>('notifications/deliverClusters', async (deltas, { dispatch, getState }) => {
+  const state = getState();
+  const prefs = selectNotificationPreferences(state);
+  const policy = selectDeliveryPolicySettings(state);
+  const userProfile: UserProfile = {
+    userId: 'default-user',
+    watchlist: state.watchlist.tickers,
+    readEvents: state.events.readEventIds,
+  };
+  const sent: Notification[] = [];
+
+  for (const delta of deltas) {
+    const { cluster } = delta;
+    const decision = decideNotification(delta, prefs);
+    if (!decision.push) continue;
+
+    const delivery = decideDelivery(
+      personalizeEvent(cluster, userProfile),
+      policy,
+      [...state.notifications.items.filter((n) => !n.viaDigest), ...sent],
+    );
+    dispatch(
+      logDeliveryDecision({
+        clusterId: cluster.clusterId,
+        ticker: cluster.primaryTicker,
+        title: cluster.title,
+        action: delivery.action,
+        reason: `${decision.reason} → ${delivery.reason}`,
+        deferUntil: delivery.deferUntil,
+        decidedAt: new Date().toISOString(),
+      }),
+    );
+    if (delivery.action === 'drop') continue;
+
+    const primary = cluster.events[0];
+    const headline = delta.followUp
+      ? `【続報】${cluster.title}`
+      : cluster.title;
+    const formatted = formatNotification(
+      { ...primary, title: headline, tickerCodes: [cluster.primaryTicker] },
+      cluster.impact,
+      getCompanyName(cluster.primaryTicker),
+    );
+    const idempotencyKey = generateIdempotencyKey(
+      cluster,
+      cluster.revision || 1,
+    );
+    const notification: Notification = {
+      id: idempotencyKey,
+      ticker: cluster.primaryTicker,
+      message: formatted.message,
+      importance: cluster.impact,
+      timestamp: new Date().toISOString(),
+      read: false,
+      threadId: cluster.threadId,
+    };
+
+    if (delivery.action === 'defer' && delivery.deferUntil) {
+      dispatch(
+        deferNotification({
+          clusterId: cluster.clusterId,
+          notification,
+          reason: delivery.reason,
+          deferUntil: delivery.deferUntil,
+        }),
+      );
+      continue;
+    }
+
+    try {
+      await sendImmediateNotification({
+        title: delta.followUp ? '続報' : 'BizStock Alert',
+        body: formatted.message,
+        data: { clusterId: cluster.clusterId, threadId: cluster.threadId },
+        idempotencyKey,
+      });
+    } catch (error) {
+      console.error('Failed to deliver notification:', error);
+      continue;
+    }
+
+    dispatch(removeDeferred([cluster.clusterId]));
+    dispatch(addNotification(notification));
+    sent.push(notification);
+  }
+
+  return sent;
+});
+
+/**
+ * Number of headlines listed in a digest of deferred pushes
+ */
+const DEFERRED_DIGEST_HEADLINES = 3;
+
+/**
+ * Deliver pushes deferred by the delivery policy whose digest slot has come
+ * Per product spec: nothing held back during quiet mode or quiet hours is
+ * lost; it arrives as one digest push. Events already read in the app are
+ * skipped. While quiet mode or quiet hours still apply, due pushes move to
+ * the following slot.
+ *
+ * @returns Notifications delivered in the digest
+ */
+export const flushDeferredNotifications = createAsyncThunk<
+  Notification[],
+  void,
+  { state: RootState }
+>('notifications/flushDeferred', async (_, { dispatch, getState }) => {
+  const state = getState();
+  const policy = selectDeliveryPolicySettings(state);
+  const now = new Date();
+  const due = state.notifications.deferred.filter(
+    (d) => new Date(d.deferUntil) <= now,
+  );
+  if (due.length === 0) return [];
+
+  const dueIds = due.map((d) => d.clusterId);
+  const quiet = isQuietModeActive(policy, now);
+  if (quiet || isWithinQuietHours(now, policy.quietHours)) {
+    // Strictly later than now, so the queue always moves forward
+    const resumeAt =
+      quiet && policy.quietUntil
+        ? new Date(policy.quietUntil)
+        : new Date(now.getTime() + 1);
+    dispatch(
+      rescheduleDeferred({
+        clusterIds: dueIds,
+        deferUntil: getNextDigestSlot(
+          resumeAt,
+          policy.quietHours,
+        ).toISOString(),
+      }),
+    );
+    return [];
+  }
+
+  const readEventIds = state.events.readEventIds;
+  const unread = due.filter((d) => !readEventIds.has(d.clusterId));
+  if (unread.length > 0) {
+    const headlines = unread
+      .slice(0, DEFERRED_DIGEST_HEADLINES)
+      .map((d) => d.notification.message);
+    const more = unread.length - headlines.length;
+    try {
+      await sendImmediateNotification({
+        title: `保留中の通知 ${unread.length}件`,
+        body: [...headlines, ...(more > 0 ? [`ほか${more}件`] : [])].join('\n'),
+        data: { clusterIds: unread.map((d) => d.clusterId) },
+        idempotencyKey: `deferred-${unread
+          .map((d) => d.notification.id)
+          .join(',')}`,
+      });
+    } catch (error) {
+      console.error('Failed to deliver deferred notifications:', error);
+      return [];
+    }
+  }
+
+  const delivered = unread.map(
+    (d): Notification => ({
+      ...d.notification,
+      timestamp: now.toISOString(),
+      viaDigest: true,
+    }),
+  );
+  for (const notification of delivered) {
+    dispatch(addNotification(notification));
+  }
+  dispatch(removeDeferred(dueIds));
+  return delivered;
 });
@@ -1,16 +1,19 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
+import { normalizeTickerCode } from '../utils/tickerCode';
+
 /**
  * Redux slice to manage the user's watchlist of stock ticker symbols.
  *
- * The watchlist holds an array of uppercase ticker strings. Duplicate entries
+ * The watchlist holds an array of canonical securities codes ("7203",
+ * "130A"). Duplicate entries
  * are prevented by checking if the ticker already exists before pushing a new
  * value. Consumers of this slice should import and dispatch the exported
  * actions to add or remove tickers from the list.
  */
 export interface WatchlistState {
   /**
-   * Array of uppercase ticker symbols currently in the user's watchlist.
+   * Array of securities codes currently in the user's watchlist.
    */
   tickers: string[];
 }
@@ -24,11 +27,13 @@ const watchlistSlice = createSlice({
   initialState,
   reducers: {
     /**
-     * Adds a ticker symbol to the watchlist. Symbols are normalized to
-     * uppercase. If the symbol is already present it will not be added again.
+     * Adds a ticker symbol to the watchlist. Codes are normalized to their
+     * canonical form (full-width/lowercase input, "130A0" → "130A"); invalid
+     * codes are ignored. If the code is already present it will not be added
+     * again.
      */
     addTicker: (state, action: PayloadAction<string>) => {
-      const ticker = action.payload.toUpperCase().trim();
+      const ticker = normalizeTickerCode(action.payload);
       if (ticker && !state.tickers.includes(ticker)) {
         state.tickers.push(ticker);
       }
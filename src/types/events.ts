@@ -13,16 +13,24 @@ export type SourceTier = 'A' | 'B' | 'C';
 
 /**
  * Event type classification per product spec:
- * - 上方修正 (upward revision)
- * - 資本政策 (capital policy)
+ * - 上方修正 / 下方修正 (upward / downward forecast revision)
+ * - 資本政策 (capital policy), with directional subtypes:
+ *   増配 / 減配 (dividend increase / cut), 自社株買い (buyback),
+ *   公募増資 (dilutive public offering)
  * - 提携 (partnership)
  * - 事故 (incident)
  * - 規制 (regulation)
+ * - 大量保有 (large shareholding / stake change)
  * - その他 (other)
  */
 export type EventType =
   | '上方修正'
+  | '下方修正'
   | '資本政策'
+  | '増配'
+  | '減配'
+  | '自社株買い'
+  | '公募増資'
   | '提携'
   | '事故'
   | '規制'
@@ -30,6 +38,7 @@ export type EventType =
   | '業績予想'
   | '新製品'
   | '受注'
+  | '大量保有'
   | 'その他';
 
 /**
@@ -40,6 +49,72 @@ export type EventType =
  */
 export type ImpactLevel = '強' | '中' | '弱';
 
+/**
+ * Filing status flags for regulatory documents (EDINET etc.)
+ * Lets downstream code tell corrections and withdrawals from originals
+ */
+export interface FilingInfo {
+  /** Document type code (e.g., EDINET docTypeCode "120") */
+  docTypeCode: string;
+  /** Whether this filing corrects an earlier one (訂正) */
+  isCorrection: boolean;
+  /** Whether this filing was withdrawn or is a withdrawal notice (取下げ) */
+  isWithdrawn: boolean;
+  /** externalId of the original filing (for corrections) */
+  parentExternalId?: string;
+}
+
+/**
+ * Key figures for one set of results or forecast (JPY, EPS in yen)
+ */
+export interface FinancialValues {
+  /** 売上高 / 営業収益 */
+  revenue?: number;
+  /** 営業利益 */
+  operatingProfit?: number;
+  /** 親会社株主に帰属する当期純利益 */
+  netIncome?: number;
+  /** 1株当たり当期純利益 (EPS) */
+  eps?: number;
+  /** 1株当たり年間配当金 */
+  dividendPerShare?: number;
+}
+
+/**
+ * Key financial figures extracted from a filing's XBRL
+ */
+export interface FinancialFigures extends FinancialValues {
+  /** Whether figures are consolidated (連結) or non-consolidated (個別) */
+  consolidated: boolean;
+  /** Period end date (YYYY-MM-DD) when known */
+  periodEnd?: string;
+  /** Latest forecast (業績予想) when the filing contains one */
+  forecast?: FinancialValues;
+  /** Previous forecast (修正前) when the filing revises a forecast */
+  previousForecast?: FinancialValues;
+}
+
+/**
+ * Large shareholding report details (大量保有報告書 / 変更報告書)
+ * Ratios are percentages (e.g., 6.3 for 6.3%)
+ */
+export interface LargeShareholdingInfo {
+  /** 大量保有者 (holder name) */
+  holderName: string;
+  /** 発行者 (target issuer name) */
+  issuerName: string;
+  /** 発行者の証券コード (4-digit ticker) when known */
+  issuerTicker?: string;
+  /** 株券等保有割合 (current holding ratio, %) */
+  holdingRatio: number;
+  /** 直前の報告書の保有割合 (previous ratio, %); absent for initial reports */
+  previousRatio?: number;
+  /** Ratio change in percentage points (holdingRatio - previousRatio) */
+  ratioChange?: number;
+  /** 保有目的 (purpose of holding) */
+  purpose?: string;
+}
+
 /**
  * Raw event data as fetched from source (EDINET/RSS)
  * Before normalization and clustering
@@ -63,6 +138,72 @@ export interface RawEvent {
   tickerCodes: string[];
   /** Optional: brief excerpt or description from source */
   excerpt?: string;
+  /** Optional: stable source-native identifier (e.g., "EDINET:S100ABCD") */
+  externalId?: string;
+  /** Optional: filing status flags (regulatory sources only) */
+  filing?: FilingInfo;
+  /** Optional: key figures extracted from the filing body */
+  financials?: FinancialFigures;
+  /** Optional: large shareholding report details */
+  largeShareholding?: LargeShareholdingInfo;
+}
+
+/**
+ * Unit of a quantity extracted from text
+ * - JPY: yen (億円, 百万円 etc. are converted to yen)
+ * - shares: 株 (千株, 万株 converted to shares)
+ * - percent: %
+ * - times: 倍
+ * - points: pt / ポイント
+ */
+export type QuantityUnit = 'JPY' | 'shares' | 'percent' | 'times' | 'points';
+
+/**
+ * Number with unit extracted from a title or excerpt
+ */
+export interface ExtractedQuantity {
+  /** Value in base units (yen, shares, ...); lower bound for ranges */
+  value: number;
+  /** Upper bound for ranges ("100〜120億円") */
+  valueMax?: number;
+  unit: QuantityUnit;
+  /** Text as written (e.g., "120億円") */
+  text: string;
+  /** Metric written before the number (e.g., "営業利益") */
+  label?: string;
+}
+
+/**
+ * Before/after pair extracted from text ("120億円から150億円に")
+ */
+export interface FigureChange {
+  /** Metric written before the pair (e.g., "営業利益") */
+  label?: string;
+  before: ExtractedQuantity;
+  after: ExtractedQuantity;
+  /** after - before, in base units (percentage points for percent) */
+  change: number;
+  /** Change relative to before (%), absent when before is 0 */
+  changePercent?: number;
+}
+
+/**
+ * How a ticker is linked to an event
+ * - direct: the issue itself is mentioned or is the filer
+ * - via_subsidiary: attributed to a listed parent through a subsidiary
+ */
+export type TickerRelationType = 'direct' | 'via_subsidiary';
+
+/**
+ * Ticker attribution with relationship tag
+ */
+export interface TickerRelation {
+  /** Ticker code */
+  ticker: string;
+  /** Relationship to the event */
+  relation: TickerRelationType;
+  /** Subsidiary the event was attributed through (name or ticker code) */
+  via?: string;
 }
 
 /**
@@ -93,6 +234,24 @@ export interface NormalizedEvent {
   sourceName: string;
   /** Optional: excerpt for context */
   excerpt?: string;
+  /** Optional: stable source-native identifier (same as RawEvent.externalId) */
+  externalId?: string;
+  /** Optional: filing status flags (same as RawEvent.filing) */
+  filing?: FilingInfo;
+  /** Optional: key figures (same as RawEvent.financials) */
+  financials?: FinancialFigures;
+  /** Optional: large shareholding details (same as RawEvent.largeShareholding) */
+  largeShareholding?: LargeShareholdingInfo;
+  /** Optional: relationship tags for tickerCodes (absent = all direct) */
+  tickerRelations?: TickerRelation[];
+  /** Optional: all applicable event types, eventType first (multi-label) */
+  eventTypes?: EventType[];
+  /** Optional: classifier probability per event type (0-1) */
+  eventTypeProbabilities?: Partial<Record<EventType, number>>;
+  /** Optional: numbers with units found in title/excerpt */
+  quantities?: ExtractedQuantity[];
+  /** Optional: before/after figures found in title/excerpt */
+  figureChanges?: FigureChange[];
 }
 
 /**
@@ -124,6 +283,63 @@ export interface ClusteredEvent {
   reasoning?: string;
   /** Counter-reasoning (反証) */
   counterReasoning?: string;
+  /** Facts in the summary with the member events they come from */
+  facts?: AttributedFact[];
+  /** Points on which member events disagree */
+  contradictions?: SourceContradiction[];
+  /**
+   * Update count: 1 when created, +1 each time later events are attached
+   * (the cluster ID itself never changes)
+   */
+  revision?: number;
+  /** Thread this cluster belongs to (see threadService) */
+  threadId?: string;
+}
+
+/**
+ * Fact from a cluster summary, attributed to member events
+ */
+export interface AttributedFact {
+  text: string;
+  /** IDs of the member events stating the fact */
+  eventIds: string[];
+}
+
+/**
+ * Disagreement between member events of a cluster (e.g., different
+ * figures for the same item)
+ */
+export interface SourceContradiction {
+  /** What the sources disagree on (e.g., 営業利益予想) */
+  topic: string;
+  description: string;
+  /** IDs of the disagreeing member events */
+  eventIds: string[];
+}
+
+/**
+ * Why a cluster counts as a follow-up (続報) to an earlier thread
+ * - new_sources: more sources attached to the same cluster
+ * - correction: a filing that corrects an earlier filing (訂正)
+ * - update: a later disclosure on the same subject (変更, 経過, 延期...)
+ */
+export type FollowUpReason = 'new_sources' | 'correction' | 'update';
+
+/**
+ * Change to the cluster set from one incremental clustering run
+ * - created: new cluster
+ * - updated: events attached to an existing cluster (続報)
+ */
+export interface ClusterDelta {
+  type: 'created' | 'updated';
+  /** Cluster after the change */
+  cluster: ClusteredEvent;
+  /** Events added in this run */
+  addedEvents: NormalizedEvent[];
+  /** Impact before the update (updated only) */
+  previousImpact?: ImpactLevel;
+  /** Set when the change continues an earlier thread (see assignThreads) */
+  followUp?: FollowUpReason;
 }
 
 /**
@@ -145,6 +361,101 @@ export interface EdinetDocument {
   docDescription: string;
   /** 提出日時 */
   submitDateTime: string;
+  /** 対象EDINETコード (target issuer for 大量保有報告書, v2) */
+  subjectEdinetCode?: string | null;
+  /** 親書類管理番号 (original document for corrections, v2) */
+  parentDocID?: string | null;
+  /** 取下区分: "0" normal, "1" withdrawal notice, "2" withdrawn (v2) */
+  withdrawalStatus?: string;
+  /** XBRL有無フラグ: "1" if XBRL is available (v2) */
+  xbrlFlag?: string;
+  /** PDF有無フラグ: "1" if PDF is available (v2) */
+  pdfFlag?: string;
+  /** CSV有無フラグ: "1" if XBRL-CSV is available (v2) */
+  csvFlag?: string;
+}
+
+/**
+ * TSE market segment
+ */
+export type MarketSegment =
+  | 'プライム'
+  | 'スタンダード'
+  | 'グロース'
+  | 'TOKYO PRO Market'
+  | 'その他';
+
+/**
+ * Labeled headline for event type classifier training/evaluation
+ */
+export interface LabeledHeadline {
+  /** Headline (title and optional excerpt) */
+  text: string;
+  /** Applicable event types (one or more) */
+  labels: EventType[];
+}
+
+/**
+ * Securities master entry (one listed issue)
+ */
+export interface SecurityInfo {
+  /** 証券コード (e.g., "7203") */
+  code: string;
+  /** 会社名 (without 株式会社) */
+  name: string;
+  /** English name */
+  nameEn?: string;
+  /** 会社名カナ */
+  kana?: string;
+  /** Other names used in headlines (e.g., "トヨタ", "TOYOTA") */
+  aliases?: string[];
+  /** 旧社名 */
+  formerNames?: string[];
+  /** EDINETコード */
+  edinetCode?: string;
+  /** 市場区分 */
+  market?: MarketSegment;
+  /** 東証33業種 */
+  sector?: string;
+}
+
+/**
+ * Group-structure entry (subsidiary of a listed parent)
+ */
+export interface GroupCompany {
+  /** 会社名 (without 株式会社) */
+  name: string;
+  /** Other names used in headlines */
+  aliases?: string[];
+  /** Ticker code of the listed parent */
+  parentCode: string;
+  /** Ticker code if the subsidiary itself is listed */
+  code?: string;
+}
+
+/**
+ * TDnet timely disclosure listing entry
+ * For parsing TDnet 適時開示情報閲覧サービス list pages
+ */
+export interface TdnetDisclosure {
+  /** Disclosure ID (PDF file name without extension) */
+  id: string;
+  /** 開示日時 (ISO, JST offset) */
+  disclosedAt: string;
+  /** 証券コード (5 characters, e.g., "72030") */
+  code: string;
+  /** 会社名 */
+  companyName: string;
+  /** 表題 */
+  title: string;
+  /** PDF URL */
+  pdfUrl: string;
+  /** XBRL ZIP URL (決算短信 / 業績予想の修正 etc.) */
+  xbrlUrl?: string;
+  /** 上場取引所 (e.g., "東", "東名") */
+  exchange?: string;
+  /** 更新履歴 (e.g., "［更新］") */
+  history?: string;
 }
 
 /**
@@ -181,6 +492,30 @@ export interface UserProfile {
   readEvents: Set<string>;
 }
 
+/**
+ * Per-ticker notification mode
+ * - default: global settings apply
+ * - muted: never pushed
+ * - highOnly: pushed only when 強
+ * - immediate: every new event pushed (core holdings)
+ * - followUpsOnly: only follow-ups (続報) pushed
+ */
+export type TickerNotificationMode =
+  | 'default'
+  | 'muted'
+  | 'highOnly'
+  | 'immediate'
+  | 'followUpsOnly';
+
+/**
+ * Notification override for one ticker
+ */
+export interface TickerNotificationOverride {
+  mode: TickerNotificationMode;
+  /** Event types to push (all when omitted or empty) */
+  eventTypes?: EventType[];
+}
+
 /**
  * Personalized event with relevance scoring
  * Extends ClusteredEvent with user-specific metadata
@@ -0,0 +1,45 @@
+/**
+ * Date Utilities
+ *
+ * JST helpers shared by services that work with Japanese calendar days
+ * (market holidays, digests, daily budgets, per-date source listings).
+ * JST has no daylight saving time, so a fixed +9h offset is exact.
+ */
+
+/**
+ * JST offset from UTC (ms)
+ */
+export const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * Shift a point in time so that UTC getters read JST wall-clock values
+ *
+ * @param date - Point in time
+ * @returns Shifted date (only for reading with UTC getters)
+ */
+export function toJst(date: Date): Date {
+  return new Date(date.getTime() + JST_OFFSET_MS);
+}
+
+/**
+ * JST calendar date (YYYY-MM-DD)
+ *
+ * @param date - Point in time
+ * @returns Calendar date in JST
+ */
+export function getJstDate(date: Date): string {
+  return toJst(date).toISOString().split('T')[0];
+}
+
+/**
+ * Add days to a calendar date (YYYY-MM-DD)
+ *
+ * @param date - Calendar date
+ * @param days - Days to add (may be negative)
+ * @returns Calendar date
+ */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+}
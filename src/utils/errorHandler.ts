@@ -4,6 +4,8 @@
  * Centralized error handling and user-friendly error messages.
  */
 
+import { isTickerCode } from './tickerCode';
+
 /**
  * Error types
  */
@@ -12,6 +14,7 @@ export enum ErrorType {
   API = 'API',
   RATE_LIMIT = 'RATE_LIMIT',
   VALIDATION = 'VALIDATION',
+  STORAGE = 'STORAGE',
   UNKNOWN = 'UNKNOWN',
 }
 
@@ -146,10 +149,10 @@ export async function retryWithBackoff<T>(
 
 /**
  * Validate ticker code format
+ * Accepts 4-digit and alphanumeric codes (e.g., "7203", "130A").
  */
 export function validateTicker(ticker: string): boolean {
-  // Japanese stock codes are 4 digits
-  return /^\d{4}$/.test(ticker);
+  return isTickerCode(ticker);
 }
 
 /**
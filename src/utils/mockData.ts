@@ -7,6 +7,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 
+import { getLLMConfigFromEnv } from '../services/llmProvider';
 import {
   ClusteredEvent,
   EventType,
@@ -39,11 +40,30 @@ const SAMPLE_TITLES: Record<EventType, string[]> = {
     '通期業績予想の修正（上方修正）について',
     '2024年度第2四半期決算短信における業績予想の上方修正',
   ],
+  下方修正: [
+    '2024年3月期 業績予想の下方修正に関するお知らせ',
+    '通期業績予想の修正（下方修正）について',
+  ],
   資本政策: [
-    '自己株式の取得に係る事項の決定に関するお知らせ',
     '株式分割に関するお知らせ',
     '第三者割当による新株式の発行に関するお知らせ',
   ],
+  増配: [
+    '剰余金の配当（増配）に関するお知らせ',
+    '配当予想の修正（増配）に関するお知らせ',
+  ],
+  減配: [
+    '配当予想の修正（減配）に関するお知らせ',
+    '期末配当の見送り（無配）に関するお知らせ',
+  ],
+  自社株買い: [
+    '自己株式の取得に係る事項の決定に関するお知らせ',
+    '自己株式立会外買付取引による自己株式の買付けに関するお知らせ',
+  ],
+  公募増資: [
+    '新株式発行及び株式売出しに関するお知らせ',
+    '公募による新株式発行に関するお知らせ',
+  ],
   提携: [
     '業務提携契約の締結に関するお知らせ',
     '資本業務提携契約の締結について',
@@ -79,6 +99,11 @@ const SAMPLE_TITLES: Record<EventType, string[]> = {
     '海外案件の受注について',
     '官公庁向けシステム受注のお知らせ',
   ],
+  大量保有: [
+    '大量保有報告書（新規 5.12%）',
+    '変更報告書（保有割合 5.10%→6.30%）',
+    '変更報告書（保有割合 8.45%→7.20%）',
+  ],
   その他: [
     '代表取締役の異動に関するお知らせ',
     '組織変更に関するお知らせ',
@@ -112,7 +137,10 @@ export function generateMockNormalizedEvent(
   const company = randomPick(SAMPLE_COMPANIES);
   const eventType = randomPick<EventType>([
     '上方修正',
+    '下方修正',
     '資本政策',
+    '増配',
+    '自社株買い',
     '提携',
     '決算発表',
     '業績予想',
@@ -243,10 +271,7 @@ export function generateMockDigestEvents(
  * Check if mock mode is enabled (for testing without API keys)
  */
 export function isMockMode(): boolean {
-  // Mock mode is enabled if OPENAI_API_KEY is not set
+  // Mock mode is enabled if no LLM provider is configured
   // or if explicitly enabled via environment variable
-  return (
-    process.env.EXPO_PUBLIC_MOCK_MODE === 'true' ||
-    !process.env.EXPO_PUBLIC_OPENAI_API_KEY
-  );
+  return process.env.EXPO_PUBLIC_MOCK_MODE === 'true' || !getLLMConfigFromEnv();
 }
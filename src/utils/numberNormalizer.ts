@@ -0,0 +1,382 @@
+/**
+ * Number and unit normalization for Japanese disclosure text
+ *
+ * Turns "営業利益を１２０億円から150億円に上方修正" into structured values:
+ * - Units: 兆/億/百万/万/千 + 円/株, %, 倍, pt/ポイント (values in base units)
+ * - Full-width digits (NFKC), kanji numerals (三百億円), △/▲ negatives
+ * - Ranges ("100〜120億円") and before/after pairs with percent change
+ */
+
+import { ExtractedQuantity, FigureChange, QuantityUnit } from '../types/events';
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+const KANJI_PLACES: Record<string, number> = {
+  十: 10,
+  百: 100,
+  千: 1000,
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  兆: 1e12,
+  億: 1e8,
+  千万: 1e7,
+  百万: 1e6,
+  万: 1e4,
+  千: 1e3,
+  百: 1e2,
+};
+
+const UNITS: Record<string, QuantityUnit> = {
+  円: 'JPY',
+  株: 'shares',
+  '%': 'percent',
+  倍: 'times',
+  ポイント: 'points',
+  pt: 'points',
+};
+
+const NUMBER = String.raw`(?:\d+(?:,\d{3})*(?:\.\d+)?|[〇一二三四五六七八九十百千]+)`;
+const MULTIPLIER = '(?:兆|億|千万|百万|万|千|百)';
+/** 120, 1,200, 三百, 1兆2000億, 500百万, △30億 */
+const AMOUNT = `[△▲]?${NUMBER}(?:${MULTIPLIER}(?:${NUMBER}${MULTIPLIER})*)?`;
+const UNIT = '(?:円|株|%|倍|ポイント|pt)';
+
+/** 120億円, 100〜120億円, 100億円〜120億円 */
+const QUANTITY_PATTERN = new RegExp(
+  `(${AMOUNT})\\s*(${UNIT})?(?:\\s*[~〜]\\s*(${AMOUNT}))?\\s*(${UNIT})?`,
+  'g',
+);
+
+/** 120億円から150億円, 120→150億円 */
+const CHANGE_PATTERN = new RegExp(
+  `(${AMOUNT})\\s*(${UNIT})?\\s*(?:から|→|⇒|->)\\s*(${AMOUNT})\\s*(${UNIT})`,
+  'g',
+);
+
+/** 120億円を150億円に修正 (verb required, "を...に" is too common otherwise) */
+const CHANGE_WO_PATTERN = new RegExp(
+  `(${AMOUNT})\\s*(${UNIT})\\s*を\\s*(${AMOUNT})\\s*(${UNIT})\\s*に(?=\\s*(?:上方|下方|修正|引き?上げ|引き?下げ|増額|減額|変更))`,
+  'g',
+);
+
+/** Metrics that label the number following them */
+const LABEL_PATTERN =
+  /売上高|売上収益|営業収益|営業利益|営業益|経常利益|経常益|営業損益|経常損益|税引前利益|当期純利益|純損益|純利益|最終利益|最終益|年間配当|期末配当|中間配当|配当金|配当|EPS|取得総額|取得株式数|発行済株式|調達額|受注額|受注高|保有割合|出資比率|希薄化率/g;
+
+/** Text that ends a label's scope */
+const CLAUSE_BOUNDARY = /[、。,;｜|]/g;
+
+/**
+ * Parsed amount before the unit is applied
+ */
+interface Amount {
+  value: number;
+  /** Multiplier of the last digit group (万 = 1e4 in "3億5000万") */
+  lastMultiplier?: number;
+  /** Decimal places written in the last number */
+  decimals: number;
+}
+
+/**
+ * Normalize text for number extraction (full-width → half-width)
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC');
+}
+
+/**
+ * Parse a kanji numeral (三百, 二十五, 千二百, 二〇二五)
+ */
+function parseKanjiNumber(text: string): number {
+  if (![...text].some((c) => c in KANJI_PLACES)) {
+    return Number([...text].map((c) => KANJI_DIGITS[c]).join(''));
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const char of text) {
+    if (char in KANJI_DIGITS) {
+      current = current * 10 + KANJI_DIGITS[char];
+    } else {
+      total += (current || 1) * KANJI_PLACES[char];
+      current = 0;
+    }
+  }
+  return total + current;
+}
+
+/**
+ * Parse an amount ("1兆2000億", "三百", "1,200", "△30")
+ */
+function parseAmount(text: string): Amount {
+  const negative = /^[△▲]/.test(text);
+  const groups = new RegExp(`(${NUMBER})(${MULTIPLIER})?`, 'g');
+
+  let value = 0;
+  let lastMultiplier: number | undefined;
+  let decimals = 0;
+  for (const [, num, multiplier] of text.matchAll(groups)) {
+    const parsed = /\d/.test(num)
+      ? Number(num.replace(/,/g, ''))
+      : parseKanjiNumber(num);
+    lastMultiplier = multiplier ? MULTIPLIERS[multiplier] : undefined;
+    decimals = num.includes('.') ? num.split('.')[1].length : 0;
+    value += parsed * (lastMultiplier || 1);
+  }
+
+  return { value: negative ? -value : value, lastMultiplier, decimals };
+}
+
+/**
+ * Round to a number of decimal places
+ */
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Find the metric label in force at a position
+ * The nearest label after the last clause boundary is used.
+ */
+function findLabel(text: string, position: number): string | undefined {
+  const before = text.substring(0, position);
+  let start = 0;
+  for (const match of before.matchAll(CLAUSE_BOUNDARY)) {
+    start = (match.index ?? 0) + 1;
+  }
+
+  let label: string | undefined;
+  for (const match of before.substring(start).matchAll(LABEL_PATTERN)) {
+    label = match[0];
+  }
+  return label;
+}
+
+/**
+ * Whether a match starts inside a longer number ("1.2" in "11.2")
+ */
+function isPartOfNumber(text: string, index: number): boolean {
+  return /[\d.,]/.test(text[index - 1] || '');
+}
+
+/**
+ * Extract numbers with units from text
+ * Numbers without a unit (years, dates, codes) are ignored.
+ *
+ * @param text - Title, excerpt or summary
+ * @returns Quantities in order of appearance
+ */
+export function extractQuantities(text: string): ExtractedQuantity[] {
+  const normalized = normalizeText(text);
+  const quantities: ExtractedQuantity[] = [];
+
+  for (const match of normalized.matchAll(QUANTITY_PATTERN)) {
+    const [matched, first, firstUnit, second, secondUnit] = match;
+    const index = match.index ?? 0;
+    const unitText = secondUnit || firstUnit;
+    if (!unitText || isPartOfNumber(normalized, index)) continue;
+    // "100円〜120" without a closing unit is not a range
+    if (second && !secondUnit) continue;
+
+    const unit = UNITS[unitText];
+    const low = parseAmount(first);
+    let value = low.value;
+    let valueMax: number | undefined;
+
+    if (second) {
+      const high = parseAmount(second);
+      // "100〜120億円": the lower bound shares the upper bound's multiplier
+      if (!low.lastMultiplier && !firstUnit && high.lastMultiplier) {
+        value *= high.lastMultiplier;
+      }
+      valueMax = high.value;
+    }
+
+    quantities.push({
+      value,
+      valueMax,
+      unit,
+      text: matched.trim(),
+      label: findLabel(normalized, index),
+    });
+  }
+
+  return quantities;
+}
+
+/**
+ * Build a before/after pair from a change pattern match
+ */
+function toFigureChange(
+  normalized: string,
+  match: RegExpMatchArray,
+): FigureChange | null {
+  const [matched, first, firstUnit, second, secondUnit] = match;
+  const index = match.index ?? 0;
+  if (isPartOfNumber(normalized, index)) return null;
+  if (firstUnit && UNITS[firstUnit] !== UNITS[secondUnit]) return null;
+
+  const unit = UNITS[secondUnit];
+  const beforeAmount = parseAmount(first);
+  const afterAmount = parseAmount(second);
+  let beforeValue = beforeAmount.value;
+  // "120→150億円": the first number shares the second's multiplier
+  if (
+    !firstUnit &&
+    !beforeAmount.lastMultiplier &&
+    afterAmount.lastMultiplier
+  ) {
+    beforeValue *= afterAmount.lastMultiplier;
+  }
+
+  const label = findLabel(normalized, index);
+  const splitAt = matched.search(/から|→|⇒|->|を/);
+  const change = afterAmount.value - beforeValue;
+
+  return {
+    label,
+    before: {
+      value: beforeValue,
+      unit,
+      text: matched.substring(0, splitAt).trim(),
+      label,
+    },
+    after: {
+      value: afterAmount.value,
+      unit,
+      text: `${second}${secondUnit}`,
+      label,
+    },
+    change: unit === 'percent' || unit === 'points' ? round(change, 2) : change,
+    changePercent:
+      beforeValue !== 0
+        ? round((change / Math.abs(beforeValue)) * 100, 1)
+        : undefined,
+  };
+}
+
+/**
+ * Extract before/after figures from text
+ * - "営業利益を120億円から150億円に上方修正"
+ * - "配当 40円→50円", "120→150億円"
+ * - "150億円を180億円に引き上げ"
+ *
+ * @param text - Title or excerpt
+ * @returns Before/after pairs in order of appearance
+ */
+export function extractFigureChanges(text: string): FigureChange[] {
+  const normalized = normalizeText(text);
+  const changes: { index: number; change: FigureChange }[] = [];
+
+  for (const pattern of [CHANGE_PATTERN, CHANGE_WO_PATTERN]) {
+    for (const match of normalized.matchAll(pattern)) {
+      const change = toFigureChange(normalized, match);
+      if (change) changes.push({ index: match.index ?? 0, change });
+    }
+  }
+
+  return changes.sort((a, b) => a.index - b.index).map((c) => c.change);
+}
+
+/**
+ * Extract numbers that are not part of a quantity (years, counts...)
+ *
+ * @param text - Title, excerpt or summary
+ * @returns Digit strings without separators
+ */
+export function extractBareNumbers(text: string): string[] {
+  let remaining = normalizeText(text);
+  for (const quantity of extractQuantities(text)) {
+    remaining = remaining.replace(quantity.text, ' ');
+  }
+  const matches = remaining.match(/\d[\d,]*(?:\.\d+)?/g);
+  return (matches || []).map((m) => m.replace(/,/g, ''));
+}
+
+/**
+ * Rounding step implied by how a quantity was written
+ * "1.5兆円" → 0.1兆, "150億円" → 1億, "25%" → 1
+ *
+ * @param quantity - Extracted quantity
+ * @returns Step in base units
+ */
+export function getQuantityPrecision(quantity: ExtractedQuantity): number {
+  const amounts = quantity.text.match(new RegExp(AMOUNT, 'g')) || [];
+  const last = amounts[amounts.length - 1] || '';
+  const { lastMultiplier, decimals } = parseAmount(last);
+  return Math.pow(10, -decimals) * (lastMultiplier || 1);
+}
+
+/**
+ * Trim trailing zeros from a fixed-point number
+ */
+function trimNumber(value: number, digits: number): string {
+  return value
+    .toFixed(digits)
+    .replace(/(\.\d*?)0+$/, '$1')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Format a value in a unit for display
+ * Yen use 兆円/億円/百万円, shares 万株, as in disclosures.
+ *
+ * @param value - Value in base units
+ * @param unit - Unit
+ * @returns Display text (e.g., "150億円")
+ */
+export function formatQuantityValue(value: number, unit: QuantityUnit): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '△' : '';
+
+  switch (unit) {
+    case 'JPY':
+      if (abs >= 1e12) return `${sign}${trimNumber(abs / 1e12, 2)}兆円`;
+      if (abs >= 1e8) return `${sign}${trimNumber(abs / 1e8, 1)}億円`;
+      if (abs >= 1e6) return `${sign}${trimNumber(abs / 1e6, 0)}百万円`;
+      return `${sign}${trimNumber(abs, 2)}円`;
+    case 'shares':
+      if (abs >= 1e4) return `${sign}${trimNumber(abs / 1e4, 1)}万株`;
+      return `${sign}${trimNumber(abs, 0)}株`;
+    case 'percent':
+      return `${sign}${trimNumber(abs, 2)}%`;
+    case 'times':
+      return `${sign}${trimNumber(abs, 2)}倍`;
+    case 'points':
+      return `${sign}${trimNumber(abs, 2)}pt`;
+  }
+}
+
+/**
+ * Format a before/after pair for display
+ * e.g. "営業利益 120億円 → 150億円（+25%）"
+ *
+ * @param change - Before/after pair
+ * @returns Display text
+ */
+export function formatFigureChange(change: FigureChange): string {
+  const before = formatQuantityValue(change.before.value, change.before.unit);
+  const after = formatQuantityValue(change.after.value, change.after.unit);
+  const delta =
+    change.after.unit === 'percent' || change.after.unit === 'points'
+      ? `${change.change >= 0 ? '+' : ''}${trimNumber(change.change, 2)}pt`
+      : change.changePercent !== undefined
+        ? `${change.changePercent >= 0 ? '+' : ''}${trimNumber(change.changePercent, 1)}%`
+        : undefined;
+
+  const label = change.label ? `${change.label} ` : '';
+  return `${label}${before} → ${after}${delta ? `（${delta}）` : ''}`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Persistent Storage Utilities
+ *
+ * Thin JSON wrapper around AsyncStorage so services can persist state
+ * across app restarts without dealing with serialization themselves.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Storage key prefix (keeps app keys grouped in AsyncStorage)
+ */
+const KEY_PREFIX = '@bizstock/';
+
+/**
+ * Load and parse a JSON value
+ *
+ * @param key - Storage key (without prefix)
+ * @param fallback - Value returned when the key is missing or unreadable
+ * @returns Parsed value or fallback
+ */
+export async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(KEY_PREFIX + key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Failed to load ${key} from storage:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Load a raw stored string, for callers that parse and validate it
+ * themselves (unlike loadJSON, storage errors are thrown)
+ *
+ * @param key - Storage key (without prefix)
+ * @returns Stored string or null if missing
+ */
+export async function loadString(key: string): Promise<string | null> {
+  return AsyncStorage.getItem(KEY_PREFIX + key);
+}
+
+/**
+ * Serialize and store a JSON value
+ *
+ * @param key - Storage key (without prefix)
+ * @param value - Value to persist
+ */
+export async function saveJSON<T>(key: string, value: T): Promise<void> {
+  try {
+    await AsyncStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key} to storage:`, error);
+  }
+}
+
+/**
+ * Remove a stored value
+ *
+ * @param key - Storage key (without prefix)
+ */
+export async function removeItem(key: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(KEY_PREFIX + key);
+  } catch (error) {
+    console.warn(`Failed to remove ${key} from storage:`, error);
+  }
+}
+
+/**
+ * JSON value kept under one key: loaded from storage once per app
+ * session, then shared in memory (callers mutate it and save it back)
+ */
+export interface StoredValue<T> {
+  /** Get the value, loading it from storage on first use */
+  load(): Promise<T>;
+  /** Write the in-memory value back to storage */
+  save(): Promise<void>;
+  /** Reset the value and remove it from storage */
+  clear(): Promise<void>;
+}
+
+/**
+ * Create a lazily loaded stored value
+ *
+ * @param key - Storage key (without prefix)
+ * @param initial - Creates the value used when nothing is stored, and
+ *   after clear
+ * @returns Stored value
+ */
+export function createStoredValue<T>(
+  key: string,
+  initial: () => T,
+): StoredValue<T> {
+  let value: T | null = null;
+  let loading: Promise<T> | null = null;
+
+  return {
+    load() {
+      if (value !== null) return Promise.resolve(value);
+      if (!loading) {
+        loading = loadJSON<T>(key, initial()).then((loaded) => {
+          value = loaded;
+          loading = null;
+          return loaded;
+        });
+      }
+      return loading;
+    },
+    async save() {
+      if (value !== null) await saveJSON(key, value);
+    },
+    async clear() {
+      value = initial();
+      loading = null;
+      await removeItem(key);
+    },
+  };
+}
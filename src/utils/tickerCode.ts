@@ -0,0 +1,56 @@
+/**
+ * Ticker Code Utilities
+ *
+ * TSE securities codes are 4 characters:
+ * - Legacy codes: 4 digits (1000-9999)
+ * - Codes issued from 2024: letters allowed in the 2nd and 4th positions
+ *   (e.g., "130A"), excluding B, E, I, O, Q, V, Z (confusable with digits)
+ * Sources often append a check digit ("72030", "130A0"), and user input
+ * may be full-width or lowercase.
+ */
+
+/**
+ * Letters allowed in alphanumeric codes
+ */
+const CODE_LETTERS = 'ACDFGHJKLMNPRSTUWXY';
+
+/**
+ * Regex source for one code, for embedding in extraction patterns
+ */
+export const TICKER_CODE_SOURCE = `[1-9][0-9${CODE_LETTERS}][0-9][0-9${CODE_LETTERS}]`;
+
+const TICKER_CODE_PATTERN = new RegExp(`^${TICKER_CODE_SOURCE}$`);
+
+/**
+ * Whether a string is a canonical 4-character securities code
+ *
+ * @param code - Candidate code (already normalized)
+ * @returns True for codes like "7203" or "130A"
+ */
+export function isTickerCode(code: string): boolean {
+  return TICKER_CODE_PATTERN.test(code);
+}
+
+/**
+ * Normalize a securities code to its canonical 4-character form
+ * - Full-width → half-width, lowercase → uppercase
+ * - 5-character source codes drop the trailing "0" ("130A0" → "130A")
+ * - Market suffixes are removed ("7203.T" → "7203")
+ *
+ * @param code - Raw code from a source or user input
+ * @returns Canonical code, or null if the format is invalid
+ */
+export function normalizeTickerCode(code: string): string | null {
+  let cleaned = code
+    .normalize('NFKC')
+    .trim()
+    .toUpperCase()
+    .replace(/\.(T|JP)$/, '')
+    .replace(/\s/g, '');
+
+  if (cleaned.length === 5 && cleaned.endsWith('0')) {
+    cleaned = cleaned.substring(0, 4);
+  }
+
+  return isTickerCode(cleaned) ? cleaned : null;
+}